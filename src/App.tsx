@@ -31,6 +31,7 @@ import AnalyticsPage from './pages/AnalyticsPage';
 import AIAgentManagementPage from './pages/AIAgentManagementPage';
 import ArticlesManagementPage from './pages/ArticlesManagementPage';
 import ContentQueuePage from './pages/ContentQueuePage';
+import WorkflowApprovalsPage from './pages/WorkflowApprovalsPage';
 import ScrollToTop from './components/ScrollToTop'; // Add this import
 import { useGlobalTheme } from './hooks/useGlobalTheme';
 import ReportersManagementPage from '@/pages/ReportersManagementPage';
@@ -97,6 +98,7 @@ function AppContent() {
                 <Route path="/admin/ai-agents" element={<AIAgentManagementPage />} />
                 <Route path="/admin/articles" element={<ArticlesManagementPage />} />
                 <Route path="/admin/content-queue" element={<ContentQueuePage />} />
+                <Route path="/admin/workflow-approvals" element={<WorkflowApprovalsPage />} />
                 <Route path="/admin/categories" element={<CategoriesManagementPage />} />
             <Route path="/admin/embedding-queue" element={<EmbeddingQueuePage />} />
                 <Route path="/admin/reporters" element={<ProtectedRoute requireAdmin><AdminLayout><ReportersManagementPage /></AdminLayout></ProtectedRoute>} />
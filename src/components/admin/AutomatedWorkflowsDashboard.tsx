@@ -12,8 +12,14 @@ import {
   WorkflowRule, 
   WorkflowExecution 
 } from '@/services/automatedWorkflows';
+import { cancelWorkflowExecution, resumeWorkflowExecution } from '@/services/workflowExecution';
+import { isWorkflowRunCancelled } from '@/lib/workflow/cancellation';
+import { countRuleConditions } from '@/lib/workflow/ruleConditions';
+import { toast } from 'sonner';
 import WorkflowRuleEditor from './WorkflowRuleEditor';
 import WorkflowExecutionList from './WorkflowExecutionList';
+import WorkflowActionJobList from './WorkflowActionJobList';
+import IntegrationsPanel from './IntegrationsPanel';
 import { 
   Zap, 
   Plus, 
@@ -41,6 +47,11 @@ const AutomatedWorkflowsDashboard = () => {
     queryFn: () => AutomatedWorkflowService.getWorkflowExecutions(20),
   });
 
+  const { data: actionJobs = [] } = useQuery({
+    queryKey: ['workflow-action-jobs'],
+    queryFn: AutomatedWorkflowService.getPendingActionJobs,
+  });
+
   const toggleRuleMutation = useMutation({
     mutationFn: ({ ruleId, enabled }: { ruleId: string; enabled: boolean }) =>
       AutomatedWorkflowService.toggleWorkflowRule(ruleId, enabled),
@@ -56,6 +67,50 @@ const AutomatedWorkflowsDashboard = () => {
     },
   });
 
+  const resumeExecutionMutation = useMutation({
+    mutationFn: (executionId: string) => resumeWorkflowExecution(executionId),
+    onSuccess: ({ errors }) => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-executions'] });
+      if (errors.length > 0) {
+        toast.warning(`Resumed run finished with ${errors.length} failed step(s)`);
+      } else {
+        toast.success('Resumed run completed');
+      }
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-executions'] });
+      if (isWorkflowRunCancelled(error)) {
+        toast.info('Resumed run cancelled');
+      } else {
+        toast.error(`Failed to resume run: ${error.message}`);
+      }
+    },
+  });
+
+  const cancelExecutionMutation = useMutation({
+    mutationFn: cancelWorkflowExecution,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-executions'] });
+      toast.info('Cancelling the run. It stops before its next step.');
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-executions'] });
+      toast.error(`Failed to cancel run: ${error.message}`);
+    },
+  });
+
+  const cancelActionJobMutation = useMutation({
+    mutationFn: AutomatedWorkflowService.cancelActionJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-action-jobs'] });
+      toast.info('Scheduled action cancelled');
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-action-jobs'] });
+      toast.error(`Failed to cancel action: ${error.message}`);
+    },
+  });
+
   const handleToggleRule = (ruleId: string, enabled: boolean) => {
     toggleRuleMutation.mutate({ ruleId, enabled });
   };
@@ -160,6 +215,10 @@ const AutomatedWorkflowsDashboard = () => {
         <TabsList>
           <TabsTrigger value="rules">Workflow Rules</TabsTrigger>
           <TabsTrigger value="executions">Recent Executions</TabsTrigger>
+          <TabsTrigger value="scheduled">
+            Scheduled Actions{actionJobs.length > 0 && ` (${actionJobs.length})`}
+          </TabsTrigger>
+          <TabsTrigger value="integrations">Integrations</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
         </TabsList>
 
@@ -220,7 +279,7 @@ const AutomatedWorkflowsDashboard = () => {
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                       <div>
                         <p className="font-medium">Conditions</p>
-                        <p className="text-muted-foreground">{rule.conditions.length} conditions</p>
+                        <p className="text-muted-foreground">{countRuleConditions(rule.conditions)} conditions</p>
                       </div>
                       <div>
                         <p className="font-medium">Actions</p>
@@ -241,7 +300,24 @@ const AutomatedWorkflowsDashboard = () => {
         </TabsContent>
 
         <TabsContent value="executions" className="space-y-4">
-          <WorkflowExecutionList executions={executions} />
+          <WorkflowExecutionList
+            executions={executions}
+            onResume={(executionId) => resumeExecutionMutation.mutate(executionId)}
+            resumingId={resumeExecutionMutation.isPending ? resumeExecutionMutation.variables : null}
+            onCancel={(executionId) => cancelExecutionMutation.mutate(executionId)}
+          />
+        </TabsContent>
+
+        <TabsContent value="scheduled" className="space-y-4">
+          <WorkflowActionJobList
+            jobs={actionJobs}
+            onCancel={(jobId) => cancelActionJobMutation.mutate(jobId)}
+            cancellingId={cancelActionJobMutation.isPending ? cancelActionJobMutation.variables : null}
+          />
+        </TabsContent>
+
+        <TabsContent value="integrations" className="space-y-4">
+          <IntegrationsPanel />
         </TabsContent>
 
         <TabsContent value="analytics" className="space-y-4">
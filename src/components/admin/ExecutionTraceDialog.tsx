@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ListTree } from 'lucide-react';
+import {
+  ChildWorkflowExecution,
+  WorkflowNodeRun,
+  fetchChildExecutions,
+  fetchExecutionNodeRuns
+} from '@/services/workflowExecution';
+import { formatCost } from '@/lib/workflow/usage';
+
+interface ExecutionTraceDialogProps {
+  executionId: string | null;
+  title: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null || ms === undefined) return '-';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+const getBarColor = (run: WorkflowNodeRun) => {
+  if (run.reused) return 'bg-gray-400';
+  return run.status === 'failed' ? 'bg-red-500' : 'bg-green-500';
+};
+
+const JsonBlock = ({ label, value }: { label: string; value: unknown }) => (
+  <div className="min-w-0 space-y-1">
+    <p className="text-sm font-medium">{label}</p>
+    <pre className="max-h-64 overflow-auto rounded bg-muted p-2 text-xs">
+      {value === null || value === undefined ? 'null' : JSON.stringify(value, null, 2)}
+    </pre>
+  </div>
+);
+
+// Timeline and per-node details of a recorded run, built from workflow_node_runs
+const ExecutionTraceDialog = ({ executionId, title, onOpenChange }: ExecutionTraceDialogProps) => {
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [tracedChild, setTracedChild] = useState<ChildWorkflowExecution | null>(null);
+
+  const { data: runs = [], isLoading } = useQuery({
+    queryKey: ['workflow-node-runs', executionId],
+    queryFn: () => fetchExecutionNodeRuns(executionId!),
+    enabled: !!executionId,
+  });
+
+  const { data: childRuns = [] } = useQuery({
+    queryKey: ['workflow-child-executions', executionId],
+    queryFn: () => fetchChildExecutions(executionId!),
+    enabled: !!executionId,
+  });
+
+  const timed = runs.filter(run => run.started_at && run.finished_at);
+  const origin = timed.length > 0 ? Math.min(...timed.map(run => new Date(run.started_at!).getTime())) : 0;
+  const end = timed.length > 0 ? Math.max(...timed.map(run => new Date(run.finished_at!).getTime())) : 0;
+  const span = Math.max(end - origin, 1);
+  const selectedRun = runs.find(run => run.id === selectedRunId);
+  const totalCost = runs.reduce((sum, run) => sum + (Number(run.cost_usd) || 0), 0);
+  const selectedChildRuns = selectedRun ? childRuns.filter(child => child.parent_node_id === selectedRun.node_id) : [];
+
+  return (
+    <Dialog
+      open={!!executionId}
+      onOpenChange={(open) => {
+        if (!open) setSelectedRunId(null);
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Run Trace: {title}</DialogTitle>
+          <DialogDescription>
+            {runs.length > 0
+              ? `${runs.length} node run(s) over ${formatDuration(end - origin)}, ${formatCost(totalCost)} in AI calls. Select a row to see what the node received and produced.`
+              : 'Every node run of this execution with its input, output and timing.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[70vh] overflow-y-auto space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading trace...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No node runs were recorded for this execution. Runs started before tracing was added have no trace.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Node</TableHead>
+                  <TableHead>Branch</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>AI Cost</TableHead>
+                  <TableHead className="w-2/5">Timeline</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => {
+                  const start = run.started_at ? new Date(run.started_at).getTime() - origin : 0;
+                  const duration = run.duration_ms || 0;
+                  return (
+                    <TableRow
+                      key={run.id}
+                      onClick={() => setSelectedRunId(run.id === selectedRunId ? null : run.id)}
+                      className={`cursor-pointer ${run.id === selectedRunId ? 'bg-muted' : ''}`}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{run.node_label || run.node_id}</div>
+                        <div className="text-xs text-muted-foreground">{run.node_type}</div>
+                      </TableCell>
+                      <TableCell>{run.branch_path || '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant={run.status === 'failed' ? 'destructive' : 'secondary'}>{run.status}</Badge>
+                          {run.reused && <Badge variant="outline">reused</Badge>}
+                          {run.attempts > 1 && <Badge variant="outline">{run.attempts} attempts</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatDuration(run.duration_ms)}</TableCell>
+                      <TableCell title={`${run.input_tokens || 0} input / ${run.output_tokens || 0} output tokens`}>
+                        {Number(run.cost_usd) > 0 ? formatCost(Number(run.cost_usd)) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="relative h-3 rounded bg-muted">
+                          <div
+                            className={`absolute h-3 rounded ${getBarColor(run)}`}
+                            style={{
+                              left: `${(start / span) * 100}%`,
+                              width: `${Math.max((duration / span) * 100, 0.5)}%`
+                            }}
+                            title={`${formatDuration(start)} → ${formatDuration(start + duration)}`}
+                          />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {selectedRun && (
+            <div className="space-y-3 rounded border p-3">
+              <p className="font-medium">
+                {selectedRun.node_label || selectedRun.node_id}
+                {selectedRun.branch_path && ` (branch ${selectedRun.branch_path})`}
+              </p>
+              {selectedRun.error_message && (
+                <p className="text-sm text-red-700">Error: {selectedRun.error_message}</p>
+              )}
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                <JsonBlock label="Input" value={selectedRun.input} />
+                <JsonBlock label="Output" value={selectedRun.output} />
+              </div>
+              {selectedChildRuns.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Sub-workflow Runs</p>
+                  {selectedChildRuns.map((child) => (
+                    <div key={child.id} className="flex items-center justify-between gap-2 rounded bg-muted p-2 text-sm">
+                      <span>
+                        {child.workflows?.name || 'Deleted workflow'} · {new Date(child.started_at).toLocaleString()}
+                        {Number(child.cost_usd) > 0 && ` · ${formatCost(Number(child.cost_usd))}`}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={child.status === 'failed' ? 'destructive' : 'secondary'}>{child.status}</Badge>
+                        <Button size="sm" variant="outline" onClick={() => setTracedChild(child)} className="flex items-center gap-1">
+                          <ListTree className="h-3 w-3" />
+                          Trace
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+
+      {tracedChild && (
+        <ExecutionTraceDialog
+          executionId={tracedChild.id}
+          title={tracedChild.workflows?.name || 'Sub-workflow'}
+          onOpenChange={(open) => !open && setTracedChild(null)}
+        />
+      )}
+    </Dialog>
+  );
+};
+
+export default ExecutionTraceDialog;
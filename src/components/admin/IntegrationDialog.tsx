@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  createIntegration,
+  ExternalIntegration,
+  rotateIntegrationSecret,
+  updateIntegration
+} from '@/services/workflowAutomation';
+import { getIntegrationUrl, INTEGRATION_EVENTS } from '@/lib/workflow/outboundWebhooks';
+import { Copy, Eye, EyeOff, RefreshCw, Save } from 'lucide-react';
+
+interface IntegrationDialogProps {
+  integration?: ExternalIntegration | null;
+  onClose: () => void;
+}
+
+type DeliverableType = 'webhook' | 'slack' | 'zapier';
+
+const copyToClipboard = async (text: string, label: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success(`${label} copied`);
+  } catch (error) {
+    toast.error(`Could not copy ${label.toLowerCase()}`);
+  }
+};
+
+// Create or edit an outbound integration: where to send, which events, and its signing secret
+const IntegrationDialog = ({ integration, onClose }: IntegrationDialogProps) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(integration?.name || '');
+  const [type, setType] = useState<DeliverableType>((integration?.type as DeliverableType) || 'webhook');
+  const [url, setUrl] = useState(integration ? getIntegrationUrl(integration) || '' : '');
+  const [eventTypes, setEventTypes] = useState<string[]>(integration?.event_types || []);
+  const [secret, setSecret] = useState(integration?.secret || '');
+  const [showSecret, setShowSecret] = useState(false);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      // Slack keeps its incoming webhook URL under webhook_url, as existing integrations do
+      const config = type === 'slack'
+        ? { ...integration?.config, url: undefined, webhook_url: url.trim() }
+        : { ...integration?.config, webhook_url: undefined, url: url.trim() };
+      const fields = { name: name.trim(), type, config, event_types: eventTypes };
+      return integration
+        ? updateIntegration(integration.id, fields)
+        : createIntegration({ ...fields, enabled: true });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['external-integrations'] });
+      toast.success('Integration saved');
+      onClose();
+    },
+    onError: (error: Error) => toast.error(`Failed to save integration: ${error.message}`),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: () => rotateIntegrationSecret(integration!.id),
+    onSuccess: (newSecret) => {
+      setSecret(newSecret);
+      queryClient.invalidateQueries({ queryKey: ['external-integrations'] });
+      toast.success('Secret rotated. Update every receiver that checks signatures.');
+    },
+    onError: (error: Error) => toast.error(`Failed to rotate secret: ${error.message}`),
+  });
+
+  const toggleEvent = (eventType: string, checked: boolean) => {
+    setEventTypes(checked ? [...eventTypes, eventType] : eventTypes.filter(type => type !== eventType));
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error('Please enter an integration name');
+      return;
+    }
+    try {
+      new URL(url.trim());
+    } catch {
+      toast.error('Please enter a valid URL');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{integration ? 'Edit Integration' : 'Add Integration'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="integration-name">Name</Label>
+              <Input
+                id="integration-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Editorial Slack"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value: DeliverableType) => setType(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="webhook">Webhook</SelectItem>
+                  <SelectItem value="slack">Slack</SelectItem>
+                  <SelectItem value="zapier">Zapier</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="integration-url">{type === 'slack' ? 'Slack Incoming Webhook URL' : 'Endpoint URL'}</Label>
+            <Input
+              id="integration-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder={type === 'slack' ? 'https://hooks.slack.com/services/...' : 'https://example.com/webhooks/tooth-tech'}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Events</Label>
+            {INTEGRATION_EVENTS.map(event => (
+              <div key={event.type} className="flex items-start gap-2">
+                <Checkbox
+                  id={`integration-event-${event.type}`}
+                  checked={eventTypes.includes(event.type)}
+                  onCheckedChange={(checked) => toggleEvent(event.type, checked === true)}
+                />
+                <Label htmlFor={`integration-event-${event.type}`} className="font-normal leading-tight">
+                  {event.label}
+                  <span className="block text-xs text-muted-foreground">{event.description}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          {integration && type !== 'slack' && (
+            <div className="space-y-2">
+              <Label>Signing Secret</Label>
+              <div className="flex gap-1">
+                <Input readOnly type={showSecret ? 'text' : 'password'} value={secret} className="font-mono text-xs" />
+                <Button size="icon" variant="outline" onClick={() => setShowSecret(!showSecret)}>
+                  {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+                <Button size="icon" variant="outline" onClick={() => copyToClipboard(secret, 'Secret')}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => rotateMutation.mutate()}
+                  disabled={rotateMutation.isPending}
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Each delivery carries <code>X-Webhook-Signature: sha256=&lt;hex&gt;</code>, the HMAC-SHA256 of
+                <code>&lt;X-Webhook-Timestamp&gt;.&lt;raw body&gt;</code> with this secret, plus
+                <code>X-Webhook-Event</code> and <code>X-Webhook-Delivery</code> headers. Reject old timestamps to
+                stop replays.
+              </p>
+            </div>
+          )}
+
+          {!integration && type !== 'slack' && (
+            <p className="text-xs text-muted-foreground">
+              A signing secret is generated when the integration is saved. Edit it afterwards to copy the secret.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              {saveMutation.isPending ? 'Saving...' : 'Save Integration'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IntegrationDialog;
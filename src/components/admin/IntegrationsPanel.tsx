@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  deleteIntegration,
+  ExternalIntegration,
+  getIntegrationDeliveries,
+  getIntegrations,
+  IntegrationDeliveryLog,
+  replayIntegrationDelivery,
+  testIntegration,
+  updateIntegration
+} from '@/services/workflowAutomation';
+import { getIntegrationEventLabel, getIntegrationUrl } from '@/lib/workflow/outboundWebhooks';
+import IntegrationDialog from './IntegrationDialog';
+import { CheckCircle, Clock, ExternalLink, Loader, Plus, RotateCcw, Send, Settings, Trash2, XCircle } from 'lucide-react';
+
+const getDeliveryStatusIcon = (status: IntegrationDeliveryLog['status']) => {
+  switch (status) {
+    case 'succeeded':
+      return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-600" />;
+    case 'delivering':
+      return <Loader className="h-4 w-4 text-blue-600 animate-spin" />;
+    default:
+      return <Clock className="h-4 w-4 text-yellow-600" />;
+  }
+};
+
+const getDeliveryStatusColor = (status: IntegrationDeliveryLog['status']) => {
+  switch (status) {
+    case 'succeeded':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    case 'delivering':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+// Outbound integrations and the log of what was sent to them
+const IntegrationsPanel = () => {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ExternalIntegration | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const { data: integrations = [], isLoading } = useQuery({
+    queryKey: ['external-integrations'],
+    queryFn: getIntegrations,
+  });
+
+  const { data: deliveries = [] } = useQuery({
+    queryKey: ['integration-deliveries'],
+    queryFn: () => getIntegrationDeliveries(undefined, 50),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: string; enabled: boolean }) => updateIntegration(id, { enabled }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['external-integrations'] }),
+    onError: (error: Error) => toast.error(`Failed to update integration: ${error.message}`),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: testIntegration,
+    onSuccess: ({ success, message }) => {
+      queryClient.invalidateQueries({ queryKey: ['integration-deliveries'] });
+      if (success) {
+        toast.success(message);
+      } else {
+        toast.error(message);
+      }
+    },
+    onError: (error: Error) => toast.error(`Failed to test integration: ${error.message}`),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteIntegration,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['external-integrations'] });
+      queryClient.invalidateQueries({ queryKey: ['integration-deliveries'] });
+    },
+    onError: (error: Error) => toast.error(`Failed to delete integration: ${error.message}`),
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: replayIntegrationDelivery,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['integration-deliveries'] });
+      toast.success('Delivery queued again');
+    },
+    onError: (error: Error) => toast.error(`Failed to replay delivery: ${error.message}`),
+  });
+
+  const openDialog = (integration: ExternalIntegration | null) => {
+    setEditing(integration);
+    setShowDialog(true);
+  };
+
+  const handleDelete = (integration: ExternalIntegration) => {
+    if (confirm(`Delete "${integration.name}" and its delivery log?`)) {
+      deleteMutation.mutate(integration.id);
+    }
+  };
+
+  if (isLoading) {
+    return <div>Loading integrations...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>External Integrations</CardTitle>
+              <CardDescription>
+                Send signed webhooks to other services when articles are published, runs fail or agents make suggestions
+              </CardDescription>
+            </div>
+            <Button onClick={() => openDialog(null)} size="sm">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Integration
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {integrations.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">
+              No integrations yet. Add one to start sending events.
+            </p>
+          ) : (
+            integrations.map(integration => (
+              <div key={integration.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h4 className="font-medium">{integration.name}</h4>
+                    <Badge variant="outline" className="capitalize">{integration.type}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
+                    <ExternalLink className="h-3 w-3" />
+                    {getIntegrationUrl(integration) || 'No URL'}
+                  </p>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {integration.event_types.length === 0 ? (
+                      <span className="text-xs text-muted-foreground">Not subscribed to any events</span>
+                    ) : (
+                      integration.event_types.map(eventType => (
+                        <Badge key={eventType} variant="secondary">{getIntegrationEventLabel(eventType)}</Badge>
+                      ))
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {integration.success_count} delivered, {integration.error_count} failed
+                    {integration.last_used && ` · Last delivery ${new Date(integration.last_used).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={integration.enabled}
+                    onCheckedChange={(enabled) => toggleMutation.mutate({ id: integration.id, enabled })}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => testMutation.mutate(integration.id)}
+                    disabled={testMutation.isPending || !integration.enabled}
+                    className="flex items-center gap-1"
+                  >
+                    <Send className="h-3 w-3" />
+                    Test
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => openDialog(integration)}>
+                    <Settings className="h-3 w-3" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(integration)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery Log</CardTitle>
+          <CardDescription>
+            The latest deliveries. Failed ones are retried with growing delays; replay sends any of them again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {deliveries.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">Nothing has been sent yet.</p>
+          ) : (
+            deliveries.map(delivery => (
+              <div key={delivery.id} className="p-3 border rounded-lg text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline" className={getDeliveryStatusColor(delivery.status)}>
+                      {getDeliveryStatusIcon(delivery.status)}
+                      <span className="ml-1 capitalize">{delivery.status}</span>
+                    </Badge>
+                    <span className="font-medium">{getIntegrationEventLabel(delivery.event_type)}</span>
+                    <span className="text-muted-foreground truncate">
+                      to {delivery.external_integrations?.name || 'deleted integration'}
+                    </span>
+                    {delivery.replay_of && <Badge variant="secondary">Replay</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(delivery.created_at).toLocaleString()}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => replayMutation.mutate(delivery.id)}
+                      disabled={replayMutation.isPending || delivery.status === 'pending' || delivery.status === 'delivering'}
+                      className="flex items-center gap-1"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      Replay
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                  {delivery.last_status_code && ` · HTTP ${delivery.last_status_code}`}
+                  {delivery.status === 'pending' && delivery.attempts > 0 &&
+                    ` · Next attempt ${new Date(delivery.next_attempt_at).toLocaleString()}`}
+                </p>
+                {delivery.last_error && (
+                  <p className="text-xs text-red-700 mt-1 break-all">{delivery.last_error}</p>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {showDialog && (
+        <IntegrationDialog
+          integration={editing}
+          onClose={() => {
+            setShowDialog(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default IntegrationsPanel;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AutomatedWorkflowService, WorkflowAction } from '@/services/automatedWorkflows';
+import { RuleConditionGroup, validateRuleConditions } from '@/lib/workflow/ruleConditions';
+import type { RuleBacktestReport } from '@/lib/workflow/ruleBacktest';
+import { FlaskConical } from 'lucide-react';
+
+interface RuleBacktestPanelProps {
+  conditions: RuleConditionGroup;
+  actions: WorkflowAction[];
+}
+
+// How many of the rule's wrong calls to list
+const MAX_LISTED_REJECTIONS = 5;
+
+const Stat = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div>
+    <p className="font-medium">{value}</p>
+    <p className="text-muted-foreground">{label}</p>
+  </div>
+);
+
+// Replays the rule as currently edited over past suggestions, so it can be checked before it is enabled
+const RuleBacktestPanel = ({ conditions, actions }: RuleBacktestPanelProps) => {
+  const [days, setDays] = useState('90');
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<RuleBacktestReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runBacktest = async () => {
+    const conditionErrors = validateRuleConditions(conditions);
+    if (conditionErrors.length > 0) {
+      setError(conditionErrors.join('. '));
+      return;
+    }
+
+    setRunning(true);
+    setError(null);
+    try {
+      setReport(await AutomatedWorkflowService.backtestWorkflowRule({ conditions, actions }, { days: parseInt(days) }));
+    } catch (err) {
+      console.error('Error backtesting workflow rule:', err);
+      setError(`Failed to backtest the rule: ${(err as Error).message}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const wrongCalls = report?.results.filter(result => result.wouldApprove && result.verdict === 'rejected') || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Backtest</CardTitle>
+            <CardDescription>
+              See what this rule would have done with past suggestions, compared with what admins decided
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="365">Last year</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={runBacktest} size="sm" variant="outline" disabled={running}>
+              <FlaskConical className="h-4 w-4 mr-2" />
+              {running ? 'Running...' : 'Run Backtest'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      {(report || error) && (
+        <CardContent className="space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {report && !error && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <Stat label="Suggestions replayed" value={report.evaluated} />
+                <Stat label="Matched the conditions" value={report.matched} />
+                <Stat label="Would have approved" value={report.approves ? report.wouldApprove : 'n/a'} />
+                <Stat
+                  label="Precision"
+                  value={report.precision === null ? 'n/a' : `${(report.precision * 100).toFixed(1)}%`}
+                />
+              </div>
+
+              {report.approves ? (
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline" className="bg-green-100 text-green-800">{report.confirmed} approved by admins</Badge>
+                  <Badge variant="outline" className="bg-red-100 text-red-800">{report.rejected} rejected by admins</Badge>
+                  <Badge variant="outline">{report.unreviewed} never reviewed</Badge>
+                  {report.preempted > 0 && (
+                    <Badge variant="outline">{report.preempted} reviewed before the delay ran out</Badge>
+                  )}
+                  <Badge variant="outline">{report.missed} admin approvals not matched</Badge>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  This rule does not approve or implement suggestions, so there is no precision to measure.
+                </p>
+              )}
+
+              {wrongCalls.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">Would have approved, but admins rejected:</p>
+                  {wrongCalls.slice(0, MAX_LISTED_REJECTIONS).map(result => (
+                    <p key={result.suggestionId} className="text-muted-foreground">
+                      {result.title || 'Untitled'}
+                      {result.createdAt && ` (${new Date(result.createdAt).toLocaleDateString()})`}
+                    </p>
+                  ))}
+                  {wrongCalls.length > MAX_LISTED_REJECTIONS && (
+                    <p className="text-muted-foreground">and {wrongCalls.length - MAX_LISTED_REJECTIONS} more</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default RuleBacktestPanel;
@@ -0,0 +1,221 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  createRuleGroup,
+  isDateOperator,
+  RULE_CONDITION_FIELDS,
+  RULE_GROUP_LABELS,
+  RULE_OPERATOR_LABELS,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionOperator,
+  RuleFieldCondition,
+  RuleTimeUnit,
+} from '@/lib/workflow/ruleConditions';
+import { FolderPlus, Plus, X } from 'lucide-react';
+
+const CUSTOM_FIELD = '__custom';
+
+const VALUE_OPERATORS: RuleConditionOperator[] = [
+  'equals', 'not_equals', 'greater_than', 'greater_or_equal', 'less_than', 'less_or_equal', 'contains', 'matches', 'exists',
+];
+const DATE_OPERATORS: RuleConditionOperator[] = ['older_than', 'newer_than'];
+const TIME_UNITS: RuleTimeUnit[] = ['minutes', 'hours', 'days', 'weeks'];
+
+const isKnownField = (field: string) => RULE_CONDITION_FIELDS.some(option => option.field === field);
+
+// Fields under suggestion_data could hold anything, so they can be compared either way
+const getOperators = (field: string) => {
+  const known = RULE_CONDITION_FIELDS.find(option => option.field === field);
+  if (!known) return [...VALUE_OPERATORS, ...DATE_OPERATORS];
+  return known.date ? [...DATE_OPERATORS, 'exists' as const] : VALUE_OPERATORS;
+};
+
+interface FieldConditionRowProps {
+  condition: RuleFieldCondition;
+  onChange: (condition: RuleFieldCondition) => void;
+  onRemove: () => void;
+}
+
+const FieldConditionRow = ({ condition, onChange, onRemove }: FieldConditionRowProps) => {
+  const custom = !isKnownField(condition.field);
+  const operators = getOperators(condition.field);
+
+  const changeField = (field: string) => {
+    const next = field === CUSTOM_FIELD ? 'suggestion_data.' : field;
+    const nextOperators = getOperators(next);
+    onChange({
+      ...condition,
+      field: next,
+      operator: nextOperators.includes(condition.operator) ? condition.operator : nextOperators[0],
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 grid grid-cols-3 gap-2">
+        <div className="space-y-2">
+          <Select value={custom ? CUSTOM_FIELD : condition.field} onValueChange={changeField}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_CONDITION_FIELDS.map(option => (
+                <SelectItem key={option.field} value={option.field}>{option.label}</SelectItem>
+              ))}
+              <SelectItem value={CUSTOM_FIELD}>Suggestion data field...</SelectItem>
+            </SelectContent>
+          </Select>
+          {custom && (
+            <Input
+              value={condition.field}
+              onChange={(e) => onChange({ ...condition, field: e.target.value.trim() })}
+              placeholder="suggestion_data.seo.score"
+            />
+          )}
+        </div>
+
+        <Select
+          value={condition.operator}
+          onValueChange={(value: RuleConditionOperator) => onChange({ ...condition, operator: value })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operators.map(operator => (
+              <SelectItem key={operator} value={operator}>{RULE_OPERATOR_LABELS[operator]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isDateOperator(condition.operator) ? (
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={condition.value ?? ''}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+              placeholder="3"
+            />
+            <Select
+              value={condition.unit || 'days'}
+              onValueChange={(value: RuleTimeUnit) => onChange({ ...condition, unit: value })}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIME_UNITS.map(unit => (
+                  <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : condition.operator !== 'exists' && (
+          <Input
+            value={condition.value ?? ''}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder={condition.operator === 'matches' ? 'Pattern, e.g. ^seo' : 'Value'}
+          />
+        )}
+      </div>
+      <Button variant="outline" size="sm" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+interface RuleConditionEditorProps {
+  group: RuleConditionGroup;
+  onChange: (group: RuleConditionGroup) => void;
+  // Nested groups can be removed; the top-level group cannot
+  onRemove?: () => void;
+}
+
+// Edits a group of conditions and, recursively, the groups nested in it
+const RuleConditionEditor = ({ group, onChange, onRemove }: RuleConditionEditorProps) => {
+  const updateChild = (index: number, child: RuleCondition) => {
+    onChange({ ...group, children: group.children.map((existing, i) => (i === index ? child : existing)) });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  };
+
+  const addCondition = () => {
+    onChange({
+      ...group,
+      children: [...group.children, { kind: 'condition', field: 'confidence_score', operator: 'greater_than', value: '0.8' }],
+    });
+  };
+
+  const addGroup = () => {
+    onChange({ ...group, children: [...group.children, createRuleGroup(group.operator === 'or' ? 'and' : 'or')] });
+  };
+
+  return (
+    <div className={onRemove ? 'space-y-3 border-l-2 border-muted pl-4' : 'space-y-3'}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.operator}
+          onValueChange={(value: RuleConditionGroup['operator']) => onChange({ ...group, operator: value })}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(RULE_GROUP_LABELS).map(([operator, label]) => (
+              <SelectItem key={operator} value={operator}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">these conditions</span>
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" onClick={addCondition}>
+            <Plus className="h-4 w-4 mr-1" />
+            Condition
+          </Button>
+          <Button variant="outline" size="sm" onClick={addGroup}>
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Group
+          </Button>
+          {onRemove && (
+            <Button variant="outline" size="sm" onClick={onRemove}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {group.children.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-2">
+          No conditions in this group yet.
+        </p>
+      ) : (
+        group.children.map((child, index) => (
+          child.kind === 'group' ? (
+            <RuleConditionEditor
+              key={index}
+              group={child}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          ) : (
+            <FieldConditionRow
+              key={index}
+              condition={child}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          )
+        ))
+      )}
+    </div>
+  );
+};
+
+export default RuleConditionEditor;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { WorkflowActionJob } from '@/services/automatedWorkflows';
+import { WORKFLOW_ACTION_LABELS } from '@/lib/workflow/ruleActions';
+import { CalendarClock, Loader, Square } from 'lucide-react';
+
+interface WorkflowActionJobListProps {
+  jobs: WorkflowActionJob[];
+  onCancel: (jobId: string) => void;
+  cancellingId?: string | null;
+}
+
+const WorkflowActionJobList = ({ jobs, onCancel, cancellingId }: WorkflowActionJobListProps) => {
+  if (jobs.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-center py-8">
+            <CalendarClock className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium mb-2">No Scheduled Actions</h3>
+            <p className="text-muted-foreground">
+              Rule actions with a delay or a weekly time wait here until they run
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {jobs.map(job => (
+        <Card key={job.id}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">
+                {WORKFLOW_ACTION_LABELS[job.action_type] || job.action_type}
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  {job.workflow_rules?.name || 'Unknown Rule'}
+                </span>
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                {job.status === 'pending' ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onCancel(job.id)}
+                    disabled={!!cancellingId}
+                    className="flex items-center gap-1"
+                  >
+                    <Square className="h-3 w-3" />
+                    {cancellingId === job.id ? 'Cancelling...' : 'Cancel'}
+                  </Button>
+                ) : (
+                  <Badge variant="outline" className="bg-blue-100 text-blue-800">
+                    <Loader className="h-4 w-4 text-blue-600 animate-spin" />
+                    <span className="ml-1">Running</span>
+                  </Badge>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="font-medium">Suggestion</p>
+                <p className="text-muted-foreground">
+                  {job.ai_suggestions?.title || 'N/A'}
+                  {job.ai_suggestions?.status && (
+                    <span className="capitalize"> ({job.ai_suggestions.status})</span>
+                  )}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Runs At</p>
+                <p className="text-muted-foreground">
+                  {new Date(job.run_at).toLocaleString()}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Scheduled At</p>
+                <p className="text-muted-foreground">
+                  {new Date(job.created_at).toLocaleString()}
+                </p>
+              </div>
+            </div>
+
+            {job.error_message && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-800 font-medium">Last attempt failed ({job.attempts} so far):</p>
+                <p className="text-sm text-red-700">{job.error_message}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default WorkflowActionJobList;
@@ -1,15 +1,29 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { WorkflowExecution } from '@/services/automatedWorkflows';
-import { CheckCircle, XCircle, Clock, Loader } from 'lucide-react';
+import { canResumeExecution } from '@/services/workflowExecution';
+import { formatCost } from '@/lib/workflow/usage';
+import type { WorkflowNodeUsage } from '@/lib/workflow/types';
+import { CheckCircle, XCircle, Clock, Loader, RotateCcw, ListTree, UserCheck, Square, Ban } from 'lucide-react';
+import ExecutionTraceDialog from './ExecutionTraceDialog';
 
 interface WorkflowExecutionListProps {
   executions: WorkflowExecution[];
+  onResume?: (executionId: string) => void;
+  resumingId?: string | null;
+  onCancel?: (executionId: string) => void;
 }
 
-const WorkflowExecutionList = ({ executions }: WorkflowExecutionListProps) => {
+// Runs that a process is still working on. Sub-workflow runs stop with the run that started them.
+const canCancelExecution = (execution: WorkflowExecution) =>
+  ['pending', 'executing', 'running'].includes(execution.status) && !execution.parent_execution_id;
+
+const WorkflowExecutionList = ({ executions, onResume, resumingId, onCancel }: WorkflowExecutionListProps) => {
+  const [tracedExecution, setTracedExecution] = useState<WorkflowExecution | null>(null);
+
   const getStatusIcon = (status: WorkflowExecution['status']) => {
     switch (status) {
       case 'completed':
@@ -17,9 +31,14 @@ const WorkflowExecutionList = ({ executions }: WorkflowExecutionListProps) => {
       case 'failed':
         return <XCircle className="h-4 w-4 text-red-600" />;
       case 'executing':
+      case 'running':
         return <Loader className="h-4 w-4 text-blue-600 animate-spin" />;
       case 'pending':
         return <Clock className="h-4 w-4 text-yellow-600" />;
+      case 'waiting':
+        return <UserCheck className="h-4 w-4 text-amber-600" />;
+      case 'cancelled':
+        return <Ban className="h-4 w-4 text-gray-600" />;
       default:
         return null;
     }
@@ -32,9 +51,12 @@ const WorkflowExecutionList = ({ executions }: WorkflowExecutionListProps) => {
       case 'failed':
         return 'bg-red-100 text-red-800';
       case 'executing':
+      case 'running':
         return 'bg-blue-100 text-blue-800';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
+      case 'waiting':
+        return 'bg-amber-100 text-amber-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -63,16 +85,69 @@ const WorkflowExecutionList = ({ executions }: WorkflowExecutionListProps) => {
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
               <CardTitle className="text-base">
-                {execution.workflow_rules?.name || 'Unknown Rule'}
+                {execution.workflow_rules?.name || execution.workflows?.name || 'Unknown Rule'}
+                {execution.trigger_type === 'schedule' && (
+                  <Badge variant="secondary" className="ml-2">Scheduled</Badge>
+                )}
+                {execution.trigger_type === 'webhook' && (
+                  <Badge variant="secondary" className="ml-2">Webhook</Badge>
+                )}
+                {execution.trigger_type === 'event' && (
+                  <Badge variant="secondary" className="ml-2">Event</Badge>
+                )}
+                {execution.trigger_type === 'approval' && (
+                  <Badge variant="secondary" className="ml-2">Approved Item</Badge>
+                )}
+                {execution.parent_execution_id && (
+                  <Badge variant="secondary" className="ml-2">Sub-workflow</Badge>
+                )}
+                {execution.resumed_from && (
+                  <Badge variant="secondary" className="ml-2">Resumed</Badge>
+                )}
               </CardTitle>
-              <Badge variant="outline" className={getStatusColor(execution.status)}>
-                {getStatusIcon(execution.status)}
-                <span className="ml-1 capitalize">{execution.status}</span>
-              </Badge>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setTracedExecution(execution)}
+                  className="flex items-center gap-1"
+                >
+                  <ListTree className="h-3 w-3" />
+                  Trace
+                </Button>
+                {onCancel && canCancelExecution(execution) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onCancel(execution.id)}
+                    disabled={!!execution.cancel_requested_at}
+                    className="flex items-center gap-1"
+                  >
+                    <Square className="h-3 w-3" />
+                    {execution.cancel_requested_at ? 'Cancelling...' : 'Cancel'}
+                  </Button>
+                )}
+                {onResume && canResumeExecution(execution) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onResume(execution.id)}
+                    disabled={!!resumingId}
+                    className="flex items-center gap-1"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    {resumingId === execution.id ? 'Resuming...' : 'Resume'}
+                  </Button>
+                )}
+                <Badge variant="outline" className={getStatusColor(execution.status)}>
+                  {getStatusIcon(execution.status)}
+                  <span className="ml-1 capitalize">{execution.status}</span>
+                </Badge>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
               <div>
                 <p className="font-medium">Suggestion</p>
                 <p className="text-muted-foreground">
@@ -97,8 +172,26 @@ const WorkflowExecutionList = ({ executions }: WorkflowExecutionListProps) => {
                   }
                 </p>
               </div>
+              <div>
+                <p className="font-medium">AI Cost</p>
+                <p className="text-muted-foreground">
+                  {formatCost(Number(execution.cost_usd) || 0)}
+                  {(execution.input_tokens > 0 || execution.output_tokens > 0) && (
+                    <span className="text-xs"> ({execution.input_tokens} in / {execution.output_tokens} out tokens)</span>
+                  )}
+                </p>
+              </div>
             </div>
 
+            {execution.node_usage && Object.keys(execution.node_usage).length > 0 && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                By node:{' '}
+                {(Object.values(execution.node_usage) as WorkflowNodeUsage[])
+                  .map(usage => `${usage.nodeName} ${formatCost(usage.costUsd)} (${usage.calls} call${usage.calls === 1 ? '' : 's'})`)
+                  .join(', ')}
+              </p>
+            )}
+
             {execution.error_message && (
               <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
                 <p className="text-sm text-red-800 font-medium">Error:</p>
@@ -124,6 +217,12 @@ const WorkflowExecutionList = ({ executions }: WorkflowExecutionListProps) => {
           </CardContent>
         </Card>
       ))}
+
+      <ExecutionTraceDialog
+        executionId={tracedExecution?.id || null}
+        title={tracedExecution?.workflow_rules?.name || tracedExecution?.workflows?.name || 'Unknown Rule'}
+        onOpenChange={(open) => !open && setTracedExecution(null)}
+      />
     </div>
   );
 };
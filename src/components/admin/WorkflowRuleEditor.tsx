@@ -9,9 +9,45 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { AutomatedWorkflowService, WorkflowRule, WorkflowCondition, WorkflowAction } from '@/services/automatedWorkflows';
+import { AutomatedWorkflowService, WorkflowRule, WorkflowAction } from '@/services/automatedWorkflows';
+import { createRuleGroup, RuleConditionGroup, validateRuleConditions } from '@/lib/workflow/ruleConditions';
+import { WEEKDAY_LABELS } from '@/lib/workflow/ruleActions';
+import RuleConditionEditor from './RuleConditionEditor';
+import RuleBacktestPanel from './RuleBacktestPanel';
 import { Plus, X, Save } from 'lucide-react';
 
+type ActionTiming = 'now' | 'delay' | 'weekly';
+type DelayUnit = 'minutes' | 'hours' | 'days';
+
+const DELAY_UNIT_MINUTES: Record<DelayUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 24 * 60,
+};
+
+const getActionTiming = (action: WorkflowAction): ActionTiming => {
+  if (action.schedule) return 'weekly';
+  return action.delay_minutes > 0 ? 'delay' : 'now';
+};
+
+const getTimingUpdates = (timing: ActionTiming): Partial<WorkflowAction> => {
+  switch (timing) {
+    case 'delay':
+      return { delay_minutes: DELAY_UNIT_MINUTES.days, schedule: undefined };
+    case 'weekly':
+      return { delay_minutes: undefined, schedule: { weekday: 1, time: '09:00' } };
+    default:
+      return { delay_minutes: undefined, schedule: undefined };
+  }
+};
+
+// Show a delay in the largest unit it divides into, e.g. 1440 minutes as 1 day
+const getDelayUnit = (minutes: number): DelayUnit => {
+  if (minutes % DELAY_UNIT_MINUTES.days === 0) return 'days';
+  if (minutes % DELAY_UNIT_MINUTES.hours === 0) return 'hours';
+  return 'minutes';
+};
+
 interface WorkflowRuleEditorProps {
   rule?: WorkflowRule | null;
   onClose: () => void;
@@ -22,28 +58,10 @@ const WorkflowRuleEditor = ({ rule, onClose, onSave }: WorkflowRuleEditorProps)
   const [name, setName] = useState(rule?.name || '');
   const [description, setDescription] = useState(rule?.description || '');
   const [priority, setPriority] = useState(rule?.priority || 1);
-  const [conditions, setConditions] = useState<WorkflowCondition[]>(rule?.conditions || []);
+  const [conditions, setConditions] = useState<RuleConditionGroup>(rule?.conditions || createRuleGroup());
   const [actions, setActions] = useState<WorkflowAction[]>(rule?.actions || []);
   const [saving, setSaving] = useState(false);
 
-  const addCondition = () => {
-    setConditions([...conditions, {
-      type: 'confidence_threshold',
-      operator: '>' as any,
-      value: 0.8
-    }]);
-  };
-
-  const updateCondition = (index: number, updates: Partial<WorkflowCondition>) => {
-    const newConditions = [...conditions];
-    newConditions[index] = { ...newConditions[index], ...updates };
-    setConditions(newConditions);
-  };
-
-  const removeCondition = (index: number) => {
-    setConditions(conditions.filter((_, i) => i !== index));
-  };
-
   const addAction = () => {
     setActions([...actions, {
       type: 'notify_admin',
@@ -67,8 +85,9 @@ const WorkflowRuleEditor = ({ rule, onClose, onSave }: WorkflowRuleEditorProps)
       return;
     }
 
-    if (conditions.length === 0) {
-      alert('Please add at least one condition');
+    const conditionErrors = validateRuleConditions(conditions);
+    if (conditionErrors.length > 0) {
+      alert(conditionErrors.join('\n'));
       return;
     }
 
@@ -155,82 +174,15 @@ const WorkflowRuleEditor = ({ rule, onClose, onSave }: WorkflowRuleEditorProps)
           {/* Conditions */}
           <Card>
             <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle>Conditions</CardTitle>
-                  <CardDescription>
-                    Define when this workflow should trigger
-                  </CardDescription>
-                </div>
-                <Button onClick={addCondition} size="sm">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Condition
-                </Button>
-              </div>
+              <CardTitle>Conditions</CardTitle>
+              <CardDescription>
+                Define when this workflow should trigger. Group conditions to combine them with
+                AND, OR and NOT, and use a path such as suggestion_data.seo.score to check the
+                suggestion's details.
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              {conditions.length === 0 ? (
-                <p className="text-muted-foreground text-center py-4">
-                  No conditions added. Click "Add Condition" to get started.
-                </p>
-              ) : (
-                <div className="space-y-4">
-                  {conditions.map((condition, index) => (
-                    <div key={index} className="flex items-center gap-4 p-4 border rounded-lg">
-                      <div className="flex-1 grid grid-cols-3 gap-2">
-                        <Select
-                          value={condition.type}
-                          onValueChange={(value: any) => updateCondition(index, { type: value })}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="confidence_threshold">Confidence Threshold</SelectItem>
-                            <SelectItem value="agent_type">Agent Type</SelectItem>
-                            <SelectItem value="suggestion_type">Suggestion Type</SelectItem>
-                            <SelectItem value="time_based">Time Based</SelectItem>
-                          </SelectContent>
-                        </Select>
-
-                        <Select
-                          value={condition.operator}
-                          onValueChange={(value: any) => updateCondition(index, { operator: value })}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="greater_than">Greater Than</SelectItem>
-                            <SelectItem value="less_than">Less Than</SelectItem>
-                            <SelectItem value="equals">Equals</SelectItem>
-                            <SelectItem value="contains">Contains</SelectItem>
-                          </SelectContent>
-                        </Select>
-
-                        <Input
-                          value={condition.value}
-                          onChange={(e) => updateCondition(index, { 
-                            value: condition.type === 'confidence_threshold' || condition.type === 'time_based'
-                              ? parseFloat(e.target.value) || 0
-                              : e.target.value
-                          })}
-                          placeholder="Value"
-                          type={condition.type === 'confidence_threshold' || condition.type === 'time_based' ? 'number' : 'text'}
-                          step={condition.type === 'confidence_threshold' ? '0.1' : '1'}
-                        />
-                      </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => removeCondition(index)}
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-              )}
+              <RuleConditionEditor group={conditions} onChange={setConditions} />
             </CardContent>
           </Card>
 
@@ -284,14 +236,103 @@ const WorkflowRuleEditor = ({ rule, onClose, onSave }: WorkflowRuleEditorProps)
                         </Button>
                       </div>
 
-                      {/* Action-specific parameters */}
-                      {action.type === 'schedule_review' && (
+                      {/* When the action runs */}
+                      <div className="space-y-2 mb-4">
+                        <Label>Run</Label>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Select
+                            value={getActionTiming(action)}
+                            onValueChange={(value: ActionTiming) => updateAction(index, getTimingUpdates(value))}
+                          >
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="now">Immediately</SelectItem>
+                              <SelectItem value="delay">After a delay</SelectItem>
+                              <SelectItem value="weekly">On the next weekday</SelectItem>
+                            </SelectContent>
+                          </Select>
+
+                          {getActionTiming(action) === 'delay' && (() => {
+                            const unit = getDelayUnit(action.delay_minutes);
+                            return (
+                              <>
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  className="w-24"
+                                  value={action.delay_minutes / DELAY_UNIT_MINUTES[unit]}
+                                  onChange={(e) => updateAction(index, {
+                                    delay_minutes: Math.max(1, Math.round(parseFloat(e.target.value) * DELAY_UNIT_MINUTES[unit]) || 1)
+                                  })}
+                                />
+                                <Select
+                                  value={unit}
+                                  onValueChange={(value: DelayUnit) => updateAction(index, {
+                                    delay_minutes: (action.delay_minutes / DELAY_UNIT_MINUTES[unit]) * DELAY_UNIT_MINUTES[value]
+                                  })}
+                                >
+                                  <SelectTrigger className="w-28">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {Object.keys(DELAY_UNIT_MINUTES).map(option => (
+                                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </>
+                            );
+                          })()}
+
+                          {action.schedule && (
+                            <>
+                              <Select
+                                value={String(action.schedule.weekday)}
+                                onValueChange={(value) => updateAction(index, {
+                                  schedule: { ...action.schedule, weekday: parseInt(value) }
+                                })}
+                              >
+                                <SelectTrigger className="w-36">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {WEEKDAY_LABELS.map((label, weekday) => (
+                                    <SelectItem key={weekday} value={String(weekday)}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Input
+                                type="time"
+                                className="w-32"
+                                value={action.schedule.time}
+                                onChange={(e) => updateAction(index, {
+                                  schedule: { ...action.schedule, time: e.target.value }
+                                })}
+                              />
+                            </>
+                          )}
+                        </div>
+                        {getActionTiming(action) !== 'now' && (
+                          <p className="text-xs text-muted-foreground">
+                            Waits under Scheduled Actions, where it can be cancelled.
+                            {(action.type === 'auto_approve' || action.type === 'auto_implement') &&
+                              ' It does not run if the suggestion is reviewed or rejected before then.'}
+                          </p>
+                        )}
+                      </div>
+
+                      {/* Action-specific parameters; a delayed or weekly review is due when the action runs */}
+                      {action.type === 'schedule_review' && getActionTiming(action) === 'now' && (
                         <div className="space-y-2">
-                          <Label>Delay (minutes)</Label>
+                          <Label>Review due after (minutes)</Label>
                           <Input
                             type="number"
-                            value={action.delay_minutes || 60}
-                            onChange={(e) => updateAction(index, { delay_minutes: parseInt(e.target.value) })}
+                            value={action.parameters?.delay_minutes || 60}
+                            onChange={(e) => updateAction(index, {
+                              parameters: { ...action.parameters, delay_minutes: parseInt(e.target.value) }
+                            })}
                           />
                         </div>
                       )}
@@ -329,6 +370,8 @@ const WorkflowRuleEditor = ({ rule, onClose, onSave }: WorkflowRuleEditorProps)
             </CardContent>
           </Card>
 
+          <RuleBacktestPanel conditions={conditions} actions={actions} />
+
           {/* Save Actions */}
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={onClose}>
@@ -11,7 +11,8 @@ import {
   Clock,
   User,
   Tag,
-  Brain
+  Brain,
+  UserCheck
 } from 'lucide-react';
 
 export const adminNavLinks = [
@@ -76,6 +77,11 @@ export const adminNavLinks = [
     url: '/admin/workflow-builder',
     icon: Workflow,
   },
+  {
+    title: 'Workflow Approvals',
+    url: '/admin/workflow-approvals',
+    icon: UserCheck,
+  },
   {
     title: 'Settings',
     url: '/admin/settings',
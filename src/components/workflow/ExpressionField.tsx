@@ -0,0 +1,104 @@
+import { useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ExpressionSuggestion } from '@/lib/workflow/expressions';
+
+interface ExpressionFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  suggestions: ExpressionSuggestion[];
+  placeholder?: string;
+  multiline?: boolean;
+  rows?: number;
+}
+
+// The unfinished expression right before the cursor, e.g. "nodes.sch" in "Query {{nodes.sch"
+const OPEN_EXPRESSION = /\{\{\s*([^{}]*)$/;
+
+// A text field that suggests {{expressions}} once the user types "{{"
+const ExpressionField = ({ value, onChange, suggestions, placeholder, multiline, rows }: ExpressionFieldProps) => {
+  const fieldRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const matches = query === null
+    ? []
+    : suggestions.filter(suggestion => suggestion.expression.toLowerCase().includes(query.toLowerCase())).slice(0, 8);
+
+  const updateQuery = (text: string, cursor: number) => {
+    const open = text.slice(0, cursor).match(OPEN_EXPRESSION);
+    setQuery(open ? open[1].trim() : null);
+    setActiveIndex(0);
+  };
+
+  const insertSuggestion = (suggestion: ExpressionSuggestion) => {
+    const field = fieldRef.current;
+    const cursor = field?.selectionStart ?? value.length;
+    const before = value.slice(0, cursor).replace(OPEN_EXPRESSION, '');
+    const after = value.slice(cursor).replace(/^[^{}]*\}\}/, '');
+    const inserted = `{{${suggestion.expression}}}`;
+
+    onChange(`${before}${inserted}${after}`);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      const position = before.length + inserted.length;
+      field?.focus();
+      field?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (matches.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % matches.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertSuggestion(matches[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setQuery(null);
+    }
+  };
+
+  const fieldProps = {
+    ref: fieldRef,
+    value,
+    placeholder,
+    onChange: (e: React.ChangeEvent<HTMLInputElement & HTMLTextAreaElement>) => {
+      onChange(e.target.value);
+      updateQuery(e.target.value, e.target.selectionStart ?? e.target.value.length);
+    },
+    onKeyDown: handleKeyDown,
+    onBlur: () => setQuery(null),
+  };
+
+  return (
+    <div className="relative">
+      {multiline ? <Textarea rows={rows} {...fieldProps} /> : <Input {...fieldProps} />}
+      {matches.length > 0 && (
+        <div className="absolute left-0 right-0 z-20 mt-1 max-h-56 overflow-y-auto rounded-md border bg-popover p-1 shadow-md">
+          {matches.map((suggestion, index) => (
+            <button
+              key={suggestion.expression}
+              type="button"
+              // Keep focus in the field so the cursor position is still known
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertSuggestion(suggestion);
+              }}
+              className={`w-full rounded px-2 py-1 text-left text-xs ${index === activeIndex ? 'bg-accent' : ''}`}
+            >
+              <div className="font-mono">{`{{${suggestion.expression}}}`}</div>
+              <div className="text-muted-foreground">{suggestion.description}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpressionField;
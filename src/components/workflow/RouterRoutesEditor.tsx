@@ -0,0 +1,149 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { RouteCondition, RouterRoute, WorkflowNode } from '@/types/WorkflowTypes';
+import { ROUTE_OPERATOR_LABELS } from '@/lib/workflow/routing';
+
+interface RouterRoutesEditorProps {
+  node: WorkflowNode;
+  nodes: WorkflowNode[];
+  routes: RouterRoute[];
+  onChange: (routes: RouterRoute[]) => void;
+}
+
+const FIELD_SUGGESTIONS = ['priority_score', 'source_type', 'category', 'title', 'keywords_used', 'url'];
+
+const RouterRoutesEditor = ({ node, nodes, routes, onChange }: RouterRoutesEditorProps) => {
+  const getRoute = (targetId: string): RouterRoute =>
+    routes.find(route => route.targetId === targetId) || { targetId, label: '', match: 'all', conditions: [] };
+
+  const updateRoute = (targetId: string, changes: Partial<RouterRoute>) => {
+    const updated = { ...getRoute(targetId), ...changes };
+    // Keep routes in edge order and drop routes for edges that no longer exist
+    onChange(node.connected.map(id => (id === targetId ? updated : getRoute(id))));
+  };
+
+  const updateCondition = (targetId: string, index: number, changes: Partial<RouteCondition>) => {
+    const conditions = getRoute(targetId).conditions.map((condition, i) =>
+      i === index ? { ...condition, ...changes } : condition
+    );
+    updateRoute(targetId, { conditions });
+  };
+
+  if (node.connected.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Connect this router to the nodes it should route to, then add conditions to each branch.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {node.connected.map((targetId) => {
+        const target = nodes.find(n => n.id === targetId);
+        const route = getRoute(targetId);
+
+        return (
+          <div key={targetId} className="space-y-3 rounded border p-3">
+            <div className="text-sm font-medium">→ {target?.label || targetId}</div>
+            <div className="space-y-2">
+              <Label>Branch Label</Label>
+              <Input
+                value={route.label || ''}
+                placeholder={route.conditions.length === 0 ? 'Otherwise' : 'e.g. Academic'}
+                onChange={(e) => updateRoute(targetId, { label: e.target.value })}
+              />
+            </div>
+
+            {route.conditions.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                No conditions: this branch receives items that match no other branch.
+              </p>
+            ) : (
+              <>
+                {route.conditions.length > 1 && (
+                  <Select
+                    value={route.match || 'all'}
+                    onValueChange={(value: 'all' | 'any') => updateRoute(targetId, { match: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Match all conditions</SelectItem>
+                      <SelectItem value="any">Match any condition</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {route.conditions.map((condition, index) => (
+                  <div key={index} className="space-y-2 rounded bg-muted/40 p-2">
+                    <div className="flex gap-2">
+                      <Input
+                        value={condition.field}
+                        placeholder="Field, e.g. priority_score"
+                        list={`router-fields-${node.id}`}
+                        onChange={(e) => updateCondition(targetId, index, { field: e.target.value })}
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateRoute(targetId, {
+                          conditions: route.conditions.filter((_, i) => i !== index)
+                        })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex gap-2">
+                      <Select
+                        value={condition.operator}
+                        onValueChange={(value: RouteCondition['operator']) => updateCondition(targetId, index, { operator: value })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(ROUTE_OPERATOR_LABELS).map(([operator, label]) => (
+                            <SelectItem key={operator} value={operator}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {condition.operator !== 'exists' && (
+                        <Input
+                          value={condition.value || ''}
+                          placeholder="Value"
+                          onChange={(e) => updateCondition(targetId, index, { value: e.target.value })}
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full flex items-center gap-1"
+              onClick={() => updateRoute(targetId, {
+                conditions: [...route.conditions, { field: '', operator: 'equals', value: '' }]
+              })}
+            >
+              <Plus className="h-4 w-4" />
+              Add Condition
+            </Button>
+          </div>
+        );
+      })}
+
+      <datalist id={`router-fields-${node.id}`}>
+        {FIELD_SUGGESTIONS.map(field => <option key={field} value={field} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default RouterRoutesEditor;
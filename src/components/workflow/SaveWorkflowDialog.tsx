@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface SaveWorkflowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName?: string;
+  isSaving: boolean;
+  onSave: (values: { name: string; description: string }) => void;
+}
+
+const SaveWorkflowDialog = ({ open, onOpenChange, defaultName = '', isSaving, onSave }: SaveWorkflowDialogProps) => {
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setDescription('');
+    }
+  }, [open, defaultName]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), description: description.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Save Workflow As</DialogTitle>
+            <DialogDescription>Store this workflow so everyone on the team can open it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="workflow-name">Name</Label>
+              <Input
+                id="workflow-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Daily dental news digest"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="workflow-description">Description</Label>
+              <Textarea
+                id="workflow-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What does this workflow do?"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveWorkflowDialog;
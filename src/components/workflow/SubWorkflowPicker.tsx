@@ -0,0 +1,63 @@
+import { useQuery } from '@tanstack/react-query';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fetchWorkflows } from '@/services/workflows';
+import { getSubWorkflowTriggerNodes } from '@/lib/workflow/subWorkflows';
+
+interface SubWorkflowPickerProps {
+  // The saved workflow being edited; it cannot call itself
+  workflowId?: string;
+  value?: string;
+  onChange: (workflowId: string) => void;
+}
+
+// Settings of a sub-workflow node: which saved workflow it runs
+const SubWorkflowPicker = ({ workflowId, value, onChange }: SubWorkflowPickerProps) => {
+  const { data: workflows, isLoading } = useQuery({
+    queryKey: ['workflows'],
+    queryFn: fetchWorkflows,
+  });
+
+  const candidates = (workflows || []).filter(workflow => workflow.id !== workflowId);
+  const selected = candidates.find(workflow => workflow.id === value);
+  const hasEntryTrigger = selected && getSubWorkflowTriggerNodes(selected.nodes || []).length > 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Runs another saved workflow with the item as its trigger data and continues with what that
+        workflow produced. The run is listed in the execution history under this one.
+      </p>
+      <div className="space-y-2">
+        <Label>Workflow to Run</Label>
+        <Select value={value || ''} onValueChange={onChange}>
+          <SelectTrigger>
+            <SelectValue placeholder={isLoading ? 'Loading workflows...' : 'Choose a saved workflow'} />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map(workflow => (
+              <SelectItem key={workflow.id} value={workflow.id}>{workflow.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!isLoading && candidates.length === 0 && (
+          <p className="text-xs text-muted-foreground">Save the workflow you want to call first.</p>
+        )}
+        {selected && !hasEntryTrigger && (
+          <p className="text-xs text-red-600">
+            {selected.name} has no trigger set to "Called by another workflow", so it cannot be run from here.
+          </p>
+        )}
+        {value && workflows && !selected && (
+          <p className="text-xs text-red-600">The workflow this node ran no longer exists.</p>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Its AI calls count toward this run's budget. Workflows that end up calling themselves are
+        stopped before they start.
+      </p>
+    </div>
+  );
+};
+
+export default SubWorkflowPicker;
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle2, ChevronDown, XCircle } from 'lucide-react';
+import {
+  WorkflowApproval,
+  applyApprovalEdits,
+  getApprovalItemContent,
+  getApprovalItemTitle
+} from '@/services/workflowApprovals';
+import type { WorkflowItem } from '@/lib/workflow/types';
+
+interface WorkflowApprovalReviewDialogProps {
+  approval: WorkflowApproval | null;
+  isSubmitting: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApprove: (approvedItem: WorkflowItem, notes: string) => void;
+  onReject: (notes: string) => void;
+}
+
+const WorkflowApprovalReviewDialog = ({ approval, isSubmitting, onOpenChange, onApprove, onReject }: WorkflowApprovalReviewDialogProps) => {
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    setTitle(approval ? getApprovalItemTitle(approval.item) : '');
+    setContent(approval ? getApprovalItemContent(approval.item) : '');
+    setNotes('');
+  }, [approval]);
+
+  if (!approval) return null;
+
+  const isEdited = title !== getApprovalItemTitle(approval.item) || content !== getApprovalItemContent(approval.item);
+
+  return (
+    <Dialog open={!!approval} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Item</DialogTitle>
+          <DialogDescription>
+            {approval.workflows?.name || 'Workflow'} • {approval.node_label || 'Approval'} • held{' '}
+            {new Date(approval.created_at).toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {approval.instructions && (
+            <div className="rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+              {approval.instructions}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Title</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Content</Label>
+            <Textarea value={content} onChange={(e) => setContent(e.target.value)} rows={16} className="font-mono text-xs" />
+          </div>
+          <div className="space-y-2">
+            <Label>Review Notes (Optional)</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+          <Collapsible>
+            <CollapsibleTrigger className="flex items-center gap-1 text-sm text-muted-foreground">
+              <ChevronDown className="h-4 w-4" />
+              Full item data
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <pre className="mt-2 max-h-64 overflow-auto rounded bg-muted p-3 text-xs">
+                {JSON.stringify(approval.item, null, 2)}
+              </pre>
+            </CollapsibleContent>
+          </Collapsible>
+        </div>
+
+        <DialogFooter>
+          <Button variant="destructive" onClick={() => onReject(notes)} disabled={isSubmitting}>
+            <XCircle className="w-4 h-4 mr-1" />
+            Reject
+          </Button>
+          <Button
+            className="bg-green-600 hover:bg-green-700"
+            onClick={() => onApprove(applyApprovalEdits(approval.item, title, content), notes)}
+            disabled={isSubmitting}
+          >
+            <CheckCircle2 className="w-4 h-4 mr-1" />
+            {isSubmitting ? 'Continuing...' : isEdited ? 'Approve with Edits' : 'Approve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkflowApprovalReviewDialog;
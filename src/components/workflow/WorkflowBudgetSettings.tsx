@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { fetchWorkflowById, updateWorkflowBudget } from '@/services/workflows';
+
+interface WorkflowBudgetSettingsProps {
+  workflowId?: string;
+}
+
+// Per-run AI cost limit of the saved workflow, shared by all of its triggers
+const WorkflowBudgetSettings = ({ workflowId }: WorkflowBudgetSettingsProps) => {
+  const queryClient = useQueryClient();
+  const [budget, setBudget] = useState('');
+
+  const { data: workflow } = useQuery({
+    queryKey: ['workflow', workflowId],
+    queryFn: () => fetchWorkflowById(workflowId!),
+    enabled: !!workflowId,
+  });
+
+  useEffect(() => {
+    setBudget(workflow?.budget_usd ? String(workflow.budget_usd) : '');
+  }, [workflow?.budget_usd]);
+
+  const saveMutation = useMutation({
+    mutationFn: (budgetUsd: number | null) => updateWorkflowBudget(workflowId!, budgetUsd),
+    onSuccess: (_, budgetUsd) => {
+      queryClient.invalidateQueries({ queryKey: ['workflow', workflowId] });
+      toast.success(budgetUsd ? `Runs stop once their AI calls cost more than $${budgetUsd}` : 'Budget removed');
+    },
+    onError: (error: Error) => toast.error(`Failed to save budget: ${error.message}`),
+  });
+
+  if (!workflowId) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Save the workflow to set a budget for its AI costs.
+      </p>
+    );
+  }
+
+  const parsed = budget.trim() === '' ? null : Number(budget);
+  const isValid = parsed === null || (Number.isFinite(parsed) && parsed > 0);
+  const isChanged = parsed !== (workflow?.budget_usd ?? null);
+
+  return (
+    <div className="space-y-2">
+      <Label>AI Budget per Run (USD)</Label>
+      <div className="flex gap-1">
+        <Input
+          type="number"
+          min="0.01"
+          step="0.01"
+          placeholder="No limit"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => saveMutation.mutate(parsed)}
+          disabled={!isValid || !isChanged || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Once a run's AI calls cost more than this, it stops starting new steps and its remaining
+        branches are cancelled. Costs are estimated from provider list prices.
+      </p>
+    </div>
+  );
+};
+
+export default WorkflowBudgetSettings;
@@ -4,10 +4,14 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { 
   Clock, Globe, Brain, Filter, Send, ArrowRight, Trash2, 
-  Link as LinkIcon, XCircle, Share2, Mail, ImagePlay, 
+  Link as LinkIcon, XCircle, Share2, Mail, ImagePlay, Copy, CopyPlus,
   SearchCheck, Languages, Rss, Award, TrendingUp, HeartPulse, 
-  GraduationCap, Newspaper, Search, Combine, BarChart3 
+  GraduationCap, Newspaper, Search, Combine, BarChart3, GitBranch, Layers, CopyX,
+  AlertCircle, AlertTriangle, UserCheck, Workflow
 } from 'lucide-react';
+import { getRouterRoute, isFallbackRoute } from '@/lib/workflow/routing';
+import { getErrorTargetId } from '@/lib/workflow/errorPolicy';
+import type { WorkflowValidationIssue } from '@/lib/workflow/validation';
 import {
   ContextMenu,
   ContextMenuContent,
@@ -18,22 +22,41 @@ import {
 
 interface WorkflowCanvasProps {
   nodes: WorkflowNode[];
-  selectedNode: WorkflowNode | null;
-  onSelectNode: (node: WorkflowNode | null) => void;
-  onUpdateNodes: (nodes: WorkflowNode[]) => void;
-  onDeleteNode: (nodeId: string) => void;
+  selectedNodeIds: string[];
+  issues?: WorkflowValidationIssue[];
+  onSelectNodes: (nodeIds: string[]) => void;
+  // Changes with the same coalesce key, like the steps of one drag, are undone together
+  onUpdateNodes: (nodes: WorkflowNode[], coalesceKey?: string) => void;
+  onDeleteNodes: (nodeIds: string[]) => void;
+  onCopyNodes: (nodeIds: string[]) => void;
+  onDuplicateNodes: (nodeIds: string[]) => void;
   connectingNodeId: string | null;
   onConnectStart: (nodeId: string) => void;
   onConnectEnd: (sourceId: string, targetId: string) => void;
   onDisconnectNode: (nodeId: string) => void;
 }
 
+// Size of a node card, for box selection
+const NODE_WIDTH = 240;
+const NODE_HEIGHT = 96;
+
+interface SelectionBox {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  additive: boolean;
+}
+
 const WorkflowCanvas = ({
   nodes,
-  selectedNode,
-  onSelectNode,
+  selectedNodeIds,
+  issues = [],
+  onSelectNodes,
   onUpdateNodes,
-  onDeleteNode,
+  onDeleteNodes,
+  onCopyNodes,
+  onDuplicateNodes,
   connectingNodeId,
   onConnectStart,
   onConnectEnd,
@@ -41,7 +64,12 @@ const WorkflowCanvas = ({
 }: WorkflowCanvasProps) => {
   const [draggedNode, setDraggedNode] = useState<string | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
+  // Identifies the current drag, so all of its moves are undone as one step
+  const dragKeyRef = useRef('');
+  // A box selection ends with a click on the canvas, which must not clear the new selection
+  const suppressClickRef = useRef(false);
 
   const getNodeIcon = (type: WorkflowNode['type']) => {
     const icons = {
@@ -54,6 +82,11 @@ const WorkflowCanvas = ({
       'ai-processor': Brain,
       'multi-source-synthesizer': Combine,
       filter: Filter,
+      dedupe: CopyX,
+      router: GitBranch,
+      aggregate: Layers,
+      approval: UserCheck,
+      'sub-workflow': Workflow,
       publisher: Send,
       'social-poster': Share2,
       'email-sender': Mail,
@@ -80,6 +113,11 @@ const WorkflowCanvas = ({
       'ai-processor': 'border-purple-200 bg-purple-50',
       'multi-source-synthesizer': 'border-emerald-200 bg-emerald-50',
       filter: 'border-yellow-200 bg-yellow-50',
+      dedupe: 'border-lime-200 bg-lime-50',
+      router: 'border-fuchsia-200 bg-fuchsia-50',
+      aggregate: 'border-stone-200 bg-stone-50',
+      approval: 'border-green-300 bg-green-100',
+      'sub-workflow': 'border-blue-300 bg-blue-100',
       publisher: 'border-red-200 bg-red-50',
       'social-poster': 'border-sky-200 bg-sky-50',
       'email-sender': 'border-orange-200 bg-orange-50',
@@ -116,44 +154,99 @@ const WorkflowCanvas = ({
       x: e.clientX - rect.left,
       y: e.clientY - rect.top
     });
+    dragKeyRef.current = `move-${nodeId}-${Date.now()}`;
     setDraggedNode(nodeId);
   };
 
+  const getCanvasPoint = (e: React.MouseEvent) => {
+    const canvasRect = canvasRef.current.getBoundingClientRect();
+    return { x: e.clientX - canvasRect.left, y: e.clientY - canvasRect.top };
+  };
+
+  // Pressing on empty canvas starts a selection box; Shift adds to the current selection
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.target !== e.currentTarget || e.button !== 0 || connectingNodeId) return;
+    const { x, y } = getCanvasPoint(e);
+    setSelectionBox({ startX: x, startY: y, x, y, additive: e.shiftKey });
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!draggedNode || !canvasRef.current) return;
+    if (!canvasRef.current) return;
 
-    const canvasRect = canvasRef.current.getBoundingClientRect();
-    const newX = e.clientX - canvasRect.left - dragOffset.x;
-    const newY = e.clientY - canvasRect.top - dragOffset.y;
+    if (selectionBox) {
+      setSelectionBox({ ...selectionBox, ...getCanvasPoint(e) });
+      return;
+    }
+    if (!draggedNode) return;
+
+    const dragged = nodes.find(node => node.id === draggedNode);
+    if (!dragged) return;
 
+    const point = getCanvasPoint(e);
+    const dx = Math.max(0, point.x - dragOffset.x) - dragged.position.x;
+    const dy = Math.max(0, point.y - dragOffset.y) - dragged.position.y;
+
+    // Dragging a selected node moves the whole selection with it
+    const moving = new Set(selectedNodeIds.includes(draggedNode) ? selectedNodeIds : [draggedNode]);
     const updatedNodes = nodes.map(node =>
-      node.id === draggedNode
-        ? { ...node, position: { x: Math.max(0, newX), y: Math.max(0, newY) } }
+      moving.has(node.id)
+        ? { ...node, position: { x: Math.max(0, node.position.x + dx), y: Math.max(0, node.position.y + dy) } }
         : node
     );
-    onUpdateNodes(updatedNodes);
+    onUpdateNodes(updatedNodes, dragKeyRef.current);
   };
 
   const handleMouseUp = () => {
     setDraggedNode(null);
+
+    if (selectionBox) {
+      const left = Math.min(selectionBox.startX, selectionBox.x);
+      const right = Math.max(selectionBox.startX, selectionBox.x);
+      const top = Math.min(selectionBox.startY, selectionBox.y);
+      const bottom = Math.max(selectionBox.startY, selectionBox.y);
+      setSelectionBox(null);
+      // A press without a drag is a plain click on the canvas
+      if (right - left < 4 && bottom - top < 4) return;
+
+      const boxed = nodes
+        .filter(node =>
+          node.position.x < right && node.position.x + NODE_WIDTH > left &&
+          node.position.y < bottom && node.position.y + NODE_HEIGHT > top
+        )
+        .map(node => node.id);
+      onSelectNodes(selectionBox.additive ? [...new Set([...selectedNodeIds, ...boxed])] : boxed);
+      suppressClickRef.current = true;
+    }
   };
 
   const handleNodeClick = (e: React.MouseEvent, nodeId: string) => {
     e.stopPropagation();
     if (connectingNodeId && connectingNodeId !== nodeId) {
       onConnectEnd(connectingNodeId, nodeId);
+    } else if (e.shiftKey || e.metaKey || e.ctrlKey) {
+      onSelectNodes(selectedNodeIds.includes(nodeId)
+        ? selectedNodeIds.filter(id => id !== nodeId)
+        : [...selectedNodeIds, nodeId]);
     } else {
-      onSelectNode(nodes.find(n => n.id === nodeId) || null);
+      onSelectNodes([nodeId]);
     }
   };
 
   const handleCanvasClick = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
     // Only deselect if clicking directly on canvas
     if (e.target === e.currentTarget) {
-      onSelectNode(null);
+      onSelectNodes([]);
     }
   };
 
+  // Menu actions on a selected node apply to the whole selection
+  const getActionTargets = (nodeId: string) =>
+    selectedNodeIds.includes(nodeId) ? selectedNodeIds : [nodeId];
+
   const renderConnections = () => {
     return nodes.map(node => 
       node.connected.map(connectedId => {
@@ -165,6 +258,19 @@ const WorkflowCanvas = ({
         const endX = connectedNode.position.x;
         const endY = connectedNode.position.y + 40;
 
+        // Router edges show which branch they are
+        let edgeLabel: string | null = null;
+        const isErrorEdge = getErrorTargetId(node) === connectedId;
+        const isInvalid = issues.some(issue =>
+          issue.severity === 'error' && issue.edge?.from === node.id && issue.edge.to === connectedId
+        );
+        if (isErrorEdge) {
+          edgeLabel = 'On error';
+        } else if (node.type === 'router') {
+          const route = getRouterRoute(node, connectedId);
+          edgeLabel = route?.label || (isFallbackRoute(route) ? 'Otherwise' : 'Condition');
+        }
+
         return (
           <svg
             key={`${node.id}-${connectedId}`}
@@ -176,10 +282,21 @@ const WorkflowCanvas = ({
               y1={startY}
               x2={endX}
               y2={endY}
-              stroke="#94a3b8"
-              strokeWidth={2}
+              stroke={isInvalid ? '#dc2626' : isErrorEdge ? '#ef4444' : '#94a3b8'}
+              strokeWidth={isInvalid ? 3 : 2}
+              strokeDasharray={isErrorEdge ? '6 4' : undefined}
               markerEnd="url(#arrowhead)"
             />
+            {edgeLabel && (
+              <text
+                x={(startX + endX) / 2}
+                y={(startY + endY) / 2 - 6}
+                textAnchor="middle"
+                className={`${isErrorEdge ? 'fill-red-600' : 'fill-fuchsia-700'} text-xs font-medium`}
+              >
+                {edgeLabel}
+              </text>
+            )}
             <defs>
               <marker
                 id="arrowhead"
@@ -205,17 +322,35 @@ const WorkflowCanvas = ({
     <div
       ref={canvasRef}
       className={`relative w-full h-full bg-grid-pattern bg-gray-50 ${connectingNodeId ? 'cursor-crosshair' : ''}`}
+      onMouseDown={handleCanvasMouseDown}
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
       onClick={handleCanvasClick}
     >
       {renderConnections()}
-      
+
+      {selectionBox && (
+        <div
+          className="absolute border border-blue-500 bg-blue-500/10 pointer-events-none"
+          style={{
+            left: Math.min(selectionBox.startX, selectionBox.x),
+            top: Math.min(selectionBox.startY, selectionBox.y),
+            width: Math.abs(selectionBox.x - selectionBox.startX),
+            height: Math.abs(selectionBox.y - selectionBox.startY),
+            zIndex: 20
+          }}
+        />
+      )}
+
       {nodes.map(node => {
         const Icon = getNodeIcon(node.type);
-        const isSelected = selectedNode?.id === node.id;
+        const isSelected = selectedNodeIds.includes(node.id);
+        const actionTargets = getActionTargets(node.id);
         const isConnecting = connectingNodeId === node.id;
         const canConnectTo = connectingNodeId && connectingNodeId !== node.id;
+        const nodeIssues = issues.filter(issue => issue.nodeId === node.id);
+        const hasErrors = nodeIssues.some(issue => issue.severity === 'error');
+        const issueRing = hasErrors ? 'ring-2 ring-red-500' : nodeIssues.length > 0 ? 'ring-2 ring-amber-400' : '';
         
         return (
           <ContextMenu key={node.id}>
@@ -223,7 +358,7 @@ const WorkflowCanvas = ({
               <Card
                 className={`absolute w-60 select-none ${
                   getNodeColor(node.type)
-                } ${isSelected ? 'ring-2 ring-blue-500 shadow-lg' : 'hover:shadow-md'}
+                } ${isSelected ? 'ring-2 ring-blue-500 shadow-lg' : `hover:shadow-md ${issueRing}`}
                 ${isConnecting ? 'ring-2 ring-green-500 animate-pulse' : ''}
                 ${canConnectTo ? 'hover:ring-2 hover:ring-green-400' : ''}`}
                 style={{
@@ -253,6 +388,20 @@ const WorkflowCanvas = ({
                         Connected to {node.connected.length} node(s)
                       </div>
                     )}
+                    {nodeIssues.length > 0 && (
+                      <div
+                        className={`flex items-start gap-1 text-xs ${hasErrors ? 'text-red-600' : 'text-amber-600'}`}
+                        title={nodeIssues.map(issue => issue.message).join('\n')}
+                      >
+                        {hasErrors
+                          ? <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                          : <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />}
+                        <span className="line-clamp-2">
+                          {(nodeIssues.find(issue => issue.severity === 'error') || nodeIssues[0]).message}
+                          {nodeIssues.length > 1 && ` (+${nodeIssues.length - 1} more)`}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </Card>
@@ -267,8 +416,15 @@ const WorkflowCanvas = ({
                 </ContextMenuItem>
               )}
               <ContextMenuSeparator />
-              <ContextMenuItem onClick={() => onDeleteNode(node.id)} className="flex items-center gap-2 text-red-500 cursor-pointer">
-                <Trash2 className="h-4 w-4" /> Delete Node
+              <ContextMenuItem onClick={() => onCopyNodes(actionTargets)} className="flex items-center gap-2 cursor-pointer">
+                <Copy className="h-4 w-4" /> {actionTargets.length > 1 ? `Copy ${actionTargets.length} Nodes` : 'Copy'}
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => onDuplicateNodes(actionTargets)} className="flex items-center gap-2 cursor-pointer">
+                <CopyPlus className="h-4 w-4" /> {actionTargets.length > 1 ? `Duplicate ${actionTargets.length} Nodes` : 'Duplicate'}
+              </ContextMenuItem>
+              <ContextMenuSeparator />
+              <ContextMenuItem onClick={() => onDeleteNodes(actionTargets)} className="flex items-center gap-2 text-red-500 cursor-pointer">
+                <Trash2 className="h-4 w-4" /> {actionTargets.length > 1 ? `Delete ${actionTargets.length} Nodes` : 'Delete Node'}
               </ContextMenuItem>
             </ContextMenuContent>
           </ContextMenu>
@@ -280,7 +436,7 @@ const WorkflowCanvas = ({
           <div className="text-center text-muted-foreground">
             <div className="text-4xl mb-2">🔧</div>
             <h3 className="text-lg font-medium mb-1">Start Building Your Workflow</h3>
-            <p className="text-sm">Add components from the sidebar to get started</p>
+            <p className="text-sm">Add components from the sidebar, or start from one of the Templates</p>
           </div>
         </div>
       )}
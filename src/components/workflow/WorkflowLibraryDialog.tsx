@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Copy, FolderOpen, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { SavedWorkflow, deleteWorkflow, duplicateWorkflow, fetchWorkflows } from '@/services/workflows';
+
+interface WorkflowLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentWorkflowId?: string | null;
+  onOpen: (workflow: SavedWorkflow) => void;
+}
+
+const WorkflowLibraryDialog = ({ open, onOpenChange, currentWorkflowId, onOpen }: WorkflowLibraryDialogProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: workflows, isLoading } = useQuery({
+    queryKey: ['workflows'],
+    queryFn: fetchWorkflows,
+    enabled: open,
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: (id: string) => duplicateWorkflow({ id, ownerId: user?.id }),
+    onSuccess: (workflow) => {
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      toast.success(`Created "${workflow.name}"`);
+    },
+    onError: (error: Error) => toast.error(`Failed to duplicate workflow: ${error.message}`),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWorkflow,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      toast.success('Workflow deleted');
+    },
+    onError: (error: Error) => toast.error(`Failed to delete workflow: ${error.message}`),
+  });
+
+  const handleDelete = (workflow: SavedWorkflow) => {
+    if (confirm(`Delete "${workflow.name}" and its version history?`)) {
+      deleteMutation.mutate(workflow.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Saved Workflows</DialogTitle>
+          <DialogDescription>Open, duplicate or delete workflows shared with your team.</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading workflows...</p>
+          ) : !workflows || workflows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved workflows yet. Use "Save As" to store the current one.</p>
+          ) : (
+            workflows.map((workflow) => (
+              <div key={workflow.id} className="flex items-center justify-between gap-4 rounded border p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{workflow.name}</span>
+                    <Badge variant="secondary">v{workflow.current_version}</Badge>
+                    {workflow.id === currentWorkflowId && <Badge variant="outline">Open</Badge>}
+                  </div>
+                  {workflow.description && (
+                    <p className="text-sm text-muted-foreground truncate">{workflow.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {workflow.nodes?.length || 0} nodes
+                    {workflow.updated_at && ` · updated ${format(new Date(workflow.updated_at), 'MMM d, yyyy HH:mm')}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button size="sm" onClick={() => onOpen(workflow)} className="flex items-center gap-1">
+                    <FolderOpen className="h-4 w-4" />
+                    Open
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => duplicateMutation.mutate(workflow.id)}
+                    disabled={duplicateMutation.isPending}
+                    title="Duplicate"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(workflow)}
+                    disabled={deleteMutation.isPending}
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkflowLibraryDialog;
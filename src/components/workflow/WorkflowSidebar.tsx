@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -10,19 +10,42 @@ import { Switch } from '@/components/ui/switch';
 import { 
   Clock, Globe, Brain, Filter, Send, Plus, Share2, Mail, 
   ImagePlay, SearchCheck, Languages, Eye, Award, TrendingUp, 
-  HeartPulse, Rss, GraduationCap, Newspaper, Search, Combine, BarChart3 
+  HeartPulse, Rss, GraduationCap, Newspaper, Search, Combine, BarChart3, GitBranch, Layers, CopyX,
+  AlertCircle, AlertTriangle, UserCheck, Workflow
 } from 'lucide-react';
 import { WorkflowNode } from '@/types/WorkflowTypes';
 import { AVAILABLE_MODELS, getImageGenerationModels, getTextGenerationModels } from '@/services/aiModelService';
 import { supabase } from '@/integrations/supabase/client';
+import RouterRoutesEditor from './RouterRoutesEditor';
+import ExpressionField from './ExpressionField';
+import WorkflowWebhookDetails from './WorkflowWebhookDetails';
+import WorkflowBudgetSettings from './WorkflowBudgetSettings';
+import SubWorkflowPicker from './SubWorkflowPicker';
+import { getExpressionSuggestions, getNodeReferenceKey } from '@/lib/workflow/expressions';
+import { WORKFLOW_EVENTS } from '@/lib/workflow/events';
+import type { WorkflowValidationIssue } from '@/lib/workflow/validation';
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  getNextCronRun,
+  getTriggerCronExpression,
+  parseCronExpression
+} from '@/lib/workflow/schedule';
+
+const SCHEDULE_TIMEZONES = ['Asia/Jerusalem', 'UTC', 'Europe/London', 'Europe/Berlin', 'America/New_York', 'America/Los_Angeles'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 interface WorkflowSidebarProps {
   selectedNode: WorkflowNode | null;
+  nodes?: WorkflowNode[];
+  // The saved workflow being edited, if any
+  workflowId?: string;
+  // Validation problems of the whole graph; the selected node's are listed above its settings
+  issues?: WorkflowValidationIssue[];
   onAddNode: (type: WorkflowNode['type']) => void;
   onUpdateNodeConfig: (nodeId: string, newConfig: Partial<WorkflowNode['config']>) => void;
 }
 
-const WorkflowSidebar = ({ selectedNode, onAddNode, onUpdateNodeConfig }: WorkflowSidebarProps) => {
+const WorkflowSidebar = ({ selectedNode, nodes = [], workflowId, issues = [], onAddNode, onUpdateNodeConfig }: WorkflowSidebarProps) => {
   const nodeTypes = [
     { type: 'trigger', icon: Clock, label: 'Trigger', description: 'Start workflows' },
     { type: 'scraper', icon: Globe, label: 'Web Scraper', description: 'Extract content' },
@@ -34,6 +57,11 @@ const WorkflowSidebar = ({ selectedNode, onAddNode, onUpdateNodeConfig }: Workfl
     { type: 'multi-source-synthesizer', icon: Combine, label: 'Multi-Source Synthesizer', description: 'Combine multiple sources with AI' },
     { type: 'article-structure-validator', icon: Award, label: 'Article Structure Validator', description: 'Validate article structure and quality' },
     { type: 'filter', icon: Filter, label: 'Filter', description: 'Quality control' },
+    { type: 'dedupe', icon: CopyX, label: 'Dedupe', description: 'Drop stories already covered' },
+    { type: 'router', icon: GitBranch, label: 'Router', description: 'Send items down branches by condition' },
+    { type: 'aggregate', icon: Layers, label: 'Aggregate', description: 'Join branches into one combined item' },
+    { type: 'approval', icon: UserCheck, label: 'Approval', description: 'Hold items until an editor signs off' },
+    { type: 'sub-workflow', icon: Workflow, label: 'Sub-workflow', description: 'Run another saved workflow' },
     { type: 'publisher', icon: Send, label: 'Publisher', description: 'Publish articles' },
     { type: 'social-poster', icon: Share2, label: 'Social Poster', description: 'Post to social media' },
     { type: 'email-sender', icon: Mail, label: 'Email Sender', description: 'Send email notifications' },
@@ -97,6 +125,9 @@ const WorkflowSidebar = ({ selectedNode, onAddNode, onUpdateNodeConfig }: Workfl
         <NodeConfiguration 
           key={selectedNode.id} // Force re-render when node changes
           node={selectedNode} 
+          nodes={nodes}
+          workflowId={workflowId}
+          issues={issues.filter(issue => issue.nodeId === selectedNode.id)}
           onUpdateConfig={onUpdateNodeConfig} 
         />
       )}
@@ -106,13 +137,20 @@ const WorkflowSidebar = ({ selectedNode, onAddNode, onUpdateNodeConfig }: Workfl
 
 const NodeConfiguration = ({ 
   node, 
+  nodes,
+  workflowId,
+  issues,
   onUpdateConfig 
 }: { 
   node: WorkflowNode; 
+  nodes: WorkflowNode[];
+  workflowId?: string;
+  issues: WorkflowValidationIssue[];
   onUpdateConfig: (nodeId: string, newConfig: Partial<WorkflowNode['config']>) => void; 
 }) => {
   // Local state to ensure immediate updates
   const [localConfig, setLocalConfig] = useState(node.config);
+  const expressionSuggestions = useMemo(() => getExpressionSuggestions(nodes, node.id), [nodes, node.id]);
   const [reporters, setReporters] = useState<any[]>([]);
 
   // Sync local state with node config when node changes
@@ -157,6 +195,11 @@ const NodeConfiguration = ({
       'ai-processor': Brain,
       'multi-source-synthesizer': Combine,
       filter: Filter,
+      dedupe: CopyX,
+      router: GitBranch,
+      aggregate: Layers,
+      approval: UserCheck,
+      'sub-workflow': Workflow,
       publisher: Send,
       'social-poster': Share2,
       'email-sender': Mail,
@@ -183,6 +226,25 @@ const NodeConfiguration = ({
     onUpdateConfig(node.id, { [key]: value });
   };
 
+  // Preview of the trigger's schedule, or the reason it can't be scheduled
+  const getSchedulePreview = () => {
+    const expression = getTriggerCronExpression(localConfig);
+    if (!expression) return null;
+    const timezone = localConfig.timezone || DEFAULT_SCHEDULE_TIMEZONE;
+    try {
+      parseCronExpression(expression);
+      const nextRun = getNextCronRun(expression, timezone, new Date());
+      return {
+        error: null,
+        text: nextRun
+          ? `Next run: ${nextRun.toLocaleString('en-GB', { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' })} (${timezone})`
+          : 'This schedule never fires within the next year'
+      };
+    } catch (error) {
+      return { error: error.message, text: null };
+    }
+  };
+
   const renderAIModelSelector = () => (
     <div className="space-y-2">
       <Label>AI Model</Label>
@@ -208,15 +270,19 @@ const NodeConfiguration = ({
   const renderCustomInstructions = (placeholder: string = "Add specific instructions...") => (
     <div className="space-y-2">
       <Label>Custom Instructions (Optional)</Label>
-      <Textarea
+      <ExpressionField
         key={`customInstructions-${node.id}`}
-        placeholder={placeholder}
+        multiline
         rows={3}
+        placeholder={placeholder}
         value={localConfig.customInstructions || ''}
-        onChange={(e) => handleConfigChange('customInstructions', e.target.value)}
+        suggestions={expressionSuggestions}
+        onChange={(value) => handleConfigChange('customInstructions', value)}
       />
     </div>
   );
+
+  const schedulePreview = node.type === 'trigger' ? getSchedulePreview() : null;
   
   return (
     <div className="space-y-6">
@@ -224,12 +290,34 @@ const NodeConfiguration = ({
         <Icon className="h-5 w-5" />
         <h3 className="font-semibold">{node.label}</h3>
       </div>
+      <p className="text-xs text-muted-foreground">
+        Type <code>{'{{'}</code> in a text field to insert data from upstream nodes, e.g. <code>{'{{item.title}}'}</code>.
+        Later nodes can use this node's output as <code>{`{{nodes.${getNodeReferenceKey(node)}}}`}</code>.
+      </p>
+
+      {issues.length > 0 && (
+        <div className="space-y-1">
+          {issues.map((issue, index) => (
+            <div
+              key={index}
+              className={`flex items-start gap-2 rounded p-2 text-xs ${
+                issue.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'
+              }`}
+            >
+              {issue.severity === 'error'
+                ? <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                : <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />}
+              <span>{issue.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
 
       {/* Trigger Configuration */}
       {node.type === 'trigger' && (
         <div className="space-y-4">
           <div className="space-y-2">
-            <Label>Schedule Type</Label>
+            <Label>Trigger Type</Label>
             <Select
               key={`schedule-${node.id}`}
               value={localConfig.schedule || 'manual'}
@@ -243,12 +331,16 @@ const NodeConfiguration = ({
                 <SelectItem value="hourly">Every Hour</SelectItem>
                 <SelectItem value="daily">Daily</SelectItem>
                 <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="cron">Custom (cron)</SelectItem>
+                <SelectItem value="webhook">Webhook</SelectItem>
+                <SelectItem value="event">Database event</SelectItem>
+                <SelectItem value="sub-workflow">Called by another workflow</SelectItem>
               </SelectContent>
             </Select>
           </div>
-          {localConfig.schedule !== 'manual' && (
+          {['hourly', 'daily', 'weekly'].includes(localConfig.schedule) && (
             <div className="space-y-2">
-              <Label>Time</Label>
+              <Label>{localConfig.schedule === 'hourly' ? 'Minute past the hour (uses the minutes)' : 'Time'}</Label>
               <Input
                 key={`time-${node.id}`}
                 type="time"
@@ -257,6 +349,281 @@ const NodeConfiguration = ({
               />
             </div>
           )}
+          {localConfig.schedule === 'weekly' && (
+            <div className="space-y-2">
+              <Label>Day of Week</Label>
+              <Select
+                key={`dayOfWeek-${node.id}`}
+                value={String(localConfig.dayOfWeek ?? 1)}
+                onValueChange={(value) => handleConfigChange('dayOfWeek', Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {localConfig.schedule === 'cron' && (
+            <div className="space-y-2">
+              <Label>Cron Expression</Label>
+              <Input
+                key={`cronExpression-${node.id}`}
+                placeholder="0 6 * * *"
+                value={localConfig.cronExpression || ''}
+                onChange={(e) => handleConfigChange('cronExpression', e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                minute hour day-of-month month day-of-week, e.g. "0 6 * * 0-4" for 06:00 Sunday to Thursday
+              </p>
+            </div>
+          )}
+          {localConfig.schedule && !['manual', 'webhook', 'event', 'sub-workflow'].includes(localConfig.schedule) && (
+            <div className="space-y-2">
+              <Label>Time Zone</Label>
+              <Select
+                key={`timezone-${node.id}`}
+                value={localConfig.timezone || DEFAULT_SCHEDULE_TIMEZONE}
+                onValueChange={(value) => handleConfigChange('timezone', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEDULE_TIMEZONES.map((timezone) => (
+                    <SelectItem key={timezone} value={timezone}>{timezone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {schedulePreview?.error && (
+            <p className="text-xs text-red-600">{schedulePreview.error}</p>
+          )}
+          {schedulePreview?.text && (
+            <p className="text-xs text-muted-foreground">
+              {schedulePreview.text}. Scheduled runs start once the workflow is saved.
+            </p>
+          )}
+          {localConfig.schedule === 'webhook' && <WorkflowWebhookDetails workflowId={workflowId} />}
+          {localConfig.schedule === 'event' && (
+            <>
+              <div className="space-y-2">
+                <Label>Event</Label>
+                <Select
+                  key={`event-${node.id}`}
+                  value={localConfig.event || ''}
+                  onValueChange={(value) => handleConfigChange('event', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose an event" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKFLOW_EVENTS.map((event) => (
+                      <SelectItem key={event.type} value={event.type}>{event.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {localConfig.event && (
+                  <p className="text-xs text-muted-foreground">
+                    {WORKFLOW_EVENTS.find(event => event.type === localConfig.event)?.description}
+                  </p>
+                )}
+              </div>
+              {localConfig.event === 'ai_suggestion.created' && (
+                <div className="space-y-2">
+                  <Label>Minimum Confidence (%)</Label>
+                  <Input
+                    key={`minConfidence-${node.id}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    placeholder="Any confidence"
+                    value={localConfig.minConfidence ? Math.round(localConfig.minConfidence * 100) : ''}
+                    onChange={(e) => handleConfigChange('minConfidence', e.target.value ? Number(e.target.value) / 100 : undefined)}
+                  />
+                </div>
+              )}
+              {localConfig.event === 'article.published' && (
+                <div className="space-y-2">
+                  <Label>Only in Category</Label>
+                  <Input
+                    key={`category-${node.id}`}
+                    placeholder="Any category"
+                    value={localConfig.category || ''}
+                    onChange={(e) => handleConfigChange('category', e.target.value)}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Each matching change starts a run with the changed row as the trigger data, e.g.
+                {' {{run.trigger.record.title}}'}. Event runs start once the workflow is saved.
+              </p>
+            </>
+          )}
+          {localConfig.schedule === 'sub-workflow' && (
+            <p className="text-xs text-muted-foreground">
+              Sub-workflow nodes in other workflows start this workflow here, passing their item as the
+              trigger data. What the last nodes produce is returned to them.
+            </p>
+          )}
+          <WorkflowBudgetSettings workflowId={workflowId} />
+        </div>
+      )}
+
+      {/* Router Configuration */}
+      {node.type === 'router' && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Routing Mode</Label>
+            <Select
+              key={`routingMode-${node.id}`}
+              value={localConfig.routingMode || 'first'}
+              onValueChange={(value) => handleConfigChange('routingMode', value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="first">First matching branch</SelectItem>
+                <SelectItem value="all">Every matching branch</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <RouterRoutesEditor
+            node={node}
+            nodes={nodes}
+            routes={localConfig.routes || []}
+            onChange={(routes) => handleConfigChange('routes', routes)}
+          />
+        </div>
+      )}
+
+      {/* Aggregate Configuration */}
+      {node.type === 'aggregate' && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Waits until every branch of the run has finished, then sends one item with all collected items
+            downstream. Connect it to a Multi-Source Synthesizer or AI Processor to write a digest.
+          </p>
+          <div className="space-y-2">
+            <Label>Sort By Field (Optional)</Label>
+            <Input
+              key={`sortBy-${node.id}`}
+              placeholder="e.g. priority_score or citations"
+              value={localConfig.sortBy || ''}
+              onChange={(e) => handleConfigChange('sortBy', e.target.value)}
+            />
+          </div>
+          {localConfig.sortBy && (
+            <div className="space-y-2">
+              <Label>Sort Order</Label>
+              <Select
+                key={`sortOrder-${node.id}`}
+                value={localConfig.sortOrder || 'desc'}
+                onValueChange={(value) => handleConfigChange('sortOrder', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="desc">Highest first</SelectItem>
+                  <SelectItem value="asc">Lowest first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Maximum Items (0 = keep all)</Label>
+            <Input
+              key={`maxItems-${node.id}`}
+              type="number"
+              min="0"
+              value={localConfig.maxItems ?? 0}
+              onChange={(e) => handleConfigChange('maxItems', parseInt(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Dedupe Configuration */}
+      {node.type === 'approval' && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Holds every item that reaches it on the Workflow Approvals page. An editor approves it (optionally
+            after editing), and only then does it continue to the next nodes. Rejected items stop here.
+          </p>
+          <div className="space-y-2">
+            <Label>Instructions for the Reviewer (Optional)</Label>
+            <Textarea
+              key={`instructions-${node.id}`}
+              placeholder="e.g. Check dosages and that no brand names are recommended"
+              value={localConfig.instructions || ''}
+              onChange={(e) => handleConfigChange('instructions', e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+      )}
+
+      {node.type === 'sub-workflow' && (
+        <SubWorkflowPicker
+          workflowId={workflowId}
+          value={localConfig.workflowId}
+          onChange={(value) => handleConfigChange('workflowId', value)}
+        />
+      )}
+
+      {node.type === 'dedupe' && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Drops items we already covered. Each dropped item is logged with the reason.
+          </p>
+          <div className="flex items-center space-x-2">
+            <Switch
+              key={`checkQueue-${node.id}`}
+              checked={localConfig.checkQueue !== false}
+              onCheckedChange={(checked) => handleConfigChange('checkQueue', checked)}
+            />
+            <Label>URL already in the content queue</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              key={`checkPublished-${node.id}`}
+              checked={localConfig.checkPublished !== false}
+              onCheckedChange={(checked) => handleConfigChange('checkPublished', checked)}
+            />
+            <Label>URL already a source of an article</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              key={`checkSimilarity-${node.id}`}
+              checked={localConfig.checkSimilarity !== false}
+              onCheckedChange={(checked) => handleConfigChange('checkSimilarity', checked)}
+            />
+            <Label>Similar to a published article</Label>
+          </div>
+          {localConfig.checkSimilarity !== false && (
+            <div className="space-y-2">
+              <Label>Similarity Threshold (0.5 - 0.99)</Label>
+              <Input
+                key={`similarityThreshold-${node.id}`}
+                type="number"
+                min="0.5"
+                max="0.99"
+                step="0.01"
+                value={localConfig.similarityThreshold ?? 0.85}
+                onChange={(e) => handleConfigChange('similarityThreshold', parseFloat(e.target.value) || 0.85)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Compared with the embeddings of published articles. Lower values drop more items.
+              </p>
+            </div>
+          )}
         </div>
       )}
 
@@ -326,11 +693,12 @@ const NodeConfiguration = ({
           {renderAIModelSelector()}
           <div className="space-y-2">
             <Label>Search Query</Label>
-            <Input
+            <ExpressionField
               key={`query-${node.id}`}
               placeholder="machine learning natural language processing"
               value={localConfig.query || ''}
-              onChange={(e) => handleConfigChange('query', e.target.value)}
+              suggestions={expressionSuggestions}
+              onChange={(value) => handleConfigChange('query', value)}
             />
           </div>
           <div className="space-y-2">
@@ -426,11 +794,12 @@ const NodeConfiguration = ({
           {renderAIModelSelector()}
           <div className="space-y-2">
             <Label>Search Keywords</Label>
-            <Input
+            <ExpressionField
               key={`keywords-${node.id}`}
               placeholder="artificial intelligence, technology"
               value={localConfig.keywords || ''}
-              onChange={(e) => handleConfigChange('keywords', e.target.value)}
+              suggestions={expressionSuggestions}
+              onChange={(value) => handleConfigChange('keywords', value)}
             />
           </div>
           <div className="space-y-2">
@@ -525,12 +894,14 @@ const NodeConfiguration = ({
           {renderAIModelSelector()}
           <div className="space-y-2">
             <Label>Research Query</Label>
-            <Textarea
+            <ExpressionField
               key={`research-query-${node.id}`}
-              placeholder="What are the latest developments in AI safety research?"
+              multiline
               rows={3}
+              placeholder="What are the latest developments in AI safety research?"
               value={localConfig.query || ''}
-              onChange={(e) => handleConfigChange('query', e.target.value)}
+              suggestions={expressionSuggestions}
+              onChange={(value) => handleConfigChange('query', value)}
             />
           </div>
           <div className="space-y-2">
@@ -665,11 +1036,12 @@ const NodeConfiguration = ({
 
     <div className="space-y-2">
       <Label>Article Category</Label>
-      <Input
+      <ExpressionField
         key={`category-${node.id}`}
         placeholder="Technology, Business, Science, Health, etc."
         value={localConfig.category || ''}
-        onChange={(e) => handleConfigChange('category', e.target.value)}
+        suggestions={expressionSuggestions}
+        onChange={(value) => handleConfigChange('category', value)}
       />
     </div>
 
@@ -862,11 +1234,12 @@ const NodeConfiguration = ({
           </div>
           <div className="space-y-2">
             <Label>Category Override</Label>
-            <Input
+            <ExpressionField
               key={`category-${node.id}`}
               placeholder="Leave empty to use AI Processor category"
               value={localConfig.category || ''}
-              onChange={(e) => handleConfigChange('category', e.target.value)}
+              suggestions={expressionSuggestions}
+              onChange={(value) => handleConfigChange('category', value)}
             />
           </div>
             <div className="space-y-2">
@@ -919,23 +1292,91 @@ const NodeConfiguration = ({
           </div>
           <div className="space-y-2">
             <Label>Email Subject</Label>
-            <Input
+            <ExpressionField
               key={`subject-${node.id}`}
               placeholder="New Article: {{article.title}}"
               value={localConfig.subject || ''}
-              onChange={(e) => handleConfigChange('subject', e.target.value)}
+              suggestions={expressionSuggestions}
+              onChange={(value) => handleConfigChange('subject', value)}
             />
           </div>
           <div className="space-y-2">
             <Label>Email Body</Label>
-            <Textarea
+            <ExpressionField
               key={`body-${node.id}`}
+              multiline
               rows={4}
               placeholder="A new article has been published. Read it here: {{article.url}}"
               value={localConfig.body || ''}
-              onChange={(e) => handleConfigChange('body', e.target.value)}
+              suggestions={expressionSuggestions}
+              onChange={(value) => handleConfigChange('body', value)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Social Poster Configuration */}
+      {node.type === 'social-poster' && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Platform</Label>
+            <Select
+              key={`platform-${node.id}`}
+              value={localConfig.platform || 'facebook'}
+              onValueChange={(value) => handleConfigChange('platform', value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="facebook">Facebook Page</SelectItem>
+                <SelectItem value="instagram">Instagram Business</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Page ID</Label>
+            <Input
+              key={`pageId-${node.id}`}
+              placeholder="1234567890"
+              value={localConfig.pageId || ''}
+              onChange={(e) => handleConfigChange('pageId', e.target.value)}
             />
           </div>
+          {localConfig.platform === 'instagram' && (
+            <div className="space-y-2">
+              <Label>Instagram Account ID</Label>
+              <Input
+                key={`instagramAccountId-${node.id}`}
+                value={localConfig.instagramAccountId || ''}
+                onChange={(e) => handleConfigChange('instagramAccountId', e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Page Access Token</Label>
+            <Input
+              key={`pageAccessToken-${node.id}`}
+              type="password"
+              value={localConfig.pageAccessToken || ''}
+              onChange={(e) => handleConfigChange('pageAccessToken', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Message</Label>
+            <ExpressionField
+              key={`message-${node.id}`}
+              multiline
+              rows={3}
+              placeholder="New on the blog: {{article.title}} {{article.url}}"
+              value={localConfig.message || ''}
+              suggestions={expressionSuggestions}
+              onChange={(value) => handleConfigChange('message', value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty to post the article title and link
+            </p>
+          </div>
         </div>
       )}
 
@@ -1017,12 +1458,14 @@ const NodeConfiguration = ({
     
     <div className="space-y-2">
       <Label>Image Prompt</Label>
-      <Textarea
+      <ExpressionField
         key={`imagePrompt-${node.id}`}
-        placeholder="A professional illustration of dental AI technology..."
+        multiline
         rows={3}
+        placeholder="A professional illustration of dental AI technology..."
         value={localConfig.imagePrompt || ''}
-        onChange={(e) => handleConfigChange('imagePrompt', e.target.value)}
+        suggestions={expressionSuggestions}
+        onChange={(value) => handleConfigChange('imagePrompt', value)}
       />
     </div>
     
@@ -1123,11 +1566,12 @@ const NodeConfiguration = ({
           </div>
           <div className="space-y-2">
             <Label>Target Keywords (Optional)</Label>
-            <Input
+            <ExpressionField
               key={`targetKeywords-${node.id}`}
               placeholder="dental AI, artificial intelligence, dentistry"
               value={localConfig.targetKeywords || ''}
-              onChange={(e) => handleConfigChange('targetKeywords', e.target.value)}
+              suggestions={expressionSuggestions}
+              onChange={(value) => handleConfigChange('targetKeywords', value)}
             />
           </div>
           <div className="flex items-center space-x-2">
@@ -1247,12 +1691,137 @@ const NodeConfiguration = ({
       )}
 
       {/* Default message for other node types */}
-{!['trigger', 'scraper', 'rss-aggregator', 'google-scholar-search', 'news-discovery', 'perplexity-research', 'ai-processor', 'multi-source-synthesizer', 'publisher', 'email-sender', 'translator', 'article-structure-validator', 'image-generator', 'seo-analyzer'].includes(node.type) && (        <div className="space-y-4">
+{!['trigger', 'router', 'aggregate', 'approval', 'sub-workflow', 'dedupe', 'scraper', 'rss-aggregator', 'google-scholar-search', 'news-discovery', 'perplexity-research', 'ai-processor', 'multi-source-synthesizer', 'publisher', 'social-poster', 'email-sender', 'translator', 'article-structure-validator', 'image-generator', 'seo-analyzer'].includes(node.type) && (        <div className="space-y-4">
           <p className="text-sm text-muted-foreground">
             Configuration options for {node.label} will be available soon.
           </p>
         </div>
       )}
+
+      {/* Fan-Out (nodes whose items are processed one branch each) */}
+      {['scraper', 'rss-aggregator', 'google-scholar-search', 'news-discovery'].includes(node.type) && (
+        <div className="space-y-4 border-t pt-4">
+          <h4 className="text-sm font-semibold">Fan-Out</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Max Items</Label>
+              <Input
+                key={`maxItems-${node.id}`}
+                type="number"
+                min="0"
+                placeholder={node.type === 'news-discovery' ? '2' : node.type === 'google-scholar-search' ? '5' : 'All'}
+                value={localConfig.maxItems ?? localConfig.maxPapers ?? ''}
+                onChange={(e) => handleConfigChange('maxItems', parseInt(e.target.value, 10) || undefined)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Parallel Branches</Label>
+              <Input
+                key={`maxConcurrent-${node.id}`}
+                type="number"
+                min="1"
+                max="10"
+                value={localConfig.maxConcurrent ?? 3}
+                onChange={(e) => handleConfigChange('maxConcurrent', parseInt(e.target.value, 10) || 1)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Each item runs in its own branch. Calls to search and AI providers are also rate limited across all branches.
+          </p>
+        </div>
+      )}
+
+      {/* Error Handling (all nodes except triggers) */}
+      {node.type !== 'trigger' && (
+        <div className="space-y-4 border-t pt-4">
+          <h4 className="text-sm font-semibold">Error Handling</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Retries</Label>
+              <Input
+                key={`retries-${node.id}`}
+                type="number"
+                min="0"
+                max="5"
+                value={localConfig.retries ?? 0}
+                onChange={(e) => handleConfigChange('retries', parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Backoff (seconds)</Label>
+              <Input
+                key={`retryBackoffSeconds-${node.id}`}
+                type="number"
+                min="1"
+                value={localConfig.retryBackoffSeconds ?? 2}
+                onChange={(e) => handleConfigChange('retryBackoffSeconds', parseFloat(e.target.value) || 2)}
+                disabled={!localConfig.retries}
+              />
+            </div>
+          </div>
+          {localConfig.retries > 0 && (
+            <p className="text-xs text-muted-foreground">
+              The wait doubles after each failed attempt.
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label>Timeout (seconds, 0 = none)</Label>
+            <Input
+              key={`timeoutSeconds-${node.id}`}
+              type="number"
+              min="0"
+              value={localConfig.timeoutSeconds ?? 0}
+              onChange={(e) => handleConfigChange('timeoutSeconds', parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>When It Still Fails</Label>
+            <Select
+              key={`onError-${node.id}`}
+              value={localConfig.onError || 'skip'}
+              onValueChange={(value) => handleConfigChange('onError', value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip">Skip the item, continue other branches</SelectItem>
+                <SelectItem value="fail">Fail the whole run</SelectItem>
+                <SelectItem value="route">Send the item to an error branch</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {localConfig.onError === 'route' && (
+            <div className="space-y-2">
+              <Label>Error Branch</Label>
+              {node.connected.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Connect this node to the node that should handle failures.</p>
+              ) : (
+                <Select
+                  key={`errorTargetId-${node.id}`}
+                  value={localConfig.errorTargetId || ''}
+                  onValueChange={(value) => handleConfigChange('errorTargetId', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a connected node" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {node.connected.map((targetId) => (
+                      <SelectItem key={targetId} value={targetId}>
+                        {nodes.find(n => n.id === targetId)?.label || targetId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <p className="text-xs text-muted-foreground">
+                That edge only receives failed items, with the failure under <code>error</code>.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
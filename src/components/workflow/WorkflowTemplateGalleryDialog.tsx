@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, LayoutTemplate } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useCategories } from '@/hooks/use-categories';
+import { WorkflowNode } from '@/types/WorkflowTypes';
+import {
+  WORKFLOW_TEMPLATES,
+  WorkflowTemplate,
+  WorkflowTemplateParameter,
+  WorkflowTemplateValues,
+  instantiateWorkflowTemplate,
+  resolveTemplateValues
+} from '@/lib/workflow/templates';
+
+interface WorkflowTemplateGalleryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (nodes: WorkflowNode[], template: WorkflowTemplate) => void;
+}
+
+// Select items cannot have an empty value, so optional pickers use this one for "not set"
+const NONE = 'none';
+
+const WorkflowTemplateGalleryDialog = ({ open, onOpenChange, onCreate }: WorkflowTemplateGalleryDialogProps) => {
+  const [template, setTemplate] = useState<WorkflowTemplate | null>(null);
+  const [values, setValues] = useState<WorkflowTemplateValues>({});
+
+  const { data: categories } = useCategories();
+  const { data: reporters } = useQuery({
+    queryKey: ['reporters', 'active'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reporters')
+        .select('id, name, email, is_active')
+        .eq('is_active', true)
+        .order('name');
+      if (error) throw new Error(error.message);
+      return data || [];
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) setTemplate(null);
+  }, [open]);
+
+  const chooseTemplate = (chosen: WorkflowTemplate) => {
+    setTemplate(chosen);
+    setValues(Object.fromEntries(chosen.parameters.map(parameter => [parameter.key, parameter.defaultValue || ''])));
+  };
+
+  const setValue = (key: string, value: string) => {
+    setValues(prev => ({ ...prev, [key]: value === NONE ? '' : value }));
+  };
+
+  const create = () => {
+    if (!template) return;
+    try {
+      onCreate(instantiateWorkflowTemplate(template, values), template);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const renderField = (parameter: WorkflowTemplateParameter) => {
+    const value = values[parameter.key] || '';
+
+    switch (parameter.type) {
+      case 'textarea':
+        return (
+          <Textarea
+            value={value}
+            placeholder={parameter.placeholder}
+            onChange={(e) => setValue(parameter.key, e.target.value)}
+            rows={4}
+          />
+        );
+      case 'select':
+        return (
+          <Select value={value} onValueChange={(selected) => setValue(parameter.key, selected)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {parameter.options?.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'reporter':
+        return (
+          <Select value={value || NONE} onValueChange={(selected) => setValue(parameter.key, selected)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No specific reporter</SelectItem>
+              {reporters?.map(reporter => (
+                <SelectItem key={reporter.id} value={reporter.id}>{reporter.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'category':
+        return (
+          <Select value={value || NONE} onValueChange={(selected) => setValue(parameter.key, selected)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Let the AI choose</SelectItem>
+              {categories?.map(category => (
+                <SelectItem key={category.name} value={category.name}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            type={parameter.type === 'time' ? 'time' : 'text'}
+            value={value}
+            placeholder={parameter.placeholder}
+            onChange={(e) => setValue(parameter.key, e.target.value)}
+          />
+        );
+    }
+  };
+
+  const missing = template ? resolveTemplateValues(template, values).missing : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{template ? template.name : 'Workflow Templates'}</DialogTitle>
+          <DialogDescription>
+            {template
+              ? template.description
+              : 'Start from a ready-made workflow. It opens as a new, unsaved workflow you can adjust before saving.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!template ? (
+          <div className="max-h-[60vh] overflow-y-auto space-y-2">
+            {WORKFLOW_TEMPLATES.map((candidate) => (
+              <button
+                key={candidate.id}
+                type="button"
+                onClick={() => chooseTemplate(candidate)}
+                className="w-full rounded border p-3 text-left hover:bg-muted"
+              >
+                <div className="flex items-center gap-2">
+                  <LayoutTemplate className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">{candidate.name}</span>
+                  <Badge variant="secondary">{candidate.build({}).length} nodes</Badge>
+                </div>
+                <p className="mt-1 text-sm text-muted-foreground">{candidate.description}</p>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="max-h-[60vh] overflow-y-auto space-y-4">
+              {template.parameters.map((parameter) => (
+                <div key={parameter.key} className="space-y-2">
+                  <Label>
+                    {parameter.label}
+                    {parameter.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  {renderField(parameter)}
+                  {parameter.description && (
+                    <p className="text-xs text-muted-foreground">{parameter.description}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setTemplate(null)} className="flex items-center gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button onClick={create} disabled={missing.length > 0}>
+                Create Workflow
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkflowTemplateGalleryDialog;
@@ -0,0 +1,87 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RotateCcw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { SavedWorkflow, fetchWorkflowVersions, rollbackWorkflow } from '@/services/workflows';
+
+interface WorkflowVersionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workflow: Pick<SavedWorkflow, 'id' | 'name' | 'current_version'> | null;
+  onRollback: (workflow: SavedWorkflow) => void;
+}
+
+const WorkflowVersionHistoryDialog = ({ open, onOpenChange, workflow, onRollback }: WorkflowVersionHistoryDialogProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: versions, isLoading } = useQuery({
+    queryKey: ['workflow-versions', workflow?.id],
+    queryFn: () => fetchWorkflowVersions(workflow!.id),
+    enabled: open && !!workflow,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: number) => rollbackWorkflow({ id: workflow!.id, version, userId: user?.id }),
+    onSuccess: (updated, version) => {
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      queryClient.invalidateQueries({ queryKey: ['workflow-versions', updated.id] });
+      onRollback(updated);
+      toast.success(`Restored version ${version} as version ${updated.current_version}`);
+    },
+    onError: (error: Error) => toast.error(`Rollback failed: ${error.message}`),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            {workflow ? `Earlier versions of "${workflow.name}". Restoring a version saves it as a new version.` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading versions...</p>
+          ) : !versions || versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No versions saved yet.</p>
+          ) : (
+            versions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between gap-4 rounded border p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Version {version.version}</span>
+                    {version.version === workflow?.current_version && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {version.nodes?.length || 0} nodes
+                    {version.created_at && ` · ${format(new Date(version.created_at), 'MMM d, yyyy HH:mm')}`}
+                  </p>
+                  {version.note && <p className="text-sm text-muted-foreground truncate">{version.note}</p>}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => rollbackMutation.mutate(version.version)}
+                  disabled={rollbackMutation.isPending || version.version === workflow?.current_version}
+                  className="flex items-center gap-1 shrink-0"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  Restore
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkflowVersionHistoryDialog;
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Copy, Eye, EyeOff, RefreshCw } from 'lucide-react';
+import { fetchWorkflowById, getWorkflowWebhookUrl, rotateWorkflowWebhookSecret } from '@/services/workflows';
+
+interface WorkflowWebhookDetailsProps {
+  workflowId?: string;
+}
+
+const copyToClipboard = async (text: string, label: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success(`${label} copied`);
+  } catch (error) {
+    toast.error(`Could not copy ${label.toLowerCase()}`);
+  }
+};
+
+// URL and secret external systems use to start the saved workflow
+const WorkflowWebhookDetails = ({ workflowId }: WorkflowWebhookDetailsProps) => {
+  const queryClient = useQueryClient();
+  const [showSecret, setShowSecret] = useState(false);
+
+  const { data: workflow, isLoading } = useQuery({
+    queryKey: ['workflow', workflowId],
+    queryFn: () => fetchWorkflowById(workflowId!),
+    enabled: !!workflowId,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: () => rotateWorkflowWebhookSecret(workflowId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflow', workflowId] });
+      toast.success('Webhook secret rotated. Update every system that calls this workflow.');
+    },
+    onError: (error: Error) => toast.error(`Failed to rotate secret: ${error.message}`),
+  });
+
+  if (!workflowId) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Save the workflow to get its webhook URL and secret.
+      </p>
+    );
+  }
+
+  if (isLoading || !workflow) {
+    return <p className="text-xs text-muted-foreground">Loading webhook details...</p>;
+  }
+
+  const url = getWorkflowWebhookUrl(workflowId);
+  const secret = workflow.webhook_secret;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Webhook URL</Label>
+        <div className="flex gap-1">
+          <Input readOnly value={url} className="font-mono text-xs" />
+          <Button size="icon" variant="outline" onClick={() => copyToClipboard(url, 'URL')}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Secret</Label>
+        <div className="flex gap-1">
+          <Input readOnly type={showSecret ? 'text' : 'password'} value={secret} className="font-mono text-xs" />
+          <Button size="icon" variant="outline" onClick={() => setShowSecret(!showSecret)}>
+            {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+          <Button size="icon" variant="outline" onClick={() => copyToClipboard(secret, 'Secret')}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => rotateMutation.mutate()}
+          disabled={rotateMutation.isPending}
+          className="flex items-center gap-1"
+        >
+          <RefreshCw className="h-3 w-3" />
+          {rotateMutation.isPending ? 'Rotating...' : 'Rotate Secret'}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        POST a JSON body with the secret in an <code>X-Webhook-Secret</code> header, or send the Unix time in
+        seconds as <code>X-Webhook-Timestamp</code> and <code>X-Webhook-Signature: sha256=&lt;hex&gt;</code>,
+        the HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;raw body&gt;</code>. Signed requests more than five
+        minutes old are rejected. The body is available as <code>{'{{item.payload}}'}</code> and
+        <code>{'{{run.trigger.payload}}'}</code>.
+      </p>
+    </div>
+  );
+};
+
+export default WorkflowWebhookDetails;
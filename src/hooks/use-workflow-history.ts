@@ -0,0 +1,70 @@
+import { SetStateAction, useCallback, useRef, useState } from 'react';
+import { WorkflowNode } from '@/types/WorkflowTypes';
+
+// Older edits are forgotten beyond this
+const MAX_HISTORY = 100;
+// Changes with the same key this close together are undone as one, e.g. typing or dragging
+const COALESCE_MS = 1000;
+
+interface WorkflowHistory {
+  past: WorkflowNode[][];
+  present: WorkflowNode[];
+  future: WorkflowNode[][];
+}
+
+// The builder's nodes with undo and redo. Every change made through `setNodes` can be undone;
+// passing a `coalesceKey` merges a burst of changes to the same thing into one step.
+export const useWorkflowHistory = (initialNodes: WorkflowNode[] = []) => {
+  const [history, setHistory] = useState<WorkflowHistory>({ past: [], present: initialNodes, future: [] });
+  const lastChange = useRef<{ key: string; at: number } | null>(null);
+
+  const setNodes = useCallback((update: SetStateAction<WorkflowNode[]>, coalesceKey?: string) => {
+    const now = Date.now();
+    const coalesce = !!coalesceKey && lastChange.current?.key === coalesceKey && now - lastChange.current.at < COALESCE_MS;
+    lastChange.current = coalesceKey ? { key: coalesceKey, at: now } : null;
+
+    setHistory(prev => {
+      const next = typeof update === 'function' ? update(prev.present) : update;
+      if (next === prev.present) return prev;
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  // Start a fresh history, e.g. when another workflow is opened
+  const resetNodes = useCallback((nodes: WorkflowNode[]) => {
+    lastChange.current = null;
+    setHistory({ past: [], present: nodes, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastChange.current = null;
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChange.current = null;
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+    });
+  }, []);
+
+  return {
+    nodes: history.present,
+    setNodes,
+    resetNodes,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
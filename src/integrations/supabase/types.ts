@@ -471,6 +471,51 @@ export type Database = {
         }
         Relationships: []
       }
+      external_integrations: {
+        Row: {
+          config: Json
+          created_at: string
+          enabled: boolean
+          error_count: number
+          event_types: string[]
+          id: string
+          last_used: string | null
+          name: string
+          secret: string
+          success_count: number
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          config?: Json
+          created_at?: string
+          enabled?: boolean
+          error_count?: number
+          event_types?: string[]
+          id?: string
+          last_used?: string | null
+          name: string
+          secret?: string
+          success_count?: number
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          enabled?: boolean
+          error_count?: number
+          event_types?: string[]
+          id?: string
+          last_used?: string | null
+          name?: string
+          secret?: string
+          success_count?: number
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       global_theme: {
         Row: {
           created_at: string | null
@@ -528,6 +573,72 @@ export type Database = {
         }
         Relationships: []
       }
+      integration_deliveries: {
+        Row: {
+          attempts: number
+          claimed_at: string | null
+          completed_at: string | null
+          created_at: string
+          event_type: string
+          id: string
+          integration_id: string
+          last_error: string | null
+          last_status_code: number | null
+          next_attempt_at: string
+          payload: Json
+          replay_of: string | null
+          response_body: string | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          claimed_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          event_type: string
+          id?: string
+          integration_id: string
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string
+          payload: Json
+          replay_of?: string | null
+          response_body?: string | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          claimed_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          integration_id?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string
+          payload?: Json
+          replay_of?: string | null
+          response_body?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "integration_deliveries_integration_id_fkey"
+            columns: ["integration_id"]
+            isOneToOne: false
+            referencedRelation: "external_integrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "integration_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            isOneToOne: false
+            referencedRelation: "integration_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -749,38 +860,294 @@ export type Database = {
         }
         Relationships: []
       }
+      workflow_action_jobs: {
+        Row: {
+          action: Json
+          action_type: string
+          attempts: number
+          cancelled_at: string | null
+          claimed_at: string | null
+          completed_at: string | null
+          created_at: string
+          error_message: string | null
+          execution_id: string | null
+          id: string
+          run_at: string
+          skipped_reason: string | null
+          status: string
+          suggestion_id: string
+          workflow_rule_id: string
+        }
+        Insert: {
+          action: Json
+          action_type: string
+          attempts?: number
+          cancelled_at?: string | null
+          claimed_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          execution_id?: string | null
+          id?: string
+          run_at: string
+          skipped_reason?: string | null
+          status?: string
+          suggestion_id: string
+          workflow_rule_id: string
+        }
+        Update: {
+          action?: Json
+          action_type?: string
+          attempts?: number
+          cancelled_at?: string | null
+          claimed_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          execution_id?: string | null
+          id?: string
+          run_at?: string
+          skipped_reason?: string | null
+          status?: string
+          suggestion_id?: string
+          workflow_rule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_action_jobs_execution_id_fkey"
+            columns: ["execution_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_action_jobs_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "ai_suggestions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_action_jobs_workflow_rule_id_fkey"
+            columns: ["workflow_rule_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_approvals: {
+        Row: {
+          approved_item: Json | null
+          branch_path: string | null
+          continued_execution_id: string | null
+          created_at: string | null
+          execution_id: string
+          id: string
+          instructions: string | null
+          item: Json
+          node_id: string
+          node_label: string | null
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          upstream: Json
+          workflow_id: string | null
+        }
+        Insert: {
+          approved_item?: Json | null
+          branch_path?: string | null
+          continued_execution_id?: string | null
+          created_at?: string | null
+          execution_id: string
+          id?: string
+          instructions?: string | null
+          item: Json
+          node_id: string
+          node_label?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          upstream?: Json
+          workflow_id?: string | null
+        }
+        Update: {
+          approved_item?: Json | null
+          branch_path?: string | null
+          continued_execution_id?: string | null
+          created_at?: string | null
+          execution_id?: string
+          id?: string
+          instructions?: string | null
+          item?: Json
+          node_id?: string
+          node_label?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          upstream?: Json
+          workflow_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_approvals_continued_execution_id_fkey"
+            columns: ["continued_execution_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_approvals_execution_id_fkey"
+            columns: ["execution_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_approvals_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_events: {
+        Row: {
+          attempts: number
+          claimed_at: string | null
+          created_at: string
+          error_message: string | null
+          event_type: string
+          id: string
+          old_record: Json | null
+          processed_at: string | null
+          record: Json
+          record_id: string | null
+          runs_started: number
+          status: string
+          table_name: string
+        }
+        Insert: {
+          attempts?: number
+          claimed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          event_type: string
+          id?: string
+          old_record?: Json | null
+          processed_at?: string | null
+          record: Json
+          record_id?: string | null
+          runs_started?: number
+          status?: string
+          table_name: string
+        }
+        Update: {
+          attempts?: number
+          claimed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          event_type?: string
+          id?: string
+          old_record?: Json | null
+          processed_at?: string | null
+          record?: Json
+          record_id?: string | null
+          runs_started?: number
+          status?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
       workflow_executions: {
         Row: {
+          cancel_requested_at: string | null
           completed_at: string | null
+          continuation: Json | null
+          cost_usd: number
           error_message: string | null
           id: string
+          input_tokens: number
+          node_usage: Json
+          nodes: Json | null
+          output_tokens: number
+          parent_execution_id: string | null
+          parent_node_id: string | null
           result: Json | null
+          resumed_from: string | null
           started_at: string | null
           status: string
-          suggestion_id: string
-          workflow_rule_id: string
+          suggestion_id: string | null
+          trigger_data: Json | null
+          trigger_type: string
+          workflow_id: string | null
+          workflow_rule_id: string | null
         }
         Insert: {
+          cancel_requested_at?: string | null
           completed_at?: string | null
+          continuation?: Json | null
+          cost_usd?: number
           error_message?: string | null
           id?: string
+          input_tokens?: number
+          node_usage?: Json
+          nodes?: Json | null
+          output_tokens?: number
+          parent_execution_id?: string | null
+          parent_node_id?: string | null
           result?: Json | null
+          resumed_from?: string | null
           started_at?: string | null
           status?: string
-          suggestion_id: string
-          workflow_rule_id: string
+          suggestion_id?: string | null
+          trigger_data?: Json | null
+          trigger_type?: string
+          workflow_id?: string | null
+          workflow_rule_id?: string | null
         }
         Update: {
+          cancel_requested_at?: string | null
           completed_at?: string | null
+          continuation?: Json | null
+          cost_usd?: number
           error_message?: string | null
           id?: string
+          input_tokens?: number
+          node_usage?: Json
+          nodes?: Json | null
+          output_tokens?: number
+          parent_execution_id?: string | null
+          parent_node_id?: string | null
           result?: Json | null
+          resumed_from?: string | null
           started_at?: string | null
           status?: string
-          suggestion_id?: string
-          workflow_rule_id?: string
+          suggestion_id?: string | null
+          trigger_data?: Json | null
+          trigger_type?: string
+          workflow_id?: string | null
+          workflow_rule_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "workflow_executions_parent_execution_id_fkey"
+            columns: ["parent_execution_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_executions_resumed_from_fkey"
+            columns: ["resumed_from"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "workflow_executions_suggestion_id_fkey"
             columns: ["suggestion_id"]
@@ -788,6 +1155,13 @@ export type Database = {
             referencedRelation: "ai_suggestions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "workflow_executions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "workflow_executions_workflow_rule_id_fkey"
             columns: ["workflow_rule_id"]
@@ -797,6 +1171,86 @@ export type Database = {
           },
         ]
       }
+      workflow_node_runs: {
+        Row: {
+          attempts: number
+          branch_index: number | null
+          branch_path: string | null
+          cost_usd: number
+          created_at: string | null
+          duration_ms: number | null
+          error_message: string | null
+          execution_id: string
+          finished_at: string | null
+          id: string
+          input: Json | null
+          input_key: string
+          input_tokens: number
+          node_id: string
+          node_label: string | null
+          node_type: string | null
+          output: Json | null
+          output_tokens: number
+          reused: boolean
+          started_at: string | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          branch_index?: number | null
+          branch_path?: string | null
+          cost_usd?: number
+          created_at?: string | null
+          duration_ms?: number | null
+          error_message?: string | null
+          execution_id: string
+          finished_at?: string | null
+          id?: string
+          input?: Json | null
+          input_key: string
+          input_tokens?: number
+          node_id: string
+          node_label?: string | null
+          node_type?: string | null
+          output?: Json | null
+          output_tokens?: number
+          reused?: boolean
+          started_at?: string | null
+          status: string
+        }
+        Update: {
+          attempts?: number
+          branch_index?: number | null
+          branch_path?: string | null
+          cost_usd?: number
+          created_at?: string | null
+          duration_ms?: number | null
+          error_message?: string | null
+          execution_id?: string
+          finished_at?: string | null
+          id?: string
+          input?: Json | null
+          input_key?: string
+          input_tokens?: number
+          node_id?: string
+          node_label?: string | null
+          node_type?: string | null
+          output?: Json | null
+          output_tokens?: number
+          reused?: boolean
+          started_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_node_runs_execution_id_fkey"
+            columns: ["execution_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflow_rules: {
         Row: {
           actions: Json
@@ -839,6 +1293,95 @@ export type Database = {
         }
         Relationships: []
       }
+      workflow_versions: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          nodes: Json
+          note: string | null
+          version: number
+          workflow_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          nodes?: Json
+          note?: string | null
+          version: number
+          workflow_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          nodes?: Json
+          note?: string | null
+          version?: number
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_versions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflows: {
+        Row: {
+          budget_usd: number | null
+          created_at: string | null
+          current_version: number
+          description: string | null
+          event_types: string[]
+          id: string
+          last_run_at: string | null
+          name: string
+          next_run_at: string | null
+          nodes: Json
+          owner_id: string | null
+          schedule_enabled: boolean
+          updated_at: string | null
+          webhook_secret: string
+        }
+        Insert: {
+          budget_usd?: number | null
+          created_at?: string | null
+          current_version?: number
+          description?: string | null
+          event_types?: string[]
+          id?: string
+          last_run_at?: string | null
+          name: string
+          next_run_at?: string | null
+          nodes?: Json
+          owner_id?: string | null
+          schedule_enabled?: boolean
+          updated_at?: string | null
+          webhook_secret?: string
+        }
+        Update: {
+          budget_usd?: number | null
+          created_at?: string | null
+          current_version?: number
+          description?: string | null
+          event_types?: string[]
+          id?: string
+          last_run_at?: string | null
+          name?: string
+          next_run_at?: string | null
+          nodes?: Json
+          owner_id?: string | null
+          schedule_enabled?: boolean
+          updated_at?: string | null
+          webhook_secret?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       categories_with_images: {
@@ -855,6 +1398,18 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      save_workflow_version: {
+        Args: {
+          p_workflow_id: string
+          p_nodes: Json
+          p_note: string | null
+          p_created_by: string | null
+          p_schedule_enabled: boolean
+          p_next_run_at: string | null
+          p_event_types: string[]
+        }
+        Returns: Database["public"]["Tables"]["workflows"]["Row"]
+      }
     }
     Enums: {
       admin_action_type: "approve" | "reject" | "edit" | "dismiss"
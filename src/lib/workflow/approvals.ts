@@ -0,0 +1,72 @@
+// Approval requests, stored in workflow_approvals for every recorded run.
+//
+// An approval node hands its item to the store and drops it from the run. Once an editor
+// approves the item, a new run continues from the approval node (see continueWorkflow).
+import type { WorkflowApprovalStore } from './types.ts';
+import type { WorkflowDatabaseClient } from './database.ts';
+import { fromTable } from './database.ts';
+
+export function createSupabaseApprovalStore(
+  client: WorkflowDatabaseClient,
+  executionId: string,
+  workflowId?: string | null
+): WorkflowApprovalStore {
+  return {
+    request: async (request) => {
+      const { error } = await fromTable(client, 'workflow_approvals')
+        .insert({
+          execution_id: executionId,
+          workflow_id: workflowId || null,
+          node_id: request.nodeId,
+          node_label: request.nodeName,
+          instructions: request.instructions || null,
+          item: request.item ?? {},
+          upstream: request.upstream,
+          branch_path: request.branch.length > 0 ? request.branch.join('.') : null,
+        });
+
+      // Unlike a lost checkpoint, a lost request would silently lose the item
+      if (error) {
+        throw new Error(`Failed to hold the item for approval: ${error.message}`);
+      }
+    }
+  };
+}
+
+async function countPendingApprovals(client: WorkflowDatabaseClient, executionId: string): Promise<number> {
+  const { count, error } = await fromTable(client, 'workflow_approvals')
+    .select('id', { count: 'exact', head: true })
+    .eq('execution_id', executionId)
+    .eq('status', 'pending');
+
+  if (error) throw new Error(`Failed to count the items awaiting approval: ${error.message}`);
+  return count || 0;
+}
+
+// A finished run stays 'waiting' while any item it held is unreviewed. The pending rows decide,
+// not the run's own count: items can be reviewed before the run that held them finishes.
+export async function getFinishedRunStatus(
+  client: WorkflowDatabaseClient,
+  executionId: string
+): Promise<'waiting' | 'completed'> {
+  return await countPendingApprovals(client, executionId) > 0 ? 'waiting' : 'completed';
+}
+
+// Complete a 'waiting' run once none of its items waits for review. Called after each review, and
+// by the writer of a finished run after it wrote 'waiting', in case the last review landed
+// between counting and writing.
+export async function completeRunIfReviewed(client: WorkflowDatabaseClient, executionId: string): Promise<void> {
+  try {
+    if (await countPendingApprovals(client, executionId) > 0) return;
+
+    const { error } = await fromTable(client, 'workflow_executions')
+      .update({ status: 'completed' })
+      .eq('id', executionId)
+      .eq('status', 'waiting');
+
+    if (error) throw new Error(error.message);
+  } catch (error) {
+    // The reviews and the run's outputs are saved; only its status lags behind
+    console.error(`Failed to complete run ${executionId} after its reviews:`, error);
+  }
+}
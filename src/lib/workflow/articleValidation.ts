@@ -1,4 +1,5 @@
-import { WorkflowNode } from '@/types/WorkflowTypes';
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+import type { WorkflowItem } from './types.ts';
 
 export interface ArticleValidationResult {
   isValid: boolean;
@@ -108,7 +109,7 @@ const extractArticleMetadata = (content: string) => {
 
 export const executeArticleValidation = async (
   node: WorkflowNode, 
-  previousData: any
+  previousData: WorkflowItem
 ): Promise<ArticleValidationResult> => {
   if (!previousData || (!previousData.processedContent && !previousData.synthesizedContent)) {
     throw new Error('No content to validate. Connect this node to a content processor.');
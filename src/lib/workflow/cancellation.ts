@@ -0,0 +1,84 @@
+// Cancelling runs that are in progress.
+//
+// A run stops when the AbortSignal in its options fires: no further node, retry or edge function
+// call starts, and the nodes still waiting on a call stop waiting for it. Calls already sent are
+// not recalled; their results are ignored. The run then throws WorkflowRunCancelledError.
+//
+// Recorded runs can also be cancelled from anywhere, including runs on the server: setting
+// workflow_executions.cancel_requested_at is picked up by the process running them (see
+// watchExecutionCancellation), which records the run as 'cancelled'.
+import type { WorkflowDatabaseClient } from './database.ts';
+import { fromTable } from './database.ts';
+
+// How often a recorded run checks whether it has been asked to stop
+const CANCELLATION_POLL_MS = 5000;
+
+export class WorkflowRunCancelledError extends Error {
+  constructor() {
+    super('The run was cancelled');
+  }
+}
+
+export function isWorkflowRunCancelled(error: unknown): boolean {
+  return error instanceof WorkflowRunCancelledError;
+}
+
+// The status to record for a run that threw `error`
+export function getFailedRunStatus(error: unknown): 'cancelled' | 'failed' {
+  return isWorkflowRunCancelled(error) ? 'cancelled' : 'failed';
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new WorkflowRunCancelledError();
+  }
+}
+
+// Settle with `promise`, or reject as soon as the signal fires
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new WorkflowRunCancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new WorkflowRunCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// A signal that fires when the recorded run is asked to stop, or when `signal` does. Call
+// `stop` once the run is over.
+export function watchExecutionCancellation(
+  client: WorkflowDatabaseClient,
+  executionId: string,
+  signal?: AbortSignal
+): { signal: AbortSignal; stop: () => void } {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  if (signal?.aborted) abort();
+
+  const timer = setInterval(async () => {
+    const { data, error } = await fromTable(client, 'workflow_executions')
+      .select('cancel_requested_at')
+      .eq('id', executionId)
+      .maybeSingle();
+
+    // A failed check is retried on the next tick rather than stopping the run
+    if (error) {
+      console.error(`Failed to check whether run ${executionId} was cancelled:`, error);
+      return;
+    }
+    if ((data as { cancel_requested_at: string | null } | null)?.cancel_requested_at) abort();
+  }, CANCELLATION_POLL_MS);
+
+  return {
+    signal: controller.signal,
+    stop: () => {
+      clearInterval(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  };
+}
@@ -0,0 +1,101 @@
+// Per-node output checkpoints, stored in workflow_node_runs for every recorded run.
+//
+// A checkpoint is keyed by node id and a hash of the node's input. Resuming a run
+// replays the graph from its triggers and reuses the checkpointed output whenever a
+// node sees the same input again, so only failed or never-reached work is executed.
+import type { WorkflowCheckpoint, WorkflowCheckpointStore, WorkflowItem } from './types.ts';
+import type { WorkflowDatabaseClient } from './database.ts';
+import { fromTable } from './database.ts';
+
+// JSON with object keys sorted, so equal inputs always serialize the same way
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+    .join(',')}}`;
+}
+
+// 53-bit string hash (cyrb53); collisions are not a concern at checkpoint scale
+function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export function getCheckpointInputKey(input: unknown): string {
+  return hashString(stableStringify(input));
+}
+
+const cacheKey = (nodeId: string, inputKey: string) => `${nodeId}:${inputKey}`;
+
+// Records checkpoints for `executionId`. When `resumeFromExecutionId` is given, the completed
+// checkpoints of that run are loaded first and handed back to the engine for reuse.
+export async function createSupabaseCheckpointStore(
+  client: WorkflowDatabaseClient,
+  executionId: string,
+  resumeFromExecutionId?: string
+): Promise<WorkflowCheckpointStore> {
+  const reusable = new Map<string, WorkflowItem | null>();
+
+  if (resumeFromExecutionId) {
+    const { data, error } = await fromTable(client, 'workflow_node_runs')
+      .select('node_id, input_key, output')
+      .eq('execution_id', resumeFromExecutionId)
+      .eq('status', 'completed');
+
+    if (error) {
+      throw new Error(`Failed to load checkpoints: ${error.message}`);
+    }
+    for (const row of (data || []) as { node_id: string; input_key: string; output: WorkflowItem | null }[]) {
+      reusable.set(cacheKey(row.node_id, row.input_key), row.output);
+    }
+  }
+
+  return {
+    load: (nodeId, inputKey) => {
+      const key = cacheKey(nodeId, inputKey);
+      return reusable.has(key) ? { output: reusable.get(key) } : undefined;
+    },
+    save: async (checkpoint: WorkflowCheckpoint) => {
+      const { error } = await fromTable(client, 'workflow_node_runs')
+        .insert({
+          execution_id: executionId,
+          node_id: checkpoint.nodeId,
+          node_label: checkpoint.nodeName,
+          node_type: checkpoint.nodeType,
+          input_key: checkpoint.inputKey,
+          input: checkpoint.input ?? null,
+          branch_index: checkpoint.branch.length > 0 ? checkpoint.branch[checkpoint.branch.length - 1] : null,
+          branch_path: checkpoint.branch.length > 0 ? checkpoint.branch.join('.') : null,
+          status: checkpoint.status,
+          output: checkpoint.output ?? null,
+          error_message: checkpoint.error || null,
+          attempts: checkpoint.attempts ?? 1,
+          reused: checkpoint.reused || false,
+          started_at: checkpoint.startedAt.toISOString(),
+          finished_at: checkpoint.finishedAt.toISOString(),
+          duration_ms: checkpoint.finishedAt.getTime() - checkpoint.startedAt.getTime(),
+          input_tokens: checkpoint.usage?.inputTokens ?? 0,
+          output_tokens: checkpoint.usage?.outputTokens ?? 0,
+          cost_usd: checkpoint.usage?.costUsd ?? 0,
+        });
+
+      // A missing checkpoint only means more work on resume, so it never fails the run
+      if (error) {
+        console.error(`Failed to save checkpoint for ${checkpoint.nodeName}:`, error);
+      }
+    }
+  };
+}
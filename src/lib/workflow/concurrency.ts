@@ -0,0 +1,146 @@
+// Fan-out branch limits and provider rate limits.
+//
+// Fan-out branches run concurrently, up to the producer node's `maxConcurrent`. Calls to
+// external providers go through per-provider limiters shared by every branch and every run
+// in the same process, so raising a node's concurrency cannot exceed a provider's quota.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+import type { WorkflowRuntime } from './types.ts';
+import { delay } from './errorPolicy.ts';
+
+export interface FanOutSettings {
+  maxConcurrent: number;
+  // Items beyond this are dropped before branching; undefined processes every item
+  maxItems?: number;
+}
+
+const DEFAULT_MAX_CONCURRENT = 3;
+const MAX_CONCURRENT_LIMIT = 10;
+
+// Producers whose items are expensive enough to be capped unless the node says otherwise
+const DEFAULT_MAX_ITEMS: Partial<Record<WorkflowNode['type'], number>> = {
+  'news-discovery': 2,
+  'google-scholar-search': 5,
+};
+
+export function getFanOutSettings(node: WorkflowNode): FanOutSettings {
+  const config = node.config || {};
+  // `maxPapers` is the older name of the Scholar limit
+  const maxItems = Number(config.maxItems) || Number(config.maxPapers) || DEFAULT_MAX_ITEMS[node.type];
+
+  return {
+    maxConcurrent: Math.min(Math.max(Number(config.maxConcurrent) || DEFAULT_MAX_CONCURRENT, 1), MAX_CONCURRENT_LIMIT),
+    maxItems: maxItems > 0 ? maxItems : undefined,
+  };
+}
+
+// Run `task` for every item with at most `limit` running at once. Once a task fails no new
+// ones start; the first error is rethrown after the running ones have settled.
+export async function mapWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        await task(items[index], index);
+      } catch (error) {
+        failure = failure || { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  if (failure) throw failure.error;
+}
+
+export interface ProviderRateLimit {
+  maxConcurrent: number;
+  requestsPerMinute?: number;
+}
+
+// The external provider behind each edge function. Functions not listed here are not limited.
+const FUNCTION_PROVIDERS: Record<string, string> = {
+  'google-scholar-search': 'serpapi',
+  'news-discovery': 'gnews',
+  'perplexity-research': 'perplexity',
+  'run-ai-agent-analysis': 'ai',
+  'multi-source-synthesizer': 'ai',
+  'seo-analyzer': 'ai',
+  translator: 'ai',
+  'image-generator': 'ai-images',
+};
+
+export const PROVIDER_RATE_LIMITS: Record<string, ProviderRateLimit> = {
+  serpapi: { maxConcurrent: 2, requestsPerMinute: 30 },
+  gnews: { maxConcurrent: 2, requestsPerMinute: 10 },
+  perplexity: { maxConcurrent: 2, requestsPerMinute: 20 },
+  ai: { maxConcurrent: 4, requestsPerMinute: 30 },
+  'ai-images': { maxConcurrent: 2, requestsPerMinute: 10 },
+};
+
+const MINUTE_MS = 60 * 1000;
+
+class ProviderLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private recentStarts: number[] = [];
+
+  constructor(private limit: ProviderRateLimit) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    while (this.active >= this.limit.maxConcurrent) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+
+    const { requestsPerMinute } = this.limit;
+    if (!requestsPerMinute) return;
+    for (;;) {
+      const now = Date.now();
+      this.recentStarts = this.recentStarts.filter(start => now - start < MINUTE_MS);
+      if (this.recentStarts.length < requestsPerMinute) {
+        this.recentStarts.push(now);
+        return;
+      }
+      await delay(this.recentStarts[0] + MINUTE_MS - now);
+    }
+  }
+}
+
+const limiters = new Map<string, ProviderLimiter>();
+
+function getProviderLimiter(functionName: string): ProviderLimiter | undefined {
+  const provider = FUNCTION_PROVIDERS[functionName];
+  if (!provider || !PROVIDER_RATE_LIMITS[provider]) return undefined;
+
+  if (!limiters.has(provider)) {
+    limiters.set(provider, new ProviderLimiter(PROVIDER_RATE_LIMITS[provider]));
+  }
+  return limiters.get(provider);
+}
+
+// Queue each call until its provider has capacity. Time spent queued counts toward the
+// calling node's timeout.
+export function createRateLimitedRuntime(runtime: WorkflowRuntime): WorkflowRuntime {
+  return {
+    invoke: (functionName, body) => {
+      const limiter = getProviderLimiter(functionName);
+      return limiter ? limiter.run(() => runtime.invoke(functionName, body)) : runtime.invoke(functionName, body);
+    }
+  };
+}
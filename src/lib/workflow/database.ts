@@ -0,0 +1,45 @@
+// The parts of the supabase-js client the workflow stores and queues use.
+//
+// They take any client with a `from` method: the browser client typed with the app's Database,
+// or the untyped service-role client of the edge functions. Comparing the typed client against
+// a typed `from` makes the compiler expand every table's filter types, so `from` returns
+// unknown and fromTable states the query methods the stores chain instead. Rows come back as
+// unknown; each store casts them to the columns it selected.
+
+export interface WorkflowDatabaseClient {
+  from: (table: string) => unknown;
+}
+
+export interface WorkflowQueryResult {
+  data: unknown;
+  // Set when the query asked for a count
+  count?: number | null;
+  error: { message: string } | null;
+}
+
+// After .select() on a filtered query only ordering, limits and single rows remain
+export interface WorkflowQueryTransform extends PromiseLike<WorkflowQueryResult> {
+  select: (columns?: string) => WorkflowQueryTransform;
+  order: (column: string, options?: { ascending?: boolean }) => this;
+  limit: (count: number) => this;
+  single: () => PromiseLike<WorkflowQueryResult>;
+  maybeSingle: () => PromiseLike<WorkflowQueryResult>;
+}
+
+export interface WorkflowQuery extends WorkflowQueryTransform {
+  eq: (column: string, value: unknown) => this;
+  lt: (column: string, value: unknown) => this;
+  lte: (column: string, value: unknown) => this;
+  gte: (column: string, value: unknown) => this;
+  or: (filters: string) => this;
+}
+
+export interface WorkflowTable {
+  select: (columns?: string, options?: { count?: 'exact'; head?: boolean }) => WorkflowQuery;
+  insert: (values: Record<string, unknown>) => WorkflowQuery;
+  update: (values: Record<string, unknown>) => WorkflowQuery;
+}
+
+export function fromTable(client: WorkflowDatabaseClient, table: string): WorkflowTable {
+  return client.from(table) as WorkflowTable;
+}
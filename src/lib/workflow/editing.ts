@@ -0,0 +1,153 @@
+// Graph edits for the builder canvas: copying and pasting groups of nodes, and laying out
+// a messy graph left to right.
+import type { RouterRoute, WorkflowNode } from '../../types/WorkflowTypes.ts';
+
+// The canvas grid used by auto-layout and templates
+export const GRID_COLUMN_WIDTH = 300;
+export const GRID_ROW_HEIGHT = 160;
+export const GRID_MARGIN = 50;
+
+// How far a pasted group lands from the nodes it was copied from
+const PASTE_OFFSET = 40;
+
+// What the clipboard holds. The marker tells copied nodes apart from any other JSON text.
+export interface WorkflowClipboard {
+  kind: 'workflow-nodes';
+  nodes: WorkflowNode[];
+}
+
+export function getGridPosition(column: number, row = 0): WorkflowNode['position'] {
+  return { x: GRID_MARGIN + column * GRID_COLUMN_WIDTH, y: GRID_MARGIN + row * GRID_ROW_HEIGHT };
+}
+
+// Edges that leave the copied group are dropped; edges between copied nodes are kept
+export function copyNodes(nodes: WorkflowNode[], nodeIds: string[]): WorkflowClipboard {
+  const ids = new Set(nodeIds);
+  return {
+    kind: 'workflow-nodes',
+    nodes: nodes
+      .filter(node => ids.has(node.id))
+      .map(node => remapNodeReferences(node, node.id, id => (ids.has(id) ? id : undefined))),
+  };
+}
+
+export function parseWorkflowClipboard(text: string): WorkflowClipboard | null {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed?.kind === 'workflow-nodes' && Array.isArray(parsed.nodes) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Copies of the clipboard's nodes with new ids, ready to add to `existing`. Copies land
+// below and to the right of the originals, further each time the same group is pasted again.
+export function pasteNodes(clipboard: WorkflowClipboard, existing: WorkflowNode[]): WorkflowNode[] {
+  const createdAt = Date.now();
+  const ids = new Map(clipboard.nodes.map((node, i) => [node.id, `${node.type}-${createdAt}-${i}`]));
+
+  const taken = new Set(existing.map(node => `${node.position.x},${node.position.y}`));
+  let offset = PASTE_OFFSET;
+  while (clipboard.nodes.some(node => taken.has(`${node.position.x + offset},${node.position.y + offset}`))) {
+    offset += PASTE_OFFSET;
+  }
+
+  return clipboard.nodes.map(node => ({
+    ...remapNodeReferences(node, ids.get(node.id), id => ids.get(id)),
+    position: { x: node.position.x + offset, y: node.position.y + offset },
+  }));
+}
+
+// The node with a new id and its references to other nodes renamed by `rename`. References
+// `rename` drops are removed, along with the error edge or route settings that used them.
+function remapNodeReferences(node: WorkflowNode, id: string, rename: (id: string) => string | undefined): WorkflowNode {
+  const config = { ...node.config };
+
+  if (config.errorTargetId) {
+    const errorTargetId = rename(config.errorTargetId);
+    if (errorTargetId) {
+      config.errorTargetId = errorTargetId;
+    } else {
+      delete config.errorTargetId;
+    }
+  }
+  if (Array.isArray(config.routes)) {
+    config.routes = (config.routes as RouterRoute[])
+      .filter(route => rename(route.targetId))
+      .map(route => ({ ...route, targetId: rename(route.targetId) }));
+  }
+
+  return {
+    ...node,
+    id,
+    config,
+    connected: node.connected.map(rename).filter(Boolean),
+  };
+}
+
+// Arrange the graph in columns by depth: triggers first, every node one column right of the
+// furthest node feeding it. Nodes in a column are ordered by the rows of the nodes feeding them,
+// which keeps most edges from crossing.
+export function layoutWorkflow(nodes: WorkflowNode[]): WorkflowNode[] {
+  const ids = new Set(nodes.map(node => node.id));
+  const hasParent = new Set(nodes.flatMap(node => node.connected));
+
+  // Walk forward from the triggers, then from the other starting points, to find the edges
+  // that close a loop. They are left out when measuring depth, so loops still lay out.
+  const loopEdges = new Set<string>();
+  const walked = new Map<string, 'active' | 'done'>();
+  const walk = (node: WorkflowNode) => {
+    walked.set(node.id, 'active');
+    for (const targetId of node.connected) {
+      if (!ids.has(targetId)) continue;
+      if (walked.get(targetId) === 'active') {
+        loopEdges.add(`${node.id}>${targetId}`);
+      } else if (!walked.has(targetId)) {
+        walk(nodes.find(n => n.id === targetId));
+      }
+    }
+    walked.set(node.id, 'done');
+  };
+  const startOrder = (node: WorkflowNode) => node.type === 'trigger' ? 0 : hasParent.has(node.id) ? 2 : 1;
+  const ordered = [...nodes].sort((a, b) => startOrder(a) - startOrder(b));
+  ordered.forEach(node => !walked.has(node.id) && walk(node));
+
+  const parents = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  for (const node of nodes) {
+    for (const targetId of node.connected) {
+      if (ids.has(targetId) && !loopEdges.has(`${node.id}>${targetId}`)) {
+        parents.get(targetId).push(node.id);
+      }
+    }
+  }
+
+  // Longest path from the starting points
+  const columns = new Map<string, number>();
+  const getColumn = (id: string): number => {
+    if (!columns.has(id)) {
+      columns.set(id, Math.max(-1, ...parents.get(id).map(getColumn)) + 1);
+    }
+    return columns.get(id);
+  };
+  nodes.forEach(node => getColumn(node.id));
+
+  const rows = new Map<string, number>();
+  const columnCount = Math.max(0, ...columns.values()) + 1;
+  for (let column = 0; column < columnCount; column++) {
+    const inColumn = ordered.filter(node => columns.get(node.id) === column);
+    const weight = (node: WorkflowNode) => {
+      const placed = parents.get(node.id).map(id => rows.get(id));
+      // Unconnected nodes keep their current top-to-bottom order
+      return placed.length > 0 ? placed.reduce((sum, row) => sum + row, 0) / placed.length : node.position.y / GRID_ROW_HEIGHT;
+    };
+    inColumn
+      .map(node => ({ node, weight: weight(node) }))
+      .sort((a, b) => a.weight - b.weight)
+      .forEach(({ node }, row) => rows.set(node.id, row));
+  }
+
+  return nodes.map(node => ({
+    ...node,
+    position: getGridPosition(columns.get(node.id), rows.get(node.id)),
+  }));
+}
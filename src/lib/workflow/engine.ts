@@ -0,0 +1,639 @@
+// Headless workflow engine shared by the Workflow Builder and the automation service.
+//
+// Modules under lib/workflow import each other by relative path with explicit
+// extensions and reach Supabase only through WorkflowRuntime, so the edge runtime
+// can load the same code.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+import type {
+  NodeExecutionContext,
+  WorkflowCheckpoint,
+  WorkflowContinuation,
+  WorkflowDefinition,
+  WorkflowItem,
+  WorkflowLogEntry,
+  WorkflowRunOptions,
+  WorkflowRunResult,
+  WorkflowRuntime,
+  WorkflowSource,
+  WorkflowSubWorkflowResult,
+  WorkflowTriggerData,
+  WorkflowUsage
+} from './types.ts';
+import { getNodeExecutor } from './registry.ts';
+import { selectRouteTargets } from './routing.ts';
+import { getCheckpointInputKey } from './checkpoints.ts';
+import { createDryRunRuntime } from './fixtures.ts';
+import { createExpressionScope, resolveNodeExpressions } from './expressions.ts';
+import { createRateLimitedRuntime, getFanOutSettings, mapWithConcurrency } from './concurrency.ts';
+import { validateWorkflow, WorkflowValidationError } from './validation.ts';
+import { createRunUsage, formatCost, getReportedUsage } from './usage.ts';
+import { findSubWorkflowCycle, getSubWorkflowTriggerNodes } from './subWorkflows.ts';
+import { abortable, throwIfCancelled, WorkflowRunCancelledError } from './cancellation.ts';
+import {
+  delay,
+  getNodeErrorPolicy,
+  getOutputTargetIds,
+  getRetryDelay,
+  withTimeout
+} from './errorPolicy.ts';
+
+// Array outputs that make the engine process each item in its own branch
+const FAN_OUT_KEYS = ['scrapedContent', 'articles', 'papers'] as const;
+
+// Where an item came from: the nodes it passed through with their outputs (nearest last),
+// and its branch index in every fan-out on the way (outermost first)
+interface Lineage {
+  upstream: { node: WorkflowNode; output: WorkflowItem }[];
+  branch: number[];
+}
+
+interface PendingAggregate {
+  // Branches finish in any order; items are joined in branch order
+  entries: { item: WorkflowItem; branch: number[] }[];
+  // Only the nodes every collected item passed through stay referenceable after joining
+  lineage: Lineage;
+}
+
+interface RunState {
+  nodes: WorkflowNode[];
+  options: WorkflowRunOptions;
+  result: WorkflowRunResult;
+  // Items waiting at aggregate nodes until every branch of the run has finished
+  aggregates: Map<string, PendingAggregate>;
+  // {{run.*}} in node config expressions
+  run: { date: Date; trigger: WorkflowTriggerData };
+  // Set once the run's AI cost passes `options.budgetUsd`
+  budgetExceeded: boolean;
+  // Saved workflows this run and the runs that started it belong to, outermost first
+  callStack: string[];
+  // Workflows loaded for sub-workflow nodes, shared with child runs
+  workflows: Map<string, Promise<WorkflowDefinition>>;
+}
+
+// A run started by a sub-workflow node. It calls edge functions through the node's runtime, so
+// its AI costs count toward the node and the parent run's budget.
+interface ParentRun {
+  state: RunState;
+  runtime: WorkflowRuntime;
+}
+
+// Thrown when a node with the "fail" error policy gives up, to stop the whole run
+class WorkflowRunAbortedError extends Error {}
+
+// Stops every branch once the run is over budget
+class WorkflowBudgetExceededError extends WorkflowRunAbortedError {}
+
+// Carries the number of attempts a node made before its last failure
+class NodeExecutionError extends Error {
+  constructor(message: string, public attempts: number) {
+    super(message);
+  }
+}
+
+type AttemptInfo = Pick<WorkflowLogEntry, 'attempt' | 'maxAttempts'>;
+
+const log = (state: RunState, nodeId: string, nodeName: string, status: 'running' | 'completed' | 'error', message: string, data?: unknown, attemptInfo?: AttemptInfo) => {
+  state.options.onLog?.({ nodeId, nodeName, status, message, data, ...attemptInfo });
+};
+
+export async function runWorkflow(nodes: WorkflowNode[], options: WorkflowRunOptions): Promise<WorkflowRunResult> {
+  return runFromTriggers(createRunState(nodes, options));
+}
+
+async function runFromTriggers(state: RunState): Promise<WorkflowRunResult> {
+  const { nodes, options } = state;
+  const triggerNodes = nodes.filter(node =>
+    node.type === 'trigger' && (!options.triggerNodeIds || options.triggerNodeIds.includes(node.id))
+  );
+  if (triggerNodes.length === 0) {
+    throw new Error('Add a trigger node to start the workflow');
+  }
+
+  return finishRun(state, async () => {
+    throwIfCancelled(options.signal);
+    for (const triggerNode of triggerNodes) {
+      const output = await executeNode(state, triggerNode, options.triggerData, { upstream: [], branch: [] });
+      await executeConnectedNodes(state, triggerNode, output, { upstream: [{ node: triggerNode, output }], branch: [] });
+    }
+  });
+}
+
+// Continue one item from a node of an earlier run, e.g. after an editor approved it at an
+// approval node. Only the nodes after `continuation.nodeId` run; aggregates after it collect
+// just this item.
+export async function continueWorkflow(nodes: WorkflowNode[], continuation: WorkflowContinuation, options: WorkflowRunOptions): Promise<WorkflowRunResult> {
+  const state = createRunState(nodes, options);
+
+  const node = nodes.find(n => n.id === continuation.nodeId);
+  if (!node) {
+    throw new Error('The node this run continues from is no longer in the workflow');
+  }
+
+  // Nodes removed since the item was held can no longer be referenced
+  const upstream = continuation.upstream
+    .map(entry => ({ node: nodes.find(n => n.id === entry.nodeId), output: entry.output }))
+    .filter(entry => entry.node);
+  const lineage: Lineage = { upstream: [...upstream, { node, output: continuation.output }], branch: continuation.branch };
+
+  return finishRun(state, () => executeConnectedNodes(state, node, continuation.output, lineage));
+}
+
+// Run the graph, then the aggregates. A run that stops early still reports what its AI calls
+// cost: the thrown error carries the usage so far as `usage`.
+async function finishRun(state: RunState, run: () => Promise<void>): Promise<WorkflowRunResult> {
+  try {
+    await run();
+    await flushAggregates(state);
+    return state.result;
+  } catch (error) {
+    const failure = error instanceof Error ? error : new Error(String(error));
+    throw Object.assign(failure, { usage: state.result.usage });
+  }
+}
+
+function createRunState(nodes: WorkflowNode[], options: WorkflowRunOptions, parent?: ParentRun): RunState {
+  // Broken graphs fail here, before any node has done real work
+  const validationErrors = validateWorkflow(nodes).filter(issue => issue.severity === 'error');
+  if (validationErrors.length > 0) {
+    throw new WorkflowValidationError(validationErrors);
+  }
+
+  // A dry run has no checkpoints or approvals: there is nothing real to resume. Calls still
+  // queued behind a provider's rate limit are dropped once the run is cancelled.
+  const runOptions: WorkflowRunOptions = parent
+    ? { ...options, runtime: parent.runtime }
+    : options.dryRun
+      ? { ...options, runtime: createDryRunRuntime(options.fixtures), checkpoints: undefined, approvals: undefined }
+      : { ...options, runtime: createRateLimitedRuntime(createCancellableRuntime(options.runtime, options.signal)) };
+  return {
+    nodes,
+    options: runOptions,
+    result: { outputs: [], errors: [], awaitingApproval: 0, usage: createRunUsage() },
+    aggregates: new Map(),
+    // Scheduled runs use the slot they ran for, so a resumed run renders the same dates
+    run: { date: new Date(options.triggerData?.scheduledFor || Date.now()), trigger: options.triggerData },
+    budgetExceeded: false,
+    callStack: [...(parent?.state.callStack || []), ...(options.workflowId ? [options.workflowId] : [])],
+    workflows: parent?.state.workflows || new Map()
+  };
+}
+
+// Run aggregate nodes once all branches feeding them are done. An aggregate downstream of another
+// one waits until the upstream aggregate has run and delivered its combined item.
+async function flushAggregates(state: RunState): Promise<void> {
+  while (state.aggregates.size > 0) {
+    const pendingIds = [...state.aggregates.keys()];
+    const readyId = pendingIds.find(id =>
+      !pendingIds.some(otherId => otherId !== id && canReach(state.nodes, otherId, id))
+    ) || pendingIds[0];
+
+    const node = state.nodes.find(n => n.id === readyId);
+    const { entries, lineage } = state.aggregates.get(readyId);
+    state.aggregates.delete(readyId);
+    if (!node) continue;
+
+    const items = [...entries].sort((a, b) => compareBranches(a.branch, b.branch)).map(entry => entry.item);
+    try {
+      const output = await executeNode(state, node, { items }, lineage);
+      if (output !== null && output !== undefined) {
+        await executeConnectedNodes(state, node, output, withNodeOutput(lineage, node, output));
+      }
+    } catch (error) {
+      await handleNodeFailure(state, node, { items }, error, node.id, node.label, lineage);
+    }
+  }
+}
+
+function canReach(nodes: WorkflowNode[], fromId: string, toId: string): boolean {
+  const visited = new Set<string>();
+  const stack = [...(nodes.find(n => n.id === fromId)?.connected || [])];
+  while (stack.length > 0) {
+    const id = stack.pop();
+    if (id === toId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(nodes.find(n => n.id === id)?.connected || []));
+  }
+  return false;
+}
+
+const commonPrefix = (a: number[], b: number[]) => {
+  const length = a.findIndex((value, i) => value !== b[i]);
+  return length === -1 ? a.slice(0, b.length) : a.slice(0, length);
+};
+
+const compareBranches = (a: number[], b: number[]) => {
+  const index = a.findIndex((value, i) => value !== b[i]);
+  if (index === -1) return a.length - b.length;
+  return b[index] === undefined ? 1 : a[index] - b[index];
+};
+
+const withNodeOutput = (lineage: Lineage, node: WorkflowNode, output: WorkflowItem): Lineage => ({
+  ...lineage,
+  upstream: [...lineage.upstream, { node, output }]
+});
+
+async function executeNode(state: RunState, node: WorkflowNode, input: WorkflowItem, lineage: Lineage): Promise<WorkflowItem | null> {
+  const { checkpoints } = state.options;
+  const inputKey = checkpoints ? getCheckpointInputKey(input) : '';
+  const startedAt = new Date();
+  const usage: WorkflowUsage = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  // Every node run is recorded with its input, timing and AI usage, for resuming and for the run trace
+  const saveCheckpoint = (checkpoint: Pick<WorkflowCheckpoint, 'status' | 'output' | 'error' | 'attempts' | 'reused'>) =>
+    checkpoints?.save({
+      nodeId: node.id,
+      nodeName: node.label,
+      nodeType: node.type,
+      inputKey,
+      input,
+      branch: lineage.branch,
+      startedAt,
+      finishedAt: new Date(),
+      usage: usage.calls > 0 ? usage : undefined,
+      ...checkpoint
+    });
+
+  const checkpoint = checkpoints?.load(node.id, inputKey);
+  if (checkpoint) {
+    log(state, node.id, node.label, 'completed', 'Reused the output of the previous run');
+    await saveCheckpoint({ status: 'completed', output: checkpoint.output, reused: true });
+    return checkpoint.output;
+  }
+
+  throwIfCancelled(state.options.signal);
+  assertWithinBudget(state);
+  log(state, node.id, node.label, 'running', `Starting ${node.type} execution...`);
+
+  let resolvedNode: WorkflowNode;
+  try {
+    resolvedNode = resolveNodeExpressions(node, createExpressionScope(input, lineage.upstream, state.run));
+  } catch (error) {
+    // A broken expression fails the same way on every attempt, so it is not retried
+    log(state, node.id, node.label, 'error', `Error: ${error.message}`);
+    await saveCheckpoint({ status: 'failed', error: error.message });
+    throw error;
+  }
+
+  const policy = getNodeErrorPolicy(node);
+  const maxAttempts = policy.retries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    const attemptInfo: AttemptInfo | undefined = maxAttempts > 1 ? { attempt, maxAttempts } : undefined;
+    const runtime = createMeteredRuntime(state, node, usage);
+    const context: NodeExecutionContext = {
+      runtime,
+      triggerData: state.options.triggerData,
+      dryRun: state.options.dryRun,
+      log: (status, message, data) => log(state, node.id, node.label, status, message, data, attemptInfo),
+      requestApproval: state.options.approvals && (async (item, instructions) => {
+        await state.options.approvals.request({
+          nodeId: node.id,
+          nodeName: node.label,
+          instructions,
+          item,
+          upstream: lineage.upstream.map(entry => ({ nodeId: entry.node.id, output: entry.output })),
+          branch: lineage.branch
+        });
+        state.result.awaitingApproval++;
+      }),
+      runSubWorkflow: state.options.subWorkflows && ((workflowId, item) => runSubWorkflow(state, node, runtime, workflowId, item))
+    };
+
+    try {
+      const output = await withTimeout(abortable(runExecutor(resolvedNode, input, context), state.options.signal), policy.timeoutMs);
+      await saveCheckpoint({ status: 'completed', output: output ?? null, attempts: attempt });
+      if (output !== null && output !== undefined) {
+        state.options.onNodeComplete?.(node, output);
+      }
+      return output;
+    } catch (error) {
+      // The run is stopping; another attempt could not start any calls
+      if (isRunStopping(error)) {
+        log(state, node.id, node.label, 'error', `Error: ${error.message}`, undefined, attemptInfo);
+        await saveCheckpoint({ status: 'failed', error: error.message, attempts: attempt });
+        throw error;
+      }
+
+      if (attempt < maxAttempts) {
+        const wait = getRetryDelay(policy, attempt);
+        log(state, node.id, node.label, 'error',
+          `Attempt ${attempt}/${maxAttempts} failed: ${error.message}. Retrying in ${wait / 1000}s...`, undefined, attemptInfo);
+        await abortable(delay(wait), state.options.signal);
+        continue;
+      }
+
+      const message = maxAttempts > 1 ? `Failed after ${maxAttempts} attempts: ${error.message}` : `Error: ${error.message}`;
+      log(state, node.id, node.label, 'error', message, undefined, attemptInfo);
+      await saveCheckpoint({ status: 'failed', error: error.message, attempts: attempt });
+      throw new NodeExecutionError(error.message, attempt);
+    }
+  }
+}
+
+// Errors that stop the whole run rather than fail the node
+function isRunStopping(error: unknown): boolean {
+  return error instanceof WorkflowRunAbortedError || error instanceof WorkflowRunCancelledError;
+}
+
+function assertWithinBudget(state: RunState): void {
+  if (state.budgetExceeded) {
+    throw new WorkflowBudgetExceededError(
+      `Stopped: the run's AI calls cost ${formatCost(state.result.usage.costUsd)}, over its ${formatCost(state.options.budgetUsd)} budget`
+    );
+  }
+}
+
+// The runtime a node's executor calls edge functions through. Adds the usage AI functions report
+// to the node's and the run's totals; once the run is over budget, no further calls go out.
+function createMeteredRuntime(state: RunState, node: WorkflowNode, nodeUsage: WorkflowUsage): WorkflowRuntime {
+  return {
+    invoke: async <T,>(functionName: string, body: Record<string, unknown>): Promise<T> => {
+      throwIfCancelled(state.options.signal);
+      assertWithinBudget(state);
+      const response = await abortable(state.options.runtime.invoke<T>(functionName, body), state.options.signal);
+      const usage = getReportedUsage(response);
+      if (!usage) return response;
+
+      const runUsage = state.result.usage;
+      const byNode = runUsage.byNode[node.id] ||
+        (runUsage.byNode[node.id] = { nodeName: node.label, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+      for (const totals of [nodeUsage, byNode, runUsage]) {
+        totals.calls++;
+        totals.inputTokens += usage.inputTokens;
+        totals.outputTokens += usage.outputTokens;
+        totals.costUsd = Math.round((totals.costUsd + usage.costUsd) * 1e6) / 1e6;
+      }
+
+      const { budgetUsd } = state.options;
+      if (budgetUsd && !state.budgetExceeded && runUsage.costUsd > budgetUsd) {
+        state.budgetExceeded = true;
+        log(state, node.id, node.label, 'error',
+          `Budget exceeded: the run has spent ${formatCost(runUsage.costUsd)} of its ${formatCost(budgetUsd)} budget. No further steps will start.`);
+      }
+      return response;
+    }
+  };
+}
+
+// Checks for cancellation right before each call goes out
+function createCancellableRuntime(runtime: WorkflowRuntime, signal?: AbortSignal): WorkflowRuntime {
+  if (!signal) return runtime;
+  return {
+    invoke: (functionName, body) => {
+      throwIfCancelled(signal);
+      return runtime.invoke(functionName, body);
+    }
+  };
+}
+
+function loadWorkflow(state: RunState, workflowId: string): Promise<WorkflowDefinition> {
+  if (!state.workflows.has(workflowId)) {
+    const loading = state.options.subWorkflows.load(workflowId);
+    // A failed load is not cached, so a retry of the node loads again
+    loading.catch(() => state.workflows.delete(workflowId));
+    state.workflows.set(workflowId, loading);
+  }
+  return state.workflows.get(workflowId);
+}
+
+// Run a saved workflow from its "Called by another workflow" triggers with `item` as the trigger
+// data, as a child of this run
+async function runSubWorkflow(state: RunState, node: WorkflowNode, runtime: WorkflowRuntime, workflowId: string, item: WorkflowItem): Promise<WorkflowSubWorkflowResult> {
+  const cycle = await findSubWorkflowCycle(state.callStack, workflowId, id => loadWorkflow(state, id));
+  if (cycle) {
+    throw new Error(`Sub-workflows call each other in a loop: ${cycle.join(' → ')}`);
+  }
+
+  const workflow = await loadWorkflow(state, workflowId);
+  const triggerNodes = getSubWorkflowTriggerNodes(workflow.nodes);
+  if (triggerNodes.length === 0) {
+    throw new Error(`${workflow.name} has no "Called by another workflow" trigger to start from`);
+  }
+
+  const { options } = state;
+  const childRun = options.dryRun ? undefined : await options.subWorkflows.startRun?.(workflow, node.id, item);
+
+  try {
+    const childState = createRunState(workflow.nodes, {
+      runtime,
+      triggerData: item,
+      triggerNodeIds: triggerNodes.map(trigger => trigger.id),
+      dryRun: options.dryRun,
+      fixtures: options.fixtures,
+      checkpoints: childRun?.checkpoints,
+      approvals: childRun?.approvals,
+      workflowId: workflow.id,
+      subWorkflows: options.subWorkflows,
+      signal: options.signal,
+      onLog: options.onLog && (entry => options.onLog({ ...entry, nodeName: `${workflow.name} › ${entry.nodeName}` })),
+      onNodeComplete: options.onNodeComplete
+    }, { state, runtime });
+    const result = await runFromTriggers(childState);
+    await childRun?.finish(result);
+    return { ...result, workflow, executionId: childRun?.executionId };
+  } catch (error) {
+    await childRun?.fail(error);
+    // A child run that stops fails this node, which then follows its own error policy. Only
+    // the budget and cancellation, which the child shares with this run, stop this run as well.
+    if (error instanceof WorkflowRunAbortedError && !(error instanceof WorkflowBudgetExceededError)) {
+      throw new Error(error.message);
+    }
+    throw error;
+  }
+}
+
+async function runExecutor(node: WorkflowNode, input: WorkflowItem, context: NodeExecutionContext): Promise<WorkflowItem | null> {
+  const executor = getNodeExecutor(node.type);
+  if (executor) {
+    return executor(node, input, context);
+  }
+
+  // Node types without an executor pass their input through unchanged
+  context.log('completed', `${node.type} executed (no specific implementation yet)`);
+  return input || { message: `${node.type} node executed (placeholder)` };
+}
+
+// Apply the failed node's on-error policy: stop the run, drop the item, or send it down the error edge
+async function handleNodeFailure(state: RunState, node: WorkflowNode, input: WorkflowItem, error: Error, logId: string, logName: string, lineage: Lineage): Promise<void> {
+  if (isRunStopping(error)) {
+    throw error;
+  }
+
+  const attempts = error instanceof NodeExecutionError ? error.attempts : 1;
+  state.result.errors.push({ nodeId: node.id, nodeName: node.label, message: error.message, attempts });
+
+  const policy = getNodeErrorPolicy(node);
+  if (policy.onError === 'fail') {
+    throw new WorkflowRunAbortedError(`${node.label} failed: ${error.message}`);
+  }
+
+  if (policy.errorTargetId) {
+    log(state, logId, logName, 'error', `${node.label} failed; sending the item to the error branch`);
+    const errorInput = {
+      ...(input && typeof input === 'object' ? input : {}),
+      error: { message: error.message, nodeId: node.id, nodeName: node.label, attempts }
+    };
+    await runTargets(state, [policy.errorTargetId], errorInput, logId, logName, lineage);
+    return;
+  }
+
+  log(state, logId, `${logName} - ${node.label}`, 'error', `Skipped item: ${error.message}`);
+}
+
+async function executeConnectedNodes(state: RunState, currentNode: WorkflowNode, data: WorkflowItem, lineage: Lineage): Promise<void> {
+  if (getOutputTargetIds(currentNode).length === 0) {
+    state.result.outputs.push(data);
+    return;
+  }
+
+  const fanOutKey = FAN_OUT_KEYS.find(key => Array.isArray(data?.[key]) && data[key].length > 0);
+  if (!fanOutKey) {
+    await runBranch(state, currentNode, data, currentNode.id, currentNode.label, lineage);
+    return;
+  }
+
+  const found: WorkflowSource[] = data[fanOutKey];
+  const { maxItems, maxConcurrent } = getFanOutSettings(currentNode);
+  const items = maxItems ? found.slice(0, maxItems) : found;
+  const parallel = Math.min(maxConcurrent, items.length);
+  log(state, currentNode.id, currentNode.label, 'completed',
+    `Fan-out: Found ${found.length} items. Processing ${items.length < found.length ? `the top ${items.length}` : 'each'}, ${parallel} at a time.`);
+
+  await mapWithConcurrency(items, maxConcurrent, async (item, i) => {
+    const branchId = `${currentNode.id}-branch-${i + 1}`;
+    const branchName = `Branch ${i + 1}/${items.length}`;
+    const itemTitle = (item.title || item.url || 'Untitled').substring(0, 50);
+
+    log(state, branchId, branchName, 'running', `Starting branch for: "${itemTitle}..."`);
+    const branchLineage = { ...lineage, branch: [...lineage.branch, i + 1] };
+    await runBranch(state, currentNode, packageFanOutItem(fanOutKey, item), branchId, branchName, branchLineage);
+    log(state, branchId, branchName, 'completed', `Finished branch for: "${itemTitle}..."`);
+  });
+}
+
+// Package a single fan-out item the way downstream nodes expect a one-article input
+function packageFanOutItem(key: typeof FAN_OUT_KEYS[number], item: WorkflowSource): WorkflowItem {
+  const source_references = [item.source_reference].filter(ref => ref);
+
+  if (key === 'scrapedContent') {
+    return {
+      articles: [{ title: item.url || 'Scraped Content', content: item.content, url: item.url }],
+      source_references
+    };
+  }
+
+  if (key === 'papers') {
+    return {
+      articles: [{
+        title: item.title,
+        content: item.abstract,
+        url: item.url,
+        authors: item.authors,
+        year: item.year,
+        citations: item.citations,
+        venue: item.venue
+      }],
+      source_references
+    };
+  }
+
+  return { articles: [item], source_references };
+}
+
+// Every outgoing edge receives the input, except on router nodes where the edges' conditions decide.
+// The error edge of a node that routes its failures never receives normal output.
+function getBranchTargets(state: RunState, fromNode: WorkflowNode, input: WorkflowItem, logId: string, logName: string): string[] {
+  const outputTargetIds = getOutputTargetIds(fromNode);
+  if (fromNode.type !== 'router') {
+    return outputTargetIds;
+  }
+
+  const { targetIds, matchedLabels, usedFallback } = selectRouteTargets({ ...fromNode, connected: outputTargetIds }, input);
+  if (targetIds.length === 0) {
+    log(state, logId, logName, 'completed', 'No route matched and there is no fallback branch; item dropped');
+  } else if (usedFallback) {
+    log(state, logId, logName, 'completed', 'No route matched; using the fallback branch');
+  } else {
+    log(state, logId, logName, 'completed', `Routed to: ${matchedLabels.join(', ')}`);
+  }
+  return targetIds;
+}
+
+// Send the input down the node's outgoing edges
+async function runBranch(state: RunState, fromNode: WorkflowNode, input: WorkflowItem, logId: string, logName: string, lineage: Lineage): Promise<void> {
+  let targetIds: string[];
+  try {
+    targetIds = getBranchTargets(state, fromNode, input, logId, logName);
+  } catch (error) {
+    await handleNodeFailure(state, fromNode, input, error, logId, logName, lineage);
+    return;
+  }
+
+  await runTargets(state, targetIds, input, logId, logName, lineage);
+}
+
+async function runTargets(state: RunState, targetIds: string[], input: WorkflowItem, logId: string, logName: string, lineage: Lineage): Promise<void> {
+  for (const targetId of targetIds) {
+    const target = state.nodes.find(n => n.id === targetId);
+    if (!target) {
+      console.error(`❌ Connected node not found: ${targetId}`);
+      continue;
+    }
+
+    if (target.type === 'aggregate') {
+      const pending = state.aggregates.get(target.id);
+      const collected = [...(pending?.entries || []), { item: input, branch: lineage.branch }];
+      // The joined item continues outside the branches it was collected from
+      const sharedLineage = pending
+        ? {
+            upstream: pending.lineage.upstream.filter(entry =>
+              lineage.upstream.some(other => other.node.id === entry.node.id && other.output === entry.output)
+            ),
+            branch: commonPrefix(pending.lineage.branch, lineage.branch)
+          }
+        : lineage;
+      state.aggregates.set(target.id, { entries: collected, lineage: sharedLineage });
+      log(state, target.id, target.label, 'running', `Collected item ${collected.length}; waiting for the remaining branches`);
+      continue;
+    }
+
+    let nodeInput = input;
+    let output: WorkflowItem | null;
+    try {
+      if (needsAutoAiProcessor(target, nodeInput)) {
+        nodeInput = await executeNode(state, createAutoAiProcessorNode(target), nodeInput, lineage);
+      }
+      output = await executeNode(state, target, nodeInput, lineage);
+    } catch (error) {
+      await handleNodeFailure(state, target, nodeInput, error, logId, logName, lineage);
+      continue;
+    }
+
+    if (output === null || output === undefined) {
+      continue;
+    }
+    await executeConnectedNodes(state, target, output, withNodeOutput(lineage, target, output));
+  }
+}
+
+// Publishers fed raw source material get an AI Processor with default settings in front
+function needsAutoAiProcessor(node: WorkflowNode, data: WorkflowItem): boolean {
+  return node.type === 'publisher' &&
+    !data?.processedContent && !data?.synthesizedContent && !data?.translatedContent &&
+    !data?.articles?.[0]?.processedContent && !data?.articles?.[0]?.synthesizedContent;
+}
+
+function createAutoAiProcessorNode(publisher: WorkflowNode): WorkflowNode {
+  return {
+    ...publisher,
+    id: `${publisher.id}-auto-ai-processor`,
+    type: 'ai-processor',
+    label: 'Auto AI Processor',
+    config: {
+      writingStyle: 'Professional',
+      targetAudience: 'General readers',
+      contentType: 'article',
+    },
+    connected: [],
+  };
+}
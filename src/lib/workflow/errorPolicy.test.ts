@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getNodeErrorPolicy, getOutputTargetIds, getRetryDelay, withTimeout } from './errorPolicy.ts';
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+
+const node = (config: WorkflowNode['config'], connected: string[] = ['next', 'errors']): WorkflowNode => ({
+  id: 'node',
+  type: 'scraper',
+  label: 'Scraper',
+  position: { x: 0, y: 0 },
+  config,
+  connected,
+});
+
+describe('getNodeErrorPolicy', () => {
+  it('skips failed items without retries by default', () => {
+    expect(getNodeErrorPolicy(node({}))).toEqual({
+      retries: 0,
+      backoffMs: 2000,
+      timeoutMs: 0,
+      onError: 'skip',
+      errorTargetId: undefined,
+    });
+  });
+
+  it('clamps retries between 0 and 5', () => {
+    expect(getNodeErrorPolicy(node({ retries: 12 })).retries).toBe(5);
+    expect(getNodeErrorPolicy(node({ retries: -3 })).retries).toBe(0);
+    expect(getNodeErrorPolicy(node({ retries: 'two' })).retries).toBe(0);
+  });
+
+  it('routes errors only to an edge that still exists', () => {
+    expect(getNodeErrorPolicy(node({ onError: 'route', errorTargetId: 'errors' })).errorTargetId).toBe('errors');
+    expect(getNodeErrorPolicy(node({ onError: 'route', errorTargetId: 'removed' })).errorTargetId).toBeUndefined();
+    expect(getOutputTargetIds(node({ onError: 'route', errorTargetId: 'errors' }))).toEqual(['next']);
+    expect(getOutputTargetIds(node({ onError: 'skip', errorTargetId: 'errors' }))).toEqual(['next', 'errors']);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles the backoff after every failed attempt', () => {
+    const policy = getNodeErrorPolicy(node({ retries: 3, retryBackoffSeconds: 1 }));
+    expect([1, 2, 3].map(attempt => getRetryDelay(policy, attempt))).toEqual([1000, 2000, 4000]);
+  });
+});
+
+describe('withTimeout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects once the timeout passes', async () => {
+    vi.useFakeTimers();
+    const result = withTimeout(new Promise(() => {}), 3000);
+    vi.advanceTimersByTime(3000);
+    await expect(result).rejects.toThrow('Timed out after 3s');
+  });
+
+  it('leaves the promise alone without a timeout', async () => {
+    await expect(withTimeout(Promise.resolve('done'), 0)).resolves.toBe('done');
+  });
+});
@@ -0,0 +1,61 @@
+// Per-node retry, timeout and on-error settings, read from the node's config.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+
+export type NodeErrorAction = 'fail' | 'skip' | 'route';
+
+export interface NodeErrorPolicy {
+  retries: number;
+  backoffMs: number;
+  timeoutMs: number;
+  onError: NodeErrorAction;
+  errorTargetId?: string;
+}
+
+const MAX_RETRIES = 5;
+const DEFAULT_BACKOFF_SECONDS = 2;
+
+export function getNodeErrorPolicy(node: WorkflowNode): NodeErrorPolicy {
+  const config = node.config || {};
+  const onError: NodeErrorAction = ['fail', 'route'].includes(config.onError) ? config.onError : 'skip';
+
+  return {
+    retries: Math.min(Math.max(Number(config.retries) || 0, 0), MAX_RETRIES),
+    backoffMs: (Number(config.retryBackoffSeconds) || DEFAULT_BACKOFF_SECONDS) * 1000,
+    timeoutMs: (Number(config.timeoutSeconds) || 0) * 1000,
+    onError,
+    errorTargetId: onError === 'route' ? getErrorTargetId(node) : undefined,
+  };
+}
+
+// The outgoing edge reserved for failed items, if the node routes errors and the edge still exists
+export function getErrorTargetId(node: WorkflowNode): string | undefined {
+  const targetId = node.config?.errorTargetId;
+  return node.config?.onError === 'route' && targetId && node.connected.includes(targetId) ? targetId : undefined;
+}
+
+// Outgoing edges that receive the node's normal output
+export function getOutputTargetIds(node: WorkflowNode): string[] {
+  const errorTargetId = getErrorTargetId(node);
+  return errorTargetId ? node.connected.filter(id => id !== errorTargetId) : node.connected;
+}
+
+// Exponential backoff: the wait doubles after every failed attempt
+export function getRetryDelay(policy: NodeErrorPolicy, failedAttempt: number): number {
+  return policy.backoffMs * 2 ** (failedAttempt - 1);
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Reject when the node takes longer than its timeout. The underlying request is not cancelled,
+// its result is just ignored.
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  if (!timeoutMs) return promise;
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,96 @@
+// Event triggers: workflows that start when something happens in the database.
+//
+// Postgres triggers record each event in workflow_events with the changed row. The
+// process-workflow-events edge function then runs every saved workflow with a matching event
+// trigger, passing the row as trigger data. Saving a workflow stores the event types its
+// triggers listen to in workflows.event_types, so the function only loads workflows that care.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+
+export type WorkflowEventType = 'article.published' | 'content_queue.approved' | 'ai_suggestion.created';
+
+export interface WorkflowEventDefinition {
+  type: WorkflowEventType;
+  label: string;
+  description: string;
+}
+
+export const WORKFLOW_EVENTS: WorkflowEventDefinition[] = [
+  {
+    type: 'article.published',
+    label: 'Article published',
+    description: 'An article is published, either new or moved from draft',
+  },
+  {
+    type: 'content_queue.approved',
+    label: 'Queue item approved',
+    description: 'An editor approves an item in the content queue',
+  },
+  {
+    type: 'ai_suggestion.created',
+    label: 'New AI suggestion',
+    description: 'An AI agent makes a new suggestion',
+  },
+];
+
+// An event as recorded in workflow_events
+export interface WorkflowEvent {
+  id: string;
+  event_type: WorkflowEventType;
+  table_name: string;
+  record_id: string | null;
+  record: Record<string, unknown>;
+  old_record: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export function getWorkflowEventLabel(type: string): string {
+  return WORKFLOW_EVENTS.find(event => event.type === type)?.label || type;
+}
+
+export function isEventTrigger(node: WorkflowNode): boolean {
+  return node.type === 'trigger' && node.config?.schedule === 'event';
+}
+
+// The event types a workflow's triggers listen to, stored in workflows.event_types on save
+export function getWorkflowEventTypes(nodes: WorkflowNode[]): WorkflowEventType[] {
+  return [...new Set(
+    nodes.filter(isEventTrigger).map(node => node.config.event).filter(Boolean)
+  )];
+}
+
+// Whether the row passes the trigger's filters: a minimum confidence for suggestions and a
+// category for articles
+function matchesEventFilters(config: WorkflowNode['config'], record: Record<string, unknown>): boolean {
+  const minConfidence = Number(config.minConfidence);
+  if (config.event === 'ai_suggestion.created' && minConfidence > 0 && (Number(record.confidence_score) || 0) < minConfidence) {
+    return false;
+  }
+
+  const category = config.category?.trim().toLowerCase();
+  if (category && config.event === 'article.published' && String(record.category || '').toLowerCase() !== category) {
+    return false;
+  }
+  return true;
+}
+
+// The event trigger nodes of a workflow that the event starts
+export function getEventTriggerNodes(nodes: WorkflowNode[], event: Pick<WorkflowEvent, 'event_type' | 'record'>): WorkflowNode[] {
+  return nodes.filter(node =>
+    isEventTrigger(node) && node.config.event === event.event_type && matchesEventFilters(node.config, event.record || {})
+  );
+}
+
+// What an event run receives: {{run.trigger.record.title}} is the changed row's title
+export function getEventTriggerData(event: WorkflowEvent) {
+  return {
+    event: {
+      id: event.id,
+      type: event.event_type,
+      table: event.table_name,
+      recordId: event.record_id,
+      occurredAt: event.created_at,
+    },
+    record: event.record,
+    oldRecord: event.old_record,
+  };
+}
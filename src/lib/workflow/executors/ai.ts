@@ -0,0 +1,316 @@
+import type { NodeExecutor, SourceReference, WorkflowItem } from '../types.ts';
+import {
+  AUDIENCE_GUIDELINES,
+  CONTENT_FOCUS_GUIDELINES,
+  CONTENT_TYPE_GUIDELINES,
+  STYLE_GUIDELINES,
+  TONE_GUIDELINES
+} from './promptGuidelines.ts';
+
+const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash-preview-05-20';
+
+const WORD_COUNT_GUIDES: Record<string, string> = {
+  short: '300-500 words',
+  medium: '500-800 words',
+  long: '800-1200 words',
+  extended: '1200+ words'
+};
+
+// Remove duplicate source references based on URL
+const uniqueByUrl = (references: SourceReference[]) =>
+  references.filter((ref, index, arr) => arr.findIndex(r => r.url === ref.url) === index);
+
+// Collect source references from every data shape the upstream nodes produce
+const collectSourceReferences = (data: WorkflowItem): SourceReference[] => {
+  const references: SourceReference[] = [];
+
+  if (Array.isArray(data.source_references)) {
+    references.push(...data.source_references);
+  }
+  for (const key of ['scrapedContent', 'articles', 'papers'] as const) {
+    if (Array.isArray(data[key])) {
+      references.push(...data[key].map(item => item.source_reference).filter(ref => ref));
+    }
+  }
+  if (data.source_reference) {
+    references.push(data.source_reference);
+  }
+  if (Array.isArray(data.items)) {
+    references.push(...data.items.flatMap(item => collectSourceReferences(item || {})));
+  }
+
+  return uniqueByUrl(references);
+};
+
+const extractSourceContent = (data: WorkflowItem): string => {
+  if (Array.isArray(data.articles)) {
+    return data.articles.map(article =>
+      `Title: ${article.title || 'Untitled'}\nContent: ${article.description || article.content || ''}`
+    ).join('\n\n');
+  }
+  if (Array.isArray(data.items)) {
+    return data.items.map(item =>
+      `Title: ${item.title || 'Untitled'}\nContent: ${item.processedContent || item.synthesizedContent || item.description || item.abstract || item.content || ''}`
+    ).join('\n\n');
+  }
+  if (data.synthesizedContent) return data.synthesizedContent;
+  if (data.research) return data.research;
+  if (Array.isArray(data.scrapedContent)) {
+    return data.scrapedContent.map(item => item.content || '').join('\n\n');
+  }
+  if (typeof data === 'string') return data;
+  return JSON.stringify(data);
+};
+
+const providerForModel = (model?: string) => {
+  if (model?.startsWith('gpt-')) return 'OpenAI';
+  if (model?.startsWith('claude-')) return 'Anthropic';
+  return 'Google';
+};
+
+// Strip stray code fences / JSON wrappers and split the H1 title from the body
+const normalizeGeneratedArticle = (raw: string, category: string) => {
+  let processedContent = raw;
+
+  if (processedContent.includes('```') || processedContent.trim().startsWith('{')) {
+    processedContent = processedContent
+      .replace(/```(?:json|markdown)?\s*/g, '')
+      .replace(/```\s*$/g, '')
+      .trim();
+
+    if (processedContent.startsWith('{')) {
+      try {
+        const parsed = JSON.parse(processedContent);
+        processedContent = parsed.content || parsed.text || processedContent;
+      } catch (e) {
+        console.log('Could not parse as JSON, using raw content');
+      }
+    }
+  }
+
+  if (!processedContent.trim().startsWith('#')) {
+    const lines = processedContent.split('\n');
+    const firstMeaningfulLine = lines.find(line => line.trim().length > 10) || 'Generated Article';
+    processedContent = `# ${firstMeaningfulLine}\n\n${processedContent}`;
+  }
+
+  const titleMatch = processedContent.match(/^#\s+(.+)/m);
+  let title = titleMatch ? titleMatch[1].trim() : 'Untitled Article';
+
+  // Enforce the 30-60 character limit the prompt asks for
+  if (title.length > 60) {
+    title = title.slice(0, 57).trimEnd() + '…';
+  } else if (title.length < 30) {
+    title = `${title} – ${category}`.slice(0, 60);
+  }
+
+  const content = processedContent.replace(/^#\s+.+\n\n?/m, '').trim();
+  return { title, content };
+};
+
+export const executeAiProcessor: NodeExecutor = async (node, input, { runtime, log }) => {
+  const contentToProcess = input || {};
+  const sourceReferences = collectSourceReferences(contentToProcess);
+
+  const contentType = node.config.contentType || 'article';
+  const writingStyle = node.config.writingStyle || 'Professional';
+  const targetAudience = node.config.targetAudience || 'General readers';
+  const category = node.config.category || 'General';
+  const customInstructions = node.config.customInstructions || '';
+  const wordCount = node.config.wordCount || 'medium';
+  const contentFocus = node.config.contentFocus || 'balanced';
+  const tone = node.config.tone || 'neutral';
+  const language = node.config.language || 'en';
+  const outputFormat = node.config.outputFormat || 'markdown';
+  const seoOptimized = node.config.seoOptimized !== false;
+  const includeCitations = node.config.includeCitations || false;
+  const wordCountGuide = WORD_COUNT_GUIDES[wordCount] || '500-800 words';
+
+  const sourceContent = extractSourceContent(contentToProcess);
+
+  const enhancedPrompt = `
+You are an expert content writer. Create a ${contentType} based on the following content and specifications.
+
+**CONTENT SPECIFICATIONS:**
+- Content Type: ${contentType}
+- Writing Style: ${writingStyle}
+- Target Audience: ${targetAudience}
+- Content Focus: ${contentFocus}
+- Tone of Voice: ${tone}
+- Target Length: ${wordCountGuide}
+- Language: ${language}
+- Category: ${category}
+${seoOptimized ? '- SEO Optimized: Include SEO-friendly headings and structure' : ''}
+${includeCitations ? '- Include Citations: Add source references where appropriate' : ''}
+
+**CUSTOM INSTRUCTIONS:**
+${customInstructions || 'No additional instructions provided.'}
+
+**CRITICAL FORMATTING RULES:**
+- Start with a clear, engaging title as an H1 heading using # (not ** for bold)
+- Use proper ${outputFormat} formatting: # for main title, ## for sections, ### for subsections
+- NO bold titles (**title**) - only use # Title format
+- Create engaging, well-structured content suitable for publication
+- Include relevant subheadings to organize the content (##, ###)
+- Ensure the content matches the ${writingStyle} writing style
+- Write for ${targetAudience} audience using ${tone} tone
+- Focus on ${contentFocus} approach
+- Use lists, emphasis, and proper paragraph structure
+- The title should be descriptive and engaging, not generic
+- Limit the title to 30-60 characters
+
+**TARGET AUDIENCE GUIDELINES:**
+${AUDIENCE_GUIDELINES[targetAudience] || 'Write for a general audience with clear explanations.'}
+
+**WRITING STYLE GUIDELINES:**
+${STYLE_GUIDELINES[writingStyle] || 'Use professional but accessible language.'}
+
+**CONTENT FOCUS GUIDELINES:**
+${CONTENT_FOCUS_GUIDELINES[contentFocus] || 'Balance information, analysis, and practical insights.'}
+
+**TONE OF VOICE GUIDELINES:**
+${TONE_GUIDELINES[tone] || 'Maintain a consistent, clear tone throughout.'}
+
+**CONTENT TYPE GUIDELINES:**
+${CONTENT_TYPE_GUIDELINES[contentType] || 'Organise the piece according to best practices for this content type.'}
+
+**Source Content to Transform:**
+${sourceContent}
+
+Generate the ${contentType} now following all specifications above:`;
+
+  const agentConfig = {
+    ai_model: node.config.aiModel || DEFAULT_TEXT_MODEL,
+    provider: providerForModel(node.config.aiModel)
+  };
+
+  let aiResult: { analysis: string };
+  try {
+    aiResult = await runtime.invoke('run-ai-agent-analysis', { prompt: enhancedPrompt, agentConfig });
+  } catch (error) {
+    throw new Error(`AI processing failed: ${error.message}`);
+  }
+
+  const { title, content } = normalizeGeneratedArticle(aiResult.analysis, category);
+
+  const result = {
+    ...contentToProcess,
+    title,
+    content,
+    processedContent: content,
+    processedBy: `AI Processor (${agentConfig.ai_model})`,
+    source_references: sourceReferences,
+    category,
+    contentType,
+    writingStyle,
+    targetAudience,
+    contentFocus,
+    tone,
+    language,
+    outputFormat,
+    wordCountTarget: wordCountGuide,
+    seoOptimized,
+    includeCitations,
+    aiModelUsed: agentConfig.ai_model,
+    generatedAt: new Date().toISOString(),
+    configurationUsed: {
+      contentType, writingStyle, targetAudience, category,
+      wordCount, contentFocus, tone, language, outputFormat
+    }
+  };
+
+  // The processed item must not carry an articles array or it would fan out again
+  delete result.articles;
+
+  log('completed',
+    `Content processed successfully with title: "${title}" using ${writingStyle} style for ${targetAudience} audience (${wordCountGuide})`);
+  return result;
+};
+
+// Keys whose arrays hold several sources rather than one flat item
+const NESTED_SOURCE_KEYS = ['scrapedContent', 'articles', 'papers', 'items'];
+
+// Turn whatever the upstream node produced into synthesizer sources
+const collectSynthesisSources = (data: WorkflowItem) => {
+  const sources: { title: string; url: string; content: string }[] = [];
+  if (!data) return sources;
+
+  if (Array.isArray(data.scrapedContent)) {
+    sources.push(...data.scrapedContent.map(item => ({
+      title: item.url || 'Scraped Content',
+      url: item.url || '',
+      content: item.content || ''
+    })));
+  }
+  if (Array.isArray(data.articles)) {
+    sources.push(...data.articles.map(item => ({
+      title: item.title || 'Article',
+      url: item.link || item.url || '',
+      content: item.description || item.content || item.summary || ''
+    })));
+  }
+  if (Array.isArray(data.papers)) {
+    sources.push(...data.papers.map(item => ({
+      title: item.title || 'Research Paper',
+      url: item.url || '',
+      content: item.abstract || item.content || ''
+    })));
+  }
+  if (data.research) {
+    sources.push({ title: 'Research Findings', url: '', content: data.research });
+  }
+  if (data.content) {
+    sources.push({ title: 'Content', url: '', content: data.content });
+  }
+  if (typeof data === 'string') {
+    sources.push({ title: 'Input Content', url: '', content: data });
+  }
+  // Combined output of an aggregate node: every collected item is a source
+  if (Array.isArray(data.items)) {
+    for (const item of data.items) {
+      if (NESTED_SOURCE_KEYS.some(key => Array.isArray(item?.[key]))) {
+        sources.push(...collectSynthesisSources(item));
+      } else if (item) {
+        sources.push({
+          title: item.title || 'Article',
+          url: item.link || item.url || '',
+          content: item.processedContent || item.synthesizedContent || item.translatedContent ||
+            item.content || item.description || item.abstract || item.summary || ''
+        });
+      }
+    }
+  }
+
+  return sources;
+};
+
+export const executeMultiSourceSynthesizer: NodeExecutor = async (node, input, { runtime, log }) => {
+  const sources = collectSynthesisSources(input);
+
+  if (sources.length === 0) {
+    throw new Error('No content sources found. Connect this node to web scrapers, RSS feeds, news discovery, research tools, or other content sources.');
+  }
+
+  log('running', `Synthesizing content from ${sources.length} sources`);
+
+  const synthData = await runtime.invoke<{ synthesizedContent: string; sourceCount: number; style: string }>('multi-source-synthesizer', {
+    sources,
+    style: node.config.style || 'comprehensive',
+    targetLength: node.config.targetLength || 'medium',
+    maintainAttribution: node.config.maintainAttribution !== false,
+    resolveConflicts: node.config.resolveConflicts !== false,
+    aiModel: node.config.aiModel || DEFAULT_TEXT_MODEL,
+    customInstructions: node.config.customInstructions
+  });
+
+  const sourceReferences = collectSourceReferences(input || {});
+
+  log('completed',
+    `Synthesized content from ${synthData.sourceCount} sources with ${sourceReferences.length} source references`);
+  return {
+    synthesizedContent: synthData.synthesizedContent,
+    sourceCount: synthData.sourceCount,
+    style: synthData.style,
+    source_references: sourceReferences
+  };
+};
@@ -0,0 +1,130 @@
+import type { NodeExecutor } from '../types.ts';
+
+const toSlug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .trim();
+
+export const executePublisher: NodeExecutor = async (node, input, { runtime, log, dryRun }) => {
+  if (!input || (!input.processedContent && !input.synthesizedContent)) {
+    throw new Error('No processed content to publish. Connect this node to an AI Processor that generates structured content.');
+  }
+
+  const contentToPublish = input.processedContent || input.synthesizedContent;
+  const titleToPublish = input.title || 'Untitled Article';
+  const articleImageUrl = input.imageUrl || null;
+  const sourceReferences = input.source_references || [];
+
+  // Translated articles keep the English slug produced by the translator
+  const slugToUse = input.englishSlug || toSlug(titleToPublish);
+
+  log('running',
+    `Publishing article: "${titleToPublish}" with slug: ${slugToUse}${articleImageUrl ? ' (with featured image)' : ''} and ${sourceReferences.length} sources`);
+
+  const formattedContent = {
+    title: titleToPublish,
+    content: contentToPublish,
+    slug: slugToUse,
+    image_url: articleImageUrl,
+    isRTL: input.isRTL || false,
+    targetLanguage: input.targetLanguage || 'en'
+  };
+
+  const reporterId = node.config.reporterId && node.config.reporterId !== 'none' ? node.config.reporterId : null;
+  const category = node.config.category || input.category || 'AI Generated';
+  const status = node.config.status || (node.config.autoPublish ? 'published' : 'draft');
+
+  if (dryRun) {
+    log('completed', `Dry run: would create "${titleToPublish}" as ${status} in ${category} (${contentToPublish.length} chars)`);
+    return {
+      articleId: null,
+      title: titleToPublish,
+      slug: slugToUse,
+      status,
+      imageUrl: articleImageUrl,
+      url: `/articles/${slugToUse}`,
+      source_references: sourceReferences,
+      dryRun: true
+    };
+  }
+
+  const publishResult = await runtime.invoke<{ article: { id: string; title: string; slug: string; status: string } }>('create-article-from-ai', {
+    content: JSON.stringify(formattedContent),
+    category,
+    provider: input.aiModel || 'AI Processor',
+    status,
+    reporterId,
+    source_references: sourceReferences
+  });
+
+  log('completed',
+    `Article published: "${publishResult.article.title}" (${publishResult.article.status})`);
+  return {
+    articleId: publishResult.article.id,
+    title: publishResult.article.title,
+    slug: publishResult.article.slug,
+    status: publishResult.article.status,
+    imageUrl: articleImageUrl,
+    url: `/articles/${publishResult.article.slug}`,
+    source_references: sourceReferences
+  };
+};
+
+export const executeSocialPoster: NodeExecutor = async (node, input, { runtime, log, dryRun }) => {
+  const data = input || {};
+  // Expressions such as {{article.title}} are already rendered by the engine
+  const message = node.config.message || [data.title, data.url].filter(Boolean).join('\n\n');
+
+  if (!message) {
+    throw new Error('Nothing to post. Configure a message or connect this node to a publisher.');
+  }
+
+  const platform = node.config.platform || 'facebook';
+
+  if (dryRun) {
+    log('completed', `Dry run: would post to ${platform}: "${message.substring(0, 80)}"`);
+    return { ...data, socialPost: { platform, message, dryRun: true } };
+  }
+
+  log('running', `Posting to ${platform}`);
+
+  const postResult = await runtime.invoke<{ success?: boolean; error?: string }>('social-poster', {
+    platform,
+    message,
+    imageUrl: data.imageUrl,
+    pageId: node.config.pageId,
+    pageAccessToken: node.config.pageAccessToken,
+    instagramAccountId: node.config.instagramAccountId
+  });
+
+  if (postResult?.success === false) {
+    throw new Error(postResult.error || `Posting to ${platform} failed`);
+  }
+
+  log('completed', `Posted to ${platform}`);
+  return { ...data, socialPost: { platform, result: postResult } };
+};
+
+export const executeEmailSender: NodeExecutor = async (node, input, { runtime, log, dryRun }) => {
+  if (!node.config.recipient) {
+    throw new Error('No recipient configured for email sender');
+  }
+
+  const data = input || {};
+  const subject = node.config.subject || `New Article: ${data.title || ''}`;
+  const body = node.config.body || `A new article has been published. Read it here: ${data.url || ''}`;
+
+  if (dryRun) {
+    log('completed', `Dry run: would email ${node.config.recipient}: "${subject}"`);
+    return { ...data, emailResult: { to: node.config.recipient, subject, body, dryRun: true } };
+  }
+
+  const emailResult = await runtime.invoke('send-email', { to: node.config.recipient, subject, body });
+
+  log('completed', `Email sent to ${node.config.recipient}: "${subject}"`);
+  return { ...data, emailResult };
+};
@@ -0,0 +1,435 @@
+import type { NodeExecutor, WorkflowItem } from '../types.ts';
+import { executeArticleValidation } from '../articleValidation.ts';
+
+const RTL_LANGUAGES = ['he', 'ar', 'fa', 'ur'];
+
+interface ImageGeneratorResponse {
+  imageUrl: string;
+  prompt?: string;
+  fileName?: string;
+  generatedWith?: string;
+  wasAIGenerated?: boolean;
+  wasReused?: boolean;
+}
+
+interface TranslatorResponse {
+  content?: string;
+}
+
+// What the seo-analyzer function returns as `analysis`. The model is asked for this shape; only
+// seo_score and improvements are read here, the rest is passed on as the model returned it.
+export interface SEOAnalysis {
+  seo_score: number;
+  improvements?: { type: string; priority: 'high' | 'medium' | 'low'; description: string; suggestion: string }[];
+  [field: string]: unknown;
+}
+
+interface DedupeResponse {
+  success: boolean;
+  error?: string;
+  // One result per checked item, in order
+  results: { duplicate?: boolean; reason?: string; warning?: string }[];
+}
+
+const toEnglishSlug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .trim();
+
+export const executeImageGenerator: NodeExecutor = async (node, input, { runtime, log }) => {
+  const imageGenRequest = {
+    // The explicit "Image Prompt" wins; title and content are only context
+    prompt: node.config.imagePrompt || '',
+    title: input?.title || '',
+    content: input?.processedContent || input?.synthesizedContent || '',
+    customInstructions: node.config.customInstructions || '',
+    aiModel: node.config.aiModel || 'google-imagen-3',
+    style: node.config.imageStyle || 'natural',
+    size: node.config.imageSize || '1024x1024',
+    quality: node.config.imageQuality || 'medium',
+    // Skip the image cache when the user wrote their own prompt
+    forceGenerate: !!(node.config.imagePrompt && node.config.imagePrompt.trim())
+  };
+
+  let promptSource = 'fallback prompt';
+  if (imageGenRequest.prompt) {
+    promptSource = `user prompt: "${imageGenRequest.prompt.substring(0, 50)}..."`;
+  } else if (imageGenRequest.title) {
+    promptSource = `article title: "${imageGenRequest.title.substring(0, 50)}..."`;
+  }
+
+  log('running',
+    `Generating image using ${promptSource}. Model: ${imageGenRequest.aiModel}. Force new: ${imageGenRequest.forceGenerate}`);
+
+  let imageData: ImageGeneratorResponse;
+  try {
+    imageData = await runtime.invoke<ImageGeneratorResponse>('image-generator', imageGenRequest);
+  } catch (error) {
+    throw new Error(`Image generation failed: ${error.message}`);
+  }
+
+  if (imageData.wasAIGenerated) {
+    log('completed',
+      `✅ NEW AI image generated with ${imageData.generatedWith}: ${imageData.fileName}. Prompt used: "${imageData.prompt?.substring(0, 100)}..."`);
+  } else {
+    log('completed',
+      `⚠️ Placeholder image used (${imageData.generatedWith}): ${imageData.fileName}. AI generation failed.`);
+  }
+
+  return {
+    ...input,
+    imageUrl: imageData.imageUrl,
+    imagePrompt: imageData.prompt,
+    imagePromptSource: promptSource,
+    imageStyle: node.config.imageStyle,
+    imageSize: node.config.imageSize,
+    aiModelUsed: imageGenRequest.aiModel,
+    wasImageReused: imageData.wasReused || false,
+    imageFileName: imageData.fileName || 'unknown',
+    forcedGeneration: imageGenRequest.forceGenerate,
+    wasAIGenerated: imageData.wasAIGenerated || false,
+    generatedWith: imageData.generatedWith || 'Unknown'
+  };
+};
+
+export const executeSeoAnalyzer: NodeExecutor = async (node, input, { runtime, log }) => {
+  const data = input || {};
+  const contentToAnalyze =
+    data.processedContent ||
+    data.synthesizedContent ||
+    data.translatedContent ||
+    (Array.isArray(data.scrapedContent)
+      ? data.scrapedContent.map(item => item.content || '').join('\n\n')
+      : data.scrapedContent) ||
+    data.content ||
+    '';
+
+  if (!contentToAnalyze || contentToAnalyze.length < 10) {
+    throw new Error('No content to analyze for SEO. Connect this node to content sources.');
+  }
+
+  log('running', `Analyzing SEO for content (${contentToAnalyze.length} characters)`);
+
+  const seoData = await runtime.invoke<{ analysis: SEOAnalysis }>('seo-analyzer', {
+    content: contentToAnalyze,
+    title: data.title || 'Untitled',
+    aiModel: node.config.aiModel || 'gemini-2.5-flash-preview-05-20',
+    customInstructions: node.config.customInstructions,
+    targetKeywords: node.config.targetKeywords,
+    analysisFocus: node.config.analysisFocus
+  });
+
+  log('completed', `SEO analysis completed. Score: ${seoData.analysis.seo_score}/100`);
+  return {
+    ...data,
+    seoAnalysis: seoData.analysis,
+    seoScore: seoData.analysis.seo_score,
+    seoSuggestions: seoData.analysis.improvements
+  };
+};
+
+export const executeTranslator: NodeExecutor = async (node, input, { runtime, log }) => {
+  if (!input) {
+    throw new Error('No data received by translator. Connect this node to a content source.');
+  }
+
+  const contentToTranslate = input.processedContent || input.synthesizedContent || input.content || '';
+  const titleToTranslate = input.title || '';
+
+  if (!contentToTranslate && !titleToTranslate) {
+    throw new Error('No content found to translate. Available data: ' + Object.keys(input).join(', '));
+  }
+
+  const targetLanguage = node.config.targetLanguage || 'he';
+  const provider = node.config.provider || 'google';
+
+  log('running',
+    `Translating to ${targetLanguage} using ${provider}. Content: ${contentToTranslate.length} chars, Title: ${titleToTranslate.length} chars`);
+
+  let translatedContent = contentToTranslate;
+  let translatedTitle = titleToTranslate;
+
+  if (contentToTranslate) {
+    let contentTranslation: TranslatorResponse;
+    try {
+      contentTranslation = await runtime.invoke<TranslatorResponse>('translator', {
+        content: contentToTranslate,
+        targetLanguage,
+        provider
+      });
+    } catch (error) {
+      throw new Error(`Content translation failed: ${error.message}`);
+    }
+
+    if (!contentTranslation?.content) {
+      throw new Error('Content translation failed: Translation service returned empty content');
+    }
+    translatedContent = contentTranslation.content;
+  }
+
+  // A failed title translation keeps the original title instead of failing the item
+  if (titleToTranslate) {
+    try {
+      const titleTranslation = await runtime.invoke<TranslatorResponse>('translator', {
+        content: titleToTranslate,
+        targetLanguage,
+        provider
+      });
+      if (titleTranslation?.content) {
+        translatedTitle = titleTranslation.content;
+      }
+    } catch (error) {
+      console.warn('🌍 TRANSLATOR: ⚠️ Title translation error, using original:', error);
+    }
+  }
+
+  // Slugs stay English, derived from the original title
+  let englishSlug = toEnglishSlug(input.title || titleToTranslate || 'translated-article');
+  if (!englishSlug || englishSlug.length < 3) {
+    englishSlug = `${targetLanguage}-article-${Date.now().toString().slice(-6)}`;
+  }
+
+  log('completed',
+    `✅ Translated to ${targetLanguage}. Title: "${translatedTitle.substring(0, 50)}..." (${translatedContent.length} chars)`);
+  return {
+    title: translatedTitle,
+    processedContent: translatedContent,
+    translatedContent,
+    translatedTitle,
+    englishSlug,
+    targetLanguage,
+    isRTL: RTL_LANGUAGES.includes(targetLanguage),
+    originalContent: contentToTranslate,
+    originalTitle: titleToTranslate,
+    category: input.category,
+    aiModel: input.aiModel,
+    imageUrl: input.imageUrl,
+    seoAnalysis: input.seoAnalysis,
+    source_references: input.source_references || []
+  };
+};
+
+export const executeArticleStructureValidator: NodeExecutor = async (node, input, { log }) => {
+  const validationResult = await executeArticleValidation(node, input);
+
+  const rating = validationResult.score >= 80 ? 'excellent' :
+    validationResult.score >= 60 ? 'good' : 'needs improvement';
+
+  log(validationResult.isValid ? 'completed' : 'error',
+    `Article validation ${rating} (${validationResult.score}/100). ${validationResult.issues.length} issues found.`);
+  validationResult.issues.forEach(issue => log('error', `Issue: ${issue}`));
+
+  return {
+    ...input,
+    validation: validationResult,
+    qualityScore: validationResult.score,
+    isValid: validationResult.isValid
+  };
+};
+
+export const executeFilter: NodeExecutor = async (node, input, { log }) => {
+  const filters = node.config.filters || [];
+  const data = input || {};
+
+  for (const filter of filters) {
+    let passes = true;
+
+    switch (filter.type) {
+      case 'keyword': {
+        const keyword = String(filter.value).toLowerCase();
+        passes = !!(data.title?.toLowerCase().includes(keyword) || data.content?.toLowerCase().includes(keyword));
+        break;
+      }
+      case 'date': {
+        const articleDate = new Date(data.publishedAt || data.published_date);
+        const filterDate = new Date(filter.value);
+        if (filter.operator === 'after') passes = articleDate > filterDate;
+        if (filter.operator === 'before') passes = articleDate < filterDate;
+        break;
+      }
+      case 'score': {
+        const score = data.priority_score || 0;
+        if (filter.operator === 'gt') passes = score > filter.value;
+        if (filter.operator === 'lt') passes = score < filter.value;
+        break;
+      }
+    }
+
+    if (!passes) {
+      log('completed', `Filtered out by ${filter.type} filter`);
+      return null;
+    }
+  }
+
+  log('completed', 'Item passed all filters');
+  return data;
+};
+
+// Fan-out branches carry one article; other inputs may carry several or be the item itself
+const getDedupeCandidates = (input: WorkflowItem): { key: 'articles' | 'items' | null; candidates: WorkflowItem[] } => {
+  if (Array.isArray(input?.articles)) return { key: 'articles', candidates: input.articles };
+  if (Array.isArray(input?.items)) return { key: 'items', candidates: input.items };
+  return { key: null, candidates: [input || {}] };
+};
+
+// Drops items we already covered: URLs in content_queue or in an article's source_references,
+// and content too similar to a published article
+export const executeDedupe: NodeExecutor = async (node, input, { runtime, log }) => {
+  const { key, candidates } = getDedupeCandidates(input);
+  if (candidates.length === 0) {
+    log('completed', 'No items to check');
+    return input;
+  }
+
+  const items = candidates.map(candidate => ({
+    url: candidate.url || candidate.link || candidate.source_reference?.url,
+    title: candidate.title,
+    content: candidate.content || candidate.description || candidate.abstract || candidate.processedContent || ''
+  }));
+
+  log('running', `Checking ${items.length} item(s) against the content queue and published articles...`);
+  const response = await runtime.invoke<DedupeResponse>('content-dedupe', {
+    items,
+    checkQueue: node.config.checkQueue !== false,
+    checkPublished: node.config.checkPublished !== false,
+    checkSimilarity: node.config.checkSimilarity !== false,
+    similarityThreshold: Number(node.config.similarityThreshold) || 0.85
+  });
+  if (!response?.success) {
+    throw new Error(`Dedupe check failed: ${response?.error || 'Unknown error'}`);
+  }
+
+  const kept = candidates.filter((candidate, index) => {
+    const result = response.results[index] || {};
+    const title = (items[index].title || items[index].url || 'Untitled').substring(0, 60);
+    if (result.warning) {
+      log('error', `"${title}": ${result.warning}`);
+    }
+    if (result.duplicate) {
+      log('completed', `Dropped "${title}": ${result.reason}`);
+      return false;
+    }
+    return true;
+  });
+
+  if (kept.length === 0) {
+    log('completed', 'Every item was a duplicate; nothing continues');
+    return null;
+  }
+
+  log('completed', `${kept.length} of ${candidates.length} item(s) are new`);
+  if (!key || kept.length === candidates.length) {
+    return input;
+  }
+  return key === 'items' ? { ...input, items: kept, count: kept.length } : { ...input, articles: kept };
+};
+
+// Routing itself happens per item when the engine follows the router's edges
+export const executeRouter: NodeExecutor = async (node, input, { log }) => {
+  const conditionalRoutes = (node.config.routes || []).filter(route =>
+    node.connected.includes(route.targetId) && route.conditions?.length > 0
+  );
+  log('completed', `Routing to ${node.connected.length} branch(es), ${conditionalRoutes.length} with conditions`);
+  return input || {};
+};
+
+// The item stops here until an editor reviews it on the Workflow Approvals page. Approved items,
+// with the editor's changes, continue in a run of their own (see continueWorkflow in the engine).
+export const executeApproval: NodeExecutor = async (node, input, { log, dryRun, requestApproval }) => {
+  const title = (input?.title || input?.articles?.[0]?.title || 'Untitled').substring(0, 50);
+
+  if (dryRun) {
+    log('completed', `Dry run: would hold "${title}" for approval and continue once approved`);
+    return input;
+  }
+  if (!requestApproval) {
+    throw new Error('Approval gates only work in saved workflows. Save the workflow and run it again.');
+  }
+
+  await requestApproval(input, node.config.instructions);
+  log('completed', `Holding "${title}" for approval`);
+  return null;
+};
+
+// Runs another saved workflow with the item and continues with what it produced. Several results
+// continue together as one combined list, like an Aggregate's output.
+export const executeSubWorkflow: NodeExecutor = async (node, input, { log, runSubWorkflow }) => {
+  if (!runSubWorkflow) {
+    throw new Error('Sub-workflows cannot run here');
+  }
+
+  const { workflow, outputs, errors, awaitingApproval, executionId } = await runSubWorkflow(node.config.workflowId, input);
+  const summary = `${workflow.name} finished with ${outputs.length} result(s)${executionId ? ` (run ${executionId})` : ''}`;
+
+  for (const error of errors) {
+    log('error', `${workflow.name} › ${error.nodeName}: ${error.message}`);
+  }
+
+  if (outputs.length === 0) {
+    if (awaitingApproval > 0) {
+      log('completed', `${workflow.name} is holding the item for approval; once approved it continues in ${workflow.name} only`);
+      return null;
+    }
+    // Nothing came back because the called workflow failed, so this node fails and its error policy applies
+    if (errors.length > 0) {
+      throw new Error(`${workflow.name} failed: ${errors[errors.length - 1].message}`);
+    }
+    log('completed', `${summary}; nothing continues`);
+    return null;
+  }
+
+  log('completed', summary);
+  if (outputs.length === 1) {
+    return outputs[0];
+  }
+  return {
+    items: outputs,
+    count: outputs.length,
+    source_references: outputs.flatMap(output => output?.source_references || [])
+  };
+};
+
+// A fan-out branch arrives as { articles: [item], source_references }; aggregate the item itself
+const unwrapBranchItem = (item: WorkflowItem): WorkflowItem => {
+  if (Array.isArray(item?.articles) && item.articles.length === 1) {
+    const { articles, ...rest } = item;
+    return { ...rest, ...articles[0] };
+  }
+  return item;
+};
+
+// Called once per run with every item that reached the node (see flushAggregates in the engine)
+export const executeAggregate: NodeExecutor = async (node, input, { log }) => {
+  let items: WorkflowItem[] = (input?.items || []).map(unwrapBranchItem);
+  const collected = items.length;
+
+  const sortBy = node.config.sortBy?.trim();
+  if (sortBy) {
+    const direction = node.config.sortOrder === 'asc' ? 1 : -1;
+    items = [...items].sort((a, b) => {
+      const left = a?.[sortBy] as string | number;
+      const right = b?.[sortBy] as string | number;
+      if (left === right) return 0;
+      if (left === undefined || left === null) return 1;
+      if (right === undefined || right === null) return -1;
+      return (left > right ? 1 : -1) * direction;
+    });
+  }
+
+  const maxItems = Number(node.config.maxItems) || 0;
+  if (maxItems > 0) {
+    items = items.slice(0, maxItems);
+  }
+
+  const source_references = items
+    .flatMap(item => [item.source_reference, ...(item.source_references || [])])
+    .filter(ref => ref)
+    .filter((ref, index, arr) => arr.findIndex(r => r.url === ref.url) === index);
+
+  log('completed', `Combined ${items.length} of ${collected} collected item(s)${sortBy ? ` sorted by ${sortBy}` : ''}`);
+  return { items, count: items.length, source_references };
+};
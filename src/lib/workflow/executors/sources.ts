@@ -0,0 +1,132 @@
+import type { WorkflowNode } from '../../../types/WorkflowTypes.ts';
+import type { NodeExecutor, SourceReference, WorkflowSource } from '../types.ts';
+import { getWorkflowEventLabel } from '../events.ts';
+
+export const executeTrigger: NodeExecutor = async (node, input, { triggerData, log }) => {
+  const result = {
+    ...(triggerData || node.data || {}),
+    triggered: true,
+    timestamp: new Date().toISOString()
+  };
+  if (triggerData?.webhook) {
+    log('completed', 'Workflow triggered by webhook');
+  } else if (triggerData?.event) {
+    log('completed', `Workflow triggered by event: ${getWorkflowEventLabel(triggerData.event.type)}`);
+  } else {
+    log('completed', 'Workflow triggered successfully');
+  }
+  return result;
+};
+
+export const executeScraper: NodeExecutor = async (node, input, { runtime, log }) => {
+  if (!node.config.urls || node.config.urls.length === 0) {
+    throw new Error('No URLs configured for web scraper');
+  }
+
+  const scrapedContent = [];
+  for (const url of node.config.urls) {
+    try {
+      const data = await runtime.invoke<{ content: string; source_reference?: SourceReference }>('web-scraper', { url, selector: node.config.selector });
+      scrapedContent.push({
+        url,
+        content: data.content,
+        source_reference: data.source_reference
+      });
+      log('completed', `Scraped content from ${url}`);
+    } catch (error) {
+      log('error', `Failed to scrape ${url}: ${error.message}`);
+    }
+  }
+
+  return { scrapedContent, urls: node.config.urls };
+};
+
+export const executeRssAggregator: NodeExecutor = async (node, input, { runtime, log }) => {
+  if (!node.config.urls || node.config.urls.length === 0) {
+    throw new Error('No RSS URLs configured');
+  }
+
+  const rssData = await runtime.invoke<{ articles: WorkflowSource[] }>('rss-aggregator', { urls: node.config.urls });
+
+  log('completed', `Fetched ${rssData.articles.length} articles from RSS feeds`);
+  return { articles: rssData.articles };
+};
+
+export const executeGoogleScholarSearch: NodeExecutor = async (node, input, { runtime, log }) => {
+  if (!node.config.query) {
+    throw new Error('No search query configured');
+  }
+
+  const scholarData = await runtime.invoke<{ papers: WorkflowSource[] }>('google-scholar-search', {
+    query: node.config.query,
+    maxResults: node.config.maxResults || 20,
+    yearFrom: node.config.yearFrom,
+    yearTo: node.config.yearTo,
+    includeAbstracts: node.config.includeAbstracts,
+    multiplePages: true,
+    sort: node.config.sort || 'relevance',
+    language: node.config.language || 'en',
+    citationsOnly: node.config.citationsOnly || false
+  });
+
+  log('completed', `Found ${scholarData.papers.length} academic papers`);
+  return { papers: scholarData.papers };
+};
+
+// Resolve the news-discovery time range presets into explicit dates
+const resolveNewsDateRange = (config: WorkflowNode['config']) => {
+  if (config.timeRange === 'custom') {
+    return { fromDate: config.fromDate, toDate: config.toDate };
+  }
+
+  const hours: Record<string, number> = { hour: 1, day: 24, week: 24 * 7, month: 24 * 30 };
+  const windowHours = hours[config.timeRange || 'day'];
+  if (!windowHours) {
+    return { fromDate: undefined, toDate: undefined };
+  }
+
+  return {
+    fromDate: new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString(),
+    toDate: undefined
+  };
+};
+
+export const executeNewsDiscovery: NodeExecutor = async (node, input, { runtime, log }) => {
+  if (!node.config.keywords) {
+    throw new Error('No keywords configured for news discovery');
+  }
+
+  const { fromDate, toDate } = resolveNewsDateRange(node.config);
+
+  const newsData = await runtime.invoke<{ articles: WorkflowSource[] }>('news-discovery', {
+    keywords: node.config.keywords,
+    source: node.config.source || 'all',
+    timeRange: node.config.timeRange || 'day',
+    maxResults: node.config.maxResults || 10,
+    fromDate,
+    toDate,
+    saveToQueue: node.config.saveToQueue !== false
+  });
+
+  log('completed', `Discovered ${newsData.articles.length} news articles`);
+  return { articles: newsData.articles };
+};
+
+export const executePerplexityResearch: NodeExecutor = async (node, input, { runtime, log }) => {
+  if (!node.config.query) {
+    throw new Error('No research query configured');
+  }
+
+  const researchData = await runtime.invoke<{ research: string; sources: SourceReference[]; relatedQuestions?: string[] }>('perplexity-research', {
+    query: node.config.query,
+    depth: node.config.depth || 'medium',
+    includeSources: node.config.includeSources
+  });
+
+  log('completed', `Completed research with ${researchData.sources.length} sources`);
+  return {
+    research: researchData.research,
+    sources: researchData.sources,
+    relatedQuestions: researchData.relatedQuestions
+  };
+};
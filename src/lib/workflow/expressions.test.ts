@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createExpressionScope, ExpressionError, evaluateExpression, renderTemplate } from './expressions.ts';
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+
+const scholar: WorkflowNode = {
+  id: 'node-1',
+  type: 'google-scholar-search',
+  label: 'Google Scholar',
+  position: { x: 0, y: 0 },
+  config: {},
+  connected: [],
+};
+
+const scope = createExpressionScope(
+  { title: 'Whitening myths', tags: ['care', 'kids'], score: 7 },
+  [{ node: scholar, output: { papers: [{ title: 'Enamel study', url: 'https://example.com/enamel' }] } }],
+  { date: new Date('2025-07-20T21:30:00Z'), trigger: { scheduled: true } }
+);
+
+describe('renderTemplate', () => {
+  it('keeps the value of a template that is a single expression', () => {
+    expect(renderTemplate('{{item.score}}', scope)).toBe(7);
+    expect(renderTemplate('{{ item.tags }}', scope)).toEqual(['care', 'kids']);
+  });
+
+  it('renders mixed text to a string', () => {
+    expect(renderTemplate('Latest on {{item.title}} ({{item.score}})', scope)).toBe('Latest on Whitening myths (7)');
+    expect(renderTemplate('No expressions here', scope)).toBe('No expressions here');
+  });
+
+  it('reads upstream outputs by node id and by label', () => {
+    expect(renderTemplate('{{nodes.google_scholar.papers[0].url}}', scope)).toBe('https://example.com/enamel');
+    expect(renderTemplate("{{nodes['node-1'].papers[0].title}}", scope)).toBe('Enamel study');
+  });
+});
+
+describe('evaluateExpression', () => {
+  it('applies filters in order', () => {
+    expect(evaluateExpression('item.title | upper', scope)).toBe('WHITENING MYTHS');
+    expect(evaluateExpression('item.tags | join:" / "', scope)).toBe('care / kids');
+    expect(evaluateExpression('item.title | truncate:9', scope)).toBe('Whitening...');
+    expect(evaluateExpression('item.author | default:"Staff"', scope)).toBe('Staff');
+  });
+
+  it('formats dates in the given time zone', () => {
+    expect(evaluateExpression('run.date | date:"yyyy-MM-dd HH:mm","UTC"', scope)).toBe('2025-07-20 21:30');
+    expect(evaluateExpression('run.date | date:"yyyy-MM-dd","Asia/Jerusalem"', scope)).toBe('2025-07-21');
+  });
+
+  it('gives undefined for missing paths', () => {
+    expect(evaluateExpression('item.author.name', scope)).toBeUndefined();
+    expect(evaluateExpression('nodes.unknown_node.title', scope)).toBeUndefined();
+  });
+
+  it('does not follow inherited properties', () => {
+    expect(evaluateExpression('item.constructor', scope)).toBeUndefined();
+    expect(evaluateExpression('item.tags.map', scope)).toBeUndefined();
+  });
+
+  it('rejects unknown variables, filters and malformed paths', () => {
+    expect(() => evaluateExpression('window.location', scope)).toThrow(ExpressionError);
+    expect(() => evaluateExpression('item.title | shout', scope)).toThrow('unknown filter "shout"');
+    expect(() => evaluateExpression('item.title()', scope)).toThrow('unexpected "()"');
+  });
+});
@@ -0,0 +1,327 @@
+// Template expressions in node configs, e.g. "Latest on {{item.title}}" or
+// "{{nodes.scholar.papers[0].url}}" or "{{run.date | date:"yyyy-MM"}}".
+//
+// Expressions are parsed, never evaluated as code: an expression is a variable path
+// followed by optional filters. The engine renders every string in a node's config
+// against the item being processed before the node runs.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+import type { WorkflowItem, WorkflowTriggerData } from './types.ts';
+import { getRoutingSubject } from './routing.ts';
+import { DEFAULT_SCHEDULE_TIMEZONE } from './schedule.ts';
+
+export interface ExpressionScope {
+  // The current item; a single fan-out article is merged into its wrapper
+  item: WorkflowItem;
+  // Alias of item kept for the older {{article.title}} placeholders
+  article: WorkflowItem;
+  // The node's raw input
+  input: WorkflowItem;
+  // Outputs of the upstream nodes of this item, by node id and by reference key
+  nodes: Record<string, WorkflowItem>;
+  run: { date: Date; trigger: WorkflowTriggerData };
+}
+
+export interface ExpressionSuggestion {
+  expression: string;
+  description: string;
+}
+
+const EXPRESSION_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const SINGLE_EXPRESSION_PATTERN = /^\{\{([\s\S]*?)\}\}$/;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*/;
+
+export class ExpressionError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid expression "{{${expression.trim()}}}": ${reason}`);
+  }
+}
+
+// "Google Scholar Search" → "google_scholar_search", used as nodes.<key>
+export function getNodeReferenceKey(node: Pick<WorkflowNode, 'label'>): string {
+  return (node.label || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export function createExpressionScope(
+  input: WorkflowItem,
+  upstream: { node: WorkflowNode; output: WorkflowItem }[],
+  run: ExpressionScope['run']
+): ExpressionScope {
+  const nodes: Record<string, WorkflowItem> = {};
+  // Closer nodes come last, so they win when two upstream nodes share a label
+  for (const { node, output } of upstream) {
+    nodes[node.id] = output;
+    const key = getNodeReferenceKey(node);
+    if (key) nodes[key] = output;
+  }
+
+  const item = getRoutingSubject(input);
+  return { item, article: item, input: input ?? {}, nodes, run };
+}
+
+export function hasExpressions(text: string): boolean {
+  return typeof text === 'string' && text.includes('{{');
+}
+
+// Split "a.b[0]['c']" into ['a', 'b', 0, 'c']
+function parsePath(path: string, expression: string): (string | number)[] {
+  const segments: (string | number)[] = [];
+  let rest = path.trim();
+
+  const root = rest.match(IDENTIFIER);
+  if (!root) throw new ExpressionError(expression, 'expected a variable name');
+  segments.push(root[0]);
+  rest = rest.slice(root[0].length);
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^\.([\w$-]+)/))) {
+      segments.push(match[1]);
+    } else if ((match = rest.match(/^\[(\d+)\]/))) {
+      segments.push(Number(match[1]));
+    } else if ((match = rest.match(/^\[\s*(["'])(.*?)\1\s*\]/))) {
+      segments.push(match[2]);
+    } else {
+      throw new ExpressionError(expression, `unexpected "${rest}"`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+  return segments;
+}
+
+// Split on a separator outside of quotes
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseArgument(raw: string): string | number {
+  const value = raw.trim();
+  const quoted = value.match(/^(["'])([\s\S]*)\1$/);
+  if (quoted) return quoted[2];
+  if (value !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Format with date-fns style tokens (yyyy, MM, dd, HH, mm, ss, MMM, EEE, ...) in the given time zone
+export function formatExpressionDate(value: unknown, format = 'yyyy-MM-dd', timeZone = DEFAULT_SCHEDULE_TIMEZONE): string {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (value === undefined || value === null || value === '' || isNaN(date.getTime())) return '';
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    weekday: 'long',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  const month = Number(get('month'));
+  const monthName = new Intl.DateTimeFormat('en-US', { timeZone, month: 'long' }).format(date);
+
+  const tokens: Record<string, string> = {
+    yyyy: get('year'),
+    yy: get('year').slice(-2),
+    MMMM: monthName,
+    MMM: monthName.slice(0, 3),
+    MM: pad(month),
+    M: String(month),
+    dd: pad(Number(get('day'))),
+    d: String(Number(get('day'))),
+    HH: pad(Number(get('hour'))),
+    H: String(Number(get('hour'))),
+    mm: pad(Number(get('minute'))),
+    ss: pad(Number(get('second'))),
+    EEEE: get('weekday'),
+    EEE: get('weekday').slice(0, 3),
+  };
+  return format.replace(/yyyy|yy|MMMM|MMM|MM|M|dd|d|HH|H|mm|ss|EEEE|EEE/g, token => tokens[token]);
+}
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const FILTERS: Record<string, (value: unknown, args: (string | number)[]) => unknown> = {
+  date: (value, [format, timeZone]) => formatExpressionDate(value, format as string, timeZone as string),
+  default: (value, [fallback]) => (value === undefined || value === null || value === '' ? fallback : value),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  truncate: (value, [length]) => {
+    const text = toText(value);
+    const max = Number(length) || 100;
+    return text.length > max ? `${text.slice(0, max).trimEnd()}...` : text;
+  },
+  join: (value, [separator]) => (Array.isArray(value) ? value.map(toText).join(separator === undefined ? ', ' : String(separator)) : value),
+  first: (value) => (Array.isArray(value) ? value[0] : value),
+  length: (value) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+  json: (value) => JSON.stringify(value ?? null),
+};
+
+export const EXPRESSION_FILTERS = Object.keys(FILTERS);
+
+const hasOwn = (value: unknown, key: string | number): boolean =>
+  value !== null && value !== undefined && Object.prototype.hasOwnProperty.call(value, key);
+
+export function evaluateExpression(expression: string, scope: ExpressionScope): unknown {
+  const [path, ...filters] = splitOutsideQuotes(expression, '|');
+  const segments = parsePath(path, expression);
+
+  const root = segments[0] as string;
+  if (!hasOwn(scope, root)) {
+    throw new ExpressionError(expression, `unknown variable "${root}" (use item, nodes, run or input)`);
+  }
+
+  // Only own properties are followed, so paths like item.constructor.constructor cannot
+  // reach prototypes or the Function constructor
+  let value = segments.reduce<unknown>(
+    (current, segment) => (hasOwn(current, segment) ? (current as Record<string | number, unknown>)[segment] : undefined),
+    scope
+  );
+
+  for (const filter of filters) {
+    const [name, ...rawArgs] = splitOutsideQuotes(filter, ':');
+    const apply = FILTERS[name.trim()];
+    if (!apply) {
+      throw new ExpressionError(expression, `unknown filter "${name.trim()}"`);
+    }
+    const args = rawArgs.length > 0 ? splitOutsideQuotes(rawArgs.join(':'), ',').map(parseArgument) : [];
+    value = apply(value, args);
+  }
+  return value;
+}
+
+// A template that is exactly one expression keeps the value's type (numbers, arrays);
+// anything else renders to a string
+export function renderTemplate(template: string, scope: ExpressionScope): unknown {
+  if (!hasExpressions(template)) return template;
+
+  const single = template.trim().match(SINGLE_EXPRESSION_PATTERN);
+  if (single && !single[1].includes('{{')) {
+    return evaluateExpression(single[1], scope);
+  }
+  return template.replace(EXPRESSION_PATTERN, (_match, expression) => toText(evaluateExpression(expression, scope)));
+}
+
+function renderValue(value: unknown, scope: ExpressionScope): unknown {
+  if (typeof value === 'string') return renderTemplate(value, scope);
+  if (Array.isArray(value)) return value.map(entry => renderValue(entry, scope));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, renderValue(entry, scope)]));
+  }
+  return value;
+}
+
+function containsExpressions(value: unknown): boolean {
+  if (typeof value === 'string') return hasExpressions(value);
+  if (Array.isArray(value)) return value.some(containsExpressions);
+  if (value && typeof value === 'object') return Object.values(value).some(containsExpressions);
+  return false;
+}
+
+// The node with every expression in its config rendered; unchanged when it has none
+export function resolveNodeExpressions(node: WorkflowNode, scope: ExpressionScope): WorkflowNode {
+  if (!containsExpressions(node.config)) return node;
+  return { ...node, config: renderValue(node.config, scope) as WorkflowNode['config'] };
+}
+
+// Fields each node type puts on its output, for autocompletion in the sidebar
+export const NODE_OUTPUT_FIELDS: Partial<Record<WorkflowNode['type'], string[]>> = {
+  trigger: ['timestamp', 'triggered'],
+  scraper: ['scrapedContent[0].url', 'scrapedContent[0].content', 'urls'],
+  'rss-aggregator': ['articles[0].title', 'articles[0].link', 'articles[0].description'],
+  'google-scholar-search': ['papers[0].title', 'papers[0].url', 'papers[0].abstract', 'papers[0].authors', 'papers[0].year', 'papers[0].citations'],
+  'news-discovery': ['articles[0].title', 'articles[0].url', 'articles[0].description', 'articles[0].source', 'articles[0].publishedAt'],
+  'perplexity-research': ['research', 'sources', 'relatedQuestions'],
+  'ai-processor': ['title', 'content', 'processedContent', 'category', 'language'],
+  'multi-source-synthesizer': ['synthesizedContent', 'sourceCount', 'style'],
+  aggregate: ['items', 'count'],
+  publisher: ['title', 'slug', 'status', 'url', 'articleId', 'imageUrl'],
+  'image-generator': ['imageUrl', 'imagePrompt', 'title'],
+  'seo-analyzer': ['seoScore', 'seoSuggestions', 'title'],
+  translator: ['title', 'processedContent', 'targetLanguage', 'englishSlug'],
+  'article-structure-validator': ['qualityScore', 'isValid', 'title'],
+};
+
+// Fields of a single item flowing out of a fan-out node, as seen through {{item.*}}
+const FAN_OUT_ITEM_FIELDS: Partial<Record<WorkflowNode['type'], string[]>> = {
+  scraper: ['title', 'url', 'content'],
+  'rss-aggregator': ['title', 'link', 'description'],
+  'google-scholar-search': ['title', 'url', 'content', 'authors', 'year', 'citations', 'venue'],
+  'news-discovery': ['title', 'url', 'description', 'source', 'publishedAt', 'priority_score'],
+};
+
+const getUpstreamNodes = (nodes: WorkflowNode[], nodeId: string): WorkflowNode[] => {
+  const upstream: WorkflowNode[] = [];
+  const pending = [nodeId];
+  const seen = new Set(pending);
+  while (pending.length > 0) {
+    const targetId = pending.pop();
+    for (const node of nodes) {
+      if (node.connected.includes(targetId) && !seen.has(node.id)) {
+        seen.add(node.id);
+        upstream.push(node);
+        pending.push(node.id);
+      }
+    }
+  }
+  return upstream;
+};
+
+// Expressions the given node can use, based on the output shapes of the nodes upstream of it
+export function getExpressionSuggestions(nodes: WorkflowNode[], nodeId: string): ExpressionSuggestion[] {
+  const suggestions: ExpressionSuggestion[] = [];
+  const seen = new Set<string>();
+  const add = (expression: string, description: string) => {
+    if (seen.has(expression)) return;
+    seen.add(expression);
+    suggestions.push({ expression, description });
+  };
+
+  const upstream = getUpstreamNodes(nodes, nodeId);
+  const parents = nodes.filter(node => node.connected.includes(nodeId));
+
+  for (const parent of parents) {
+    const fields = FAN_OUT_ITEM_FIELDS[parent.type] || NODE_OUTPUT_FIELDS[parent.type] || [];
+    fields.forEach(field => add(`item.${field}`, `From ${parent.label}`));
+  }
+  add('item.title', 'Title of the current item');
+
+  for (const node of upstream) {
+    const key = getNodeReferenceKey(node);
+    if (!key) continue;
+    (NODE_OUTPUT_FIELDS[node.type] || []).forEach(field => add(`nodes.${key}.${field}`, `Output of ${node.label}`));
+  }
+
+  add('run.date | date:"yyyy-MM-dd"', 'Date of the run');
+  add('run.date | date:"yyyy-MM"', 'Month of the run');
+  add('run.trigger', 'Data the run was triggered with');
+  return suggestions;
+}
@@ -0,0 +1,156 @@
+// Fixtures for dry runs: the engine swaps its runtime for one that answers every edge
+// function call from a recorded response or a synthetic one, so no AI provider, search
+// API or database is touched.
+import type { WorkflowFixtures, WorkflowRuntime } from './types.ts';
+
+// Edge functions with effects outside the run; executors report these instead of calling them
+export const SIDE_EFFECT_FUNCTIONS = ['create-article-from-ai', 'social-poster', 'send-email'];
+
+const sampleReference = (title: string, url: string, type = 'research') => ({
+  title,
+  url,
+  type,
+  date: new Date().toISOString()
+});
+
+const sampleArticleMarkdown = (topic: string) => `# Dry Run: ${topic}
+
+This is synthetic content generated for a dry run. No AI provider was called.
+
+## Key Points
+
+- The workflow reached this step with the expected input.
+- Downstream nodes receive content shaped like a real response.
+
+## Summary
+
+Replace this fixture with a recorded response to preview real output.`;
+
+const clampCount = (requested: unknown, max = 3) => Math.max(1, Math.min(Number(requested) || max, max));
+
+// The request fields the synthetic responses echo back
+interface SyntheticRequest {
+  url?: string;
+  urls?: string[];
+  sources?: unknown[];
+  items?: unknown[];
+  [field: string]: unknown;
+}
+
+// Synthetic responses shaped like each edge function's real response
+const SYNTHETIC_RESPONSES: Record<string, (body: SyntheticRequest) => unknown> = {
+  'web-scraper': (body) => ({
+    success: true,
+    content: `Synthetic page content scraped from ${body.url}.`,
+    source_reference: sampleReference(`Scraped page: ${body.url}`, body.url, 'website')
+  }),
+  'rss-aggregator': (body) => ({
+    success: true,
+    articles: (body.urls || []).slice(0, 3).map((url: string, index: number) => ({
+      title: `Sample feed item ${index + 1}`,
+      link: `${url.replace(/\/$/, '')}/sample-${index + 1}`,
+      description: 'Synthetic RSS item used for a dry run.',
+      pubDate: new Date().toISOString(),
+      source_reference: sampleReference(`Sample feed item ${index + 1}`, url, 'news')
+    }))
+  }),
+  'google-scholar-search': (body) => ({
+    success: true,
+    papers: Array.from({ length: clampCount(body.maxResults) }, (_, index) => ({
+      title: `Sample paper ${index + 1} on ${body.query}`,
+      authors: ['A. Researcher', 'B. Scientist'],
+      year: new Date().getFullYear() - index,
+      abstract: `Synthetic abstract about ${body.query} used for a dry run.`,
+      url: `https://example.org/papers/sample-${index + 1}`,
+      citations: 100 - index * 30,
+      venue: 'Journal of Dry Runs',
+      pdf_link: null,
+      source: 'Dry run fixture',
+      source_reference: sampleReference(`Sample paper ${index + 1} on ${body.query}`, `https://example.org/papers/sample-${index + 1}`)
+    }))
+  }),
+  'news-discovery': (body) => ({
+    success: true,
+    articles: Array.from({ length: clampCount(body.maxResults) }, (_, index) => ({
+      title: `Sample news about ${body.keywords} (${index + 1})`,
+      url: `https://example.org/news/sample-${index + 1}`,
+      source: 'Dry run fixture',
+      publishedAt: new Date().toISOString(),
+      description: `Synthetic news item about ${body.keywords}.`,
+      type: 'news',
+      priority_score: 90 - index * 10,
+      source_reference: sampleReference(`Sample news about ${body.keywords} (${index + 1})`, `https://example.org/news/sample-${index + 1}`, 'news')
+    }))
+  }),
+  'perplexity-research': (body) => ({
+    success: true,
+    research: `Synthetic research summary for "${body.query}".`,
+    sources: [sampleReference('Sample research source', 'https://example.org/research/sample')],
+    relatedQuestions: [`What is new in ${body.query}?`]
+  }),
+  'run-ai-agent-analysis': () => ({
+    success: true,
+    analysis: sampleArticleMarkdown('Generated Article')
+  }),
+  'multi-source-synthesizer': (body) => ({
+    success: true,
+    synthesizedContent: sampleArticleMarkdown(`Synthesis of ${(body.sources || []).length} Sources`),
+    sourceCount: (body.sources || []).length,
+    style: body.style
+  }),
+  'image-generator': (body) => ({
+    success: true,
+    imageUrl: '/placeholder.svg',
+    prompt: body.prompt || body.title || 'Dry run image',
+    wasAIGenerated: false,
+    generatedWith: 'Dry run fixture',
+    fileName: 'placeholder.svg'
+  }),
+  'seo-analyzer': () => ({
+    success: true,
+    analysis: {
+      seo_score: 75,
+      improvements: ['Synthetic suggestion: add the focus keyword to the first paragraph.']
+    }
+  }),
+  'content-dedupe': (body) => ({
+    success: true,
+    results: (body.items || []).map(() => ({ duplicate: false }))
+  }),
+  translator: (body) => ({
+    success: true,
+    content: `[${body.targetLanguage}] ${body.content}`
+  }),
+};
+
+// A runtime that never leaves the process. Recorded responses win over synthetic ones.
+export function createDryRunRuntime(fixtures: WorkflowFixtures = {}): WorkflowRuntime {
+  return {
+    invoke: async <T,>(functionName: string, body: Record<string, unknown>): Promise<T> => {
+      if (SIDE_EFFECT_FUNCTIONS.includes(functionName)) {
+        throw new Error(`${functionName} must not be called during a dry run`);
+      }
+      if (functionName in fixtures) {
+        return fixtures[functionName] as T;
+      }
+      const synthesize = SYNTHETIC_RESPONSES[functionName];
+      if (!synthesize) {
+        throw new Error(`No dry run fixture for ${functionName}`);
+      }
+      return synthesize(body) as T;
+    }
+  };
+}
+
+// Wrap a real runtime and keep the latest response of every read-only function as a fixture
+export function createRecordingRuntime(runtime: WorkflowRuntime, fixtures: WorkflowFixtures): WorkflowRuntime {
+  return {
+    invoke: async <T,>(functionName: string, body: Record<string, unknown>): Promise<T> => {
+      const response = await runtime.invoke<T>(functionName, body);
+      if (!SIDE_EFFECT_FUNCTIONS.includes(functionName)) {
+        fixtures[functionName] = response;
+      }
+      return response;
+    }
+  };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { ABANDONED_CLAIM_ERROR, claimQueueRow, getDueQueueRows, STALE_CLAIM_MS } from './jobQueue.ts';
+import type { QueueRow, WorkQueue } from './jobQueue.ts';
+import type { WorkflowDatabaseClient } from './database.ts';
+
+interface RecordedQuery {
+  table: string;
+  action: 'select' | 'update';
+  values?: Record<string, unknown>;
+  filters: [string, ...unknown[]][];
+}
+
+// Stands in for the supabase client: records every query and answers it with `respond`
+function createFakeClient(respond: (query: RecordedQuery) => unknown[]) {
+  const queries: RecordedQuery[] = [];
+
+  const client: WorkflowDatabaseClient = {
+    from: (table) => {
+      const start = (action: RecordedQuery['action'], values?: Record<string, unknown>) => {
+        const query: RecordedQuery = { table, action, values, filters: [] };
+        queries.push(query);
+
+        const builder = {
+          then: (resolve: (result: unknown) => unknown, reject?: (error: unknown) => unknown) =>
+            Promise.resolve({ data: respond(query), error: null }).then(resolve, reject),
+        };
+        for (const method of ['select', 'eq', 'lt', 'lte', 'gte', 'or', 'order', 'limit']) {
+          builder[method] = (...args: unknown[]) => {
+            // A select after an update only returns the rows, it filters nothing
+            if (method !== 'select') query.filters.push([method, ...args]);
+            return builder;
+          };
+        }
+        return builder;
+      };
+
+      return {
+        select: () => start('select'),
+        update: (values: Record<string, unknown>) => start('update', values),
+      };
+    },
+  };
+
+  return { client, queries };
+}
+
+interface Job extends QueueRow {
+  run_at: string;
+}
+
+const queue: WorkQueue<Job> = {
+  table: 'workflow_action_jobs',
+  claimedStatus: 'processing',
+  maxAttempts: 3,
+  dueColumn: 'run_at',
+  orderColumn: 'run_at',
+  getAbandonedUpdate: (_job, now) => ({ status: 'failed', error_message: ABANDONED_CLAIM_ERROR, completed_at: now.toISOString() }),
+};
+
+const now = new Date('2025-07-20T12:00:00Z');
+const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS).toISOString();
+
+describe('getDueQueueRows', () => {
+  it('fails stale claims that used their last attempt before listing due rows', async () => {
+    const abandoned: Job = { id: 'job-1', status: 'processing', attempts: 3, run_at: '2025-07-20T10:00:00Z' };
+    const due: Job = { id: 'job-2', status: 'pending', attempts: 0, run_at: '2025-07-20T11:00:00Z' };
+    const { client, queries } = createFakeClient(query => {
+      if (query.action === 'update') return [];
+      return query.filters.some(([method]) => method === 'or') ? [due] : [abandoned];
+    });
+
+    expect(await getDueQueueRows(client, queue, { limit: 10, now })).toEqual([due]);
+
+    const [findAbandoned, giveUp, findDue] = queries;
+    expect(findAbandoned.filters).toEqual([
+      ['eq', 'status', 'processing'],
+      ['lt', 'claimed_at', staleBefore],
+      ['gte', 'attempts', 3],
+    ]);
+    // Only written if no other worker changed the row in between
+    expect(giveUp).toEqual({
+      table: 'workflow_action_jobs',
+      action: 'update',
+      values: { status: 'failed', error_message: ABANDONED_CLAIM_ERROR, completed_at: now.toISOString() },
+      filters: [['eq', 'id', 'job-1'], ['eq', 'status', 'processing'], ['eq', 'attempts', 3]],
+    });
+    expect(findDue.filters).toEqual([
+      ['or', `status.eq.pending,and(status.eq.processing,claimed_at.lt.${staleBefore})`],
+      ['lt', 'attempts', 3],
+      ['order', 'run_at', { ascending: true }],
+      ['limit', 10],
+      ['lte', 'run_at', now.toISOString()],
+    ]);
+  });
+
+  it('narrows both lookups to one row when given its id', async () => {
+    const { client, queries } = createFakeClient(() => []);
+
+    await getDueQueueRows(client, queue, { id: 'job-7', limit: 1, now });
+
+    expect(queries.map(query => query.filters.at(-1))).toEqual([['eq', 'id', 'job-7'], ['eq', 'id', 'job-7']]);
+  });
+});
+
+describe('claimQueueRow', () => {
+  const job: Job = { id: 'job-1', status: 'pending', attempts: 1, run_at: '2025-07-20T11:00:00Z' };
+
+  it('claims the row as it was read and counts the attempt', async () => {
+    const { client, queries } = createFakeClient(query => [{ ...job, ...query.values }]);
+
+    const claimed = await claimQueueRow(client, queue, job);
+
+    expect(claimed).toMatchObject({ id: 'job-1', status: 'processing', attempts: 2 });
+    expect(queries[0].filters).toEqual([['eq', 'id', 'job-1'], ['eq', 'status', 'pending'], ['eq', 'attempts', 1]]);
+  });
+
+  it('gives null when another worker claimed it first', async () => {
+    const { client } = createFakeClient(() => []);
+    expect(await claimQueueRow(client, queue, job)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+// Work queues kept in Postgres tables: workflow_events, workflow_action_jobs and
+// integration_deliveries.
+//
+// A worker claims a row by moving it to its in-progress status and bumping `attempts` in one
+// conditional update, so overlapping invocations never work on the same attempt twice. Rows
+// still in progress after STALE_CLAIM_MS were left behind by a worker that stopped, and are
+// claimed again while they have attempts left. Once a stale row has none left it is given up:
+// the queue's `getAbandonedUpdate` fields are written, usually a 'failed' status and an error.
+import type { WorkflowDatabaseClient } from './database.ts';
+import { fromTable } from './database.ts';
+
+export interface QueueRow {
+  id: string;
+  status: string;
+  attempts: number;
+}
+
+export interface WorkQueue<Row extends QueueRow> {
+  table: string;
+  // Status of claimed rows, e.g. 'processing'
+  claimedStatus: string;
+  maxAttempts: number;
+  // Rows are due once this column has passed; all pending rows are due without it
+  dueColumn?: string;
+  orderColumn: string;
+  // Fields written to a stale claim that has no attempts left
+  getAbandonedUpdate: (row: Row, now: Date) => Record<string, unknown>;
+}
+
+// Claims older than this were left behind by a worker that stopped
+export const STALE_CLAIM_MS = 15 * 60 * 1000;
+
+export const ABANDONED_CLAIM_ERROR = 'The worker stopped during the last attempt';
+
+const getStaleBefore = (now: Date) => new Date(now.getTime() - STALE_CLAIM_MS).toISOString();
+
+// Give up stale claims that have used every attempt, so they stop showing as in progress
+async function giveUpAbandonedRows<Row extends QueueRow>(
+  supabase: WorkflowDatabaseClient,
+  queue: WorkQueue<Row>,
+  now: Date,
+  id?: string
+): Promise<void> {
+  let query = fromTable(supabase, queue.table)
+    .select('*')
+    .eq('status', queue.claimedStatus)
+    .lt('claimed_at', getStaleBefore(now))
+    .gte('attempts', queue.maxAttempts);
+  if (id) query = query.eq('id', id);
+
+  const { data: rows, error } = await query;
+  if (error) throw error;
+
+  for (const row of (rows || []) as Row[]) {
+    // Matching on status and attempts leaves the row alone if another worker got to it first
+    const { error: updateError } = await fromTable(supabase, queue.table)
+      .update(queue.getAbandonedUpdate(row, now))
+      .eq('id', row.id)
+      .eq('status', queue.claimedStatus)
+      .eq('attempts', row.attempts);
+
+    if (updateError) throw updateError;
+    console.log(`🛑 Gave up ${queue.table} ${row.id} after ${row.attempts} attempt(s)`);
+  }
+}
+
+// Rows ready to be claimed: pending ones that are due and stale claims with attempts left.
+// Stale claims without attempts left are given up first.
+export async function getDueQueueRows<Row extends QueueRow>(
+  supabase: WorkflowDatabaseClient,
+  queue: WorkQueue<Row>,
+  { id, limit, now = new Date() }: { id?: string; limit: number; now?: Date }
+): Promise<Row[]> {
+  await giveUpAbandonedRows(supabase, queue, now, id);
+
+  let query = fromTable(supabase, queue.table)
+    .select('*')
+    .or(`status.eq.pending,and(status.eq.${queue.claimedStatus},claimed_at.lt.${getStaleBefore(now)})`)
+    .lt('attempts', queue.maxAttempts)
+    .order(queue.orderColumn, { ascending: true })
+    .limit(limit);
+  if (queue.dueColumn) query = query.lte(queue.dueColumn, now.toISOString());
+  if (id) query = query.eq('id', id);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as Row[];
+}
+
+// Claim `row` for this worker. Returns the claimed row, whose `attempts` counts the attempt
+// about to be made, or null when another worker claimed it or its status changed (e.g. cancelled).
+export async function claimQueueRow<Row extends QueueRow>(
+  supabase: WorkflowDatabaseClient,
+  queue: WorkQueue<Row>,
+  row: Row
+): Promise<Row | null> {
+  const { data, error } = await fromTable(supabase, queue.table)
+    .update({
+      status: queue.claimedStatus,
+      claimed_at: new Date().toISOString(),
+      attempts: row.attempts + 1,
+    })
+    .eq('id', row.id)
+    .eq('status', row.status)
+    .eq('attempts', row.attempts)
+    .select('*');
+
+  if (error) throw error;
+  return ((data || [])[0] as Row) ?? null;
+}
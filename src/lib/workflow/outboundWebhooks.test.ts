@@ -0,0 +1,85 @@
+import { createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { buildDeliveryRequest, getDeliveryUpdate, getRetryDelayMs, MAX_DELIVERY_ATTEMPTS } from './outboundWebhooks.ts';
+import type { IntegrationDelivery, OutboundIntegration } from './outboundWebhooks.ts';
+
+const MINUTE = 60 * 1000;
+const now = new Date('2025-07-20T12:00:00Z');
+
+describe('getRetryDelayMs', () => {
+  it('grows with each attempt', () => {
+    expect([1, 2, 3, 4, 5].map(getRetryDelayMs)).toEqual([MINUTE, 5 * MINUTE, 30 * MINUTE, 120 * MINUTE, 720 * MINUTE]);
+  });
+
+  it('clamps attempts outside the schedule to its ends', () => {
+    expect(getRetryDelayMs(0)).toBe(MINUTE);
+    expect(getRetryDelayMs(-2)).toBe(MINUTE);
+    expect(getRetryDelayMs(9)).toBe(720 * MINUTE);
+  });
+});
+
+describe('getDeliveryUpdate', () => {
+  it('completes a delivered attempt', () => {
+    expect(getDeliveryUpdate(1, { ok: true, statusCode: 200, responseBody: 'ok' }, now)).toEqual({
+      status: 'succeeded',
+      last_status_code: 200,
+      last_error: null,
+      response_body: 'ok',
+      completed_at: now.toISOString(),
+    });
+  });
+
+  it('retries a failed attempt after the delay for it', () => {
+    const update = getDeliveryUpdate(2, { ok: false, statusCode: 503 }, now);
+
+    expect(update.status).toBe('pending');
+    expect(update.last_error).toBe('HTTP 503');
+    expect(update.next_attempt_at).toBe(new Date(now.getTime() + 5 * MINUTE).toISOString());
+    expect(update.completed_at).toBeNull();
+  });
+
+  it('fails the delivery on its final attempt', () => {
+    const update = getDeliveryUpdate(MAX_DELIVERY_ATTEMPTS, { ok: false, error: 'No response within 10s' }, now);
+
+    expect(update.status).toBe('failed');
+    expect(update.last_error).toBe('No response within 10s');
+    expect(update).not.toHaveProperty('next_attempt_at');
+    expect(update.completed_at).toBe(now.toISOString());
+  });
+
+  it('cuts long response bodies', () => {
+    const update = getDeliveryUpdate(1, { ok: false, statusCode: 500, responseBody: 'x'.repeat(5000) }, now);
+    expect(update.response_body).toHaveLength(2000);
+  });
+});
+
+describe('buildDeliveryRequest', () => {
+  const delivery: IntegrationDelivery = {
+    id: 'delivery-1',
+    integration_id: 'integration-1',
+    event_type: 'article.published',
+    payload: { title: 'Whitening myths' },
+    attempts: 1,
+    created_at: now.toISOString(),
+  };
+
+  it('signs the timestamp and body with the integration secret', async () => {
+    const integration: OutboundIntegration = { id: 'integration-1', name: 'CMS', type: 'webhook', config: { url: 'https://example.com/hook' }, secret: 'shh' };
+    const { url, headers, body } = await buildDeliveryRequest(integration, delivery, now);
+    const timestamp = String(now.getTime() / 1000);
+
+    expect(url).toBe('https://example.com/hook');
+    expect(headers['x-webhook-timestamp']).toBe(timestamp);
+    expect(headers['x-webhook-signature']).toBe(`sha256=${createHmac('sha256', 'shh').update(`${timestamp}.${body}`).digest('hex')}`);
+    expect(JSON.parse(body)).toEqual({ id: 'delivery-1', event: 'article.published', created_at: now.toISOString(), data: { title: 'Whitening myths' } });
+  });
+
+  it('sends Slack a one-line message to its webhook_url', async () => {
+    const integration: OutboundIntegration = { id: 'integration-1', name: 'Slack', type: 'slack', config: { webhook_url: 'https://hooks.slack.com/x' }, secret: '' };
+    const { url, headers, body } = await buildDeliveryRequest(integration, delivery, now);
+
+    expect(url).toBe('https://hooks.slack.com/x');
+    expect(JSON.parse(body)).toEqual({ text: 'Article published: Whitening myths' });
+    expect(headers).not.toHaveProperty('x-webhook-signature');
+  });
+});
@@ -0,0 +1,149 @@
+// Outbound webhooks: telling external services when something happens here.
+//
+// Each external integration subscribes to event types. Postgres triggers queue one row in
+// integration_deliveries per subscribed integration, and the deliver-integration-webhooks edge
+// function POSTs it. Failed deliveries are retried with growing delays (see getRetryDelayMs). Each
+// row records its attempts and the last response, which makes up the delivery log in the
+// dashboard; replaying a delivery queues a copy of it.
+//
+// Bodies are signed the same way incoming workflow webhooks are checked: the signature header
+// holds "sha256=<hex>", an HMAC-SHA256 of "<timestamp>.<raw body>" keyed with the integration's
+// secret, and the timestamp header holds the Unix time in seconds the request was signed at.
+import {
+  getSignedWebhookPayload,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER
+} from './webhook.ts';
+
+export type IntegrationEventType = 'article.published' | 'workflow_run.failed' | 'ai_suggestion.created' | 'integration.test';
+
+export const INTEGRATION_EVENTS: { type: IntegrationEventType; label: string; description: string }[] = [
+  {
+    type: 'article.published',
+    label: 'Article published',
+    description: 'An article is published, either new or moved from draft',
+  },
+  {
+    type: 'workflow_run.failed',
+    label: 'Workflow run failed',
+    description: 'A workflow or rule run ends with an error',
+  },
+  {
+    type: 'ai_suggestion.created',
+    label: 'New AI suggestion',
+    description: 'An AI agent makes a new suggestion',
+  },
+];
+
+export const WEBHOOK_EVENT_HEADER = 'x-webhook-event';
+export const WEBHOOK_DELIVERY_HEADER = 'x-webhook-delivery';
+
+// A delivery is given up after this many attempts
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+// Wait before the 2nd, 3rd, ... attempt; the last delay repeats for any attempts beyond
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 12 * 60 * 60 * 1000];
+
+// Response bodies are kept on the delivery for debugging, cut to this length
+const MAX_RESPONSE_LENGTH = 2000;
+
+export type IntegrationDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+export interface OutboundIntegration {
+  id: string;
+  name: string;
+  type: 'webhook' | 'email' | 'slack' | 'zapier' | 'api';
+  config: { url?: string; webhook_url?: string; [field: string]: unknown };
+  secret: string;
+}
+
+export interface IntegrationDelivery {
+  id: string;
+  integration_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  created_at: string;
+}
+
+export interface DeliveryAttempt {
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+  responseBody?: string;
+}
+
+export function getIntegrationEventLabel(type: string): string {
+  if (type === 'integration.test') return 'Test';
+  return INTEGRATION_EVENTS.find(event => event.type === type)?.label || type;
+}
+
+// Slack incoming webhooks keep their URL as webhook_url; everything else uses url
+export function getIntegrationUrl(integration: Pick<OutboundIntegration, 'config'>): string | null {
+  return integration.config?.url || integration.config?.webhook_url || null;
+}
+
+export function getRetryDelayMs(attempt: number): number {
+  return RETRY_DELAYS_MS[Math.min(Math.max(attempt, 1), RETRY_DELAYS_MS.length) - 1];
+}
+
+// One line for chat tools, e.g. "Article published: Whitening myths"
+function getSlackText(delivery: IntegrationDelivery): string {
+  const data = delivery.payload || {};
+  const subject = data.title || data.workflow_name || data.error_message || data.id;
+  return `${getIntegrationEventLabel(delivery.event_type)}${subject ? `: ${subject}` : ''}`;
+}
+
+// The HTTP request that delivers `delivery` to `integration`
+export async function buildDeliveryRequest(
+  integration: OutboundIntegration,
+  delivery: IntegrationDelivery,
+  now: Date = new Date()
+): Promise<{ url: string; headers: Record<string, string>; body: string }> {
+  const url = getIntegrationUrl(integration);
+  if (!url) {
+    throw new Error(`Integration "${integration.name}" has no URL`);
+  }
+
+  const body = JSON.stringify(
+    integration.type === 'slack'
+      ? { text: getSlackText(delivery) }
+      : {
+          id: delivery.id,
+          event: delivery.event_type,
+          created_at: delivery.created_at,
+          data: delivery.payload,
+        }
+  );
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [WEBHOOK_EVENT_HEADER]: delivery.event_type,
+    [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+  };
+  if (integration.secret) {
+    const timestamp = String(Math.floor(now.getTime() / 1000));
+    const signature = await signWebhookPayload(integration.secret, getSignedWebhookPayload(timestamp, body));
+    headers[WEBHOOK_TIMESTAMP_HEADER] = timestamp;
+    headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${signature}`;
+  }
+
+  return { url, headers, body };
+}
+
+// The delivery row's new fields after an attempt: done, given up, or due again after a delay.
+// `attempts` counts this attempt; the worker bumps it when claiming the delivery. Finished
+// deliveries keep their last next_attempt_at, which the table requires.
+export function getDeliveryUpdate(attempts: number, attempt: DeliveryAttempt, now: Date = new Date()) {
+  const finished = attempt.ok || attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  return {
+    status: (attempt.ok ? 'succeeded' : finished ? 'failed' : 'pending') as IntegrationDeliveryStatus,
+    last_status_code: attempt.statusCode ?? null,
+    last_error: attempt.ok ? null : attempt.error || `HTTP ${attempt.statusCode}`,
+    response_body: attempt.responseBody?.slice(0, MAX_RESPONSE_LENGTH) ?? null,
+    ...(finished ? {} : { next_attempt_at: new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString() }),
+    completed_at: finished ? now.toISOString() : null,
+  };
+}
@@ -0,0 +1,60 @@
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+import type { NodeExecutor } from './types.ts';
+import { executeAiProcessor, executeMultiSourceSynthesizer } from './executors/ai.ts';
+import { executeEmailSender, executePublisher, executeSocialPoster } from './executors/delivery.ts';
+import {
+  executeAggregate,
+  executeApproval,
+  executeArticleStructureValidator,
+  executeDedupe,
+  executeFilter,
+  executeImageGenerator,
+  executeRouter,
+  executeSeoAnalyzer,
+  executeSubWorkflow,
+  executeTranslator
+} from './executors/enrichment.ts';
+import {
+  executeGoogleScholarSearch,
+  executeNewsDiscovery,
+  executePerplexityResearch,
+  executeRssAggregator,
+  executeScraper,
+  executeTrigger
+} from './executors/sources.ts';
+
+const executors = new Map<WorkflowNode['type'], NodeExecutor>([
+  ['trigger', executeTrigger],
+  ['scraper', executeScraper],
+  ['rss-aggregator', executeRssAggregator],
+  ['google-scholar-search', executeGoogleScholarSearch],
+  ['news-discovery', executeNewsDiscovery],
+  ['perplexity-research', executePerplexityResearch],
+  ['ai-processor', executeAiProcessor],
+  ['multi-source-synthesizer', executeMultiSourceSynthesizer],
+  ['filter', executeFilter],
+  ['dedupe', executeDedupe],
+  ['router', executeRouter],
+  ['aggregate', executeAggregate],
+  ['approval', executeApproval],
+  ['sub-workflow', executeSubWorkflow],
+  ['publisher', executePublisher],
+  ['social-poster', executeSocialPoster],
+  ['email-sender', executeEmailSender],
+  ['image-generator', executeImageGenerator],
+  ['seo-analyzer', executeSeoAnalyzer],
+  ['translator', executeTranslator],
+  ['article-structure-validator', executeArticleStructureValidator],
+]);
+
+export function registerNodeExecutor(type: WorkflowNode['type'], executor: NodeExecutor): void {
+  executors.set(type, executor);
+}
+
+export function getNodeExecutor(type: WorkflowNode['type']): NodeExecutor | undefined {
+  return executors.get(type);
+}
+
+export function hasNodeExecutor(type: WorkflowNode['type']): boolean {
+  return executors.has(type);
+}
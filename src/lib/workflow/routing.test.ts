@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRouteCondition, getFieldValue, getRoutingSubject, selectRouteTargets } from './routing.ts';
+import type { RouterRoute, WorkflowNode } from '../../types/WorkflowTypes.ts';
+
+const router = (routes: RouterRoute[], routingMode?: 'first' | 'all'): WorkflowNode => ({
+  id: 'router',
+  type: 'router',
+  label: 'Router',
+  position: { x: 0, y: 0 },
+  config: { routes, routingMode },
+  connected: routes.map(route => route.targetId),
+});
+
+describe('getFieldValue', () => {
+  it('reads dotted paths and gives undefined for missing ones', () => {
+    const subject = { metadata: { source: { type: 'rss' } }, count: 0 };
+
+    expect(getFieldValue(subject, 'metadata.source.type')).toBe('rss');
+    expect(getFieldValue(subject, 'count')).toBe(0);
+    expect(getFieldValue(subject, 'metadata.author.name')).toBeUndefined();
+    expect(getFieldValue(null, 'metadata')).toBeUndefined();
+  });
+});
+
+describe('getRoutingSubject', () => {
+  it('merges a single fan-out article into its wrapper', () => {
+    expect(getRoutingSubject({ category: 'news', articles: [{ title: 'Flossing' }] })).toMatchObject({ category: 'news', title: 'Flossing' });
+    expect(getRoutingSubject({ articles: [{ title: 'A' }, { title: 'B' }] }).title).toBeUndefined();
+  });
+});
+
+describe('evaluateRouteCondition', () => {
+  const subject = { score: '7', rank: 7, title: 'Whitening Myths', tags: ['Care', 'kids'] };
+
+  it('compares numbers as numbers and text without case', () => {
+    expect(evaluateRouteCondition(subject, { field: 'score', operator: 'equals', value: '7.0' })).toBe(true);
+    expect(evaluateRouteCondition(subject, { field: 'score', operator: 'greater_than', value: '10' })).toBe(false);
+    expect(evaluateRouteCondition(subject, { field: 'title', operator: 'equals', value: 'whitening myths' })).toBe(true);
+    expect(evaluateRouteCondition(subject, { field: 'title', operator: 'greater_than', value: '1' })).toBe(false);
+  });
+
+  it('checks array membership and substrings for contains', () => {
+    expect(evaluateRouteCondition(subject, { field: 'tags', operator: 'contains', value: 'care' })).toBe(true);
+    expect(evaluateRouteCondition(subject, { field: 'title', operator: 'contains', value: 'MYTH' })).toBe(true);
+    expect(evaluateRouteCondition(subject, { field: 'rank', operator: 'contains', value: '7' })).toBe(false);
+  });
+
+  it('rejects invalid patterns with the field they were written for', () => {
+    expect(() => evaluateRouteCondition(subject, { field: 'title', operator: 'matches', value: '[' })).toThrow('for field "title"');
+  });
+});
+
+describe('selectRouteTargets', () => {
+  const routes: RouterRoute[] = [
+    { targetId: 'urgent', label: 'Urgent', conditions: [{ field: 'priority', operator: 'greater_than', value: '7' }] },
+    { targetId: 'news', label: 'News', conditions: [{ field: 'category', operator: 'equals', value: 'news' }] },
+    { targetId: 'otherwise', conditions: [] },
+  ];
+
+  it('takes only the first matching route by default', () => {
+    expect(selectRouteTargets(router(routes), { priority: 9, category: 'news' })).toEqual({
+      targetIds: ['urgent'],
+      matchedLabels: ['Urgent'],
+      usedFallback: false,
+    });
+  });
+
+  it('takes every matching route in "all" mode', () => {
+    expect(selectRouteTargets(router(routes, 'all'), { priority: 9, category: 'news' }).targetIds).toEqual(['urgent', 'news']);
+  });
+
+  it('falls back to routes without conditions when nothing matches', () => {
+    expect(selectRouteTargets(router(routes), { priority: 2, category: 'research' })).toEqual({
+      targetIds: ['otherwise'],
+      matchedLabels: [],
+      usedFallback: true,
+    });
+  });
+});
@@ -0,0 +1,128 @@
+// Conditional routing for router nodes: each outgoing edge can carry conditions
+// that are checked against the item flowing through the router.
+import type { RouteCondition, RouterRoute, WorkflowNode } from '../../types/WorkflowTypes.ts';
+import type { WorkflowItem } from './types.ts';
+
+export const ROUTE_OPERATOR_LABELS: Record<RouteCondition['operator'], string> = {
+  equals: '==',
+  not_equals: '!=',
+  greater_than: '>',
+  greater_or_equal: '>=',
+  less_than: '<',
+  less_or_equal: '<=',
+  contains: 'contains',
+  matches: 'matches',
+  exists: 'exists',
+};
+
+export interface RouteSelection {
+  targetIds: string[];
+  matchedLabels: string[];
+  usedFallback: boolean;
+}
+
+// Read a dotted path such as "metadata.source_type"
+export function getFieldValue(subject: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>((value, key) => (value === null || value === undefined ? undefined : (value as Record<string, unknown>)[key]), subject);
+}
+
+// A fan-out item arrives as { articles: [item] }; conditions are written against the item itself
+export function getRoutingSubject(input: WorkflowItem): WorkflowItem {
+  if (Array.isArray(input?.articles) && input.articles.length === 1) {
+    return { ...input, ...input.articles[0] };
+  }
+  return input || {};
+}
+
+const isNumeric = (value: unknown) => value !== '' && value !== null && value !== undefined && !isNaN(Number(value));
+
+const looselyEquals = (actual: unknown, expected: string) => {
+  if (isNumeric(actual) && isNumeric(expected)) {
+    return Number(actual) === Number(expected);
+  }
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+};
+
+export function evaluateRouteCondition(subject: unknown, condition: RouteCondition): boolean {
+  const actual = getFieldValue(subject, condition.field);
+  const expected = condition.value ?? '';
+
+  switch (condition.operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null && actual !== '';
+    case 'equals':
+      return actual !== undefined && actual !== null && looselyEquals(actual, expected);
+    case 'not_equals':
+      return actual === undefined || actual === null || !looselyEquals(actual, expected);
+    case 'greater_than':
+      return isNumeric(actual) && isNumeric(expected) && Number(actual) > Number(expected);
+    case 'greater_or_equal':
+      return isNumeric(actual) && isNumeric(expected) && Number(actual) >= Number(expected);
+    case 'less_than':
+      return isNumeric(actual) && isNumeric(expected) && Number(actual) < Number(expected);
+    case 'less_or_equal':
+      return isNumeric(actual) && isNumeric(expected) && Number(actual) <= Number(expected);
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some(entry => looselyEquals(entry, expected));
+      }
+      return typeof actual === 'string' && actual.toLowerCase().includes(expected.toLowerCase());
+    case 'matches':
+      if (actual === undefined || actual === null) return false;
+      try {
+        return new RegExp(expected, 'i').test(String(actual));
+      } catch {
+        throw new Error(`Invalid pattern "${expected}" for field "${condition.field}"`);
+      }
+    default:
+      return false;
+  }
+}
+
+export function isFallbackRoute(route: RouterRoute | undefined): boolean {
+  return !route || !route.conditions || route.conditions.length === 0;
+}
+
+export function routeMatches(route: RouterRoute, subject: unknown): boolean {
+  const conditions = route.conditions.filter(condition => condition.field);
+  if (conditions.length === 0) return false;
+  return route.match === 'any'
+    ? conditions.some(condition => evaluateRouteCondition(subject, condition))
+    : conditions.every(condition => evaluateRouteCondition(subject, condition));
+}
+
+export function getRouterRoute(node: WorkflowNode, targetId: string): RouterRoute | undefined {
+  return (node.config.routes as RouterRoute[] | undefined)?.find(route => route.targetId === targetId);
+}
+
+// Pick the router's outgoing edges for one item. In "first" mode (the default) only the first
+// matching route in edge order is taken; in "all" mode every matching route is. Edges without
+// conditions only receive items that matched no conditional route.
+export function selectRouteTargets(node: WorkflowNode, input: WorkflowItem): RouteSelection {
+  const subject = getRoutingSubject(input);
+  const firstMatchOnly = node.config.routingMode !== 'all';
+  const targetIds: string[] = [];
+  const matchedLabels: string[] = [];
+  const fallbackIds: string[] = [];
+
+  for (const targetId of node.connected) {
+    const route = getRouterRoute(node, targetId);
+    if (isFallbackRoute(route)) {
+      fallbackIds.push(targetId);
+      continue;
+    }
+    if (firstMatchOnly && targetIds.length > 0) continue;
+    if (routeMatches(route, subject)) {
+      targetIds.push(targetId);
+      matchedLabels.push(route.label || targetId);
+    }
+  }
+
+  if (targetIds.length > 0) {
+    return { targetIds, matchedLabels, usedFallback: false };
+  }
+  return { targetIds: fallbackIds, matchedLabels: [], usedFallback: true };
+}
@@ -0,0 +1,186 @@
+// Actions of automated workflow rules, and running them later.
+//
+// An action with a delay ("auto-approve after 24 hours") or a weekly time ("schedule a review
+// next Monday at 09:00") is not run when its rule matches. It is stored in workflow_action_jobs
+// instead, and the process-workflow-action-jobs edge function runs it once it is due. Until then
+// it can be cancelled from the automated workflows dashboard, and a suggestion that was reviewed
+// in the meantime makes the action stand down (see getActionSkipReason).
+import type { WorkflowDatabaseClient, WorkflowQueryResult } from './database.ts';
+import { fromTable } from './database.ts';
+import { DEFAULT_SCHEDULE_TIMEZONE, getNextCronRun } from './schedule.ts';
+
+// Run on the next given weekday (0 is Sunday) at "HH:mm"
+export interface RuleActionSchedule {
+  weekday: number;
+  time: string;
+  timezone?: string;
+}
+
+// What the rule editor lets each action type set; older rules may carry other fields
+export interface WorkflowActionParameters {
+  delay_minutes?: number;
+  title?: string;
+  message?: string;
+  description?: string;
+  priority?: string;
+  review_type?: string;
+  assigned_to?: string;
+  due_date?: string;
+  [parameter: string]: unknown;
+}
+
+export interface WorkflowAction {
+  type: 'auto_approve' | 'auto_implement' | 'notify_admin' | 'schedule_review' | 'create_task';
+  parameters: WorkflowActionParameters;
+  delay_minutes?: number;
+  schedule?: RuleActionSchedule;
+}
+
+// The suggestion fields actions use
+export interface RuleActionSuggestion {
+  id: string;
+  title?: string;
+  reasoning?: string;
+  status?: string;
+}
+
+export type WorkflowActionJobStatus = 'pending' | 'processing' | 'completed' | 'skipped' | 'failed' | 'cancelled';
+
+export const WORKFLOW_ACTION_LABELS: Record<WorkflowAction['type'], string> = {
+  auto_approve: 'Auto approve',
+  auto_implement: 'Auto implement',
+  notify_admin: 'Notify admin',
+  schedule_review: 'Schedule review',
+  create_task: 'Create task',
+};
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// When the action should run, or null to run it straight away
+export function getActionRunAt(action: WorkflowAction, from: Date = new Date()): Date | null {
+  if (action.schedule && action.schedule.weekday >= 0 && action.schedule.weekday <= 6) {
+    const [hour, minute] = (action.schedule.time || '09:00').split(':').map(Number);
+    const expression = `${minute || 0} ${hour || 0} * * ${action.schedule.weekday}`;
+    return getNextCronRun(expression, action.schedule.timezone || DEFAULT_SCHEDULE_TIMEZONE, from);
+  }
+  if (action.delay_minutes && action.delay_minutes > 0) {
+    return new Date(from.getTime() + action.delay_minutes * 60 * 1000);
+  }
+  return null;
+}
+
+// Why a delayed action should no longer run, or null if it should. Someone reviewing the
+// suggestion before the action is due counts as overruling it.
+export function getActionSkipReason(action: WorkflowAction, suggestion: RuleActionSuggestion | null): string | null {
+  if (!suggestion) {
+    return 'The suggestion no longer exists';
+  }
+  if (suggestion.status === 'rejected') {
+    return 'The suggestion was rejected';
+  }
+  if (action.type === 'auto_approve' && suggestion.status && suggestion.status !== 'pending') {
+    return `The suggestion was already ${suggestion.status}`;
+  }
+  if (action.type === 'auto_implement' && suggestion.status === 'implemented') {
+    return 'The suggestion was already implemented';
+  }
+  return null;
+}
+
+export async function scheduleRuleAction(
+  client: WorkflowDatabaseClient,
+  job: { ruleId: string; executionId: string; suggestionId: string; action: WorkflowAction; runAt: Date }
+): Promise<void> {
+  const { error } = await fromTable(client, 'workflow_action_jobs')
+    .insert({
+      workflow_rule_id: job.ruleId,
+      execution_id: job.executionId,
+      suggestion_id: job.suggestionId,
+      action_type: job.action.type,
+      action: job.action,
+      run_at: job.runAt.toISOString(),
+    });
+
+  if (error) throw error;
+}
+
+// `scheduledFor` is when a delayed or scheduled action was due; immediate actions leave it out
+export async function executeRuleAction(
+  client: WorkflowDatabaseClient,
+  action: WorkflowAction,
+  suggestion: RuleActionSuggestion,
+  executionId: string,
+  scheduledFor?: Date
+): Promise<void> {
+  const parameters = action.parameters || {};
+  let result: WorkflowQueryResult;
+
+  switch (action.type) {
+    case 'auto_approve':
+      result = await fromTable(client, 'ai_suggestions')
+        .update({
+          status: 'approved',
+          reviewed_at: new Date().toISOString(),
+          review_notes: 'Auto-approved by workflow'
+        })
+        .eq('id', suggestion.id);
+      break;
+
+    case 'auto_implement':
+      // This is where you'd implement the actual suggestion
+      // For now, we'll just mark it as implemented
+      result = await fromTable(client, 'ai_suggestions')
+        .update({
+          status: 'implemented',
+          implemented_at: new Date().toISOString(),
+          implementation_notes: 'Auto-implemented by workflow'
+        })
+        .eq('id', suggestion.id);
+      break;
+
+    case 'notify_admin':
+      result = await fromTable(client, 'admin_notifications')
+        .insert({
+          type: 'workflow_action',
+          title: 'Workflow Action Required',
+          message: parameters.message || `Suggestion "${suggestion.title || 'Untitled'}" requires admin attention`,
+          suggestion_id: suggestion.id,
+          execution_id: executionId
+        });
+      break;
+
+    case 'schedule_review': {
+      // The review is for the slot the action was scheduled at; an immediate action books it
+      // parameters.delay_minutes from now
+      const reviewDate = scheduledFor ? new Date(scheduledFor) : new Date();
+      if (!scheduledFor) {
+        reviewDate.setMinutes(reviewDate.getMinutes() + (parameters.delay_minutes || 60));
+      }
+
+      result = await fromTable(client, 'scheduled_reviews')
+        .insert({
+          suggestion_id: suggestion.id,
+          scheduled_for: reviewDate.toISOString(),
+          review_type: parameters.review_type || 'standard'
+        });
+      break;
+    }
+
+    case 'create_task':
+      result = await fromTable(client, 'admin_tasks')
+        .insert({
+          title: parameters.title || `Review suggestion: ${suggestion.title || 'Untitled'}`,
+          description: parameters.description || suggestion.reasoning,
+          priority: parameters.priority || 'medium',
+          related_suggestion_id: suggestion.id,
+          assigned_to: parameters.assigned_to,
+          due_date: parameters.due_date
+        });
+      break;
+
+    default:
+      throw new Error(`Unknown workflow action "${(action as WorkflowAction).type}"`);
+  }
+
+  if (result.error) throw result.error;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { backtestWorkflowRule } from './ruleBacktest.ts';
+import type { BacktestAdminAction, BacktestSuggestion } from './ruleBacktest.ts';
+import { createRuleGroup } from './ruleConditions.ts';
+import type { WorkflowAction } from './ruleActions.ts';
+
+// Approve confident suggestions an hour after they are made
+const rule = {
+  conditions: createRuleGroup('and', [{ kind: 'condition', field: 'confidence_score', operator: 'greater_than', value: '0.8' }]),
+  actions: [{ type: 'auto_approve', parameters: {}, delay_minutes: 60 }] as WorkflowAction[],
+};
+
+const suggestion = (id: string, confidence: number, status = 'pending'): BacktestSuggestion =>
+  ({ id, title: `Suggestion ${id}`, status, confidence_score: confidence, created_at: '2025-07-20T10:00:00Z' });
+
+const action = (suggestionId: string, type: BacktestAdminAction['action_type'], timestamp: string): BacktestAdminAction =>
+  ({ suggestion_id: suggestionId, action_type: type, timestamp });
+
+describe('backtestWorkflowRule', () => {
+  it('compares the approvals the rule would make with the admins\' decisions', () => {
+    const report = backtestWorkflowRule(
+      rule,
+      [
+        suggestion('confirmed', 0.9),
+        suggestion('rejected', 0.95),
+        suggestion('unreviewed', 0.85),
+        suggestion('missed', 0.4),
+        suggestion('ignored', 0.3),
+      ],
+      [
+        action('confirmed', 'approve', '2025-07-21T09:00:00Z'),
+        action('rejected', 'dismiss', '2025-07-21T09:00:00Z'),
+        action('missed', 'edit', '2025-07-21T09:00:00Z'),
+      ]
+    );
+
+    expect(report).toMatchObject({
+      evaluated: 5,
+      matched: 3,
+      approves: true,
+      wouldApprove: 3,
+      confirmed: 1,
+      rejected: 1,
+      unreviewed: 1,
+      preempted: 0,
+      missed: 1,
+      precision: 0.5,
+    });
+  });
+
+  it('counts an approval an admin reviewed first as preempted, not approved', () => {
+    const report = backtestWorkflowRule(
+      rule,
+      [suggestion('early', 0.9)],
+      [action('early', 'reject', '2025-07-20T10:30:00Z')]
+    );
+
+    expect(report.results[0]).toMatchObject({ matched: true, wouldApprove: false, preempted: true, verdict: 'rejected' });
+    expect(report).toMatchObject({ wouldApprove: 0, preempted: 1, precision: null });
+  });
+
+  it('uses the latest logged decision, then the suggestion status', () => {
+    const report = backtestWorkflowRule(
+      rule,
+      [suggestion('changed', 0.9), suggestion('implemented', 0.9, 'implemented')],
+      [
+        action('changed', 'approve', '2025-07-21T09:00:00Z'),
+        action('changed', 'reject', '2025-07-22T09:00:00Z'),
+      ]
+    );
+
+    expect(report.results.map(result => result.verdict)).toEqual(['rejected', 'approved']);
+  });
+
+  it('approves nothing without an approving action', () => {
+    const report = backtestWorkflowRule(
+      { ...rule, actions: [{ type: 'notify_admin', parameters: {} }] },
+      [suggestion('confirmed', 0.9, 'approved')],
+      []
+    );
+
+    expect(report).toMatchObject({ matched: 1, approves: false, wouldApprove: 0, precision: null });
+  });
+});
@@ -0,0 +1,139 @@
+// Backtesting automated workflow rules: replay a rule over past AI suggestions and compare what
+// it would have done with what admins actually decided (admin_actions_log).
+//
+// Each suggestion is checked as the rule would have seen it when the suggestion was made, so date
+// conditions are measured from its created_at. An admin's latest approve or edit counts as
+// approving the suggestion and a reject or dismiss as rejecting it; suggestions without logged
+// actions fall back to their status. A delayed approval that an admin beat to the review would
+// have stood down, so it is counted as preempted rather than approved.
+import { evaluateRuleConditions } from './ruleConditions.ts';
+import type { RuleConditionGroup } from './ruleConditions.ts';
+import { getActionRunAt } from './ruleActions.ts';
+import type { WorkflowAction } from './ruleActions.ts';
+
+export type AdminVerdict = 'approved' | 'rejected';
+
+export interface BacktestSuggestion {
+  id: string;
+  title?: string;
+  status?: string;
+  created_at?: string;
+  [field: string]: unknown;
+}
+
+export interface BacktestAdminAction {
+  suggestion_id: string | null;
+  action_type: 'approve' | 'reject' | 'edit' | 'dismiss';
+  timestamp: string | null;
+}
+
+export interface RuleBacktestResult {
+  suggestionId: string;
+  title?: string;
+  createdAt?: string;
+  matched: boolean;
+  wouldApprove: boolean;
+  // An admin reviewed it before the rule's delayed approval was due
+  preempted: boolean;
+  verdict: AdminVerdict | null;
+}
+
+export interface RuleBacktestReport {
+  evaluated: number;
+  matched: number;
+  // Whether the rule approves or implements anything at all
+  approves: boolean;
+  wouldApprove: number;
+  // Of those, how many admins approved, rejected or never reviewed
+  confirmed: number;
+  rejected: number;
+  unreviewed: number;
+  preempted: number;
+  // Suggestions admins approved that the rule did not match
+  missed: number;
+  // confirmed / (confirmed + rejected), or null when none of the rule's approvals were reviewed
+  precision: number | null;
+  results: RuleBacktestResult[];
+}
+
+const APPROVING_ACTIONS: WorkflowAction['type'][] = ['auto_approve', 'auto_implement'];
+
+const ACTION_VERDICTS: Record<BacktestAdminAction['action_type'], AdminVerdict> = {
+  approve: 'approved',
+  edit: 'approved',
+  reject: 'rejected',
+  dismiss: 'rejected',
+};
+
+const STATUS_VERDICTS: Record<string, AdminVerdict> = {
+  approved: 'approved',
+  implemented: 'approved',
+  rejected: 'rejected',
+};
+
+interface Review {
+  verdict: AdminVerdict;
+  at: number | null;
+}
+
+// Each suggestion's latest logged decision
+function getLatestReviews(actions: BacktestAdminAction[]): Map<string, Review> {
+  const reviews = new Map<string, Review>();
+  for (const action of actions) {
+    if (!action.suggestion_id || !ACTION_VERDICTS[action.action_type]) continue;
+
+    const at = action.timestamp ? new Date(action.timestamp).getTime() : null;
+    const previous = reviews.get(action.suggestion_id);
+    if (!previous || (at ?? 0) >= (previous.at ?? 0)) {
+      reviews.set(action.suggestion_id, { verdict: ACTION_VERDICTS[action.action_type], at });
+    }
+  }
+  return reviews;
+}
+
+export function backtestWorkflowRule(
+  rule: { conditions: RuleConditionGroup; actions: WorkflowAction[] },
+  suggestions: BacktestSuggestion[],
+  adminActions: BacktestAdminAction[]
+): RuleBacktestReport {
+  const reviews = getLatestReviews(adminActions);
+  const approvingAction = rule.actions.find(action => APPROVING_ACTIONS.includes(action.type));
+
+  const results = suggestions.map((suggestion): RuleBacktestResult => {
+    const createdAt = suggestion.created_at ? new Date(suggestion.created_at) : new Date();
+    const review = reviews.get(suggestion.id)
+      ?? (STATUS_VERDICTS[suggestion.status] ? { verdict: STATUS_VERDICTS[suggestion.status], at: null } : null);
+
+    const matched = evaluateRuleConditions(rule.conditions, suggestion, createdAt);
+    const runAt = matched && approvingAction ? getActionRunAt(approvingAction, createdAt) : null;
+    const preempted = !!runAt && review?.at !== null && review?.at !== undefined && review.at < runAt.getTime();
+
+    return {
+      suggestionId: suggestion.id,
+      title: suggestion.title,
+      createdAt: suggestion.created_at,
+      matched,
+      wouldApprove: matched && !!approvingAction && !preempted,
+      preempted,
+      verdict: review?.verdict ?? null,
+    };
+  });
+
+  const approved = results.filter(result => result.wouldApprove);
+  const confirmed = approved.filter(result => result.verdict === 'approved').length;
+  const rejected = approved.filter(result => result.verdict === 'rejected').length;
+
+  return {
+    evaluated: results.length,
+    matched: results.filter(result => result.matched).length,
+    approves: !!approvingAction,
+    wouldApprove: approved.length,
+    confirmed,
+    rejected,
+    unreviewed: approved.length - confirmed - rejected,
+    preempted: results.filter(result => result.preempted).length,
+    missed: results.filter(result => !result.matched && result.verdict === 'approved').length,
+    precision: confirmed + rejected > 0 ? confirmed / (confirmed + rejected) : null,
+    results,
+  };
+}
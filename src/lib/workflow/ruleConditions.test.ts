@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createRuleGroup,
+  evaluateRuleConditions,
+  normalizeRuleConditions,
+  validateRuleConditions
+} from './ruleConditions.ts';
+import type { RuleFieldCondition } from './ruleConditions.ts';
+
+const condition = (field: string, operator: RuleFieldCondition['operator'], value?: string, unit?: RuleFieldCondition['unit']): RuleFieldCondition =>
+  ({ kind: 'condition', field, operator, value, unit });
+
+const now = new Date('2025-07-20T12:00:00Z');
+
+const suggestion = {
+  type: 'seo',
+  confidence_score: 0.92,
+  agent_id: 'seo-agent',
+  created_at: '2025-07-18T12:00:00Z',
+  suggestion_data: { seo: { score: 41 }, tags: ['whitening', 'Implants'] },
+};
+
+describe('evaluateRuleConditions', () => {
+  it('requires every child of an AND group and any child of an OR group', () => {
+    const highConfidence = condition('confidence_score', 'greater_than', '0.9');
+    const wrongType = condition('type', 'equals', 'content');
+
+    expect(evaluateRuleConditions(createRuleGroup('and', [highConfidence, wrongType]), suggestion, now)).toBe(false);
+    expect(evaluateRuleConditions(createRuleGroup('or', [highConfidence, wrongType]), suggestion, now)).toBe(true);
+  });
+
+  it('evaluates nested AND/OR/NOT trees', () => {
+    // seo suggestions that are confident, or have a low score, and do not come from the news agent
+    const tree = createRuleGroup('and', [
+      condition('type', 'equals', 'SEO'),
+      createRuleGroup('or', [
+        condition('confidence_score', 'greater_or_equal', '0.95'),
+        condition('suggestion_data.seo.score', 'less_than', '50'),
+      ]),
+      createRuleGroup('not', [condition('agent_id', 'equals', 'news-agent')]),
+    ]);
+
+    expect(evaluateRuleConditions(tree, suggestion, now)).toBe(true);
+    expect(evaluateRuleConditions(tree, { ...suggestion, agent_id: 'news-agent' }, now)).toBe(false);
+    expect(evaluateRuleConditions(tree, { ...suggestion, suggestion_data: { seo: { score: 80 } } }, now)).toBe(false);
+  });
+
+  it('matches anything with an empty AND or NOT group and nothing with an empty OR group', () => {
+    expect(evaluateRuleConditions(createRuleGroup('and'), suggestion, now)).toBe(true);
+    expect(evaluateRuleConditions(createRuleGroup('not'), suggestion, now)).toBe(true);
+    expect(evaluateRuleConditions(createRuleGroup('or'), suggestion, now)).toBe(false);
+  });
+
+  it('treats missing fields as not matching, except for not_equals', () => {
+    expect(evaluateRuleConditions(condition('priority', 'equals', 'high'), suggestion, now)).toBe(false);
+    expect(evaluateRuleConditions(condition('priority', 'greater_than', '1'), suggestion, now)).toBe(false);
+    expect(evaluateRuleConditions(condition('priority', 'exists'), suggestion, now)).toBe(false);
+    expect(evaluateRuleConditions(condition('suggestion_data.missing.deeper', 'contains', 'x'), suggestion, now)).toBe(false);
+    expect(evaluateRuleConditions(condition('expires_at', 'older_than', '1'), suggestion, now)).toBe(false);
+    expect(evaluateRuleConditions(condition('priority', 'not_equals', 'high'), suggestion, now)).toBe(true);
+  });
+
+  it('matches array fields that contain the value, ignoring case', () => {
+    expect(evaluateRuleConditions(condition('suggestion_data.tags', 'contains', 'implants'), suggestion, now)).toBe(true);
+    expect(evaluateRuleConditions(condition('suggestion_data.tags', 'contains', 'braces'), suggestion, now)).toBe(false);
+  });
+
+  it('measures date conditions from `now`, in days unless a unit is given', () => {
+    expect(evaluateRuleConditions(condition('created_at', 'older_than', '1'), suggestion, now)).toBe(true);
+    expect(evaluateRuleConditions(condition('created_at', 'older_than', '3'), suggestion, now)).toBe(false);
+    expect(evaluateRuleConditions(condition('created_at', 'newer_than', '72', 'hours'), suggestion, now)).toBe(true);
+    expect(evaluateRuleConditions(condition('created_at', 'older_than', 'soon'), suggestion, now)).toBe(false);
+  });
+});
+
+describe('normalizeRuleConditions', () => {
+  it('turns a legacy flat list into an AND group', () => {
+    const group = normalizeRuleConditions([
+      { type: 'confidence_threshold', operator: 'greater_than', value: 0.8 },
+      { type: 'suggestion_type', operator: 'equals', value: 'seo' },
+      { type: 'approval_history', operator: 'equals', value: 'any' },
+    ]);
+
+    expect(group).toEqual(createRuleGroup('and', [
+      condition('confidence_score', 'greater_than', '0.8'),
+      condition('type', 'equals', 'seo'),
+    ]));
+    expect(evaluateRuleConditions(group, suggestion, now)).toBe(true);
+  });
+
+  it('keeps groups and wraps a single condition', () => {
+    const group = createRuleGroup('or', [condition('type', 'equals', 'seo')]);
+    expect(normalizeRuleConditions(group)).toBe(group);
+    expect(normalizeRuleConditions(condition('type', 'equals', 'seo'))).toEqual(createRuleGroup('and', [condition('type', 'equals', 'seo')]));
+    expect(normalizeRuleConditions(null)).toEqual(createRuleGroup('and'));
+  });
+});
+
+describe('validateRuleConditions', () => {
+  it('reports conditions by position and empty nested groups', () => {
+    const errors = validateRuleConditions(createRuleGroup('and', [
+      condition('confidence_score', 'greater_than', 'high'),
+      createRuleGroup('or'),
+      condition('', 'equals', 'seo'),
+      condition('title', 'matches', '('),
+    ]));
+
+    expect(errors).toEqual([
+      'Condition 1: enter a number',
+      'An empty "any of" group',
+      'Condition 2: choose a field',
+      'Condition 3: "(" is not a valid pattern',
+    ]);
+  });
+
+  it('asks for at least one condition', () => {
+    expect(validateRuleConditions(createRuleGroup('and'))).toEqual(['Add at least one condition']);
+  });
+});
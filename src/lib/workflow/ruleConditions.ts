@@ -0,0 +1,203 @@
+// Conditions for automated workflow rules: a tree of AND/OR/NOT groups whose leaves compare one
+// field of an AI suggestion. Fields are dotted paths, so "suggestion_data.seo.score" reads into
+// the suggestion's payload. Leaves use the router's comparisons (see routing.ts), plus date math
+// such as "created_at older than 3 days".
+//
+// Rules saved before groups existed hold a flat list of conditions that were all required;
+// normalizeRuleConditions turns those into an AND group.
+import { evaluateRouteCondition, getFieldValue, ROUTE_OPERATOR_LABELS } from './routing.ts';
+import type { RouteConditionOperator } from '../../types/WorkflowTypes.ts';
+
+export type RuleTimeUnit = 'minutes' | 'hours' | 'days' | 'weeks';
+
+export type RuleConditionOperator = RouteConditionOperator | 'older_than' | 'newer_than';
+
+export interface RuleFieldCondition {
+  kind: 'condition';
+  field: string;
+  operator: RuleConditionOperator;
+  value?: string;
+  // For older_than and newer_than; defaults to days
+  unit?: RuleTimeUnit;
+}
+
+export interface RuleConditionGroup {
+  kind: 'group';
+  // 'and' matches when every child does, 'or' when any does, 'not' when none does
+  operator: 'and' | 'or' | 'not';
+  children: RuleCondition[];
+}
+
+export type RuleCondition = RuleFieldCondition | RuleConditionGroup;
+
+// The flat conditions saved by older versions of the rule editor
+export interface LegacyRuleCondition {
+  type: 'confidence_threshold' | 'agent_type' | 'suggestion_type' | 'approval_history' | 'time_based';
+  operator: 'greater_than' | 'less_than' | 'equals' | 'contains' | 'matches';
+  value: unknown;
+  field?: string;
+}
+
+export const RULE_OPERATOR_LABELS: Record<RuleConditionOperator, string> = {
+  ...ROUTE_OPERATOR_LABELS,
+  older_than: 'older than',
+  newer_than: 'newer than',
+};
+
+export const RULE_GROUP_LABELS: Record<RuleConditionGroup['operator'], string> = {
+  and: 'All of',
+  or: 'Any of',
+  not: 'None of',
+};
+
+// The suggestion fields offered by the rule editor. Anything under suggestion_data can be
+// reached with a dotted path as well.
+export const RULE_CONDITION_FIELDS: { field: string; label: string; date?: boolean }[] = [
+  { field: 'confidence_score', label: 'Confidence' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'type', label: 'Suggestion type' },
+  { field: 'target_type', label: 'Target type' },
+  { field: 'agent_id', label: 'Agent' },
+  { field: 'title', label: 'Title' },
+  { field: 'reasoning', label: 'Reasoning' },
+  { field: 'created_at', label: 'Created', date: true },
+  { field: 'expires_at', label: 'Expires', date: true },
+];
+
+const UNIT_MS: Record<RuleTimeUnit, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+const NUMERIC_OPERATORS: RuleConditionOperator[] = [
+  'greater_than', 'greater_or_equal', 'less_than', 'less_or_equal', 'older_than', 'newer_than',
+];
+
+export function isDateOperator(operator: RuleConditionOperator): boolean {
+  return operator === 'older_than' || operator === 'newer_than';
+}
+
+export function createRuleGroup(operator: RuleConditionGroup['operator'] = 'and', children: RuleCondition[] = []): RuleConditionGroup {
+  return { kind: 'group', operator, children };
+}
+
+function fromLegacyCondition(condition: LegacyRuleCondition): RuleCondition | null {
+  const value = String(condition.value ?? '');
+  const greater = condition.operator === 'greater_than';
+  const equals = condition.operator === 'equals';
+
+  switch (condition.type) {
+    case 'confidence_threshold':
+      return { kind: 'condition', field: 'confidence_score', operator: greater ? 'greater_than' : 'less_than', value };
+    case 'agent_type':
+      return { kind: 'condition', field: 'agent_id', operator: equals ? 'equals' : 'not_equals', value };
+    case 'suggestion_type':
+      return { kind: 'condition', field: 'type', operator: equals ? 'equals' : 'not_equals', value };
+    case 'time_based':
+      return { kind: 'condition', field: 'created_at', operator: greater ? 'older_than' : 'newer_than', value, unit: 'hours' };
+    case 'approval_history':
+      // Never checked anything, so it is dropped
+      return null;
+    default:
+      // Unknown conditions never matched; an empty "any of" group keeps it that way
+      return createRuleGroup('or');
+  }
+}
+
+// The condition tree of a rule as stored in workflow_rules.conditions, including old flat lists
+export function normalizeRuleConditions(conditions: unknown): RuleConditionGroup {
+  if (Array.isArray(conditions)) {
+    return createRuleGroup('and', conditions.map(fromLegacyCondition).filter(Boolean));
+  }
+  if ((conditions as RuleCondition)?.kind === 'group') {
+    return conditions as RuleConditionGroup;
+  }
+  if ((conditions as RuleCondition)?.kind === 'condition') {
+    return createRuleGroup('and', [conditions as RuleFieldCondition]);
+  }
+  return createRuleGroup('and');
+}
+
+function evaluateDateCondition(subject: unknown, condition: RuleFieldCondition, now: Date): boolean {
+  const actual = getFieldValue(subject, condition.field);
+  if (actual === undefined || actual === null || actual === '') return false;
+
+  const time = new Date(actual as string | number).getTime();
+  const amount = Number(condition.value);
+  if (isNaN(time) || condition.value === '' || isNaN(amount)) return false;
+
+  const age = now.getTime() - time;
+  const threshold = amount * UNIT_MS[condition.unit || 'days'];
+  return condition.operator === 'older_than' ? age > threshold : age < threshold;
+}
+
+// Whether `subject` (usually an AI suggestion) satisfies the condition. `now` is what date
+// conditions are measured from. An empty "all of" or "none of" group matches anything, and an
+// empty "any of" group matches nothing.
+export function evaluateRuleConditions(condition: RuleCondition, subject: unknown, now: Date = new Date()): boolean {
+  if (condition.kind === 'group') {
+    const matches = (child: RuleCondition) => evaluateRuleConditions(child, subject, now);
+    switch (condition.operator) {
+      case 'and':
+        return condition.children.every(matches);
+      case 'or':
+        return condition.children.some(matches);
+      case 'not':
+        return !condition.children.some(matches);
+      default:
+        return false;
+    }
+  }
+
+  if (isDateOperator(condition.operator)) {
+    return evaluateDateCondition(subject, condition, now);
+  }
+  return evaluateRouteCondition(subject, {
+    field: condition.field,
+    operator: condition.operator as RouteConditionOperator,
+    value: condition.value,
+  });
+}
+
+export function countRuleConditions(condition: RuleCondition): number {
+  return condition.kind === 'group'
+    ? condition.children.reduce((count, child) => count + countRuleConditions(child), 0)
+    : 1;
+}
+
+// Problems that would stop the rule from working as written, e.g. "Condition 2: enter a number"
+export function validateRuleConditions(root: RuleConditionGroup): string[] {
+  const errors: string[] = [];
+  let position = 0;
+
+  const visit = (condition: RuleCondition) => {
+    if (condition.kind === 'group') {
+      if (condition.children.length === 0 && condition !== root) {
+        errors.push(`An empty "${RULE_GROUP_LABELS[condition.operator].toLowerCase()}" group`);
+      }
+      condition.children.forEach(visit);
+      return;
+    }
+
+    position++;
+    if (!condition.field?.trim() || condition.field.trim().endsWith('.')) {
+      errors.push(`Condition ${position}: choose a field`);
+    } else if (NUMERIC_OPERATORS.includes(condition.operator) && (!condition.value?.trim() || isNaN(Number(condition.value)))) {
+      errors.push(`Condition ${position}: enter a number`);
+    } else if (condition.operator === 'matches') {
+      try {
+        new RegExp(condition.value ?? '');
+      } catch {
+        errors.push(`Condition ${position}: "${condition.value}" is not a valid pattern`);
+      }
+    }
+  };
+
+  visit(root);
+  if (position === 0) {
+    errors.push('Add at least one condition');
+  }
+  return errors;
+}
@@ -0,0 +1,20 @@
+import type { WorkflowRuntime } from './types.ts';
+
+// The subset of the supabase-js client the engine needs
+interface FunctionsClient {
+  functions: {
+    invoke: (functionName: string, options: { body: Record<string, unknown> }) => Promise<{ data: unknown; error: { message?: string } | null }>;
+  };
+}
+
+export function createSupabaseRuntime(client: FunctionsClient): WorkflowRuntime {
+  return {
+    invoke: async <T,>(functionName: string, body: Record<string, unknown>): Promise<T> => {
+      const { data, error } = await client.functions.invoke(functionName, { body });
+      if (error) {
+        throw new Error(error.message || `${functionName} failed`);
+      }
+      return data as T;
+    }
+  };
+}
@@ -0,0 +1,196 @@
+// Cron schedules for trigger nodes.
+//
+// Used by the builder to preview the next run and to store `next_run_at` when a
+// workflow is saved, and by the run-scheduled-workflows edge function to advance
+// it after each run. Times are evaluated in the trigger's IANA time zone.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+
+export const DEFAULT_SCHEDULE_TIMEZONE = 'Asia/Jerusalem';
+
+// How far ahead to look for the next matching day before giving up (e.g. "0 0 30 2 *")
+const MAX_LOOKAHEAD_DAYS = 366;
+
+interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function parseField(field: string, min: number, max: number, name: string): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in cron ${name} field`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = Number(startText);
+      end = endText === undefined ? (stepText === undefined ? start : max) : Number(endText);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron ${name} field (expected ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minuteField, hourField, dayOfMonthField, monthField, dayOfWeekField] = fields;
+  // Both 0 and 7 mean Sunday
+  const daysOfWeek = parseField(dayOfWeekField, 0, 7, 'day-of-week').map(day => day % 7);
+
+  return {
+    minutes: parseField(minuteField, 0, 59, 'minute'),
+    hours: parseField(hourField, 0, 23, 'hour'),
+    daysOfMonth: new Set(parseField(dayOfMonthField, 1, 31, 'day-of-month')),
+    months: new Set(parseField(monthField, 1, 12, 'month')),
+    daysOfWeek: new Set(daysOfWeek),
+    dayOfMonthRestricted: dayOfMonthField !== '*',
+    dayOfWeekRestricted: dayOfWeekField !== '*',
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+// Convert a wall-clock time in `timeZone` to the UTC instant it refers to
+function zonedTimeToUtc(parts: ZonedParts, timeZone: string): Date {
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute) - instant;
+  };
+
+  const guess = wallClockAsUtc - offsetAt(wallClockAsUtc);
+  // Re-check the offset at the guessed instant in case it lies across a DST change
+  return new Date(wallClockAsUtc - offsetAt(guess));
+}
+
+// The first time strictly after `after` matching the cron expression, or null if none within a year
+export function getNextCronRun(expression: string, timeZone: string, after: Date): Date | null {
+  const schedule = parseCronExpression(expression);
+  const start = getZonedParts(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const month = day.getUTCMonth() + 1;
+    if (!schedule.months.has(month)) continue;
+
+    const dayOfMonthMatches = schedule.daysOfMonth.has(day.getUTCDate());
+    const dayOfWeekMatches = schedule.daysOfWeek.has(day.getUTCDay());
+    // Standard cron: when both day fields are restricted, matching either one is enough
+    const dayMatches = schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted
+      ? dayOfMonthMatches || dayOfWeekMatches
+      : dayOfMonthMatches && dayOfWeekMatches;
+    if (!dayMatches) continue;
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const candidate = zonedTimeToUtc(
+          { year: day.getUTCFullYear(), month, day: day.getUTCDate(), hour, minute },
+          timeZone
+        );
+        if (candidate.getTime() > after.getTime()) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// Turn a trigger node's schedule settings into a cron expression; null for manual triggers
+export function getTriggerCronExpression(config: WorkflowNode['config']): string | null {
+  const [hour, minute] = (config.time || '09:00').split(':').map(Number);
+
+  switch (config.schedule) {
+    case 'hourly':
+      return `${minute || 0} * * * *`;
+    case 'daily':
+      return `${minute || 0} ${hour || 0} * * *`;
+    case 'weekly':
+      return `${minute || 0} ${hour || 0} * * ${config.dayOfWeek ?? 1}`;
+    case 'cron':
+      return config.cronExpression?.trim() || null;
+    default:
+      return null;
+  }
+}
+
+export function getTriggerNextRun(node: WorkflowNode, after: Date = new Date()): Date | null {
+  const expression = getTriggerCronExpression(node.config || {});
+  if (!expression || !isValidCronExpression(expression)) {
+    return null;
+  }
+  return getNextCronRun(expression, node.config.timezone || DEFAULT_SCHEDULE_TIMEZONE, after);
+}
+
+// The earliest upcoming run across all scheduled trigger nodes of a workflow
+export function getWorkflowNextRun(nodes: WorkflowNode[], after: Date = new Date()): Date | null {
+  return nodes
+    .filter(node => node.type === 'trigger')
+    .map(node => getTriggerNextRun(node, after))
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => a.getTime() - b.getTime())[0] || null;
+}
+
+// The trigger nodes whose schedule fires at `scheduledFor`
+export function getDueTriggerNodes(nodes: WorkflowNode[], scheduledFor: Date): WorkflowNode[] {
+  const justBefore = new Date(scheduledFor.getTime() - 1000);
+  return nodes.filter(node => {
+    if (node.type !== 'trigger') return false;
+    const nextRun = getTriggerNextRun(node, justBefore);
+    return nextRun !== null && nextRun.getTime() <= scheduledFor.getTime();
+  });
+}
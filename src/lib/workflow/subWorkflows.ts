@@ -0,0 +1,143 @@
+// Sub-workflows: a sub-workflow node runs another saved workflow with its item as the trigger
+// data and continues with what that workflow produced. The called workflow starts from its
+// "Called by another workflow" triggers.
+//
+// The child run is recorded in workflow_executions with parent_execution_id and parent_node_id
+// pointing back to the run and node that started it. Workflows that end up calling themselves,
+// directly or through other workflows, are refused before the child run starts.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+import type { WorkflowDefinition, WorkflowSubWorkflowStore } from './types.ts';
+import type { WorkflowDatabaseClient } from './database.ts';
+import { fromTable } from './database.ts';
+import { createSupabaseCheckpointStore } from './checkpoints.ts';
+import { completeRunIfReviewed, createSupabaseApprovalStore, getFinishedRunStatus } from './approvals.ts';
+import { getExecutionUsageFields } from './usage.ts';
+import { getFailedRunStatus } from './cancellation.ts';
+
+// Triggers a workflow is started from when another workflow calls it
+export function isSubWorkflowTrigger(node: WorkflowNode): boolean {
+  return node.type === 'trigger' && node.config?.schedule === 'sub-workflow';
+}
+
+export function getSubWorkflowTriggerNodes(nodes: WorkflowNode[]): WorkflowNode[] {
+  return nodes.filter(isSubWorkflowTrigger);
+}
+
+// The workflows a graph's sub-workflow nodes call
+export function getSubWorkflowIds(nodes: WorkflowNode[]): string[] {
+  return [...new Set(
+    nodes
+      .filter(node => node.type === 'sub-workflow' && node.config?.workflowId)
+      .map(node => String(node.config.workflowId))
+  )];
+}
+
+// The names along a chain of sub-workflow calls that leads back to a workflow already on it,
+// e.g. ["Research", "Write", "Research"], or null when there is none. `callerIds` are the
+// workflows already running, outermost first.
+export async function findSubWorkflowCycle(
+  callerIds: string[],
+  workflowId: string,
+  load: (workflowId: string) => Promise<WorkflowDefinition>
+): Promise<string[] | null> {
+  // Workflows whose calls were followed to the end without finding a cycle
+  const checked = new Set<string>();
+
+  const visit = async (id: string, path: string[]): Promise<string[] | null> => {
+    const index = path.indexOf(id);
+    if (index !== -1) return [...path.slice(index), id];
+    if (checked.has(id)) return null;
+
+    const workflow = await load(id);
+    for (const childId of getSubWorkflowIds(workflow.nodes)) {
+      const cycle = await visit(childId, [...path, id]);
+      if (cycle) return cycle;
+    }
+    checked.add(id);
+    return null;
+  };
+
+  const cycle = await visit(workflowId, callerIds);
+  if (!cycle) return null;
+
+  return Promise.all(cycle.map(id => load(id).then(workflow => workflow.name, () => id)));
+}
+
+// Loads saved workflows, and records the runs they start under `parentExecutionId` when given
+export function createSupabaseSubWorkflowStore(
+  client: WorkflowDatabaseClient,
+  parentExecutionId?: string | null
+): WorkflowSubWorkflowStore {
+  return {
+    load: async (workflowId) => {
+      const { data, error } = await fromTable(client, 'workflows')
+        .select('id, name, nodes')
+        .eq('id', workflowId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to load sub-workflow: ${error.message}`);
+      }
+      if (!data) {
+        throw new Error('The workflow this node runs no longer exists');
+      }
+      const workflow = data as WorkflowDefinition;
+      return { id: workflow.id, name: workflow.name, nodes: workflow.nodes || [] };
+    },
+
+    startRun: parentExecutionId ? async (workflow, parentNodeId, triggerData) => {
+      const { data, error } = await fromTable(client, 'workflow_executions')
+        .insert({
+          workflow_id: workflow.id,
+          trigger_type: 'sub-workflow',
+          parent_execution_id: parentExecutionId,
+          parent_node_id: parentNodeId,
+          nodes: workflow.nodes,
+          trigger_data: triggerData ?? null,
+          status: 'running',
+          started_at: new Date().toISOString(),
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to record the sub-workflow run: ${error.message}`);
+      }
+      const execution = data as { id: string };
+
+      const update = async (fields: Record<string, unknown>) => {
+        const { error: updateError } = await fromTable(client, 'workflow_executions')
+          .update({ completed_at: new Date().toISOString(), ...fields })
+          .eq('id', execution.id);
+        if (updateError) {
+          console.error(`Failed to record the outcome of sub-workflow run ${execution.id}:`, updateError);
+        }
+      };
+
+      return {
+        executionId: execution.id,
+        checkpoints: await createSupabaseCheckpointStore(client, execution.id),
+        approvals: createSupabaseApprovalStore(client, execution.id, workflow.id),
+        finish: async (result) => {
+          const status = await getFinishedRunStatus(client, execution.id);
+          await update({
+            status,
+            ...getExecutionUsageFields(result.usage),
+            result: {
+              contexts: result.outputs.length,
+              final_results: result.outputs,
+              errors: result.errors,
+              awaiting_approval: result.awaitingApproval
+            }
+          });
+          if (status === 'waiting') await completeRunIfReviewed(client, execution.id);
+        },
+        fail: (failure) => update({
+          status: getFailedRunStatus(failure),
+          error_message: failure.message,
+          ...getExecutionUsageFields(failure.usage)
+        }),
+      };
+    } : undefined
+  };
+}
@@ -0,0 +1,257 @@
+// Built-in starter workflows for the template gallery.
+//
+// A template asks for a few parameters (keywords, reporter, category...) and builds a complete
+// graph from them. The graph is an ordinary unsaved workflow: editors adjust and save it like
+// one they built by hand.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+import { getGridPosition } from './editing.ts';
+
+export interface WorkflowTemplateParameter {
+  key: string;
+  label: string;
+  // 'reporter' and 'category' are picked from the site's reporters and categories
+  type: 'text' | 'textarea' | 'time' | 'select' | 'reporter' | 'category';
+  description?: string;
+  placeholder?: string;
+  required?: boolean;
+  defaultValue?: string;
+  options?: { value: string; label: string }[];
+}
+
+export type WorkflowTemplateValues = Record<string, string>;
+
+// A node of a template graph. `key` stands in for the node id, which is assigned when the
+// template is used; `column` and `row` place the node on the canvas grid.
+interface TemplateNode {
+  key: string;
+  type: WorkflowNode['type'];
+  label: string;
+  column: number;
+  row?: number;
+  config: WorkflowNode['config'];
+  connected: string[];
+}
+
+export interface WorkflowTemplate {
+  id: string;
+  name: string;
+  description: string;
+  parameters: WorkflowTemplateParameter[];
+  build: (values: WorkflowTemplateValues) => TemplateNode[];
+}
+
+const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+  .map((label, day) => ({ value: String(day), label }));
+
+const lines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Empty parameters leave the node's setting unset, so the node's own default applies
+const optional = (value: string | undefined) => value?.trim() || undefined;
+
+export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
+  {
+    id: 'daily-pubmed-digest',
+    name: 'Daily PubMed digest',
+    description: 'Every morning, find new PubMed papers on your topic, write an academic article about each one and save it as a draft for review.',
+    parameters: [
+      { key: 'keywords', label: 'Research keywords', type: 'text', required: true, placeholder: 'periodontitis, dental implants' },
+      { key: 'time', label: 'Run daily at', type: 'time', defaultValue: '07:00' },
+      { key: 'maxPapers', label: 'Papers per day', type: 'text', defaultValue: '3', description: 'Each paper becomes its own draft.' },
+      { key: 'category', label: 'Category', type: 'category' },
+      { key: 'reporterId', label: 'Reporter', type: 'reporter' },
+    ],
+    build: (values) => [
+      {
+        key: 'trigger', type: 'trigger', label: 'Every Morning', column: 0,
+        config: { schedule: 'daily', time: values.time || '07:00' },
+        connected: ['pubmed'],
+      },
+      {
+        key: 'pubmed', type: 'news-discovery', label: 'PubMed Papers', column: 1,
+        config: { source: 'pubmed', keywords: values.keywords, timeRange: 'day', maxItems: Number(values.maxPapers) || 3, saveToQueue: false },
+        connected: ['dedupe'],
+      },
+      {
+        key: 'dedupe', type: 'dedupe', label: 'Skip Covered Papers', column: 2,
+        config: {},
+        connected: ['writer'],
+      },
+      {
+        key: 'writer', type: 'ai-processor', label: 'Academic Writer', column: 3,
+        config: {
+          contentType: 'research-report',
+          writingStyle: 'Academic',
+          targetAudience: 'Professionals',
+          category: optional(values.category),
+          customInstructions: 'Explain the study design, the main findings and their clinical relevance. Cite the paper and do not overstate its conclusions.',
+        },
+        connected: ['publisher'],
+      },
+      {
+        key: 'publisher', type: 'publisher', label: 'Save Draft', column: 4,
+        config: { status: 'draft', category: optional(values.category), reporterId: optional(values.reporterId) },
+        connected: [],
+      },
+    ],
+  },
+  {
+    id: 'rss-translate-publish',
+    name: 'RSS → translate → publish',
+    description: 'Rewrite new items from your RSS feeds, translate them and publish them in another language.',
+    parameters: [
+      { key: 'urls', label: 'RSS feed URLs', type: 'textarea', required: true, placeholder: 'https://example.com/feed.xml', description: 'One feed per line.' },
+      {
+        key: 'targetLanguage', label: 'Translate to', type: 'select', defaultValue: 'he',
+        options: [
+          { value: 'he', label: 'Hebrew' },
+          { value: 'ar', label: 'Arabic' },
+          { value: 'es', label: 'Spanish' },
+          { value: 'fr', label: 'French' },
+          { value: 'de', label: 'German' },
+        ],
+      },
+      {
+        key: 'status', label: 'Publish as', type: 'select', defaultValue: 'published',
+        options: [
+          { value: 'published', label: 'Published immediately' },
+          { value: 'draft', label: 'Draft' },
+        ],
+      },
+      { key: 'category', label: 'Category', type: 'category' },
+      { key: 'reporterId', label: 'Reporter', type: 'reporter' },
+    ],
+    build: (values) => [
+      {
+        key: 'trigger', type: 'trigger', label: 'Every Hour', column: 0,
+        config: { schedule: 'hourly', time: '00:15' },
+        connected: ['rss'],
+      },
+      {
+        key: 'rss', type: 'rss-aggregator', label: 'RSS Feeds', column: 1,
+        config: { urls: lines(values.urls || '') },
+        connected: ['dedupe'],
+      },
+      {
+        key: 'dedupe', type: 'dedupe', label: 'Skip Covered Stories', column: 2,
+        config: {},
+        connected: ['writer'],
+      },
+      {
+        key: 'writer', type: 'ai-processor', label: 'Rewrite', column: 3,
+        config: {
+          contentType: 'news-report',
+          writingStyle: 'Professional',
+          targetAudience: 'General readers',
+          category: optional(values.category),
+          customInstructions: 'Rewrite the story in your own words, keep every fact and name accurate, and link to the original source.',
+        },
+        connected: ['translator'],
+      },
+      {
+        key: 'translator', type: 'translator', label: 'Translate', column: 4,
+        config: { provider: 'gemini', targetLanguage: values.targetLanguage || 'he' },
+        connected: ['publisher'],
+      },
+      {
+        key: 'publisher', type: 'publisher', label: 'Publish', column: 5,
+        config: { status: values.status || 'published', category: optional(values.category), reporterId: optional(values.reporterId) },
+        connected: [],
+      },
+    ],
+  },
+  {
+    id: 'weekly-newsletter',
+    name: 'Weekly newsletter roundup',
+    description: "Once a week, summarize the week's news on your topics and email a single roundup.",
+    parameters: [
+      { key: 'keywords', label: 'Topics', type: 'text', required: true, placeholder: 'dental technology, AI in dentistry' },
+      { key: 'recipient', label: 'Send to', type: 'text', required: true, placeholder: 'newsletter@example.com' },
+      { key: 'dayOfWeek', label: 'Send on', type: 'select', defaultValue: '1', options: DAYS_OF_WEEK },
+      { key: 'time', label: 'Send at', type: 'time', defaultValue: '08:00' },
+      { key: 'maxStories', label: 'Stories per issue', type: 'text', defaultValue: '8' },
+    ],
+    build: (values) => [
+      {
+        key: 'trigger', type: 'trigger', label: 'Every Week', column: 0,
+        config: { schedule: 'weekly', dayOfWeek: Number(values.dayOfWeek ?? 1), time: values.time || '08:00' },
+        connected: ['news'],
+      },
+      {
+        key: 'news', type: 'news-discovery', label: "This Week's News", column: 1,
+        config: { keywords: values.keywords, source: 'all', timeRange: 'week', maxItems: Number(values.maxStories) || 8, saveToQueue: false },
+        connected: ['summary'],
+      },
+      {
+        key: 'summary', type: 'ai-processor', label: 'Summarize Story', column: 2,
+        config: {
+          contentType: 'summary',
+          writingStyle: 'Conversational',
+          targetAudience: 'General readers',
+          customInstructions: 'Summarize the story in one short paragraph for a newsletter and keep the link to the source.',
+        },
+        connected: ['collect'],
+      },
+      {
+        key: 'collect', type: 'aggregate', label: 'Collect Stories', column: 3,
+        config: {},
+        connected: ['roundup'],
+      },
+      {
+        key: 'roundup', type: 'multi-source-synthesizer', label: 'Write Roundup', column: 4,
+        config: {
+          style: 'summary',
+          targetLength: 'medium',
+          customInstructions: 'Write a friendly weekly newsletter with a short introduction and one section per story.',
+        },
+        connected: ['email'],
+      },
+      {
+        key: 'email', type: 'email-sender', label: 'Email Roundup', column: 5,
+        config: {
+          recipient: values.recipient,
+          subject: `Weekly roundup: ${values.keywords}`,
+          body: '{{item.synthesizedContent}}',
+        },
+        connected: [],
+      },
+    ],
+  },
+];
+
+export function getWorkflowTemplate(id: string): WorkflowTemplate | undefined {
+  return WORKFLOW_TEMPLATES.find(template => template.id === id);
+}
+
+// Parameters with their defaults applied, and the labels of required ones still empty
+export function resolveTemplateValues(template: WorkflowTemplate, values: WorkflowTemplateValues) {
+  const resolved: WorkflowTemplateValues = {};
+  for (const parameter of template.parameters) {
+    resolved[parameter.key] = values[parameter.key]?.trim() || parameter.defaultValue || '';
+  }
+  const missing = template.parameters
+    .filter(parameter => parameter.required && !resolved[parameter.key])
+    .map(parameter => parameter.label);
+  return { values: resolved, missing };
+}
+
+// Build the template's graph with fresh node ids
+export function instantiateWorkflowTemplate(template: WorkflowTemplate, values: WorkflowTemplateValues): WorkflowNode[] {
+  const { values: resolved, missing } = resolveTemplateValues(template, values);
+  if (missing.length > 0) {
+    throw new Error(`Fill in ${missing.join(', ')}`);
+  }
+
+  const templateNodes = template.build(resolved);
+  const createdAt = Date.now();
+  const ids = new Map(templateNodes.map(node => [node.key, `${node.type}-${createdAt}-${node.key}`]));
+
+  return templateNodes.map(node => ({
+    id: ids.get(node.key)!,
+    type: node.type,
+    label: node.label,
+    position: getGridPosition(node.column, node.row),
+    // Unset settings are left out rather than stored as undefined
+    config: Object.fromEntries(Object.entries(node.config).filter(([, value]) => value !== undefined)),
+    connected: node.connected.map(key => ids.get(key)!),
+  }));
+}
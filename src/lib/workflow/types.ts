@@ -0,0 +1,224 @@
+import type { ExecutionLog, WorkflowNode } from '../../types/WorkflowTypes.ts';
+
+// How the engine reaches Supabase edge functions. The builder wraps the browser
+// client, the edge runtime wraps a service-role client. Callers name the response
+// type they expect, e.g. invoke<{ articles: WorkflowSource[] }>('rss-aggregator', ...).
+export interface WorkflowRuntime {
+  invoke: <T = unknown>(functionName: string, body: Record<string, unknown>) => Promise<T>;
+}
+
+export type WorkflowLogEntry = Omit<ExecutionLog, 'id' | 'timestamp'>;
+
+export interface SourceReference {
+  url: string;
+  title?: string;
+  [field: string]: unknown;
+}
+
+// One source document: an entry of a fan-out array such as `articles` or `papers`
+export interface WorkflowSource {
+  title?: string;
+  url?: string;
+  link?: string;
+  content?: string;
+  description?: string;
+  summary?: string;
+  abstract?: string;
+  authors?: string[] | string;
+  year?: number;
+  citations?: number;
+  venue?: string;
+  publishedAt?: string;
+  published_date?: string;
+  priority_score?: number;
+  processedContent?: string;
+  synthesizedContent?: string;
+  translatedContent?: string;
+  source_reference?: SourceReference;
+  [field: string]: unknown;
+}
+
+// The data one node passes to the next. Its shape depends on the node that produced it;
+// these are the fields nodes read from each other, anything else is unknown.
+export interface WorkflowItem extends WorkflowSource {
+  articles?: WorkflowSource[];
+  scrapedContent?: WorkflowSource[];
+  papers?: WorkflowSource[];
+  // An aggregate's or a sub-workflow's combined items
+  items?: WorkflowItem[];
+  count?: number;
+  source_references?: SourceReference[];
+  research?: string;
+  category?: string;
+  imageUrl?: string;
+  aiModel?: string;
+  englishSlug?: string;
+  targetLanguage?: string;
+  isRTL?: boolean;
+  seoAnalysis?: unknown;
+}
+
+// What a run was started with: a schedule slot, a webhook payload, a database event or the
+// item a parent workflow passed in
+export interface WorkflowTriggerData extends WorkflowItem {
+  scheduled?: boolean;
+  scheduledFor?: string;
+  webhook?: boolean;
+  event?: { id: string; type: string; [field: string]: unknown };
+}
+
+export interface NodeExecutionContext {
+  runtime: WorkflowRuntime;
+  triggerData?: WorkflowTriggerData;
+  // Side-effecting executors report what they would do instead of doing it
+  dryRun?: boolean;
+  log: (status: ExecutionLog['status'], message: string, data?: unknown) => void;
+  // Hold the item for an editor's review; only set when the run records approvals
+  requestApproval?: (item: WorkflowItem, instructions?: string) => Promise<void>;
+  // Run another saved workflow with the item as its trigger data; only set when the run can load workflows
+  runSubWorkflow?: (workflowId: string, item: WorkflowItem) => Promise<WorkflowSubWorkflowResult>;
+}
+
+// Returns the node's output for the next node, or null to drop the item.
+export type NodeExecutor = (
+  node: WorkflowNode,
+  input: WorkflowItem,
+  context: NodeExecutionContext
+) => Promise<WorkflowItem | null>;
+
+// One node run: used to resume a failed run and shown in the run trace
+export interface WorkflowCheckpoint {
+  nodeId: string;
+  nodeName: string;
+  nodeType: WorkflowNode['type'];
+  inputKey: string;
+  input: WorkflowItem;
+  // Branch index in each fan-out the item passed through, outermost first
+  branch: number[];
+  status: 'completed' | 'failed';
+  output?: WorkflowItem | null;
+  error?: string;
+  attempts?: number;
+  // The output came from the run being resumed
+  reused?: boolean;
+  // What the node's AI calls used, across all attempts
+  usage?: WorkflowUsage;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+// Tokens and cost of the AI calls made by a node or a whole run (see usage.ts)
+export interface WorkflowUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface WorkflowNodeUsage extends WorkflowUsage {
+  nodeName: string;
+}
+
+export interface WorkflowRunUsage extends WorkflowUsage {
+  byNode: Record<string, WorkflowNodeUsage>;
+}
+
+// Persists node runs and returns earlier outputs when a run is resumed
+export interface WorkflowCheckpointStore {
+  load: (nodeId: string, inputKey: string) => { output: WorkflowItem | null } | undefined;
+  save: (checkpoint: WorkflowCheckpoint) => Promise<void>;
+}
+
+// The outputs of the nodes an item passed through, by node id (nearest last)
+export type WorkflowUpstreamOutputs = { nodeId: string; output: WorkflowItem }[];
+
+// An item held at an approval node, with what the engine needs to continue its branch later
+export interface WorkflowApprovalRequest {
+  nodeId: string;
+  nodeName: string;
+  instructions?: string;
+  item: WorkflowItem;
+  upstream: WorkflowUpstreamOutputs;
+  branch: number[];
+}
+
+export interface WorkflowApprovalStore {
+  request: (request: WorkflowApprovalRequest) => Promise<void>;
+}
+
+// Where a run that continues an approved item starts: the node's connected nodes receive `output`
+export interface WorkflowContinuation {
+  nodeId: string;
+  output: WorkflowItem;
+  upstream: WorkflowUpstreamOutputs;
+  branch: number[];
+}
+
+// A saved workflow, as a sub-workflow node runs it
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  nodes: WorkflowNode[];
+}
+
+// A run started by a sub-workflow node, recorded in workflow_executions with a link to its parent
+export interface WorkflowChildRun {
+  executionId: string;
+  checkpoints?: WorkflowCheckpointStore;
+  approvals?: WorkflowApprovalStore;
+  finish: (result: WorkflowRunResult) => Promise<void>;
+  fail: (error: Error & { usage?: WorkflowRunUsage }) => Promise<void>;
+}
+
+// Loads the workflows that sub-workflow nodes call and records their runs
+export interface WorkflowSubWorkflowStore {
+  load: (workflowId: string) => Promise<WorkflowDefinition>;
+  // Child runs are not recorded without it
+  startRun?: (workflow: WorkflowDefinition, parentNodeId: string, triggerData: WorkflowItem) => Promise<WorkflowChildRun>;
+}
+
+export interface WorkflowSubWorkflowResult extends WorkflowRunResult {
+  workflow: WorkflowDefinition;
+  executionId?: string;
+}
+
+// Recorded edge function responses, keyed by function name
+export type WorkflowFixtures = Record<string, unknown>;
+
+export interface WorkflowRunOptions {
+  runtime: WorkflowRuntime;
+  triggerData?: WorkflowTriggerData;
+  // Answer every edge function call from fixtures instead of `runtime`; nothing is published
+  dryRun?: boolean;
+  fixtures?: WorkflowFixtures;
+  // Start only from these trigger nodes (e.g. the ones whose schedule is due); defaults to all
+  triggerNodeIds?: string[];
+  checkpoints?: WorkflowCheckpointStore;
+  // Where approval nodes hold items; without it approval nodes fail
+  approvals?: WorkflowApprovalStore;
+  // Once the run's AI calls cost more than this (USD), no further nodes or calls start
+  budgetUsd?: number | null;
+  // The saved workflow being run, so its sub-workflow nodes cannot call it back
+  workflowId?: string | null;
+  // Where sub-workflow nodes load the workflows they run; without it they fail
+  subWorkflows?: WorkflowSubWorkflowStore;
+  // Cancels the run: nothing further starts and it throws WorkflowRunCancelledError
+  signal?: AbortSignal;
+  onLog?: (entry: WorkflowLogEntry) => void;
+  onNodeComplete?: (node: WorkflowNode, output: WorkflowItem) => void;
+}
+
+export interface WorkflowRunError {
+  nodeId: string;
+  nodeName: string;
+  message: string;
+  attempts?: number;
+}
+
+export interface WorkflowRunResult {
+  outputs: WorkflowItem[];
+  errors: WorkflowRunError[];
+  // Items held at approval nodes, continued later in runs of their own
+  awaitingApproval: number;
+  usage: WorkflowRunUsage;
+}
@@ -0,0 +1,158 @@
+// Token usage and cost of AI provider calls.
+//
+// The AI edge functions load this module to price each provider call and return the result as
+// `usage` next to their output. The engine adds up the usage every node's calls report and stops
+// a run once its cost passes the workflow's budget. Prices are list prices in USD, so costs are
+// estimates of what the providers bill.
+import type { WorkflowRunUsage } from './types.ts';
+
+// What one edge function call used, as reported in its response
+export interface AiUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  // Image models bill per image and Google Translate per character, not per token
+  images?: number;
+  characters?: number;
+  costUsd: number;
+}
+
+// USD per million input and output tokens. Model names are matched by their longest listed
+// prefix, so dated versions (claude-3-5-sonnet-20241022) use the price of their family.
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'llama-3.1-sonar-small': { input: 0.2, output: 0.2 },
+  'llama-3.1-sonar-large': { input: 1, output: 1 },
+  'llama-3.1-sonar-huge': { input: 5, output: 5 },
+};
+
+// USD per generated image at the default size. Matched anywhere in the model name, since the
+// image generator also receives its own model ids (openai-gpt-image-1).
+const IMAGE_PRICES: Record<string, { standard: number; high: number }> = {
+  'dall-e-3': { standard: 0.04, high: 0.08 },
+  'gpt-image-1': { standard: 0.042, high: 0.167 },
+  'imagen-3': { standard: 0.03, high: 0.03 },
+};
+
+const GOOGLE_TRANSLATE_PRICE_PER_MILLION_CHARACTERS = 20;
+
+const roundCost = (costUsd: number) => Math.round(costUsd * 1e6) / 1e6;
+
+function findTokenPrice(model: string) {
+  const prefix = Object.keys(TOKEN_PRICES)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? TOKEN_PRICES[prefix] : undefined;
+}
+
+// Unknown models still report their tokens; only their cost is missing
+export function getTokenCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = findTokenPrice(model);
+  if (!price) {
+    console.warn(`No price known for model ${model}; its cost is not counted`);
+    return 0;
+  }
+  return roundCost((inputTokens * price.input + outputTokens * price.output) / 1e6);
+}
+
+const tokenUsage = (provider: string, model: string, inputTokens = 0, outputTokens = 0): AiUsage => ({
+  provider,
+  model,
+  inputTokens,
+  outputTokens,
+  costUsd: getTokenCost(model, inputTokens, outputTokens),
+});
+
+// OpenAI chat completions; Perplexity answers in the same format
+export const getOpenAIUsage = (
+  model: string,
+  data: { usage?: { prompt_tokens?: number; completion_tokens?: number } },
+  provider = 'openai'
+): AiUsage =>
+  tokenUsage(provider, model, data?.usage?.prompt_tokens, data?.usage?.completion_tokens);
+
+// Gemini bills thinking tokens as output
+export const getGeminiUsage = (
+  model: string,
+  data: { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number } }
+): AiUsage =>
+  tokenUsage(
+    'google',
+    model,
+    data?.usageMetadata?.promptTokenCount,
+    (data?.usageMetadata?.candidatesTokenCount || 0) + (data?.usageMetadata?.thoughtsTokenCount || 0)
+  );
+
+export const getAnthropicUsage = (model: string, data: { usage?: { input_tokens?: number; output_tokens?: number } }): AiUsage =>
+  tokenUsage('anthropic', model, data?.usage?.input_tokens, data?.usage?.output_tokens);
+
+export function getImageUsage(provider: string, model: string, quality?: string, images = 1): AiUsage {
+  const key = Object.keys(IMAGE_PRICES).find(name => model.includes(name));
+  if (!key) {
+    console.warn(`No price known for image model ${model}; its cost is not counted`);
+  }
+  const price = key ? IMAGE_PRICES[key][quality === 'high' ? 'high' : 'standard'] : 0;
+  return { provider, model, inputTokens: 0, outputTokens: 0, images, costUsd: roundCost(price * images) };
+}
+
+export const getTranslateUsage = (characters: number): AiUsage => ({
+  provider: 'google',
+  model: 'google-translate',
+  inputTokens: 0,
+  outputTokens: 0,
+  characters,
+  costUsd: roundCost(characters * GOOGLE_TRANSLATE_PRICE_PER_MILLION_CHARACTERS / 1e6),
+});
+
+// The usage an edge function response reports, if any. Fixtures and functions that call no
+// AI provider have none.
+export function getReportedUsage(response: unknown): AiUsage | undefined {
+  const usage = (response as { usage?: AiUsage } | null)?.usage;
+  return usage && typeof usage.costUsd === 'number' ? usage : undefined;
+}
+
+export const createRunUsage = (): WorkflowRunUsage => ({
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+  byNode: {},
+});
+
+export function formatCost(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+  return `$${costUsd.toFixed(2)}`;
+}
+
+// The workflow_executions columns that record a run's usage. Errors thrown by the engine carry
+// the usage of the failed run as `usage`.
+export function getExecutionUsageFields(usage?: WorkflowRunUsage) {
+  if (!usage) return {};
+  return {
+    cost_usd: usage.costUsd,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    // Plain JSON, as the typed client expects for the jsonb column
+    node_usage: usage.byNode as unknown as Record<string, Record<string, string | number>>,
+  };
+}
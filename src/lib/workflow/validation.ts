@@ -0,0 +1,233 @@
+// Static checks of a workflow graph, run by the builder while editing and by the
+// engine before every run. Errors stop a run before any node executes; warnings are
+// only shown in the builder.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+import { hasNodeExecutor } from './registry.ts';
+import { getErrorTargetId } from './errorPolicy.ts';
+import { isWebhookTrigger } from './webhook.ts';
+import { isSubWorkflowTrigger } from './subWorkflows.ts';
+import { isEventTrigger } from './events.ts';
+
+// What a node hands to the next one
+export type WorkflowDataShape = 'trigger' | 'sources' | 'research' | 'article' | 'collection';
+
+interface ConfigRequirement {
+  key: string;
+  label: string;
+}
+
+export interface NodeSpec {
+  // Config that must be set before the node can run
+  required?: ConfigRequirement[];
+  // Config the node runs without, but rarely does anything useful without
+  recommended?: ConfigRequirement[];
+  // Shapes the node can work with; any shape when omitted
+  accepts?: WorkflowDataShape[];
+  // The node passes its input through (adding fields) when omitted
+  produces?: WorkflowDataShape;
+}
+
+export interface WorkflowValidationIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  nodeId?: string;
+  edge?: { from: string; to: string };
+}
+
+const CONTENT_INPUTS: WorkflowDataShape[] = ['sources', 'research', 'collection', 'article'];
+
+export const NODE_SPECS: Partial<Record<WorkflowNode['type'], NodeSpec>> = {
+  trigger: { accepts: [], produces: 'trigger' },
+  scraper: { required: [{ key: 'urls', label: 'URLs to scrape' }], produces: 'sources' },
+  'rss-aggregator': { required: [{ key: 'urls', label: 'RSS feed URLs' }], produces: 'sources' },
+  'google-scholar-search': { required: [{ key: 'query', label: 'Search query' }], produces: 'sources' },
+  'news-discovery': { required: [{ key: 'keywords', label: 'Keywords' }], produces: 'sources' },
+  'perplexity-research': { required: [{ key: 'query', label: 'Research query' }], produces: 'research' },
+  'ai-processor': {
+    recommended: [{ key: 'customInstructions', label: 'Custom instructions' }],
+    accepts: CONTENT_INPUTS,
+    produces: 'article'
+  },
+  'multi-source-synthesizer': { accepts: CONTENT_INPUTS, produces: 'article' },
+  dedupe: { accepts: CONTENT_INPUTS },
+  aggregate: { accepts: CONTENT_INPUTS, produces: 'collection' },
+  // Raw sources get an automatic AI Processor in front of the publisher
+  publisher: { accepts: CONTENT_INPUTS, produces: 'article' },
+  'email-sender': { required: [{ key: 'recipient', label: 'Recipient' }] },
+  'seo-analyzer': { accepts: ['sources', 'article'] },
+  translator: { accepts: ['article'] },
+  'article-structure-validator': { accepts: ['article'] },
+  'sub-workflow': { required: [{ key: 'workflowId', label: 'Workflow to run' }] },
+};
+
+const SHAPE_NAMES: Record<WorkflowDataShape, string> = {
+  trigger: 'trigger data',
+  sources: 'source items',
+  research: 'research notes',
+  article: 'an article',
+  collection: 'a combined list',
+};
+
+const isMissing = (value: unknown) =>
+  value === undefined || value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+// Edges that close a cycle, found by depth-first search from every node
+function findCycleEdges(nodes: WorkflowNode[], byId: Map<string, WorkflowNode>): { from: string; to: string }[] {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const cycleEdges: { from: string; to: string }[] = [];
+
+  const visit = (node: WorkflowNode) => {
+    state.set(node.id, 'visiting');
+    for (const targetId of node.connected) {
+      const target = byId.get(targetId);
+      if (!target) continue;
+      if (state.get(targetId) === 'visiting') {
+        cycleEdges.push({ from: node.id, to: targetId });
+      } else if (!state.has(targetId)) {
+        visit(target);
+      }
+    }
+    state.set(node.id, 'done');
+  };
+
+  nodes.forEach(node => !state.has(node.id) && visit(node));
+  return cycleEdges;
+}
+
+function findReachable(triggers: WorkflowNode[], byId: Map<string, WorkflowNode>): Set<string> {
+  const reachable = new Set<string>();
+  const stack = triggers.map(node => node.id);
+  while (stack.length > 0) {
+    const id = stack.pop();
+    if (reachable.has(id) || !byId.has(id)) continue;
+    reachable.add(id);
+    stack.push(...byId.get(id).connected);
+  }
+  return reachable;
+}
+
+// Follow the shapes each node can receive from the triggers down, and report edges whose
+// target cannot use anything its source may send. Only valid for acyclic graphs; an empty
+// set means the shape is unknown and is not checked.
+function checkEdgeShapes(nodes: WorkflowNode[], byId: Map<string, WorkflowNode>, issues: WorkflowValidationIssue[]) {
+  const inputs = new Map<string, Set<WorkflowDataShape>>(nodes.map(node => [node.id, new Set()]));
+  const outputs = new Map<string, Set<WorkflowDataShape>>();
+
+  const getOutputs = (node: WorkflowNode): Set<WorkflowDataShape> => {
+    if (outputs.has(node.id)) return outputs.get(node.id);
+    // Webhook payloads, changed rows, the items other workflows pass in and what a called
+    // workflow returns can be anything, so nothing after them is checked until a node reshapes them
+    if (isWebhookTrigger(node) || isEventTrigger(node) || isSubWorkflowTrigger(node) || node.type === 'sub-workflow') {
+      outputs.set(node.id, new Set());
+      return outputs.get(node.id);
+    }
+    const produces = NODE_SPECS[node.type]?.produces;
+    const parents = nodes.filter(parent => parent.connected.includes(node.id));
+    const received = new Set<WorkflowDataShape>();
+    for (const parent of parents) {
+      // The error edge carries the failed node's input, not its output
+      const shapes = getErrorTargetId(parent) === node.id ? getInputs(parent) : getOutputs(parent);
+      shapes.forEach(shape => received.add(shape));
+    }
+    inputs.set(node.id, received);
+    const result = produces ? new Set([produces]) : received;
+    outputs.set(node.id, result);
+    return result;
+  };
+  const getInputs = (node: WorkflowNode) => {
+    getOutputs(node);
+    return inputs.get(node.id);
+  };
+
+  for (const source of nodes) {
+    for (const targetId of source.connected) {
+      const target = byId.get(targetId);
+      const accepts = target && NODE_SPECS[target.type]?.accepts;
+      if (!accepts || target.type === 'trigger') continue;
+
+      const shapes = [...(getErrorTargetId(source) === targetId ? getInputs(source) : getOutputs(source))];
+      if (shapes.length > 0 && !shapes.some(shape => accepts.includes(shape))) {
+        issues.push({
+          severity: 'error',
+          nodeId: target.id,
+          edge: { from: source.id, to: target.id },
+          message: `${target.label} cannot use ${shapes.map(shape => SHAPE_NAMES[shape]).join(' or ')} from ${source.label}; it needs ${accepts.map(shape => SHAPE_NAMES[shape]).join(', ')}`
+        });
+      }
+    }
+  }
+}
+
+export function validateWorkflow(nodes: WorkflowNode[]): WorkflowValidationIssue[] {
+  const issues: WorkflowValidationIssue[] = [];
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const triggers = nodes.filter(node => node.type === 'trigger');
+
+  if (nodes.length > 0 && triggers.length === 0) {
+    issues.push({ severity: 'error', message: 'Add a trigger node to start the workflow' });
+  }
+
+  for (const node of nodes) {
+    const spec = NODE_SPECS[node.type] || {};
+    const config = node.config || {};
+
+    for (const { key, label } of spec.required || []) {
+      if (isMissing(config[key])) {
+        issues.push({ severity: 'error', nodeId: node.id, message: `${node.label}: ${label} is required` });
+      }
+    }
+    for (const { key, label } of spec.recommended || []) {
+      if (isMissing(config[key])) {
+        issues.push({ severity: 'warning', nodeId: node.id, message: `${node.label}: no ${label.toLowerCase()} set; defaults are used` });
+      }
+    }
+
+    if (!hasNodeExecutor(node.type)) {
+      issues.push({ severity: 'warning', nodeId: node.id, message: `${node.label} is not implemented yet and passes its input through` });
+    }
+
+    for (const targetId of node.connected) {
+      const target = byId.get(targetId);
+      if (!target) {
+        issues.push({ severity: 'error', nodeId: node.id, edge: { from: node.id, to: targetId }, message: `${node.label} is connected to a node that no longer exists` });
+      } else if (target.type === 'trigger') {
+        issues.push({ severity: 'error', nodeId: target.id, edge: { from: node.id, to: targetId }, message: `${target.label} is a trigger and cannot receive input from ${node.label}` });
+      }
+    }
+
+    if (config.onError === 'route' && !getErrorTargetId(node)) {
+      issues.push({ severity: 'warning', nodeId: node.id, message: `${node.label}: choose a connected error branch, or failed items are skipped` });
+    }
+  }
+
+  const cycleEdges = findCycleEdges(nodes, byId);
+  for (const edge of cycleEdges) {
+    issues.push({
+      severity: 'error',
+      nodeId: edge.to,
+      edge,
+      message: `${byId.get(edge.from).label} → ${byId.get(edge.to).label} creates a loop`
+    });
+  }
+  if (cycleEdges.length === 0) {
+    checkEdgeShapes(nodes, byId, issues);
+  }
+
+  if (triggers.length > 0) {
+    const reachable = findReachable(triggers, byId);
+    nodes
+      .filter(node => !reachable.has(node.id))
+      .forEach(node => issues.push({ severity: 'warning', nodeId: node.id, message: `${node.label} never runs: it is not connected to a trigger` }));
+  }
+
+  return issues;
+}
+
+// Thrown by the engine when a graph has validation errors
+export class WorkflowValidationError extends Error {
+  constructor(public issues: WorkflowValidationIssue[]) {
+    super(`The workflow has ${issues.length} problem(s): ${issues.map(issue => issue.message).join('; ')}`);
+  }
+}
@@ -0,0 +1,78 @@
+// Webhook triggers: external systems start a workflow by POSTing JSON to the
+// workflow-webhook edge function. Requests are authenticated with the workflow's
+// secret, either sent as-is or as an HMAC-SHA256 signature of "<timestamp>.<raw body>".
+// Signing the timestamp lets a captured request be replayed only within a few minutes.
+import type { WorkflowNode } from '../../types/WorkflowTypes.ts';
+
+export const WEBHOOK_SECRET_HEADER = 'x-webhook-secret';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+// Unix time in seconds at which the request was signed
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+// Signed requests older or newer than this are rejected
+export const WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+export function isWebhookTrigger(node: WorkflowNode): boolean {
+  return node.type === 'trigger' && node.config?.schedule === 'webhook';
+}
+
+export function getWebhookTriggerNodes(nodes: WorkflowNode[]): WorkflowNode[] {
+  return nodes.filter(isWebhookTrigger);
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Hex HMAC-SHA256 of `body`, sent as "sha256=<hex>" in the signature header
+export async function signWebhookPayload(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+}
+
+// What a signature covers: the timestamp header, a dot, then the raw body
+export function getSignedWebhookPayload(timestamp: string | number, body: string): string {
+  return `${timestamp}.${body}`;
+}
+
+// Compare without returning early, so response timing does not reveal how much matched
+function constantTimeEquals(a: string, b: string): boolean {
+  let mismatch = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return mismatch === 0;
+}
+
+// True when the request carries the secret itself, or a valid signature of its body with a
+// timestamp inside the tolerance window
+export async function verifyWebhookRequest(
+  secret: string,
+  body: string,
+  headers: { get: (name: string) => string | null },
+  now: Date = new Date()
+): Promise<boolean> {
+  const providedSecret = headers.get(WEBHOOK_SECRET_HEADER);
+  if (providedSecret) {
+    return constantTimeEquals(providedSecret, secret);
+  }
+
+  const signature = headers.get(WEBHOOK_SIGNATURE_HEADER)?.replace(/^sha256=/, '');
+  const timestamp = headers.get(WEBHOOK_TIMESTAMP_HEADER)?.trim();
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+
+  if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = await signWebhookPayload(secret, getSignedWebhookPayload(timestamp, body));
+  return constantTimeEquals(signature.toLowerCase(), expected);
+}
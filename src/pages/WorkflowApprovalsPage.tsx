@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar, CheckCircle2, Eye, UserCheck, Workflow } from 'lucide-react';
+import WorkflowApprovalReviewDialog from '@/components/workflow/WorkflowApprovalReviewDialog';
+import {
+  WorkflowApproval,
+  approveWorkflowItem,
+  fetchWorkflowApprovals,
+  getApprovalItemContent,
+  getApprovalItemTitle,
+  rejectWorkflowItem
+} from '@/services/workflowApprovals';
+import type { WorkflowItem } from '@/lib/workflow/types';
+
+const getStatusColor = (status: WorkflowApproval['status']) => {
+  switch (status) {
+    case 'pending': return 'bg-yellow-100 text-yellow-800';
+    case 'approved': return 'bg-green-100 text-green-800';
+    case 'rejected': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const WorkflowApprovalsPage = () => {
+  const [statusFilter, setStatusFilter] = useState<WorkflowApproval['status'] | 'all'>('pending');
+  const [reviewing, setReviewing] = useState<WorkflowApproval | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: approvals, isLoading } = useQuery({
+    queryKey: ['workflow-approvals', statusFilter],
+    queryFn: () => fetchWorkflowApprovals(statusFilter),
+  });
+
+  const onDecided = () => {
+    setReviewing(null);
+    queryClient.invalidateQueries({ queryKey: ['workflow-approvals'] });
+    queryClient.invalidateQueries({ queryKey: ['workflow-executions'] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: ({ approval, approvedItem, notes }: { approval: WorkflowApproval; approvedItem: WorkflowItem; notes: string }) =>
+      approveWorkflowItem(approval.id, approvedItem, notes, {
+        onNodeComplete: (node) => {
+          if (node.type === 'publisher') {
+            queryClient.invalidateQueries({ queryKey: ['published-articles'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-articles'] });
+          }
+        }
+      }),
+    onSuccess: ({ errors }) => {
+      if (errors.length > 0) {
+        toast.warning(`Approved, but ${errors.length} step(s) failed afterwards. Check the run in Automated Workflows.`);
+      } else {
+        toast.success('Approved. The workflow continued with this item.');
+      }
+    },
+    onError: (error: Error) => toast.error(`Approval failed: ${error.message}`),
+    onSettled: onDecided,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ approval, notes }: { approval: WorkflowApproval; notes: string }) =>
+      rejectWorkflowItem(approval.id, notes),
+    onSuccess: () => toast.success('Rejected. The item will not continue.'),
+    onError: (error: Error) => toast.error(`Rejection failed: ${error.message}`),
+    onSettled: onDecided,
+  });
+
+  const pendingCount = statusFilter === 'pending' ? approvals?.length || 0 : null;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Workflow Approvals</h1>
+          <p className="text-muted-foreground">Items held by approval nodes. Approved items continue through their workflow.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {pendingCount !== null && (
+            <Badge variant="outline" className="text-sm">
+              {pendingCount} Pending Review
+            </Badge>
+          )}
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="all">All Status</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">Loading approvals...</div>
+      ) : (
+        <div className="space-y-4">
+          {approvals?.map((approval) => (
+            <Card key={approval.id} className="hover:shadow-md transition-shadow">
+              <CardContent className="pt-6 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <h3 className="font-semibold text-lg leading-tight">{getApprovalItemTitle(approval.item)}</h3>
+                    <p className="text-sm text-muted-foreground line-clamp-3">{getApprovalItemContent(approval.item)}</p>
+                  </div>
+                  <Badge className={getStatusColor(approval.status)}>{approval.status}</Badge>
+                </div>
+
+                {approval.instructions && approval.status === 'pending' && (
+                  <p className="text-xs rounded bg-amber-50 text-amber-900 p-2">{approval.instructions}</p>
+                )}
+                {approval.review_notes && (
+                  <p className="text-xs text-muted-foreground">Notes: {approval.review_notes}</p>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <Workflow className="w-3 h-3" />
+                      <span>{approval.workflows?.name || 'Unsaved workflow'} → {approval.node_label || 'Approval'}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      <span>{new Date(approval.created_at).toLocaleString()}</span>
+                    </div>
+                    {approval.continued_execution_id && (
+                      <div className="flex items-center gap-1">
+                        <CheckCircle2 className="w-3 h-3" />
+                        <span>Continued</span>
+                      </div>
+                    )}
+                  </div>
+                  {approval.status === 'pending' && (
+                    <Button size="sm" onClick={() => setReviewing(approval)}>
+                      <Eye className="w-4 h-4 mr-1" />
+                      Review
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {!approvals?.length && (
+            <Card>
+              <CardContent className="text-center py-12">
+                <div className="text-muted-foreground">
+                  <UserCheck className="w-12 h-12 mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">Nothing to review</h3>
+                  <p>Items appear here when a workflow run reaches an Approval node.</p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <WorkflowApprovalReviewDialog
+        approval={reviewing}
+        isSubmitting={approveMutation.isPending || rejectMutation.isPending}
+        onOpenChange={(open) => !open && setReviewing(null)}
+        onApprove={(approvedItem, notes) => reviewing && approveMutation.mutate({ approval: reviewing, approvedItem, notes })}
+        onReject={(notes) => reviewing && rejectMutation.mutate({ approval: reviewing, notes })}
+      />
+    </div>
+  );
+};
+
+export default WorkflowApprovalsPage;
@@ -1,286 +1,80 @@
 // src/pages/WorkflowBuilderPage.tsx
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import WorkflowCanvas from '@/components/workflow/WorkflowCanvas';
 import WorkflowSidebar from '@/components/workflow/WorkflowSidebar';
-import { Play, Save, Download, Upload, Square, RefreshCw } from 'lucide-react';
+import WorkflowLibraryDialog from '@/components/workflow/WorkflowLibraryDialog';
+import WorkflowVersionHistoryDialog from '@/components/workflow/WorkflowVersionHistoryDialog';
+import WorkflowTemplateGalleryDialog from '@/components/workflow/WorkflowTemplateGalleryDialog';
+import SaveWorkflowDialog from '@/components/workflow/SaveWorkflowDialog';
+import { Badge } from '@/components/ui/badge';
+import { Play, Save, Download, Upload, Square, RefreshCw, FolderOpen, History, FilePlus, RotateCcw, FlaskConical, LayoutTemplate, Undo2, Redo2, Network } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { WorkflowNode, ExecutionLog } from '@/types/WorkflowTypes';
-import { executeArticleValidation } from '@/components/workflow/ArticleStructureValidator';
+import { runWorkflow } from '@/lib/workflow/engine';
+import { validateWorkflow } from '@/lib/workflow/validation';
+import { WorkflowFixtures, WorkflowRunError, WorkflowRunOptions, WorkflowRunUsage } from '@/lib/workflow/types';
+import { formatCost } from '@/lib/workflow/usage';
+import { WorkflowTemplate } from '@/lib/workflow/templates';
+import { createRecordingRuntime } from '@/lib/workflow/fixtures';
+import { copyNodes, layoutWorkflow, parseWorkflowClipboard, pasteNodes, WorkflowClipboard } from '@/lib/workflow/editing';
+import { createSupabaseRuntime } from '@/lib/workflow/runtime';
+import { createSupabaseSubWorkflowStore } from '@/lib/workflow/subWorkflows';
+import { isWorkflowRunCancelled } from '@/lib/workflow/cancellation';
 import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkflowHistory } from '@/hooks/use-workflow-history';
+import { SavedWorkflow, createWorkflow, saveWorkflowVersion } from '@/services/workflows';
+import { resumeWorkflowExecution, runRecordedWorkflow } from '@/services/workflowExecution';
 
-// --- NEW: Enhanced style playbooks -----------------------------------
-const STYLE_GUIDELINES: Record<string, string> = {
-  Funny: `
-ROLE: You are a witty commentator and expert entertainer. Your primary goal is not just to be funny, but to use humor to make the core message more engaging and memorable.
-
-HUMOR PHILOSOPHY:
-- Relevance is Key: Jokes, analogies, and sarcastic remarks must directly relate to the topic. The humor should illuminate the point, not distract from it.
-- Vary the Format: Mix witty one-liners, playful analogies, light-hearted sarcasm, and funny (but plausible) anecdotes.
-- Punch Up, Not Down: Humor must be inclusive, clever, and good-natured. Strictly avoid jokes that rely on stereotypes, are mean-spirited, or target disadvantaged groups.
-
-STRUCTURE & PACING:
-- Sprinkle humor naturally throughout the text, aiming for 1-2 humorous moments every ~300 words.
-- End the article with a sharp, witty one-liner that summarises the takeaway.
-
-TONE:
-Playful, smart, and slightly irreverent. Emoji are acceptable if they genuinely add to the tone. 😉
-`,
-  Academic: `
-ROLE: You are an academic researcher with a PhD in the relevant field. Your reputation hinges on the credibility, objectivity, and rigour of your work.
-
-THESIS-DRIVEN STRUCTURE:
-- Begin with a clear, arguable thesis statement in the introduction.
-- Develop a logical argument in the body that supports this thesis.
-- Conclude by summarising the argument and restating the thesis.
-
-EVIDENCE & CITATION (CRITICAL RULES):
-- PRIORITISE PROVIDED SOURCES: Base all factual claims on them and cite using APA 7 inline citations.
-- IF NO SOURCES ARE PROVIDED: State that information is synthesised from general knowledge. Generate illustrative, correctly-formatted citations.
-
-TONE & VOICE:
-Formal, objective, and analytical. Avoid hyperbole and emotive language. Write in the third person.
-
-REQUIRED SECTIONS:
-Abstract (120-150 words) • Introduction • Main Body • Conclusion • References
-`,
-  Conversational: `
-ROLE: You are a friendly mentor. Write directly to the reader using "you" and "we." 
-
-ENGAGEMENT:
-- Ask rhetorical questions to guide thinking.
-- Lead sections with short relatable anecdotes.
-
-STRUCTURE:
-- Short paragraphs.
-- Sub-headings that sound like reader questions.
-`,
-  Technical: `
-ROLE: You are a senior software engineer and technical writer. Produce clear, accurate, safe documentation.
-
-PROBLEM-SOLUTION FOCUS:
-- State the problem before presenting code.
-
-CODE QUALITY & SAFETY (CRITICAL RULES):
-- Snippets must be syntactically correct and follow best practices.
-- **CRITICAL:** If a command is destructive (e.g., \`rm -rf\`, \`DROP TABLE\`), add a bold warning and suggest a backup.
-- Include comments in code and specify language tags.
-
-CLARITY & PRECISION:
-- Define acronyms on first use.
-- Use \`backticks\` for inline code; fenced blocks for multi-line snippets.
-
-REQUIRED SECTIONS:
-Prerequisites/Requirements • Key Specs/Configuration • Step-by-step headings
-`,
-  Creative: `
-ROLE: You are a master storyteller weaving a compelling narrative.
-
-NARRATIVE CRAFT:
-- "Show, don't tell" with vivid sensory detail.
-- Opening scene (50-80 words) introduces the central theme.
-- Conclusion must call back to the opening scene.
-
-TONE:
-Evocative, emotive, descriptive.
-`,
-  Investigative: `
-ROLE: You are an investigative journalist committed to factual integrity.
-
-GUARDRAILS:
-- NEVER invent facts, events, quotes, or sources.
-- Attribute every claim with [source] markers.
-- Distinguish fact from analysis clearly.
-
-STRUCTURE:
-- Inverted-pyramid (lede first).
-- Include a timeline box of key events.
-`
-};
-// ---------------------------------------------------------------------
-
-// --- NEW: Enhanced audience playbooks --------------------------------
-const AUDIENCE_GUIDELINES: Record<string, string> = {
-  Beginners: `
-• Avoid jargon; when unavoidable, explain in plain language immediately.
-• Use real-world analogies and step-by-step walkthroughs.
-• Maintain an encouraging, supportive tone that empowers the reader.
-`,
-  Experts: `
-• Assume deep prior knowledge; do **not** re-explain fundamentals.
-• Focus on nuanced details, edge-cases, and performance trade-offs.
-• Include data tables, benchmarks, or citations where relevant.
-`,
-  Students: `
-• Frame explanations as a learning journey.
-• End each major section with a one-sentence summary *in italics*.
-• Add 2–3 self-assessment questions ("Check Your Understanding").
-`,
-  "General readers": `
-• Use clear, everyday language and avoid specialised jargon.
-• Provide broad context before diving into details so anyone can follow.
-• Keep paragraphs short and include real-world examples.
-`,
-  Professionals: `
-• Assume readers work in the field; use correct terminology but skip 101-level explanations.
-• Emphasise actionable insights, best practices, and case studies.
-• Include bullet lists for quick scanning and time-saving charts/tables.
-`,
-  Researchers: `
-• Focus on methodology, data integrity, and replicability.
-• Cite primary literature; include brief discussions of limitations and future work.
-• Present results with figures/tables and statistical context where applicable.
-`,
-  "Business Leaders": `
-• Highlight strategic implications, ROI, and market impact rather than low-level details.
-• Use concise executive summaries and bullet-point key takeaways.
-• Provide real-world examples of business outcomes or case studies.
-`,
-  Practitioners: `
-• Deliver hands-on, step-by-step instructions that can be applied immediately.
-• Include screenshots, diagrams, or checklists where they aid comprehension.
-• Address common pitfalls and troubleshooting tips.
-`,
-  Consumers: `
-• Explain benefits and drawbacks in plain language with no technical jargon.
-• Provide clear, practical advice and usage tips.
-• Include any relevant safety or disclaimer information.
-`,
-  Educators: `
-• Present information in teaching modules with clear learning objectives.
-• Incorporate discussion prompts or classroom activities.
-• Provide references and further-reading suggestions for students.
-`
-};
-// ---------------------------------------------------------------------
-
-// --- NEW: Content-Focus playbooks ------------------------------------
-const CONTENT_FOCUS_GUIDELINES: Record<string, string> = {
-  informative: `
-• Prioritise clarity and breadth of information.
-• Provide definitions, background context, and key facts.
-• Use neutral, objective language.
-`,
-  analytical: `
-• Break down causes, effects, and relationships.
-• Incorporate data, charts, or comparative tables where relevant.
-• Present pros, cons, and nuanced insights rather than simple summaries.
-`,
-  practical: `
-• Focus on step-by-step instructions and actionable advice.
-• Use numbered lists, checklists, or flow-charts to aid implementation.
-• Highlight common pitfalls and troubleshooting tips.
-`,
-  persuasive: `
-• Present a clear stance backed with evidence and logical reasoning.
-• Address potential counter-arguments respectfully.
-• Finish with a strong call-to-action.
-`,
-  balanced: `
-• Provide multiple viewpoints with equal weight.
-• Use neutral language and disclose sources of bias when known.
-• Conclude with a fair synthesis rather than taking a side.
-`,
-  narrative: `
-• Tell the story of the topic through characters, conflict, and resolution.
-• Use chronological or thematic progression to maintain reader engagement.
-• Employ vivid descriptions to create an immersive experience.
-`,
-  comparative: `
-• Lay out two or more options side-by-side in clear categories.
-• Use comparison tables or bullet lists for quick reference.
-• Conclude with guidance on choosing between the options.
-`
-};
-// ---------------------------------------------------------------------
-
-// --- NEW: Tone-of-Voice playbooks ------------------------------------
-const TONE_GUIDELINES: Record<string, string> = {
-  neutral: `
-• Present information objectively without emotional language.
-• Focus on clarity and completeness of facts.
-`,
-  optimistic: `
-• Emphasise positive outcomes, opportunities, and forward-looking statements.
-• Use encouraging language but remain credible.
-`,
-  cautious: `
-• Highlight potential risks and uncertainties.
-• Use careful, measured phrasing (e.g., "may", "could").
-`,
-  confident: `
-• State claims assertively with supporting evidence.
-• Avoid tentative language unless absolutely necessary.
-`,
-  empathetic: `
-• Acknowledge reader concerns or challenges.
-• Use supportive language and inclusive "we" statements.
-`,
-  enthusiastic: `
-• Convey excitement and energy with lively verbs.
-• Keep sentences active and upbeat while avoiding hype.
-`,
-  critical: `
-• Evaluate pros and cons rigorously, pointing out flaws or gaps.
-• Maintain respectful, evidence-based critique.
-`,
-  supportive: `
-• Offer reassurance, practical help, and encouragement.
-• Use positive reinforcement and solution-oriented language.
-`
-};
-// ---------------------------------------------------------------------
-
-// --- NEW: Content-Type playbooks -------------------------------------
-const CONTENT_TYPE_GUIDELINES: Record<string, string> = {
-  article: `
-• Provide an engaging introduction, body with sub-headings, and a clear conclusion.
-• Aim for comprehensive coverage of the topic (depending on word-count target).
-`,
-  summary: `
-• Condense the main ideas into key points or short paragraphs.
-• Highlight only the most relevant facts, omitting minor details.
-`,
-  analysis: `
-• Explain causes, effects, implications, and underlying trends.
-• Support assertions with data, citations, or comparative examples.
-`,
-  "news-report": `
-• Follow the inverted pyramid: who, what, when, where, why first.
-• Keep paragraphs short and stick to verified facts.
-`,
-  tutorial: `
-• Use step-by-step instructions with code, commands, or screenshots.
-• Verify each step works on the stated platform or version.
-`,
-  "blog-post": `
-• Adopt a personable tone; open with a hook or anecdote.
-• Encourage discussion or sharing at the end.
-`,
-  "opinion-piece": `
-• State a clear stance early and support it with evidence.
-• Address counter-arguments respectfully.
-`,
-  "research-report": `
-• Include abstract, methodology, results, discussion, and references.
-• Present data in tables or figures where appropriate.
-`
-};
-// ---------------------------------------------------------------------
+type CurrentWorkflow = Pick<SavedWorkflow, 'id' | 'name' | 'current_version'>;
 
 const WorkflowBuilderPage = () => {
   const queryClient = useQueryClient();
-  const [nodes, setNodes] = useState<WorkflowNode[]>([]);
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const { nodes, setNodes, resetNodes, undo, redo, canUndo, canRedo } = useWorkflowHistory();
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
   const [connectingNodeId, setConnectingNodeId] = useState<string | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionLogs, setExecutionLogs] = useState<ExecutionLog[]>([]);
   const [showLogs, setShowLogs] = useState(false);
+  const { user } = useAuth();
+  const [currentWorkflow, setCurrentWorkflow] = useState<CurrentWorkflow | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSaveAs, setShowSaveAs] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [resumableExecutionId, setResumableExecutionId] = useState<string | null>(null);
+  // Stops the run in progress
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fixturesKey = `workflow-fixtures:${currentWorkflow?.id || 'draft'}`;
+  const [fixtures, setFixtures] = useState<WorkflowFixtures>({});
+
+  // Recorded fixtures are kept per workflow in this browser
+  useEffect(() => {
+    try {
+      setFixtures(JSON.parse(localStorage.getItem(fixturesKey) || '{}'));
+    } catch (error) {
+      console.error('Failed to parse workflow fixtures from localStorage', error);
+      setFixtures({});
+    }
+  }, [fixturesKey]);
+
+  const updateFixtures = (recorded: WorkflowFixtures) => {
+    setFixtures(recorded);
+    try {
+      localStorage.setItem(fixturesKey, JSON.stringify(recorded));
+    } catch (error) {
+      console.error('Failed to store workflow fixtures', error);
+    }
+  };
 
   // Derive selectedNode from nodes array to ensure it's always current
-  const selectedNode = selectedNodeId ? nodes.find(node => node.id === selectedNodeId) || null : null;
+  // The sidebar edits a node only while it is the only one selected
+  const selectedNode = selectedNodeIds.length === 1 ? nodes.find(node => node.id === selectedNodeIds[0]) || null : null;
+  const validationIssues = useMemo(() => validateWorkflow(nodes), [nodes]);
 
   const generateNodeLabel = (type: WorkflowNode['type']) => {
     const labels = {
@@ -293,6 +87,11 @@ const WorkflowBuilderPage = () => {
       'ai-processor': 'AI Processor',
       'multi-source-synthesizer': 'Multi-Source Synthesizer',
       filter: 'Filter',
+      dedupe: 'Dedupe',
+      router: 'Router',
+      aggregate: 'Aggregate',
+      approval: 'Approval',
+      'sub-workflow': 'Sub-workflow',
       publisher: 'Publisher',
       'social-poster': 'Social Poster',
       'email-sender': 'Email Sender',
@@ -308,1462 +107,151 @@ const WorkflowBuilderPage = () => {
     return labels[type];
   };
 
-  const addLog = (nodeId: string, nodeName: string, status: ExecutionLog['status'], message: string, data?: any) => {
+  const addLog = (entry: Omit<ExecutionLog, 'id' | 'timestamp'>) => {
     const log: ExecutionLog = {
+      ...entry,
       id: Date.now().toString(),
-      nodeId,
-      nodeName,
-      status,
-      message,
-      timestamp: new Date(),
-      data
+      timestamp: new Date()
     };
     setExecutionLogs(prev => [...prev, log]);
   };
 
-  // ACTUAL WORKFLOW EXECUTION ENGINE
-  const executeNode = async (node: WorkflowNode, previousData: any = null): Promise<any> => {
-    addLog(node.id, node.label, 'running', `Starting ${node.type} execution...`);
-
-    try {
-      let result: any = null;
-
-      switch (node.type) {
-        case 'trigger':
-          result = { triggered: true, timestamp: new Date().toISOString() };
-          addLog(node.id, node.label, 'completed', 'Workflow triggered successfully');
-          break;
-
-        case 'scraper':
-          if (!node.config.urls || node.config.urls.length === 0) {
-            throw new Error('No URLs configured for web scraper');
-          }
-          
-          const scrapedContent = [];
-          for (const url of node.config.urls) {
-            try {
-              const { data, error } = await supabase.functions.invoke('web-scraper', {
-                body: { url, selector: node.config.selector }
-              });
-              if (error) throw new Error(error.message);
-              scrapedContent.push({ 
-                url, 
-                content: data.content,
-                source_reference: data.source_reference // ✅ This is already working - each scraped item has source_reference
-              });
-              addLog(node.id, node.label, 'completed', `Scraped content from ${url}`);
-            } catch (error) {
-              addLog(node.id, node.label, 'error', `Failed to scrape ${url}: ${error.message}`);
-            }
-          }
-          result = { 
-            scrapedContent, 
-            urls: node.config.urls,
-            // ✅ This is already working - each scraped item has source_reference
-          };
-          break;
-
-        case 'rss-aggregator':
-          if (!node.config.urls || node.config.urls.length === 0) {
-            throw new Error('No RSS URLs configured');
-          }
-          
-          const { data: rssData, error: rssError } = await supabase.functions.invoke('rss-aggregator', {
-            body: { urls: node.config.urls }
-          });
-          if (rssError) throw new Error(rssError.message);
-          
-          result = { articles: rssData.articles };
-          addLog(node.id, node.label, 'completed', `Fetched ${rssData.articles.length} articles from RSS feeds`);
-          break;
-
-        case 'google-scholar-search':
-          if (!node.config.query) {
-            throw new Error('No search query configured');
-          }
-          
-          const { data: scholarData, error: scholarError } = await supabase.functions.invoke('google-scholar-search', {
-            body: {
-              query: node.config.query,
-              maxResults: node.config.maxResults || 20,
-              yearFrom: node.config.yearFrom,
-              yearTo: node.config.yearTo,
-              includeAbstracts: node.config.includeAbstracts,
-              multiplePages: true, // 🔥 Enable multiple page fetching
-              sort: node.config.sort || 'relevance', // New: sort by relevance or date
-              language: node.config.language || 'en', // New: interface language
-              citationsOnly: node.config.citationsOnly || false // New: include only papers with public citations
-            }
-          });
-          if (scholarError) throw new Error(scholarError.message);
-          
-          result = { papers: scholarData.papers };
-          addLog(node.id, node.label, 'completed', `Found ${scholarData.papers.length} academic papers`);
-          break;
-
-        case 'news-discovery':
-          if (!node.config.keywords) {
-            throw new Error('No keywords configured for news discovery');
-          }
-          
-          const { data: newsData, error: newsError } = await supabase.functions.invoke('news-discovery', {
-            body: {
-              keywords: node.config.keywords,
-              source: node.config.source || 'all',
-              timeRange: node.config.timeRange || 'day',
-              maxResults: node.config.maxResults || 10,
-              fromDate: node.config.fromDate, // New: fromDate for date filtering
-              toDate: node.config.toDate // New: toDate for date filtering
-            }
-          });
-          if (newsError) throw new Error(newsError.message);
-          
-          result = { articles: newsData.articles };
-          addLog(node.id, node.label, 'completed', `Discovered ${newsData.articles.length} news articles`);
-          break;
-
-        case 'perplexity-research':
-          if (!node.config.query) {
-            throw new Error('No research query configured');
-          }
-          
-          const { data: researchData, error: researchError } = await supabase.functions.invoke('perplexity-research', {
-            body: {
-              query: node.config.query,
-              depth: node.config.depth || 'medium',
-              includeSources: node.config.includeSources
-            }
-          });
-          if (researchError) throw new Error(researchError.message);
-          
-          result = { 
-            research: researchData.research, 
-            sources: researchData.sources,
-            relatedQuestions: researchData.relatedQuestions
-          };
-          addLog(node.id, node.label, 'completed', `Completed research with ${researchData.sources.length} sources`);
-          break;
-
-
-// Update for WorkflowBuilderPage.tsx - Image Generator case in executeNode function
-
-case 'image-generator':
-  console.log('🎯 IMAGE GENERATOR: Starting execution...');
-  console.log('🎯 IMAGE GENERATOR: Previous data received:', {
-    hasTitle: !!previousData?.title,
-    hasContent: !!previousData?.processedContent || !!previousData?.synthesizedContent,
-    titlePreview: previousData?.title?.substring(0, 50),
-    contentPreview: (previousData?.processedContent || previousData?.synthesizedContent || '')?.substring(0, 100)
-  });
-  console.log('🎯 IMAGE GENERATOR: Node config:', node.config);
-  
-  // Step 1: Build the enhanced image request with ALL available data and user control
-  const imageGenRequest = {
-    // PRIORITY: User's explicit prompt from "Image Prompt" field
-    prompt: node.config.imagePrompt || '',
-    
-    // Pass title and content for context (only used if no explicit prompt)
-    title: previousData?.title || '',
-    content: previousData?.processedContent || previousData?.synthesizedContent || '',
-    
-    // User's additional styling instructions
-    customInstructions: node.config.customInstructions || '',
-    
-    // 🔧 UPDATED: Use the correct AI model names
-    aiModel: node.config.aiModel || 'google-imagen-3', // Default to Google Imagen 3
-    style: node.config.imageStyle || 'natural',
-    size: node.config.imageSize || '1024x1024',
-    quality: node.config.imageQuality || 'medium',
-    
-    // NEW: Force generation of new image (skip cache if user has explicit prompt)
-    forceGenerate: !!(node.config.imagePrompt && node.config.imagePrompt.trim())
-  };
-  
-  console.log('🎯 IMAGE GENERATOR: Sending request with user control:', {
-    hasExplicitPrompt: !!imageGenRequest.prompt,
-    hasTitle: !!imageGenRequest.title,
-    hasContent: !!imageGenRequest.content,
-    hasCustomInstructions: !!imageGenRequest.customInstructions,
-    forceGenerate: imageGenRequest.forceGenerate,
-    aiModel: imageGenRequest.aiModel,
-    promptPreview: imageGenRequest.prompt?.substring(0, 50) || 'No explicit prompt',
-    titlePreview: imageGenRequest.title?.substring(0, 50) || 'No title'
-  });
-  
-  // Determine what will be used for the image
-  let promptSource = '';
-  if (imageGenRequest.prompt) {
-    promptSource = `user prompt: "${imageGenRequest.prompt.substring(0, 50)}..."`;
-  } else if (imageGenRequest.title) {
-    promptSource = `article title: "${imageGenRequest.title.substring(0, 50)}..."`;
-  } else {
-    promptSource = 'fallback prompt';
-  }
-  
-  addLog(node.id, node.label, 'running', 
-    `Generating image using ${promptSource}. Model: ${imageGenRequest.aiModel}. Force new: ${imageGenRequest.forceGenerate}`);
-  
-  // Step 2: Call the improved image generation function
-  const { data: imageData, error: imageError } = await supabase.functions.invoke('image-generator', {
-    body: imageGenRequest
-  });
-  
-  if (imageError) {
-    console.error('🎯 IMAGE GENERATOR: Error from edge function:', imageError);
-    throw new Error(`Image generation failed: ${imageError.message}`);
-  }
-  
-  console.log('🎯 IMAGE GENERATOR: Response from edge function:', imageData);
-  
-  // Step 3: Prepare result data with all information
-  result = { 
-    ...previousData, // Pass through ALL previous data including title and content
-    imageUrl: imageData.imageUrl,
-    imagePrompt: imageData.prompt, // The actual prompt that was used
-    imagePromptSource: promptSource,
-    imageStyle: node.config.imageStyle,
-    imageSize: node.config.imageSize,
-    aiModelUsed: imageGenRequest.aiModel,
-    wasImageReused: imageData.wasReused || false,
-    imageFileName: imageData.fileName || 'unknown',
-    forcedGeneration: imageGenRequest.forceGenerate,
-    wasAIGenerated: imageData.wasAIGenerated || false,
-    generatedWith: imageData.generatedWith || 'Unknown'
-  };
-  
-  // Step 4: Log success with detailed information
-  if (imageData.wasAIGenerated) {
-    addLog(node.id, node.label, 'completed', 
-      `✅ NEW AI image generated with ${imageData.generatedWith}: ${imageData.fileName}. Prompt used: "${imageData.prompt?.substring(0, 100)}..."`);
-    console.log('🎯 IMAGE GENERATOR: ✅ New AI image generated successfully');
-  } else {
-    addLog(node.id, node.label, 'completed', 
-      `⚠️ Placeholder image used (${imageData.generatedWith}): ${imageData.fileName}. AI generation failed.`);
-    console.log('🎯 IMAGE GENERATOR: ⚠️ Fallback to placeholder image');
-  }
-  
-  console.log('🎯 IMAGE GENERATOR: ✅ Final result:', {
-    imageUrl: result.imageUrl,
-    promptUsed: imageData.prompt?.substring(0, 100),
-    fileName: result.imageFileName,
-    title: result.title,
-    wasAIGenerated: result.wasAIGenerated,
-    aiModel: result.aiModelUsed
-  });
-  break;
-          
-        case 'seo-analyzer':
-          // Accept more content fields for SEO analysis
-          const contentToAnalyze =
-            previousData.processedContent ||
-            previousData.synthesizedContent ||
-            previousData.translatedContent ||
-            (Array.isArray(previousData.scrapedContent) ? previousData.scrapedContent.map((item: any) => item.content || '').join('\n\n') : previousData.scrapedContent) ||
-            previousData.content ||
-            '';
-          const titleToAnalyze = previousData.title || 'Untitled';
-          
-          if (!contentToAnalyze || contentToAnalyze.length < 10) {
-            throw new Error('No content to analyze for SEO. Connect this node to content sources.');
-          }
-          addLog(node.id, node.label, 'running', `Analyzing SEO for content (${contentToAnalyze.length} characters)`);
-          const { data: seoData, error: seoError } = await supabase.functions.invoke('seo-analyzer', {
-            body: {
-              content: contentToAnalyze,
-              title: titleToAnalyze,
-              aiModel: node.config.aiModel || 'gemini-2.5-flash-preview-05-20',
-              customInstructions: node.config.customInstructions,
-              targetKeywords: node.config.targetKeywords,
-              analysisFocus: node.config.analysisFocus
-            }
-          });
-          if (seoError) throw new Error(seoError.message);
-          
-          result = { 
-            ...previousData, // 🔥 CRITICAL: Pass through ALL previous data including source_references
-            seoAnalysis: seoData.analysis,
-            seoScore: seoData.analysis.seo_score,
-            seoSuggestions: seoData.analysis.improvements
-            // source_references will be preserved from previousData spread
-          };
-          
-          console.log('SEO Analyzer: Preserved source references:', result.source_references?.length || 0);
-          addLog(node.id, node.label, 'completed', `SEO analysis completed. Score: ${seoData.analysis.seo_score}/100`);
-          break;
-          
-        case 'multi-source-synthesizer':
-          // Enhanced input handling - accept various data formats
-          let sources = [];
-          let allSourceReferences = [];
-          
-          if (previousData) {
-            if (previousData.scrapedContent && Array.isArray(previousData.scrapedContent)) {
-              sources.push(...previousData.scrapedContent.map((item: any) => ({
-                title: item.url || 'Scraped Content',
-                url: item.url || '',
-                content: item.content || ''
-              })));
-              
-              // 🔥 COLLECT SOURCE REFERENCES
-              allSourceReferences.push(...previousData.scrapedContent
-                .map((item: any) => item.source_reference)
-                .filter(ref => ref));
-            }
-            
-            if (previousData.articles && Array.isArray(previousData.articles)) {
-              sources.push(...previousData.articles.map((item: any) => ({
-                title: item.title || 'Article',
-                url: item.link || item.url || '',
-                content: item.description || item.content || item.summary || ''
-              })));
-              
-              // 🔥 COLLECT SOURCE REFERENCES
-              allSourceReferences.push(...previousData.articles
-                .map((item: any) => item.source_reference)
-                .filter(ref => ref));
-            }
-            
-            if (previousData.papers && Array.isArray(previousData.papers)) {
-              sources.push(...previousData.papers.map((item: any) => ({
-                title: item.title || 'Research Paper',
-                url: item.url || '',
-                content: item.abstract || item.content || ''
-              })));
-              
-              // 🔥 COLLECT SOURCE REFERENCES
-              allSourceReferences.push(...previousData.papers
-                .map((item: any) => item.source_reference)
-                .filter(ref => ref));
-            }
-            
-            // Also check for existing source_references
-            if (previousData.source_references && Array.isArray(previousData.source_references)) {
-              allSourceReferences.push(...previousData.source_references);
-            }
-            
-            // Handle research data from Perplexity
-            if (previousData.research) {
-              sources.push({
-                title: 'Research Findings',
-                url: '',
-                content: previousData.research
-              });
-            }
-            
-            // Handle direct content
-            if (previousData.content) {
-              sources.push({
-                title: 'Content',
-                url: '',
-                content: previousData.content
-              });
-            }
-            
-            // Handle string data directly
-            if (typeof previousData === 'string') {
-              sources.push({
-                title: 'Input Content',
-                url: '',
-                content: previousData
-              });
-            }
-          }
-          
-          if (sources.length === 0) {
-            throw new Error('No content sources found. Connect this node to web scrapers, RSS feeds, news discovery, research tools, or other content sources.');
-          }
-          
-          addLog(node.id, node.label, 'running', `Synthesizing content from ${sources.length} sources`);
-          
-          const { data: synthData, error: synthError } = await supabase.functions.invoke('multi-source-synthesizer', {
-            body: {
-              sources,
-              style: node.config.style || 'comprehensive',
-              targetLength: node.config.targetLength || 'medium',
-              maintainAttribution: node.config.maintainAttribution !== false,
-              resolveConflicts: node.config.resolveConflicts !== false,
-              aiModel: node.config.aiModel || 'gemini-2.5-flash-preview-05-20',
-              customInstructions: node.config.customInstructions
-            }
-          });
-          
-          if (synthError) throw new Error(synthError.message);
-          
-          // Remove duplicate source references
-          allSourceReferences = allSourceReferences.filter((ref, index, arr) => 
-            arr.findIndex(r => r.url === ref.url) === index
-          );
-          
-          result = { 
-            synthesizedContent: synthData.synthesizedContent,
-            sourceCount: synthData.sourceCount,
-            style: synthData.style,
-            source_references: allSourceReferences // 🔥 PRESERVE ALL SOURCES
-          };
-          
-          addLog(node.id, node.label, 'completed', 
-            `Synthesized content from ${synthData.sourceCount} sources with ${allSourceReferences.length} source references`);
-          break;
-
-// FIX: Update the AI Processor case in executeNode function
-// The issue is that AI Processor is returning data that triggers another fan-out
-
-case 'ai-processor':
-  try {
-    console.log('AI Processor: Processing content...');
-    
-    // Get the content to process from previous data
-    const contentToProcess = previousData || {};
-    
-    // 🔥 ENHANCED: Extract source references from ALL possible data formats
-    let sourceReferences = [];
-    
-    // Method 1: Direct source_references array (from single item processing)
-    if (contentToProcess.source_references && Array.isArray(contentToProcess.source_references)) {
-      sourceReferences.push(...contentToProcess.source_references);
-      console.log('AI Processor: Found direct source_references:', contentToProcess.source_references.length);
-    }
-    
-    // Method 2: From scraped content array
-    if (contentToProcess.scrapedContent && Array.isArray(contentToProcess.scrapedContent)) {
-      const scrapedRefs = contentToProcess.scrapedContent
-        .map((item: any) => item.source_reference)
-        .filter(ref => ref);
-      sourceReferences.push(...scrapedRefs);
-      console.log('AI Processor: Found scraped source references:', scrapedRefs.length);
-    }
-    
-    // Method 3: From articles array (news, RSS, etc.)
-    if (contentToProcess.articles && Array.isArray(contentToProcess.articles)) {
-      const articleRefs = contentToProcess.articles
-        .map((article: any) => article.source_reference)
-        .filter(ref => ref);
-      sourceReferences.push(...articleRefs);
-      console.log('AI Processor: Found article source references:', articleRefs.length);
-    }
-    
-    // Method 4: From papers array (Google Scholar)
-    if (contentToProcess.papers && Array.isArray(contentToProcess.papers)) {
-      const paperRefs = contentToProcess.papers
-        .map((paper: any) => paper.source_reference)
-        .filter(ref => ref);
-      sourceReferences.push(...paperRefs);
-      console.log('AI Processor: Found paper source references:', paperRefs.length);
-    }
-    
-    // Method 5: Single source reference
-    if (contentToProcess.source_reference) {
-      sourceReferences.push(contentToProcess.source_reference);
-      console.log('AI Processor: Found single source reference');
-    }
-    
-    // Remove duplicates based on URL
-    sourceReferences = sourceReferences.filter((ref, index, arr) => 
-      arr.findIndex(r => r.url === ref.url) === index
-    );
-    
-    console.log('AI Processor: Total unique source references:', sourceReferences.length);
-    
-    // Get ALL configuration from node.config
-    const contentType = node.config.contentType || 'article';
-    const writingStyle = node.config.writingStyle || 'Professional';
-    const targetAudience = node.config.targetAudience || 'General readers';
-    const category = node.config.category || 'General';
-    const customInstructions = node.config.customInstructions || '';
-    const wordCount = node.config.wordCount || 'medium';
-    const contentFocus = node.config.contentFocus || 'balanced';
-    const tone = node.config.tone || 'neutral';
-    const language = node.config.language || 'en';
-    const outputFormat = node.config.outputFormat || 'markdown';
-    const seoOptimized = node.config.seoOptimized !== false;
-    const includeCitations = node.config.includeCitations || false;
-    
-    console.log('AI Processor: Using configuration:', {
-      contentType, writingStyle, targetAudience, wordCount, contentFocus, tone, language
-    });
-    
-    // Extract content from various possible sources
-    let sourceContent = '';
-    if (contentToProcess.articles && Array.isArray(contentToProcess.articles)) {
-      sourceContent = contentToProcess.articles.map((article: any) => 
-        `Title: ${article.title || 'Untitled'}\nContent: ${article.description || article.content || ''}`
-      ).join('\n\n');
-    } else if (contentToProcess.synthesizedContent) {
-      sourceContent = contentToProcess.synthesizedContent;
-    } else if (contentToProcess.research) {
-      sourceContent = contentToProcess.research;
-    } else if (contentToProcess.scrapedContent && Array.isArray(contentToProcess.scrapedContent)) {
-      sourceContent = contentToProcess.scrapedContent.map((item: any) => item.content || '').join('\n\n');
-    } else if (typeof contentToProcess === 'string') {
-      sourceContent = contentToProcess;
-    } else {
-      sourceContent = JSON.stringify(contentToProcess);
-    }
-    
-    // Build word count guidelines
-    const wordCountGuides = {
-      'short': '300-500 words',
-      'medium': '500-800 words', 
-      'long': '800-1200 words',
-      'extended': '1200+ words'
-    };
-    const wordCountGuide = wordCountGuides[wordCount as keyof typeof wordCountGuides] || '500-800 words';
-    
-    // Build enhanced, dynamic prompt using ALL the configuration
-    const enhancedPrompt = `
-You are an expert content writer. Create a ${contentType} based on the following content and specifications.
-
-**CONTENT SPECIFICATIONS:**
-- Content Type: ${contentType}
-- Writing Style: ${writingStyle}
-- Target Audience: ${targetAudience}
-- Content Focus: ${contentFocus}
-- Tone of Voice: ${tone}
-- Target Length: ${wordCountGuide}
-- Language: ${language}
-- Category: ${category}
-${seoOptimized ? '- SEO Optimized: Include SEO-friendly headings and structure' : ''}
-${includeCitations ? '- Include Citations: Add source references where appropriate' : ''}
-
-**CUSTOM INSTRUCTIONS:**
-${customInstructions || 'No additional instructions provided.'}
-
-**CRITICAL FORMATTING RULES:**
-- Start with a clear, engaging title as an H1 heading using # (not ** for bold)
-- Use proper ${outputFormat} formatting: # for main title, ## for sections, ### for subsections
-- NO bold titles (**title**) - only use # Title format
-- Create engaging, well-structured content suitable for publication
-- Include relevant subheadings to organize the content (##, ###)
-- Ensure the content matches the ${writingStyle} writing style
-- Write for ${targetAudience} audience using ${tone} tone
-- Focus on ${contentFocus} approach
-- Use lists, emphasis, and proper paragraph structure
-- The title should be descriptive and engaging, not generic
-- Limit the title to 30-60 characters
-
-**TARGET AUDIENCE GUIDELINES:**
-${AUDIENCE_GUIDELINES[targetAudience] || 'Write for a general audience with clear explanations.'}
-
-**WRITING STYLE GUIDELINES:**
-${STYLE_GUIDELINES[writingStyle] || 'Use professional but accessible language.'}
-
-**CONTENT FOCUS GUIDELINES:**
-${CONTENT_FOCUS_GUIDELINES[contentFocus] || 'Balance information, analysis, and practical insights.'}
-
-**TONE OF VOICE GUIDELINES:**
-${TONE_GUIDELINES[tone] || 'Maintain a consistent, clear tone throughout.'}
-
-**CONTENT TYPE GUIDELINES:**
-${CONTENT_TYPE_GUIDELINES[contentType] || 'Organise the piece according to best practices for this content type.'}
-
-**Source Content to Transform:**
-${sourceContent}
-
-Generate the ${contentType} now following all specifications above:`;
-
-    // Use the configured AI model
-    const agentConfig = {
-      ai_model: node.config.aiModel || 'gemini-2.5-flash-preview-05-20',
-      provider: node.config.aiModel?.startsWith('gemini-') ? 'Google' : 
-               node.config.aiModel?.startsWith('gpt-') ? 'OpenAI' : 
-               node.config.aiModel?.startsWith('claude-') ? 'Anthropic' : 'Google'
-    };
-
-    console.log('AI Processor: Using AI model:', agentConfig.ai_model);
-
-    const { data: aiResult, error: aiError } = await supabase.functions.invoke('run-ai-agent-analysis', {
-      body: { prompt: enhancedPrompt, agentConfig }
-    });
-
-    if (aiError) {
-      throw new Error(`AI processing failed: ${aiError.message}`);
-    }
-
-    let processedContent = aiResult.analysis;
-    
-    // Clean any potential JSON formatting that might have slipped through
-    if (processedContent.includes('```') || processedContent.trim().startsWith('{')) {
-      processedContent = processedContent
-        .replace(/```(?:json|markdown)?\s*/g, '')
-        .replace(/```\s*$/g, '')
-        .trim();
-        
-      if (processedContent.startsWith('{')) {
-        try {
-          const parsed = JSON.parse(processedContent);
-          processedContent = parsed.content || parsed.text || processedContent;
-        } catch (e) {
-          console.log('Could not parse as JSON, using raw content');
-        }
-      }
-    }
-
-    // Ensure content starts with a proper title if it doesn't have one
-    if (!processedContent.trim().startsWith('#')) {
-      const lines = processedContent.split('\n');
-      const firstMeaningfulLine = lines.find(line => line.trim().length > 10) || 'Generated Article';
-      processedContent = `# ${firstMeaningfulLine}\n\n${processedContent}`;
-    }
-
-    // Extract the title from the markdown and remove it from content
-    const titleMatch = processedContent.match(/^#\s+(.+)/m);
-    let extractedTitle = titleMatch ? titleMatch[1].trim() : 'Untitled Article';
-    
-    // Enforce 30-60 character limit
-    if (extractedTitle.length < 30 || extractedTitle.length > 60) {
-      // Instruct AI earlier, but as a safeguard we clamp/extend here
-      if (extractedTitle.length > 60) {
-        extractedTitle = extractedTitle.slice(0, 57).trimEnd() + '…';
-      } else {
-        // Too short: pad with a brief descriptor from category or topic
-        extractedTitle = `${extractedTitle} – ${category}`.slice(0, 60);
-      }
-    }
-    
-    // Remove the title line from content to prevent duplication
-    const contentWithoutTitle = processedContent.replace(/^#\s+.+\n\n?/m, '').trim();
-    
-    console.log('AI Processor: Content generated successfully');
-    console.log('AI Processor: Extracted title:', extractedTitle);
-    console.log('AI Processor: Content preview:', contentWithoutTitle.substring(0, 200));
-    
-    // 🔥 CRITICAL FIX: Return data in the format expected by downstream nodes
-    // DO NOT return articles array - return flat structure
-    result = {
-      // Pass through original data that might be needed
-      ...contentToProcess,
-      
-      // Add the processed content at the top level
-      title: extractedTitle,
-      content: contentWithoutTitle,
-      processedContent: contentWithoutTitle,
-      processedBy: `AI Processor (${agentConfig.ai_model})`,
-      
-      // 🔥 PRESERVE SOURCE REFERENCES
-      source_references: sourceReferences,
-      
-      // Include all the configuration that was used
-      category: category,
-      contentType: contentType,
-      writingStyle: writingStyle,
-      targetAudience: targetAudience,
-      contentFocus: contentFocus,
-      tone: tone,
-      language: language,
-      outputFormat: outputFormat,
-      wordCountTarget: wordCountGuide,
-      seoOptimized: seoOptimized,
-      includeCitations: includeCitations,
-      aiModelUsed: agentConfig.ai_model,
-      
-      // Meta information
-      generatedAt: new Date().toISOString(),
-      configurationUsed: {
-        contentType, writingStyle, targetAudience, category, 
-        wordCount, contentFocus, tone, language, outputFormat
+  const runCallbacks: Pick<WorkflowRunOptions, 'onLog' | 'onNodeComplete'> = {
+    onLog: addLog,
+    onNodeComplete: (node) => {
+      if (node.type === 'publisher') {
+        queryClient.invalidateQueries({ queryKey: ['published-articles'] }); // For Index and ArticlesPage
+        queryClient.invalidateQueries({ queryKey: ['admin-articles'] }); // For AdminPage
+        queryClient.invalidateQueries({ queryKey: ['articles'] }); // Legacy fallback
       }
-    };
-    
-    console.log('AI Processor: Preserved', sourceReferences.length, 'source references');
-    
-    // 🔥 REMOVE: Do NOT include articles array that triggers fan-out
-    // Delete any articles property to prevent another fan-out
-    delete result.articles;
-    
-    console.log('AI Processor: Final result structure:', {
-      hasTitle: !!result.title,
-      hasProcessedContent: !!result.processedContent,
-      hasArticles: !!result.articles, // Should be false
-      resultKeys: Object.keys(result)
-    });
-    
-    addLog(node.id, node.label, 'completed', 
-      `Content processed successfully with title: "${extractedTitle}" using ${writingStyle} style for ${targetAudience} audience (${wordCountGuide})`);
-    break;
-  } catch (error) {
-    console.error('AI Processor error:', error);
-    throw new Error(`AI Processor failed: ${error.message}`);
-  }
-
-case 'publisher':
-  if (!previousData || (!previousData.processedContent && !previousData.synthesizedContent)) {
-    throw new Error('No processed content to publish. Connect this node to an AI Processor that generates structured content.');
-  }
-  
-  const contentToPublish = previousData.processedContent || previousData.synthesizedContent;
-  const titleToPublish = previousData.title || 'Untitled Article';
-  
-  // Get image URL from previous nodes (Image Generator)
-  const articleImageUrl = previousData.imageUrl || null;
-  
-  // 🔥 CRITICAL: Extract source references from previous data
-  const sourceReferences = previousData.source_references || [];
-  
-  console.log('Publisher: Publishing with', sourceReferences.length, 'source references');
-  
-  // Use English slug if available (from translator), otherwise create one
-  let slugToUse = '';
-  if (previousData.englishSlug) {
-    slugToUse = previousData.englishSlug;
-  } else {
-    slugToUse = titleToPublish
-      .toLowerCase()
-      .replace(/[^a-z0-9\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '')
-      .trim();
-  }
-  
-  addLog(node.id, node.label, 'running', 
-    `Publishing article: "${titleToPublish}" with slug: ${slugToUse}${articleImageUrl ? ' (with featured image)' : ''} and ${sourceReferences.length} sources`);
-  
-  const formattedContent = {
-    title: titleToPublish,
-    content: contentToPublish,
-    slug: slugToUse,
-    image_url: articleImageUrl,
-    isRTL: previousData.isRTL || false,
-    targetLanguage: previousData.targetLanguage || 'en'
-  };
-  
-  // 🔥 CRITICAL: Pass source references to create-article-from-ai function
-  const { data: publishResult, error: publishError } = await supabase.functions.invoke('create-article-from-ai', {
-    body: {
-      content: JSON.stringify(formattedContent),
-      category: node.config.category || previousData.category || 'AI Generated',
-      provider: previousData.aiModel || 'AI Processor',
-      status: node.config.status || 'draft',
-      reporterId: node.config.reporterId,
-      source_references: sourceReferences // 🔥 ADD THIS LINE
     }
-  });
-
-  if (publishError) throw new Error(publishError.message);
-  
-  // 🔥 CRITICAL: Invalidate the correct query caches
-  queryClient.invalidateQueries({ queryKey: ['published-articles'] }); // For Index and ArticlesPage
-  queryClient.invalidateQueries({ queryKey: ['admin-articles'] }); // For AdminPage
-  queryClient.invalidateQueries({ queryKey: ['articles'] }); // Legacy fallback
-  
-  result = { 
-    articleId: publishResult.article.id,
-    title: publishResult.article.title,
-    slug: publishResult.article.slug,
-    status: publishResult.article.status,
-    imageUrl: articleImageUrl,
-    url: `/articles/${publishResult.article.slug}`,
-    source_references: sourceReferences
   };
-  
-  addLog(node.id, node.label, 'completed', 
-    `Article published: "${publishResult.article.title}" (${publishResult.article.status}) - Cache invalidated`);
-  break;
-
-// FIND AND COMPLETELY REPLACE the existing 'translator' case in your executeNode function
-// Remove ALL existing translator code and replace with this:
 
-case 'translator':
-  console.log('🌍 TRANSLATOR: =============== STARTING EXECUTION ===============');
-  console.log('🌍 TRANSLATOR: Previous data received:', {
-    dataType: typeof previousData,
-    isNull: previousData === null,
-    isUndefined: previousData === undefined,
-    dataKeys: previousData ? Object.keys(previousData) : [],
-    hasProcessedContent: !!previousData?.processedContent,
-    hasSynthesizedContent: !!previousData?.synthesizedContent,
-    hasContent: !!previousData?.content,
-    hasTitle: !!previousData?.title,
-    hasArticles: !!previousData?.articles,
-    processedContentType: typeof previousData?.processedContent,
-    processedContentLength: previousData?.processedContent?.length || 0,
-    titleType: typeof previousData?.title,
-    titleLength: previousData?.title?.length || 0,
-    fullDataDump: JSON.stringify(previousData, null, 2)
-  });
-  
-  if (!previousData) {
-    console.error('🌍 TRANSLATOR: ❌ previousData is null/undefined');
-    throw new Error('No data received by translator. Connect this node to a content source.');
-  }
-  
-  // Try to get content from multiple possible sources
-  const translatorContentToTranslate = previousData.processedContent || 
-                            previousData.synthesizedContent || 
-                            previousData.content ||
-                            '';
-  
-  const translatorTitleToTranslate = previousData.title || '';
-  
-  console.log('🌍 TRANSLATOR: Content analysis:', {
-    contentToTranslate_exists: !!translatorContentToTranslate,
-    contentToTranslate_length: translatorContentToTranslate.length,
-    contentToTranslate_type: typeof translatorContentToTranslate,
-    contentToTranslate_preview: translatorContentToTranslate.substring(0, 200),
-    titleToTranslate_exists: !!translatorTitleToTranslate,
-    titleToTranslate_length: translatorTitleToTranslate.length,
-    titleToTranslate_preview: translatorTitleToTranslate
-  });
-  
-  if (!translatorContentToTranslate && !translatorTitleToTranslate) {
-    console.error('🌍 TRANSLATOR: ❌ No valid content or title found');
-    console.error('🌍 TRANSLATOR: Available data:', {
-      processedContent: previousData.processedContent,
-      synthesizedContent: previousData.synthesizedContent,
-      content: previousData.content,
-      title: previousData.title,
-      allKeys: Object.keys(previousData)
-    });
-    throw new Error('No content found to translate. Available data: ' + Object.keys(previousData).join(', '));
-  }
-  
-  const translatorTargetLanguage = node.config.targetLanguage || 'he'; // Default to Hebrew
-  const translatorProvider = node.config.provider || 'google';
-  
-  console.log('🌍 TRANSLATOR: Translation configuration:', {
-    targetLanguage: translatorTargetLanguage,
-    provider: translatorProvider,
-    nodeConfig: node.config
-  });
-  
-  addLog(node.id, node.label, 'running', `Translating to ${translatorTargetLanguage} using ${translatorProvider}. Content: ${translatorContentToTranslate.length} chars, Title: ${translatorTitleToTranslate.length} chars`);
-  
-  let translatorTranslatedContent = translatorContentToTranslate;
-  let translatorTranslatedTitle = translatorTitleToTranslate;
-  
-  // Translate content if it exists
-  if (translatorContentToTranslate && translatorContentToTranslate.length > 0) {
-    console.log('🌍 TRANSLATOR: 📞 Calling translator edge function for content...');
-    console.log('🌍 TRANSLATOR: Request payload:', {
-      content: translatorContentToTranslate.substring(0, 100) + '...',
-      targetLanguage: translatorTargetLanguage,
-      provider: translatorProvider,
-      contentLength: translatorContentToTranslate.length
+  const logUsage = (usage?: WorkflowRunUsage) => {
+    if (!usage || usage.calls === 0) return;
+    addLog({
+      nodeId: 'usage',
+      nodeName: 'AI Usage',
+      status: 'completed',
+      message: `${usage.calls} AI call(s), ${usage.inputTokens} input / ${usage.outputTokens} output tokens, ${formatCost(usage.costUsd)}`
     });
-    
-    try {
-      const { data: contentTranslation, error: contentError } = await supabase.functions.invoke('translator', {
-        body: {
-          content: translatorContentToTranslate,
-          targetLanguage: translatorTargetLanguage,
-          provider: translatorProvider
-        }
-      });
-      
-      console.log('🌍 TRANSLATOR: Content translation response:', {
-        hasData: !!contentTranslation,
-        hasError: !!contentError,
-        error: contentError,
-        dataKeys: contentTranslation ? Object.keys(contentTranslation) : [],
-        translatedLength: contentTranslation?.content?.length || 0,
-        translatedPreview: contentTranslation?.content?.substring(0, 100)
-      });
-      
-      if (contentError) {
-        console.error('🌍 TRANSLATOR: ❌ Content translation failed:', contentError);
-        throw new Error(`Content translation failed: ${contentError.message}`);
-      }
-      
-      if (!contentTranslation?.content) {
-        console.error('🌍 TRANSLATOR: ❌ Translation response missing content:', contentTranslation);
-        throw new Error('Translation service returned empty content');
-      }
-      
-      translatorTranslatedContent = contentTranslation.content;
-      console.log('🌍 TRANSLATOR: ✅ Content translation successful');
-      
-    } catch (err) {
-      console.error('🌍 TRANSLATOR: ❌ Content translation error:', err);
-      throw new Error(`Content translation failed: ${err.message}`);
-    }
-  }
-  
-  // Translate title if it exists
-  if (translatorTitleToTranslate && translatorTitleToTranslate.length > 0) {
-    console.log('🌍 TRANSLATOR: 📞 Calling translator edge function for title...');
-    
-    try {
-      const { data: titleTranslation, error: titleError } = await supabase.functions.invoke('translator', {
-        body: {
-          content: translatorTitleToTranslate,
-          targetLanguage: translatorTargetLanguage,
-          provider: translatorProvider
-        }
-      });
-      
-      console.log('🌍 TRANSLATOR: Title translation response:', {
-        hasData: !!titleTranslation,
-        hasError: !!titleError,
-        error: titleError,
-        translatedTitle: titleTranslation?.content
-      });
-      
-      if (titleError) {
-        console.warn('🌍 TRANSLATOR: ⚠️ Title translation failed, using original:', titleError);
-        translatorTranslatedTitle = translatorTitleToTranslate;
-      } else if (titleTranslation?.content) {
-        translatorTranslatedTitle = titleTranslation.content;
-        console.log('🌍 TRANSLATOR: ✅ Title translation successful');
-      } else {
-        console.warn('🌍 TRANSLATOR: ⚠️ Title translation returned empty, using original');
-        translatorTranslatedTitle = translatorTitleToTranslate;
-      }
-      
-    } catch (err) {
-      console.warn('🌍 TRANSLATOR: ⚠️ Title translation error, using original:', err);
-      translatorTranslatedTitle = translatorTitleToTranslate;
-    }
-  }
-  
-  // Create English slug from ORIGINAL title
-  const translatorEnglishSlugBase = previousData.title || translatorTitleToTranslate || 'translated-article';
-  let translatorEnglishSlug = translatorEnglishSlugBase
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .replace(/^-|-$/g, '')
-    .trim();
-  
-  if (!translatorEnglishSlug || translatorEnglishSlug.length < 3) {
-    const timestamp = Date.now().toString().slice(-6);
-    translatorEnglishSlug = `${translatorTargetLanguage}-article-${timestamp}`;
-  }
-  
-  // Detect RTL languages
-  const translatorRtlLanguages = ['he', 'ar', 'fa', 'ur'];
-  const translatorIsRTL = translatorRtlLanguages.includes(translatorTargetLanguage || '');
-  
-  result = { 
-    title: translatorTranslatedTitle,
-    processedContent: translatorTranslatedContent,
-    translatedContent: translatorTranslatedContent,
-    translatedTitle: translatorTranslatedTitle,
-    englishSlug: translatorEnglishSlug,
-    targetLanguage: translatorTargetLanguage,
-    isRTL: translatorIsRTL,
-    originalContent: translatorContentToTranslate,
-    originalTitle: translatorTitleToTranslate,
-    category: previousData.category,
-    aiModel: previousData.aiModel,
-    imageUrl: previousData.imageUrl,
-    seoAnalysis: previousData.seoAnalysis,
-    source_references: previousData.source_references || [] // 🔥 PRESERVE SOURCES
   };
-  
-  console.log('Translator: Preserved', result.source_references?.length || 0, 'source references');
-  
-  console.log('🌍 TRANSLATOR: =============== FINAL RESULT ===============');
-  console.log('🌍 TRANSLATOR: Final result:', {
-    hasTranslatedTitle: !!result.title,
-    hasTranslatedContent: !!result.translatedContent,
-    titleLength: result.title?.length || 0,
-    contentLength: result.translatedContent?.length || 0,
-    slug: result.englishSlug,
-    isRTL: result.isRTL,
-    targetLanguage: result.targetLanguage,
-    resultKeys: Object.keys(result)
-  });
-  
-  addLog(node.id, node.label, 'completed', `✅ Translated to ${translatorTargetLanguage}. Title: "${translatorTranslatedTitle.substring(0, 50)}..." (${translatorTranslatedContent.length} chars)`);
-  console.log('🌍 TRANSLATOR: =============== EXECUTION COMPLETE ===============');
-  break;
-          
-        case 'article-structure-validator':
-          if (!previousData || (!previousData.processedContent && !previousData.synthesizedContent)) {
-            throw new Error('No content to validate. Connect this node to a content processor.');
-          }
-          
-          const validationResult = await executeArticleValidation(node, previousData);
-          
-          result = {
-            ...previousData, // Pass through original data
-            validation: validationResult,
-            qualityScore: validationResult.score,
-            isValid: validationResult.isValid
-          };
-          
-          const scoreColor = validationResult.score >= 80 ? 'excellent' : 
-                           validationResult.score >= 60 ? 'good' : 'needs improvement';
-          
-          addLog(node.id, node.label, validationResult.isValid ? 'completed' : 'error', 
-            `Article validation ${scoreColor} (${validationResult.score}/100). ${validationResult.issues.length} issues found.`);
-          
-          // Log specific issues if any
-          if (validationResult.issues.length > 0) {
-            validationResult.issues.forEach(issue => {
-              addLog(node.id, node.label, 'error', `Issue: ${issue}`);
-            });
-          }
-          
-          break;
-
-        default:
-          // For nodes without implementations, just pass through the data
-          result = previousData || { message: `${node.type} node executed (placeholder)` };
-          addLog(node.id, node.label, 'completed', `${node.type} executed (no specific implementation yet)`);
-          break;
-      }
-
-      return result;
-    } catch (error) {
-      addLog(node.id, node.label, 'error', `Error: ${error.message}`);
-      throw error;
-    }
-  };
-
-  const executeWorkflow = async () => {
-    if (nodes.length === 0) {
-      toast.error('Add some nodes to run the workflow');
-      return;
-    }
-
-    const triggerNodes = nodes.filter(node => node.type === 'trigger');
-    if (triggerNodes.length === 0) {
-      toast.error('Add a trigger node to start the workflow');
-      return;
-    }
 
+  // Runs of saved workflows are recorded with checkpoints, so a failed run can be resumed
+  const trackRun = async (
+    run: (signal: AbortSignal) => Promise<{ errors: WorkflowRunError[]; awaitingApproval?: number; executionId?: string; usage?: WorkflowRunUsage }>,
+    successMessage = 'Workflow execution completed!'
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsExecuting(true);
     setExecutionLogs([]);
     setShowLogs(true);
-    
+    setResumableExecutionId(null);
+
     try {
-      // Start with trigger nodes
-      for (const triggerNode of triggerNodes) {
-        let currentData = await executeNode(triggerNode);
-        
-        // Execute connected nodes in sequence
-        await executeConnectedNodes(triggerNode, currentData);
+      const { errors, awaitingApproval, executionId, usage } = await run(controller.signal);
+      logUsage(usage);
+
+      if (errors.length > 0) {
+        setResumableExecutionId(executionId || null);
+        toast.warning(`Workflow finished with ${errors.length} failed step(s). Check the logs for details.`);
+      } else if (awaitingApproval > 0) {
+        toast.info(`Workflow paused: ${awaitingApproval} item(s) are waiting on the Workflow Approvals page.`);
+      } else {
+        toast.success(successMessage);
       }
-      
-      toast.success('Workflow execution completed!');
     } catch (error) {
-      toast.error(`Workflow execution failed: ${error.message}`);
+      logUsage(error.usage);
+      setResumableExecutionId(error.executionId || null);
+      if (isWorkflowRunCancelled(error)) {
+        toast.info('Workflow execution stopped');
+      } else {
+        toast.error(`Workflow execution failed: ${error.message}`);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsExecuting(false);
+      queryClient.invalidateQueries({ queryKey: ['workflow-executions'] });
     }
   };
 
-  // 🔥 ================================================================== 🔥
-  // 🔥                    NEW, GENERALIZED FAN-OUT ENGINE                 🔥
-  // 🔥 ================================================================== 🔥
-// Fixed executeConnectedNodes function in WorkflowBuilderPage.tsx
-
-// FIXED VERSION: Replace executeConnectedNodes and helper functions
-// This version processes ALL items in fan-out scenarios
-
-const executeConnectedNodes = async (currentNode: WorkflowNode, data: any) => {
-  console.log(`🔄 EXECUTE CONNECTED NODES: ${currentNode.label} with ${currentNode.connected.length} connections`);
-  console.log(`🔄 Data:`, {
-    dataKeys: data ? Object.keys(data) : [],
-    hasScrapedContent: !!data?.scrapedContent,
-    scrapedContentCount: data?.scrapedContent?.length || 0,
-    hasArticles: !!data?.articles,
-    articlesCount: data?.articles?.length || 0,
-    hasPapers: !!data?.papers,
-    papersCount: data?.papers?.length || 0
-  });
-
-  if (currentNode.connected.length === 0) {
-    console.log(`🔄 No connections for ${currentNode.label}, stopping`);
-    return;
-  }
-
-  // Determine if we need to fan out
-  let itemsToProcess: any[] | null = null;
-  
-  if (data?.scrapedContent && Array.isArray(data.scrapedContent) && data.scrapedContent.length > 0) {
-    itemsToProcess = data.scrapedContent;
-  } else if (data?.articles && Array.isArray(data.articles) && data.articles.length > 0) {
-    itemsToProcess = data.articles;
-  } else if (data?.papers && Array.isArray(data.papers) && data.papers.length > 0) {
-    itemsToProcess = data.papers;
-  }
-
-  if (itemsToProcess && itemsToProcess.length > 0) {
-    console.log(`🔄 FAN-OUT MODE: Processing ${itemsToProcess.length} items`);
-    await handleFanOut(currentNode, data, itemsToProcess);
-  } else {
-    console.log(`🔄 LINEAR MODE: Processing single data object`);
-    await handleLinearChain(currentNode, data);
-  }
-};
-
-// Handle fan-out scenario - Process EACH item through ALL connected nodes
-const handleFanOut = async (currentNode: WorkflowNode, originalData: any, itemsToProcess: any[]) => {
-  // Apply any filtering based on node type
-  let processedItems = itemsToProcess;
-  
-  if (currentNode.type === 'news-discovery') {
-    processedItems = itemsToProcess.slice(0, 2);
-    addLog(currentNode.id, currentNode.label, 'completed', `Fan-out: Found ${itemsToProcess.length} articles. Processing the top ${processedItems.length}.`);
-  } else if (currentNode.type === 'google-scholar-search') {
-    const maxPapers = currentNode.config.maxPapers || 5;
-    processedItems = itemsToProcess.slice(0, maxPapers);
-    addLog(currentNode.id, currentNode.label, 'completed', `Fan-out: Found ${itemsToProcess.length} papers. Processing top ${processedItems.length} papers.`);
-  } else {
-    addLog(currentNode.id, currentNode.label, 'completed', `Fan-out: Found ${itemsToProcess.length} items. Processing each individually.`);
-  }
-
-  console.log(`🔄 Fan-out: Will process ${processedItems.length} items through ${currentNode.connected.length} connected nodes`);
-
-  // 🔥 CRITICAL: Process EACH item through ALL connected nodes (not just the first one)
-  for (let i = 0; i < processedItems.length; i++) {
-    const item = processedItems[i];
-    const branchLogId = `${currentNode.id}-branch-${i + 1}`;
-    
-    addLog(branchLogId, `Branch ${i + 1}/${processedItems.length}`, 'running', 
-      `Starting branch for: "${(item.title || item.url || 'Untitled').substring(0, 50)}..."`);
-
-    try {
-      // 🔥 CRITICAL: Package the single item with its source reference
-      let itemData: any;
-      
-      if (originalData.scrapedContent) {
-        itemData = {
-          articles: [{
-            title: item.url || 'Scraped Content',
-            content: item.content,
-            url: item.url
-          }],
-          // 🔥 PRESERVE SOURCE REFERENCE
-          source_references: [item.source_reference].filter(ref => ref)
-        };
-      } else if (originalData.articles) {
-        itemData = { 
-          articles: [item],
-          // 🔥 PRESERVE SOURCE REFERENCE
-          source_references: [item.source_reference].filter(ref => ref)
-        };
-      } else if (originalData.papers) {
-        itemData = {
-          articles: [{
-            title: item.title,
-            content: item.abstract,
-            url: item.url,
-            authors: item.authors,
-            year: item.year
-          }],
-          // 🔥 PRESERVE SOURCE REFERENCE
-          source_references: [item.source_reference].filter(ref => ref)
-        };
-      } else {
-        itemData = { 
-          articles: [item],
-          source_references: [item.source_reference].filter(ref => ref)
-        };
-      }
-
-      console.log(`🔄 Initial data for branch ${i + 1}:`, {
-        hasArticles: !!itemData.articles,
-        sourceReferencesCount: itemData.source_references?.length || 0,
-        dataKeys: Object.keys(itemData)
-      });
-
-      console.log(`🔄 Processing item ${i + 1}/${processedItems.length}:`, {
-        itemTitle: item.title || item.url || 'Untitled',
-        itemDataKeys: Object.keys(itemData)
-      });
-
-      // 🔥 FIXED: Process this item through ALL connected nodes (not just the first one)
-      await processItemThroughAllConnections(currentNode, itemData, branchLogId, i + 1, processedItems.length);
-      
-      addLog(branchLogId, `Branch ${i + 1}/${processedItems.length}`, 'completed', 
-        `Finished branch for: "${(item.title || item.url || 'Untitled').substring(0, 50)}..."`);
-        
-    } catch (error: any) {
-      console.error(`❌ Error in branch ${i + 1}:`, error);
-      addLog(branchLogId, `Branch ${i + 1} - Error`, 'error', `Error in branch: ${error.message}`);
+  const canRun = () => {
+    if (nodes.length === 0) {
+      toast.error('Add some nodes to run the workflow');
+      return false;
     }
-  }
-};
 
-// Process a single item through ALL connected nodes
-const processItemThroughAllConnections = async (
-  startNode: WorkflowNode, 
-  initialData: any, 
-  logId: string, 
-  itemIndex: number, 
-  totalItems: number
-) => {
-  let currentData = initialData;
-  
-  console.log(`🔄 ITEM ${itemIndex}/${totalItems}: Processing through ${startNode.connected.length} connections`);
-
-  // 🔥 CRITICAL: Process ALL connected nodes for this item
-  for (let connectionIndex = 0; connectionIndex < startNode.connected.length; connectionIndex++) {
-    const connectedNodeId = startNode.connected[connectionIndex];
-    const connectedNode = nodes.find(n => n.id === connectedNodeId);
-    
-    if (!connectedNode) {
-      console.error(`❌ Connected node not found: ${connectedNodeId}`);
-      continue;
+    const validationErrors = validationIssues.filter(issue => issue.severity === 'error');
+    if (validationErrors.length > 0) {
+      toast.error(validationErrors.length === 1
+        ? validationErrors[0].message
+        : `Fix ${validationErrors.length} problems highlighted on the canvas before running`);
+      return false;
     }
+    return true;
+  };
 
-    console.log(`🔄 ITEM ${itemIndex}: Processing connection ${connectionIndex + 1}/${startNode.connected.length}: ${connectedNode.label}`);
-    console.log(`🔄 Data being passed to ${connectedNode.label}:`, {
-      hasTitle: !!currentData.title,
-      hasContent: !!currentData.content,
-      hasProcessedContent: !!currentData.processedContent,
-      hasTranslatedContent: !!currentData.translatedContent,
-      dataKeys: Object.keys(currentData)
-    });
+  const executeWorkflow = async () => {
+    if (!canRun()) return;
 
-    try {
-      // 🔥 AUTO AI PROCESSOR: Only for direct publisher connections without processed content
-      if (
-        connectedNode.type === 'publisher' &&
-        (!currentData.processedContent && !currentData.synthesizedContent && !currentData.translatedContent) &&
-        (!currentData.articles?.[0]?.processedContent && !currentData.articles?.[0]?.synthesizedContent)
-      ) {
-        console.log('🤖 Auto-inserting AI Processor before Publisher');
-        
-        const tempAIProcessorNode: WorkflowNode = {
-          ...connectedNode,
-          id: `${connectedNode.id}-auto-ai-processor`,
-          type: 'ai-processor',
-          label: 'Auto AI Processor',
-          config: {
-            writingStyle: 'Professional',
-            targetAudience: 'General readers',
-            contentType: 'article',
-          },
-          connected: [],
-        };
+    // Real responses are kept as fixtures for later dry runs
+    const recorded: WorkflowFixtures = { ...fixtures };
+    const runtime = createRecordingRuntime(createSupabaseRuntime(supabase), recorded);
 
-        const aiProcessed = await executeNode(tempAIProcessorNode, currentData);
-        const publisherResult = await executeNode(connectedNode, aiProcessed);
-        currentData = publisherResult;
-        
-      } else {
-        // 🔥 NORMAL EXECUTION: Execute the connected node
-        const result = await executeNode(connectedNode, currentData);
-        
-        console.log(`🔄 ITEM ${itemIndex}: ${connectedNode.label} completed:`, {
-          hasTitle: !!result.title,
-          hasProcessedContent: !!result.processedContent,
-          hasTranslatedContent: !!result.translatedContent,
-          resultKeys: Object.keys(result)
-        });
-        
-        // 🔥 CRITICAL: Update current data for next node in the chain
-        currentData = result;
-        
-        // 🔥 IMPORTANT: Recursively process this node's connections
-        if (connectedNode.connected.length > 0) {
-          console.log(`🔄 ITEM ${itemIndex}: ${connectedNode.label} has connections, processing recursively...`);
-          await executeConnectedNodes(connectedNode, currentData);
+    await trackRun(async (signal) => {
+      try {
+        if (!currentWorkflow) {
+          // Unsaved runs are not recorded, and neither are the workflows they call
+          return await runWorkflow(nodes, { ...runCallbacks, runtime, signal, subWorkflows: createSupabaseSubWorkflowStore(supabase) });
         }
+        const { errors, awaitingApproval, usage, execution } = await runRecordedWorkflow({ ...runCallbacks, runtime, signal, nodes, workflowId: currentWorkflow.id });
+        return { errors, awaitingApproval, usage, executionId: execution.id };
+      } finally {
+        updateFixtures(recorded);
       }
-      
-    } catch (error: any) {
-      console.error(`❌ Error in ${connectedNode.label} for item ${itemIndex}:`, error);
-      addLog(logId, `Item ${itemIndex} - ${connectedNode.label}`, 'error', `Error: ${error.message}`);
-      // Stop processing this item's chain on error
-      break;
-    }
-  }
-  
-  console.log(`✅ ITEM ${itemIndex}/${totalItems}: Completed processing`);
-};
-
-// Handle linear chain scenario (when we have single data to process)
-const handleLinearChain = async (currentNode: WorkflowNode, data: any) => {
-  let currentData = data;
-  
-  console.log(`🔄 LINEAR CHAIN: Processing ${currentNode.connected.length} connections`);
-  
-  // Process each connected node in sequence
-  for (let i = 0; i < currentNode.connected.length; i++) {
-    const connectedNodeId = currentNode.connected[i];
-    const connectedNode = nodes.find(n => n.id === connectedNodeId);
-    
-    if (!connectedNode) {
-      console.error(`❌ Connected node not found: ${connectedNodeId}`);
-      continue;
-    }
-
-    console.log(`🔄 LINEAR: Processing ${i + 1}/${currentNode.connected.length}: ${connectedNode.label}`);
-    
-    try {
-      const result = await executeNode(connectedNode, currentData);
-      currentData = result;
-      
-      // Recursively process this node's connections
-      if (connectedNode.connected.length > 0) {
-        await executeConnectedNodes(connectedNode, currentData);
-      }
-      
-    } catch (error: any) {
-      console.error(`❌ Error in linear chain at ${connectedNode.label}:`, error);
-      addLog(currentNode.id, `Linear - ${connectedNode.label}`, 'error', `Error: ${error.message}`);
-      break;
-    }
-  }
-};
-
-// COMPLETELY REPLACE the processSingleItem function in WorkflowBuilderPage.tsx
-
-const processSingleItem = async (
-  item: any, 
-  itemsToProcess: any[], 
-  data: any, 
-  currentNode: WorkflowNode, 
-  branchLogId: string, 
-  itemIndex: number, 
-  totalItems: number
-) => {
-  console.log(`🔄 PROCESSING SINGLE ITEM - Branch ${itemIndex + 1}/${totalItems}`);
-  console.log(`🔄 Current node: ${currentNode.label}, Connected nodes: ${currentNode.connected.length}`);
-  console.log(`🔄 Connected node IDs:`, currentNode.connected);
-  
-  // Package the single item correctly for the FIRST node in the chain
-  let currentData: any;
-  
-  if (itemsToProcess === data.papers) {
-    currentData = { 
-      articles: [{
-        title: item.title,
-        description: item.abstract,
-        content: item.abstract,
-        url: item.url,
-        authors: item.authors,
-        year: item.year,
-        citations: item.citations,
-        venue: item.venue
-      }]
-    };
-  } else if (itemsToProcess === data.scrapedContent) {
-    currentData = { 
-      articles: [{
-        title: item.url || 'Scraped Content',
-        description: item.content,
-        content: item.content,
-        url: item.url
-      }]
-    };
-  } else if (itemsToProcess === data.sources) {
-    currentData = { 
-      articles: [{
-        title: item.title || 'Research Source',
-        description: item.content,
-        content: item.content,
-        url: item.url
-      }]
-    };
-  } else {
-    currentData = { articles: [item] };
-  }
-
-  console.log(`🔄 Initial data for branch ${itemIndex + 1}:`, {
-    hasArticles: !!currentData.articles,
-    dataKeys: Object.keys(currentData),
-    firstArticleKeys: currentData.articles?.[0] ? Object.keys(currentData.articles[0]) : []
-  });
-
-  // 🔥 CRITICAL FIX: Process ALL connected nodes in SEQUENCE
-  if (currentNode.connected.length === 0) {
-    console.log(`🔄 No connected nodes for ${currentNode.label}, ending branch`);
-    addLog(branchLogId, `Branch ${itemIndex + 1}/${totalItems}`, 'completed', `Finished branch (no connections): "${(item.title || 'Untitled').substring(0, 50)}..."`);
-    return;
-  }
-
-  // Process each connected node in sequence, passing data through the chain
-  for (let nodeIndex = 0; nodeIndex < currentNode.connected.length; nodeIndex++) {
-    const connectedNodeId = currentNode.connected[nodeIndex];
-    const connectedNode = nodes.find(n => n.id === connectedNodeId);
-    
-    if (!connectedNode) {
-      console.error(`🔄 Connected node not found: ${connectedNodeId}`);
-      continue;
-    }
+    });
+  };
 
-    try {
-      console.log(`🔄 Processing connected node ${nodeIndex + 1}/${currentNode.connected.length}: ${connectedNode.label}`);
-      console.log(`🔄 Data being sent to ${connectedNode.label}:`, {
-        hasProcessedContent: !!currentData.processedContent,
-        hasTitle: !!currentData.title,
-        hasContent: !!currentData.content,
-        hasArticles: !!currentData.articles,
-        dataKeys: Object.keys(currentData),
-        dataPreview: JSON.stringify(currentData, null, 2).substring(0, 200)
+  const dryRunWorkflow = async () => {
+    if (!canRun()) return;
+
+    const recordedCount = Object.keys(fixtures).length;
+    await trackRun(async (signal) => {
+      const result = await runWorkflow(nodes, {
+        ...runCallbacks,
+        runtime: createSupabaseRuntime(supabase),
+        signal,
+        dryRun: true,
+        fixtures,
+        workflowId: currentWorkflow?.id,
+        subWorkflows: createSupabaseSubWorkflowStore(supabase)
+      });
+      addLog({
+        nodeId: 'dry-run',
+        nodeName: 'Dry Run',
+        status: 'completed',
+        message: recordedCount > 0
+          ? `Used ${recordedCount} recorded response(s); other calls returned synthetic data. Nothing was published or sent.`
+          : 'All calls returned synthetic data. Run the workflow once to record real responses. Nothing was published or sent.'
       });
+      return result;
+    }, 'Dry run completed!');
+  };
 
-      // 🔥 SPECIAL CASE: Auto-insert AI Processor only for Publisher nodes that need it
-      if (
-        connectedNode.type === 'publisher' &&
-        (!currentData.processedContent && !currentData.synthesizedContent && !currentData.translatedContent) &&
-        (!currentData.articles?.[0]?.processedContent && !currentData.articles?.[0]?.synthesizedContent)
-      ) {
-        console.log('🤖 Auto-inserting AI Processor before Publisher');
-        
-        const tempAIProcessorNode: WorkflowNode = {
-          ...connectedNode,
-          id: `${connectedNode.id}-auto-ai-processor`,
-          type: 'ai-processor',
-          label: 'Auto AI Processor',
-          config: {
-            writingStyle: 'Professional',
-            targetAudience: 'General readers',
-            contentType: 'article',
-          },
-          connected: [],
-        };
+  const resumeLastRun = async () => {
+    if (!resumableExecutionId) return;
 
-        // Run the AI Processor first
-        const aiProcessed = await executeNode(tempAIProcessorNode, currentData);
-        console.log('🤖 AI Processor result:', {
-          hasTitle: !!aiProcessed.title,
-          hasProcessedContent: !!aiProcessed.processedContent,
-          resultKeys: Object.keys(aiProcessed)
-        });
-        
-        // Now run the Publisher with the processed data
-        const publisherResult = await executeNode(connectedNode, aiProcessed);
-        currentData = publisherResult; // Update for any remaining nodes
-        
-      } else {
-        // 🔥 NORMAL CASE: Execute the node with current data
-        console.log(`🔄 Executing ${connectedNode.label} with data keys:`, Object.keys(currentData));
-        const nodeResult = await executeNode(connectedNode, currentData);
-        console.log(`🔄 ${connectedNode.label} completed. Result:`, {
-          hasTitle: !!nodeResult.title,
-          hasProcessedContent: !!nodeResult.processedContent,
-          hasTranslatedContent: !!nodeResult.translatedContent,
-          resultKeys: Object.keys(nodeResult),
-          resultPreview: JSON.stringify(nodeResult, null, 2).substring(0, 200)
-        });
-        
-        // 🔥 CRITICAL: Update currentData with the result for the next node
-        currentData = nodeResult;
-        
-        // 🔥 IMPORTANT: Recursively process this node's connections
-        if (connectedNode.connected.length > 0) {
-          console.log(`🔄 ${connectedNode.label} has ${connectedNode.connected.length} connections, processing recursively...`);
-          
-          // 🔥 CRITICAL FIX: Use standard executeConnectedNodes but pass the correct data
-          // We need to temporarily modify the node structure to process the chain correctly
-          await executeConnectedNodes(connectedNode, currentData);
-        }
-      }
-      
-    } catch (error: any) {
-      console.error(`❌ Error in ${connectedNode.label}:`, error);
-      addLog(branchLogId, `Branch ${itemIndex + 1} - ${connectedNode.label}`, 'error', `Error in branch: ${error.message}`);
-      
-      // Stop processing this branch on error
-      break;
-    }
-  }
-  
-  addLog(branchLogId, `Branch ${itemIndex + 1}/${totalItems}`, 'completed', `Finished branch for: "${(item.title || 'Untitled').substring(0, 50)}..."`);
-  console.log(`✅ Branch ${itemIndex + 1} completed successfully`);
-};
+    await trackRun(async (signal) => {
+      const { errors, awaitingApproval, usage, execution } = await resumeWorkflowExecution(resumableExecutionId, { ...runCallbacks, signal });
+      return { errors, awaitingApproval, usage, executionId: execution.id };
+    });
+  };
 
+  // Calls already sent still finish on the server, but the run no longer waits for them
   const stopExecution = () => {
-    setIsExecuting(false);
-    toast.info('Workflow execution stopped');
+    abortControllerRef.current?.abort();
+    toast.info('Stopping workflow execution...');
   };
 
   const clearLogs = () => {
@@ -1780,33 +268,120 @@ const processSingleItem = async (
       connected: [],
     };
     setNodes(prev => [...prev, newNode]);
-    setSelectedNodeId(newNode.id);
+    setSelectedNodeIds([newNode.id]);
     toast.success(`Added ${generateNodeLabel(type)} node`);
-  }, []);
+  }, [setNodes]);
 
   const updateNodeConfig = useCallback((nodeId: string, newConfig: Partial<WorkflowNode['config']>) => {
+    // Typing into one field is undone as a single change
     setNodes(prev => prev.map(node => 
       node.id === nodeId 
         ? { ...node, config: { ...node.config, ...newConfig } }
         : node
-    ));
-  }, []);
+    ), `config-${nodeId}-${Object.keys(newConfig).join(',')}`);
+  }, [setNodes]);
+
+  const deleteNodes = useCallback((nodeIds: string[]) => {
+    if (nodeIds.length === 0) return;
+    const deleted = new Set(nodeIds);
+    setNodes(prev => prev
+      .filter(node => !deleted.has(node.id))
+      .map(node => ({
+        ...node,
+        connected: node.connected.filter(id => !deleted.has(id))
+      })));
+    setSelectedNodeIds(prev => prev.filter(id => !deleted.has(id)));
+    toast.success(nodeIds.length === 1 ? 'Node deleted' : `${nodeIds.length} nodes deleted`, {
+      action: { label: 'Undo', onClick: undo }
+    });
+  }, [setNodes, undo]);
 
-  const deleteNode = useCallback((nodeId: string) => {
-    setNodes(prev => prev.filter(node => node.id !== nodeId));
-    setNodes(prev => prev.map(node => ({
-      ...node,
-      connected: node.connected.filter(id => id !== nodeId)
-    })));
-    if (selectedNodeId === nodeId) {
-      setSelectedNodeId(null);
+  // Copied nodes go to the system clipboard, so they can be pasted into another workflow or tab
+  const copySelection = useCallback(async (nodeIds: string[]) => {
+    if (nodeIds.length === 0) return;
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(copyNodes(nodes, nodeIds)));
+      toast.success(nodeIds.length === 1 ? 'Node copied' : `${nodeIds.length} nodes copied`);
+    } catch (error) {
+      toast.error('Could not copy to the clipboard');
     }
-    toast.success('Node deleted');
-  }, [selectedNodeId]);
+  }, [nodes]);
 
-  const handleSelectNode = useCallback((node: WorkflowNode | null) => {
-    setSelectedNodeId(node?.id || null);
-  }, []);
+  const pasteClipboard = useCallback((clipboard: WorkflowClipboard) => {
+    const pasted = pasteNodes(clipboard, nodes);
+    setNodes(prev => [...prev, ...pasted]);
+    setSelectedNodeIds(pasted.map(node => node.id));
+    toast.success(pasted.length === 1 ? 'Node pasted' : `${pasted.length} nodes pasted`);
+  }, [nodes, setNodes]);
+
+  const duplicateNodes = useCallback((nodeIds: string[]) => {
+    if (nodeIds.length === 0) return;
+    pasteClipboard(copyNodes(nodes, nodeIds));
+  }, [nodes, pasteClipboard]);
+
+  const autoLayout = useCallback(() => {
+    setNodes(prev => layoutWorkflow(prev));
+    toast.success('Workflow arranged', { action: { label: 'Undo', onClick: undo } });
+  }, [setNodes, undo]);
+
+  // Keyboard shortcuts, except while typing in a field
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+    // Copying text the user selected, e.g. in the logs, is left to the browser
+    const hasTextSelection = () => !!window.getSelection()?.toString();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e.target) || document.querySelector('[role="dialog"]')) return;
+      const mod = e.metaKey || e.ctrlKey;
+      const key = e.key.toLowerCase();
+
+      if (mod && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (mod && key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (mod && key === 'a') {
+        e.preventDefault();
+        setSelectedNodeIds(nodes.map(node => node.id));
+      } else if (mod && key === 'd') {
+        e.preventDefault();
+        duplicateNodes(selectedNodeIds);
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedNodeIds.length > 0) {
+        e.preventDefault();
+        deleteNodes(selectedNodeIds);
+      } else if (e.key === 'Escape') {
+        setSelectedNodeIds([]);
+        setConnectingNodeId(null);
+      }
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isTyping(e.target) || hasTextSelection() || selectedNodeIds.length === 0) return;
+      e.preventDefault();
+      e.clipboardData?.setData('text/plain', JSON.stringify(copyNodes(nodes, selectedNodeIds)));
+      toast.success(selectedNodeIds.length === 1 ? 'Node copied' : `${selectedNodeIds.length} nodes copied`);
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTyping(e.target)) return;
+      const clipboard = parseWorkflowClipboard(e.clipboardData?.getData('text/plain') || '');
+      if (!clipboard) return;
+      e.preventDefault();
+      pasteClipboard(clipboard);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [nodes, selectedNodeIds, undo, redo, deleteNodes, duplicateNodes, pasteClipboard]);
 
   const handleConnectStart = useCallback((nodeId: string) => {
     setConnectingNodeId(nodeId);
@@ -1827,7 +402,7 @@ const processSingleItem = async (
     ));
     setConnectingNodeId(null);
     toast.success('Nodes connected');
-  }, []);
+  }, [setNodes]);
 
   const handleDisconnectNode = useCallback((nodeId: string) => {
     setNodes(prev => prev.map(node => 
@@ -1836,7 +411,72 @@ const processSingleItem = async (
         : node
     ));
     toast.success('All connections removed');
-  }, []);
+  }, [setNodes]);
+
+  const applySavedWorkflow = useCallback((workflow: SavedWorkflow) => {
+    resetNodes(workflow.nodes || []);
+    setSelectedNodeIds([]);
+    setResumableExecutionId(null);
+    setCurrentWorkflow({ id: workflow.id, name: workflow.name, current_version: workflow.current_version });
+  }, [resetNodes]);
+
+  const newWorkflow = useCallback(() => {
+    resetNodes([]);
+    setSelectedNodeIds([]);
+    setResumableExecutionId(null);
+    setCurrentWorkflow(null);
+  }, [resetNodes]);
+
+  // A template starts a new, unsaved workflow like "New" does
+  const createFromTemplate = useCallback((templateNodes: WorkflowNode[], template: WorkflowTemplate) => {
+    resetNodes(templateNodes);
+    setSelectedNodeIds([]);
+    setResumableExecutionId(null);
+    setCurrentWorkflow(null);
+    setShowTemplates(false);
+    toast.success(`Created "${template.name}" from template. Save it to keep it.`);
+  }, [resetNodes]);
+
+  const openSavedWorkflow = useCallback((workflow: SavedWorkflow) => {
+    applySavedWorkflow(workflow);
+    setShowLibrary(false);
+    toast.success(`Opened "${workflow.name}" (v${workflow.current_version})`);
+  }, [applySavedWorkflow]);
+
+  const saveToServer = useCallback(async () => {
+    if (!currentWorkflow) {
+      setShowSaveAs(true);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveWorkflowVersion({ id: currentWorkflow.id, nodes, userId: user?.id });
+      setCurrentWorkflow({ id: saved.id, name: saved.name, current_version: saved.current_version });
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      queryClient.invalidateQueries({ queryKey: ['workflow-versions', saved.id] });
+      toast.success(`Saved "${saved.name}" as version ${saved.current_version}`);
+    } catch (error) {
+      toast.error(`Failed to save workflow: ${error.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [currentWorkflow, nodes, user, queryClient]);
+
+  const saveAsToServer = useCallback(async ({ name, description }: { name: string; description: string }) => {
+    setIsSaving(true);
+    try {
+      const saved = await createWorkflow({ name, description, nodes, ownerId: user?.id });
+      setCurrentWorkflow({ id: saved.id, name: saved.name, current_version: saved.current_version });
+      setShowSaveAs(false);
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      toast.success(`Saved "${saved.name}"`);
+    } catch (error) {
+      toast.error(`Failed to save workflow: ${error.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [nodes, user, queryClient]);
 
   const saveWorkflow = useCallback(() => {
     const workflowData = {
@@ -1849,12 +489,12 @@ const processSingleItem = async (
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `workflow_${Date.now()}.json`;
+    a.download = `${currentWorkflow?.name.replace(/\W+/g, '_') || 'workflow'}_${Date.now()}.json`;
     a.click();
     URL.revokeObjectURL(url);
     
     toast.success('Workflow exported successfully');
-  }, [nodes]);
+  }, [nodes, currentWorkflow]);
 
   const loadWorkflow = useCallback(() => {
     const input = document.createElement('input');
@@ -1868,8 +508,11 @@ const processSingleItem = async (
           try {
             const workflowData = JSON.parse(e.target?.result as string);
             if (workflowData.nodes && Array.isArray(workflowData.nodes)) {
-              setNodes(workflowData.nodes);
-              setSelectedNodeId(null);
+              resetNodes(workflowData.nodes);
+              setSelectedNodeIds([]);
+              // An imported file is a new, unsaved workflow
+              setCurrentWorkflow(null);
+              setResumableExecutionId(null);
               toast.success('Workflow imported successfully');
             } else {
               toast.error('Invalid workflow file format');
@@ -1882,7 +525,7 @@ const processSingleItem = async (
       }
     };
     input.click();
-  }, []);
+  }, [resetNodes]);
 
   return (
     <div className="h-full flex flex-col">
@@ -1890,9 +533,54 @@ const processSingleItem = async (
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-2xl font-bold">Workflow Builder</h1>
-            <p className="text-muted-foreground">Build automated content research and publishing workflows</p>
+            {currentWorkflow ? (
+              <p className="text-muted-foreground flex items-center gap-2">
+                {currentWorkflow.name}
+                <Badge variant="secondary">v{currentWorkflow.current_version}</Badge>
+              </p>
+            ) : (
+              <p className="text-muted-foreground">Build automated content research and publishing workflows</p>
+            )}
           </div>
           <div className="flex gap-2">
+            <Button variant="outline" size="icon" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={autoLayout} disabled={nodes.length === 0} className="flex items-center gap-2">
+              <Network className="h-4 w-4" />
+              Auto Layout
+            </Button>
+            <Button variant="outline" onClick={newWorkflow} className="flex items-center gap-2">
+              <FilePlus className="h-4 w-4" />
+              New
+            </Button>
+            <Button variant="outline" onClick={() => setShowTemplates(true)} className="flex items-center gap-2">
+              <LayoutTemplate className="h-4 w-4" />
+              Templates
+            </Button>
+            <Button variant="outline" onClick={() => setShowLibrary(true)} className="flex items-center gap-2">
+              <FolderOpen className="h-4 w-4" />
+              Open
+            </Button>
+            <Button variant="outline" onClick={saveToServer} disabled={isSaving} className="flex items-center gap-2">
+              <Save className="h-4 w-4" />
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+            <Button variant="outline" onClick={() => setShowSaveAs(true)} disabled={isSaving}>
+              Save As
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowHistory(true)}
+              disabled={!currentWorkflow}
+              className="flex items-center gap-2"
+            >
+              <History className="h-4 w-4" />
+              History
+            </Button>
             <Button variant="outline" onClick={loadWorkflow} className="flex items-center gap-2">
               <Upload className="h-4 w-4" />
               Import
@@ -1915,10 +603,22 @@ const processSingleItem = async (
                 Stop
               </Button>
             ) : (
-              <Button onClick={executeWorkflow} className="flex items-center gap-2">
-                <Play className="h-4 w-4" />
-                Run Workflow
-              </Button>
+              <>
+                {resumableExecutionId && (
+                  <Button variant="outline" onClick={resumeLastRun} className="flex items-center gap-2">
+                    <RotateCcw className="h-4 w-4" />
+                    Resume Run
+                  </Button>
+                )}
+                <Button variant="outline" onClick={dryRunWorkflow} className="flex items-center gap-2">
+                  <FlaskConical className="h-4 w-4" />
+                  Dry Run
+                </Button>
+                <Button onClick={executeWorkflow} className="flex items-center gap-2">
+                  <Play className="h-4 w-4" />
+                  Run Workflow
+                </Button>
+              </>
             )}
           </div>
         </div>
@@ -1927,6 +627,9 @@ const processSingleItem = async (
       <div className="flex-1 flex overflow-hidden">
         <WorkflowSidebar
           selectedNode={selectedNode}
+          nodes={nodes}
+          workflowId={currentWorkflow?.id}
+          issues={validationIssues}
           onAddNode={addNode}
           onUpdateNodeConfig={updateNodeConfig}
         />
@@ -1935,10 +638,13 @@ const processSingleItem = async (
           <div className="flex-1">
             <WorkflowCanvas
               nodes={nodes}
-              selectedNode={selectedNode}
-              onSelectNode={handleSelectNode}
+              selectedNodeIds={selectedNodeIds}
+              issues={validationIssues}
+              onSelectNodes={setSelectedNodeIds}
               onUpdateNodes={setNodes}
-              onDeleteNode={deleteNode}
+              onDeleteNodes={deleteNodes}
+              onCopyNodes={copySelection}
+              onDuplicateNodes={duplicateNodes}
               connectingNodeId={connectingNodeId}
               onConnectStart={handleConnectStart}
               onConnectEnd={handleConnectEnd}
@@ -1979,6 +685,11 @@ const processSingleItem = async (
                         }`}>
                           {log.status}
                         </span>
+                        {log.attempt && (
+                          <span className="px-1 py-0.5 rounded text-xs bg-gray-200 text-gray-700">
+                            attempt {log.attempt}/{log.maxAttempts}
+                          </span>
+                        )}
                       </div>
                       <p className="text-gray-700">{log.message}</p>
                       <p className="text-gray-500 mt-1">{log.timestamp.toLocaleTimeString()}</p>
@@ -1990,6 +701,31 @@ const processSingleItem = async (
           )}
         </div>
       </div>
+
+      <WorkflowLibraryDialog
+        open={showLibrary}
+        onOpenChange={setShowLibrary}
+        currentWorkflowId={currentWorkflow?.id}
+        onOpen={openSavedWorkflow}
+      />
+      <WorkflowTemplateGalleryDialog
+        open={showTemplates}
+        onOpenChange={setShowTemplates}
+        onCreate={createFromTemplate}
+      />
+      <WorkflowVersionHistoryDialog
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        workflow={currentWorkflow}
+        onRollback={applySavedWorkflow}
+      />
+      <SaveWorkflowDialog
+        open={showSaveAs}
+        onOpenChange={setShowSaveAs}
+        defaultName={currentWorkflow ? `${currentWorkflow.name} (copy)` : ''}
+        isSaving={isSaving}
+        onSave={saveAsToServer}
+      />
     </div>
   );
 };
@@ -1,5 +1,18 @@
 
 import { supabase } from '@/integrations/supabase/client';
+import { WorkflowNode } from '@/types/WorkflowTypes';
+import type { WorkflowTriggerData } from '@/lib/workflow/types';
+import { evaluateRuleConditions, normalizeRuleConditions, RuleConditionGroup } from '@/lib/workflow/ruleConditions';
+import {
+  executeRuleAction,
+  getActionRunAt,
+  scheduleRuleAction,
+  WorkflowAction,
+  WorkflowActionJobStatus
+} from '@/lib/workflow/ruleActions';
+import { backtestWorkflowRule, BacktestAdminAction, RuleBacktestReport } from '@/lib/workflow/ruleBacktest';
+
+export type { WorkflowAction } from '@/lib/workflow/ruleActions';
 
 export interface AISuggestion {
   id: string;
@@ -26,7 +39,7 @@ export interface WorkflowRule {
   id: string;
   name: string;
   description: string;
-  conditions: WorkflowCondition[];
+  conditions: RuleConditionGroup;
   actions: WorkflowAction[];
   enabled: boolean;
   priority: number;
@@ -36,32 +49,53 @@ export interface WorkflowRule {
   success_rate: number;
 }
 
-export interface WorkflowCondition {
-  type: 'confidence_threshold' | 'agent_type' | 'suggestion_type' | 'approval_history' | 'time_based';
-  operator: 'greater_than' | 'less_than' | 'equals' | 'contains' | 'matches';
-  value: any;
-  field?: string;
-}
-
-export interface WorkflowAction {
-  type: 'auto_approve' | 'auto_implement' | 'notify_admin' | 'schedule_review' | 'create_task';
-  parameters: Record<string, any>;
-  delay_minutes?: number;
+// A delayed or scheduled rule action waiting in workflow_action_jobs
+export interface WorkflowActionJob {
+  id: string;
+  workflow_rule_id: string;
+  execution_id?: string | null;
+  suggestion_id: string;
+  action_type: WorkflowAction['type'];
+  action: WorkflowAction;
+  run_at: string;
+  status: WorkflowActionJobStatus;
+  attempts: number;
+  error_message?: string | null;
+  skipped_reason?: string | null;
+  cancelled_at?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  workflow_rules?: { name: string };
+  ai_suggestions?: { title: string; type: string; status: string };
 }
 
 export interface WorkflowExecution {
   id: string;
-  workflow_rule_id: string;
-  suggestion_id: string;
-  status: 'pending' | 'executing' | 'completed' | 'failed';
+  workflow_rule_id: string | null;
+  suggestion_id: string | null;
+  workflow_id?: string | null;
+  trigger_type?: string;
+  resumed_from?: string | null;
+  // Set on runs started by a sub-workflow node
+  parent_execution_id?: string | null;
+  parent_node_id?: string | null;
+  nodes?: WorkflowNode[] | null;
+  trigger_data?: WorkflowTriggerData | null;
+  status: 'pending' | 'executing' | 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+  // Set when someone asked the run to stop; it ends as 'cancelled' once it has
+  cancel_requested_at?: string | null;
   started_at: string;
   completed_at?: string;
   result: any;
   error_message?: string;
   workflow_rules?: { name: string };
+  workflows?: { name: string };
   ai_suggestions?: { title: string; type: string };
 }
 
+// PostgREST cuts responses off at 1000 rows without an error, so long reads go page by page
+const ADMIN_ACTIONS_PAGE_SIZE = 1000;
+
 export class AutomatedWorkflowService {
   static async createWorkflowRule(rule: Omit<WorkflowRule, 'id' | 'created_at' | 'updated_at' | 'execution_count' | 'success_rate'>): Promise<WorkflowRule> {
     const { data, error } = await supabase
@@ -83,7 +117,7 @@ export class AutomatedWorkflowService {
     
     return {
       ...data,
-      conditions: (data.conditions as unknown) as WorkflowCondition[],
+      conditions: normalizeRuleConditions(data.conditions),
       actions: (data.actions as unknown) as WorkflowAction[]
     } as WorkflowRule;
   }
@@ -98,7 +132,7 @@ export class AutomatedWorkflowService {
     
     return (data || []).map(rule => ({
       ...rule,
-      conditions: (rule.conditions as unknown) as WorkflowCondition[],
+      conditions: normalizeRuleConditions(rule.conditions),
       actions: (rule.actions as unknown) as WorkflowAction[]
     })) as WorkflowRule[];
   }
@@ -106,7 +140,7 @@ export class AutomatedWorkflowService {
   static async evaluateSuggestionForWorkflows(suggestion: AISuggestion): Promise<WorkflowExecution[]> {
     const rules = await this.getWorkflowRules();
     const applicableRules = rules.filter(rule => 
-      rule.enabled && this.evaluateConditions(suggestion, rule.conditions)
+      rule.enabled && evaluateRuleConditions(rule.conditions, suggestion)
     );
 
     const executions: WorkflowExecution[] = [];
@@ -123,45 +157,6 @@ export class AutomatedWorkflowService {
     return executions;
   }
 
-  private static evaluateConditions(suggestion: AISuggestion, conditions: WorkflowCondition[]): boolean {
-    return conditions.every(condition => {
-      switch (condition.type) {
-        case 'confidence_threshold':
-          const confidence = suggestion.confidence_score || 0;
-          return condition.operator === 'greater_than' 
-            ? confidence > condition.value
-            : confidence < condition.value;
-
-        case 'agent_type':
-          return condition.operator === 'equals' 
-            ? suggestion.agent_id === condition.value
-            : suggestion.agent_id !== condition.value;
-
-        case 'suggestion_type':
-          return condition.operator === 'equals'
-            ? suggestion.type === condition.value
-            : suggestion.type !== condition.value;
-
-        case 'approval_history':
-          // This would check historical approval rates for similar suggestions
-          return true; // Simplified for now
-
-        case 'time_based':
-          const now = new Date();
-          const suggestionTime = new Date(suggestion.created_at || '');
-          const timeDiff = now.getTime() - suggestionTime.getTime();
-          const hoursDiff = timeDiff / (1000 * 60 * 60);
-          
-          return condition.operator === 'greater_than'
-            ? hoursDiff > condition.value
-            : hoursDiff < condition.value;
-
-        default:
-          return false;
-      }
-    });
-  }
-
   private static async executeWorkflow(rule: WorkflowRule, suggestion: AISuggestion): Promise<WorkflowExecution> {
     const execution = {
       workflow_rule_id: rule.id,
@@ -183,12 +178,27 @@ export class AutomatedWorkflowService {
     try {
       await this.updateExecutionStatus(executionData.id, 'executing');
       
+      let actionsScheduled = 0;
       for (const action of rule.actions) {
-        await this.executeAction(action, suggestion, executionData.id);
+        // Delayed actions are left to the process-workflow-action-jobs worker
+        const runAt = getActionRunAt(action);
+        if (runAt) {
+          await scheduleRuleAction(supabase, {
+            ruleId: rule.id,
+            executionId: executionData.id,
+            suggestionId: suggestion.id,
+            action,
+            runAt
+          });
+          actionsScheduled++;
+        } else {
+          await executeRuleAction(supabase, action, suggestion, executionData.id);
+        }
       }
 
       await this.updateExecutionStatus(executionData.id, 'completed', { 
-        actions_executed: rule.actions.length 
+        actions_executed: rule.actions.length - actionsScheduled,
+        actions_scheduled: actionsScheduled
       });
 
       // Update rule statistics
@@ -200,93 +210,7 @@ export class AutomatedWorkflowService {
       throw error;
     }
 
-    return executionData as WorkflowExecution;
-  }
-
-  private static async executeAction(action: WorkflowAction, suggestion: AISuggestion, executionId: string): Promise<void> {
-    if (action.delay_minutes && action.delay_minutes > 0) {
-      // In a real implementation, you'd queue this for later execution
-      console.log(`Action delayed by ${action.delay_minutes} minutes`);
-    }
-
-    switch (action.type) {
-      case 'auto_approve':
-        await supabase
-          .from('ai_suggestions')
-          .update({ 
-            status: 'approved',
-            reviewed_at: new Date().toISOString(),
-            review_notes: 'Auto-approved by workflow'
-          })
-          .eq('id', suggestion.id);
-        break;
-
-      case 'auto_implement':
-        // This would contain the logic to actually implement the suggestion
-        await this.implementSuggestion(suggestion);
-        break;
-
-      case 'notify_admin':
-        await this.sendNotification({
-          type: 'workflow_action',
-          title: 'Workflow Action Required',
-          message: `Suggestion "${suggestion.title || 'Untitled'}" requires admin attention`,
-          suggestion_id: suggestion.id,
-          execution_id: executionId
-        });
-        break;
-
-      case 'schedule_review':
-        const reviewDate = new Date();
-        reviewDate.setMinutes(reviewDate.getMinutes() + (action.parameters.delay_minutes || 60));
-        
-        await supabase
-          .from('scheduled_reviews')
-          .insert({
-            suggestion_id: suggestion.id,
-            scheduled_for: reviewDate.toISOString(),
-            review_type: action.parameters.review_type || 'standard'
-          });
-        break;
-
-      case 'create_task':
-        await supabase
-          .from('admin_tasks')
-          .insert({
-            title: action.parameters.title || `Review suggestion: ${suggestion.title || 'Untitled'}`,
-            description: action.parameters.description || suggestion.reasoning,
-            priority: action.parameters.priority || 'medium',
-            related_suggestion_id: suggestion.id,
-            assigned_to: action.parameters.assigned_to,
-            due_date: action.parameters.due_date
-          });
-        break;
-    }
-  }
-
-  private static async implementSuggestion(suggestion: AISuggestion): Promise<void> {
-    // This is where you'd implement the actual suggestion
-    // For now, we'll just mark it as implemented
-    await supabase
-      .from('ai_suggestions')
-      .update({ 
-        status: 'implemented',
-        implemented_at: new Date().toISOString(),
-        implementation_notes: 'Auto-implemented by workflow'
-      })
-      .eq('id', suggestion.id);
-  }
-
-  private static async sendNotification(notification: {
-    type: string;
-    title: string;
-    message: string;
-    suggestion_id: string;
-    execution_id: string;
-  }): Promise<void> {
-    await supabase
-      .from('admin_notifications')
-      .insert(notification);
+    return executionData as unknown as WorkflowExecution;
   }
 
   private static async updateExecutionStatus(
@@ -339,19 +263,91 @@ export class AutomatedWorkflowService {
     }
   }
 
+  // Replay a rule, saved or not, over the suggestions of the last `days` days (the most recent
+  // `limit` of them) and compare it with the admins' decisions
+  static async backtestWorkflowRule(
+    rule: Pick<WorkflowRule, 'conditions' | 'actions'>,
+    { days = 90, limit = 1000 }: { days?: number; limit?: number } = {}
+  ): Promise<RuleBacktestReport> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: suggestions, error } = await supabase
+      .from('ai_suggestions')
+      .select('*')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    // Every decision in the window counts: one missed review turns a preempted approval into an automatic one
+    const adminActions: BacktestAdminAction[] = [];
+    for (let from = 0; ; from += ADMIN_ACTIONS_PAGE_SIZE) {
+      const { data, error: actionsError } = await supabase
+        .from('admin_actions_log')
+        .select('suggestion_id, action_type, timestamp')
+        .not('suggestion_id', 'is', null)
+        .gte('timestamp', since)
+        .order('timestamp', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + ADMIN_ACTIONS_PAGE_SIZE - 1);
+
+      if (actionsError) throw actionsError;
+      adminActions.push(...((data || []) as BacktestAdminAction[]));
+      if (!data || data.length < ADMIN_ACTIONS_PAGE_SIZE) break;
+    }
+
+    return backtestWorkflowRule(rule, suggestions || [], adminActions);
+  }
+
   static async getWorkflowExecutions(limit = 50): Promise<WorkflowExecution[]> {
     const { data, error } = await supabase
       .from('workflow_executions')
       .select(`
         *,
         workflow_rules(name),
+        workflows(name),
         ai_suggestions(title, type)
       `)
       .order('started_at', { ascending: false })
       .limit(limit);
 
     if (error) throw error;
-    return (data || []) as WorkflowExecution[];
+    return (data || []) as unknown as WorkflowExecution[];
+  }
+
+  // Delayed actions that have not run yet, soonest first
+  static async getPendingActionJobs(): Promise<WorkflowActionJob[]> {
+    const { data, error } = await supabase
+      .from('workflow_action_jobs')
+      .select(`
+        *,
+        workflow_rules(name),
+        ai_suggestions(title, type, status)
+      `)
+      .in('status', ['pending', 'processing'])
+      .order('run_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(job => ({
+      ...job,
+      action: (job.action as unknown) as WorkflowAction
+    })) as WorkflowActionJob[];
+  }
+
+  // Only actions the worker has not picked up yet can be cancelled
+  static async cancelActionJob(jobId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('workflow_action_jobs')
+      .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error('This action has already run or is running now');
+    }
   }
 
   static async toggleWorkflowRule(ruleId: string, enabled: boolean): Promise<void> {
@@ -0,0 +1,154 @@
+import { supabase } from '@/integrations/supabase/client';
+import { WorkflowNode } from '@/types/WorkflowTypes';
+import type { Json } from '@/integrations/supabase/types';
+import { completeRunIfReviewed } from '@/lib/workflow/approvals';
+import { WorkflowItem, WorkflowRunOptions, WorkflowTriggerData, WorkflowUpstreamOutputs } from '@/lib/workflow/types';
+import { RecordedRunResult, runRecordedWorkflow } from '@/services/workflowExecution';
+
+// An item held at an approval node, as recorded in workflow_approvals
+export interface WorkflowApproval {
+  id: string;
+  execution_id: string;
+  workflow_id: string | null;
+  node_id: string;
+  node_label: string | null;
+  instructions: string | null;
+  item: WorkflowItem;
+  upstream: WorkflowUpstreamOutputs;
+  branch_path: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  approved_item: WorkflowItem | null;
+  review_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  continued_execution_id: string | null;
+  created_at: string;
+  workflows?: { name: string } | null;
+}
+
+// The field holding the article text depends on the node that produced the item
+const CONTENT_KEYS = ['processedContent', 'synthesizedContent', 'content'] as const;
+
+// A fan-out branch holds its item as { articles: [item] }; editors edit the item itself
+const getReviewTarget = (item: WorkflowItem): WorkflowItem =>
+  Array.isArray(item?.articles) && item.articles.length === 1 ? item.articles[0] : item || {};
+
+const getContentKey = (target: WorkflowItem) =>
+  CONTENT_KEYS.find(key => typeof target[key] === 'string') || 'content';
+
+export const getApprovalItemTitle = (item: WorkflowItem) => getReviewTarget(item).title || 'Untitled';
+
+export const getApprovalItemContent = (item: WorkflowItem) => {
+  const target = getReviewTarget(item);
+  return target[getContentKey(target)] || '';
+};
+
+export const applyApprovalEdits = (item: WorkflowItem, title: string, content: string): WorkflowItem => {
+  const target = getReviewTarget(item);
+  const edited = { ...target, title, [getContentKey(target)]: content };
+  return target === item ? edited : { ...item, articles: [edited] };
+};
+
+export async function fetchWorkflowApprovals(status: WorkflowApproval['status'] | 'all' = 'pending'): Promise<WorkflowApproval[]> {
+  let query = supabase
+    .from('workflow_approvals')
+    .select('*, workflows(name)')
+    .order('created_at', { ascending: false });
+
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data || []) as unknown as WorkflowApproval[];
+}
+
+// Only a pending item can be decided, so two editors never act on the same item
+async function decideApproval(
+  approvalId: string,
+  decision: { status: 'approved' | 'rejected'; approved_item?: WorkflowItem; review_notes?: string | null }
+): Promise<WorkflowApproval> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('workflow_approvals')
+    .update({
+      ...decision,
+      approved_item: decision.approved_item as Json,
+      reviewed_by: user?.id ?? null,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', approvalId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error('This item has already been reviewed');
+  return data as unknown as WorkflowApproval;
+}
+
+// Approve an item, with the editor's changes, and continue its branch from the approval node
+// in a new recorded run
+export async function approveWorkflowItem(
+  approvalId: string,
+  approvedItem: WorkflowItem,
+  reviewNotes?: string,
+  callbacks: Pick<WorkflowRunOptions, 'onLog' | 'onNodeComplete'> = {}
+): Promise<RecordedRunResult> {
+  const approval = await decideApproval(approvalId, {
+    status: 'approved',
+    approved_item: approvedItem,
+    review_notes: reviewNotes || null,
+  });
+
+  const { data: execution, error } = await supabase
+    .from('workflow_executions')
+    .select('nodes, trigger_data, workflow_id')
+    .eq('id', approval.execution_id)
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  console.log(`✅ Approved "${approval.node_label}" item ${approval.id}, continuing its branch`);
+
+  let continuedExecutionId: string | undefined;
+  try {
+    const result = await runRecordedWorkflow({
+      ...callbacks,
+      // The graph the item was held with, so it continues the way it would have
+      nodes: execution.nodes as unknown as WorkflowNode[],
+      triggerData: (execution.trigger_data as WorkflowTriggerData | null) ?? undefined,
+      workflowId: execution.workflow_id,
+      triggerType: 'approval',
+      continuation: {
+        nodeId: approval.node_id,
+        output: approvedItem,
+        upstream: approval.upstream || [],
+        branch: approval.branch_path ? approval.branch_path.split('.').map(Number) : [],
+      },
+    });
+    continuedExecutionId = result.execution.id;
+    return result;
+  } catch (runError) {
+    continuedExecutionId = runError.executionId;
+    throw runError;
+  } finally {
+    if (continuedExecutionId) {
+      await supabase
+        .from('workflow_approvals')
+        .update({ continued_execution_id: continuedExecutionId })
+        .eq('id', approval.id);
+    }
+    await completeRunIfReviewed(supabase, approval.execution_id);
+  }
+}
+
+export async function rejectWorkflowItem(approvalId: string, reviewNotes?: string): Promise<void> {
+  const approval = await decideApproval(approvalId, {
+    status: 'rejected',
+    review_notes: reviewNotes || null,
+  });
+  await completeRunIfReviewed(supabase, approval.execution_id);
+}
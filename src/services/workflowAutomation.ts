@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { WorkflowNode } from '@/types/WorkflowTypes';
 import { executeWorkflow } from './workflowExecution';
 import type { Database } from '@/integrations/supabase/types';
+import type { IntegrationDeliveryStatus } from '@/lib/workflow/outboundWebhooks';
 
 export interface WorkflowRule {
   id: string;
@@ -24,7 +25,7 @@ export interface WorkflowExecution {
   suggestion_id: string;
   started_at: string;
   completed_at?: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
   result?: any;
   error_message?: string;
 }
@@ -34,10 +35,33 @@ export interface ExternalIntegration {
   name: string;
   type: 'webhook' | 'email' | 'slack' | 'zapier' | 'api';
   config: Record<string, any>;
+  // Signs outbound deliveries (see src/lib/workflow/outboundWebhooks.ts)
+  secret: string;
+  event_types: string[];
   enabled: boolean;
   last_used?: string;
   success_count: number;
   error_count: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// One event sent, or being sent, to an integration
+export interface IntegrationDeliveryLog {
+  id: string;
+  integration_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  status: IntegrationDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_status_code?: number | null;
+  last_error?: string | null;
+  response_body?: string | null;
+  replay_of?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  external_integrations?: { name: string };
 }
 
 // Default workflow rules for content processing
@@ -61,19 +85,6 @@ const defaultRules: WorkflowRule[] = [
   }
 ];
 
-const mockIntegrations: ExternalIntegration[] = [
-  {
-    id: '1',
-    name: 'Slack Notifications',
-    type: 'slack',
-    config: { webhook_url: 'https://hooks.slack.com/...', channel: '#ai-copilot' },
-    enabled: true,
-    last_used: '2024-01-15T10:30:00Z',
-    success_count: 45,
-    error_count: 2
-  }
-];
-
 // Workflow Rules Management
 export async function getWorkflowRules(): Promise<WorkflowRule[]> {
   try {
@@ -354,101 +365,133 @@ async function sendNotificationAction(config: Record<string, any>): Promise<any>
 
 // External Integrations
 export async function getIntegrations(): Promise<ExternalIntegration[]> {
-  return Promise.resolve([...mockIntegrations]);
+  const { data, error } = await supabase
+    .from('external_integrations')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as ExternalIntegration[];
 }
 
-export async function createIntegration(integration: Omit<ExternalIntegration, 'id' | 'success_count' | 'error_count'>): Promise<ExternalIntegration> {
-  const newIntegration: ExternalIntegration = {
-    ...integration,
-    id: Date.now().toString(),
-    success_count: 0,
-    error_count: 0
-  };
-  
-  mockIntegrations.push(newIntegration);
-  return Promise.resolve(newIntegration);
+export async function createIntegration(
+  integration: Omit<ExternalIntegration, 'id' | 'secret' | 'success_count' | 'error_count' | 'created_at' | 'updated_at'>
+): Promise<ExternalIntegration> {
+  const { data, error } = await supabase
+    .from('external_integrations')
+    .insert({
+      name: integration.name,
+      type: integration.type,
+      config: integration.config,
+      event_types: integration.event_types,
+      enabled: integration.enabled
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ExternalIntegration;
 }
 
 export async function updateIntegration(id: string, updates: Partial<ExternalIntegration>): Promise<ExternalIntegration> {
-  const integrationIndex = mockIntegrations.findIndex(i => i.id === id);
-  if (integrationIndex === -1) throw new Error('Integration not found');
-  
-  mockIntegrations[integrationIndex] = { ...mockIntegrations[integrationIndex], ...updates };
-  return Promise.resolve(mockIntegrations[integrationIndex]);
+  const { id: _id, secret: _secret, ...fields } = updates;
+  const { data, error } = await supabase
+    .from('external_integrations')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ExternalIntegration;
 }
 
+export async function deleteIntegration(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('external_integrations')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+// Receivers checking signatures with the old secret reject deliveries from now on
+export async function rotateIntegrationSecret(id: string): Promise<string> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const secret = [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+  const { error } = await supabase
+    .from('external_integrations')
+    .update({ secret, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+  return secret;
+}
+
+// Webhook-style integrations get a real, signed test delivery; its outcome shows up in the
+// delivery log once the worker has sent it
 export async function testIntegration(id: string): Promise<{ success: boolean; message: string }> {
-  const integration = mockIntegrations.find(i => i.id === id);
-  if (!integration) throw new Error('Integration not found');
-  
-  try {
-    let result: { success: boolean; message: string };
-    
-    switch (integration.type) {
-      case 'webhook':
-        result = await testWebhook(integration.config.url);
-        break;
-      case 'email':
-        result = await testEmail(integration.config);
-        break;
-      case 'slack':
-        result = await testSlack(integration.config);
-        break;
-      case 'zapier':
-        result = await testZapier(integration.config);
-        break;
-      default:
-        result = { success: false, message: 'Unknown integration type' };
-    }
+  const { data: integration, error } = await supabase
+    .from('external_integrations')
+    .select('*')
+    .eq('id', id)
+    .single();
 
-    // Update success/error counts
-    if (result.success) {
-      integration.success_count += 1;
-      integration.last_used = new Date().toISOString();
-    } else {
-      integration.error_count += 1;
-    }
+  if (error) throw error;
 
-    return result;
-  } catch (error) {
-    integration.error_count += 1;
-    throw error;
+  if (integration.type === 'email') {
+    return testEmail(integration.config as Record<string, unknown>);
   }
-}
 
-async function testWebhook(url: string): Promise<{ success: boolean; message: string }> {
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ test: true, timestamp: new Date().toISOString() })
+  const { error: insertError } = await supabase
+    .from('integration_deliveries')
+    .insert({
+      integration_id: id,
+      event_type: 'integration.test',
+      payload: { test: true, integration: integration.name, sent_at: new Date().toISOString() }
     });
-    
-    return {
-      success: response.ok,
-      message: response.ok ? 'Webhook test successful' : `HTTP ${response.status}: ${response.statusText}`
-    };
-  } catch (error) {
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : 'Webhook test failed'
-    };
-  }
+
+  if (insertError) throw insertError;
+  return { success: true, message: 'Test delivery queued. Its result will appear in the delivery log.' };
 }
 
-async function testEmail(config: Record<string, any>): Promise<{ success: boolean; message: string }> {
-  // Mock email test - replace with actual implementation
-  return { success: true, message: 'Email configuration valid' };
+export async function getIntegrationDeliveries(integrationId?: string, limit = 50): Promise<IntegrationDeliveryLog[]> {
+  let query = supabase
+    .from('integration_deliveries')
+    .select('*, external_integrations(name)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (integrationId) {
+    query = query.eq('integration_id', integrationId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as IntegrationDeliveryLog[];
 }
 
-async function testSlack(config: Record<string, any>): Promise<{ success: boolean; message: string }> {
-  // Mock Slack test - replace with actual implementation
-  return { success: true, message: 'Slack webhook valid' };
+// Send a past delivery again, as a new delivery with its own attempts
+export async function replayIntegrationDelivery(deliveryId: string): Promise<void> {
+  const { data: delivery, error } = await supabase
+    .from('integration_deliveries')
+    .select('integration_id, event_type, payload')
+    .eq('id', deliveryId)
+    .single();
+
+  if (error) throw error;
+
+  const { error: insertError } = await supabase
+    .from('integration_deliveries')
+    .insert({ ...delivery, replay_of: deliveryId });
+
+  if (insertError) throw insertError;
 }
 
-async function testZapier(config: Record<string, any>): Promise<{ success: boolean; message: string }> {
-  // Mock Zapier test - replace with actual implementation
-  return { success: true, message: 'Zapier webhook valid' };
+async function testEmail(config: Record<string, unknown>): Promise<{ success: boolean; message: string }> {
+  // Mock email test - replace with actual implementation
+  return { success: true, message: 'Email configuration valid' };
 }
 
 // Workflow Execution History
@@ -1,37 +1,124 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { WorkflowNode } from '@/types/WorkflowTypes';
+import { continueWorkflow, runWorkflow } from '@/lib/workflow/engine';
+import { createSupabaseRuntime } from '@/lib/workflow/runtime';
+import { createSupabaseCheckpointStore } from '@/lib/workflow/checkpoints';
+import { completeRunIfReviewed, createSupabaseApprovalStore, getFinishedRunStatus } from '@/lib/workflow/approvals';
+import { createSupabaseSubWorkflowStore, getSubWorkflowTriggerNodes } from '@/lib/workflow/subWorkflows';
+import { getExecutionUsageFields } from '@/lib/workflow/usage';
+import { getFailedRunStatus, watchExecutionCancellation } from '@/lib/workflow/cancellation';
+import { getDueTriggerNodes } from '@/lib/workflow/schedule';
+import { getWebhookTriggerNodes } from '@/lib/workflow/webhook';
+import { getEventTriggerNodes } from '@/lib/workflow/events';
+import type { WorkflowEventType } from '@/lib/workflow/events';
+import {
+  WorkflowContinuation,
+  WorkflowItem,
+  WorkflowNodeUsage,
+  WorkflowRunOptions,
+  WorkflowRunResult,
+  WorkflowRuntime,
+  WorkflowTriggerData
+} from '@/lib/workflow/types';
 
 export interface WorkflowExecution {
   id: string;
-  workflow_rule_id: string;
-  suggestion_id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  workflow_rule_id: string | null;
+  suggestion_id: string | null;
+  workflow_id?: string | null;
+  trigger_type?: string;
+  resumed_from?: string | null;
+  // Set on runs started by a sub-workflow node
+  parent_execution_id?: string | null;
+  parent_node_id?: string | null;
+  status: 'pending' | 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+  cancel_requested_at?: string | null;
   started_at: string;
   completed_at?: string;
   result?: any;
   error_message?: string;
+  // Estimated cost of the run's AI calls in USD, in total and by node id
+  cost_usd?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  node_usage?: Record<string, WorkflowNodeUsage>;
 }
 
-export interface WorkflowExecutionContext {
-  executionId: string;
-  data: any;
-  metadata: Record<string, any>;
+// One node run of an execution, as recorded in workflow_node_runs
+export interface WorkflowNodeRun {
+  id: string;
+  execution_id: string;
+  node_id: string;
+  node_label: string | null;
+  node_type: string | null;
+  branch_index: number | null;
+  branch_path: string | null;
+  status: 'completed' | 'failed';
+  input: WorkflowItem | null;
+  output: WorkflowItem | null;
+  error_message: string | null;
+  attempts: number;
+  reused: boolean;
+  started_at: string | null;
+  finished_at: string | null;
+  duration_ms: number | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
 }
 
-// Execute a complete workflow
-export async function executeWorkflow(
-  workflowId: string, 
-  nodes: WorkflowNode[], 
-  triggerData?: any
-): Promise<WorkflowExecution[]> {
-  console.log(`🚀 Starting workflow execution for workflow ${workflowId}`);
-  
-  // Create initial execution record
+export interface RecordedRunOptions extends Pick<WorkflowRunOptions, 'onLog' | 'onNodeComplete' | 'triggerNodeIds' | 'signal'> {
+  nodes: WorkflowNode[];
+  triggerData?: WorkflowTriggerData;
+  workflowId?: string | null;
+  workflowRuleId?: string | null;
+  triggerType?: string;
+  resumedFrom?: string;
+  // Start at this node with an approved item instead of at the triggers
+  continuation?: WorkflowContinuation;
+  // Defaults to the Supabase client's edge functions
+  runtime?: WorkflowRuntime;
+}
+
+export interface RecordedRunResult extends WorkflowRunResult {
+  execution: WorkflowExecution;
+}
+
+// The budget saved workflows set for each run; unsaved graphs have none
+async function fetchWorkflowBudget(workflowId?: string | null): Promise<number | null> {
+  if (!workflowId) return null;
+
+  const { data, error } = await supabase.from('workflows').select('budget_usd').eq('id', workflowId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data?.budget_usd ?? null;
+}
+
+// Run a workflow and record it in workflow_executions, checkpointing every node's output
+// so the run can be resumed later. The run stops when `signal` fires or when it is cancelled
+// with cancelWorkflowExecution.
+export async function runRecordedWorkflow({
+  nodes,
+  triggerData,
+  workflowId,
+  workflowRuleId,
+  triggerType = 'manual',
+  resumedFrom,
+  continuation,
+  runtime = createSupabaseRuntime(supabase),
+  signal,
+  ...callbacks
+}: RecordedRunOptions): Promise<RecordedRunResult> {
   const { data: execution, error } = await supabase
     .from('workflow_executions')
     .insert({
-      workflow_rule_id: workflowId,
-      suggestion_id: crypto.randomUUID(), // Generate a unique suggestion ID
+      workflow_id: workflowId || null,
+      workflow_rule_id: workflowRuleId || null,
+      trigger_type: triggerType,
+      resumed_from: resumedFrom || null,
+      nodes: nodes as unknown as Json,
+      trigger_data: (triggerData ?? null) as Json,
+      continuation: (continuation ?? null) as unknown as Json,
       status: 'running',
       started_at: new Date().toISOString(),
     })
@@ -43,521 +130,184 @@ export async function executeWorkflow(
     throw error;
   }
 
+  const cancellation = watchExecutionCancellation(supabase, execution.id, signal);
   try {
-    // Sort nodes by execution order (trigger first, then connected nodes)
-    const sortedNodes = topologicalSort(nodes);
-    
-    // Start with trigger data or empty context
-    let executionContexts: WorkflowExecutionContext[] = [{
-      executionId: execution.id,
-      data: triggerData || {},
-      metadata: {}
-    }];
-
-    // Execute each node in sequence
-    for (const node of sortedNodes) {
-      console.log(`📋 Executing node: ${node.label} (${node.type}) with ${executionContexts.length} context(s)`);
-      
-      const newContexts: WorkflowExecutionContext[] = [];
-      
-      // Process each execution context (handles multiple results)
-      for (let i = 0; i < executionContexts.length; i++) {
-        const context = executionContexts[i];
-        console.log(`🔄 Processing context ${i + 1}/${executionContexts.length} for node ${node.label}`);
-        
-        try {
-          const nodeResults = await executeNode(node, context);
-          
-          // Handle multiple results - each result becomes a new execution context
-          if (Array.isArray(nodeResults)) {
-            console.log(`🔄 Node ${node.label} returned ${nodeResults.length} results for context ${i + 1}`);
-            nodeResults.forEach((result, index) => {
-              newContexts.push({
-                executionId: `${context.executionId}-${node.id}-${index}`,
-                data: result,
-                metadata: { ...context.metadata, [`${node.type}_${node.id}`]: result }
-              });
-            });
-          } else if (nodeResults !== null && nodeResults !== undefined) {
-            console.log(`🔄 Node ${node.label} returned single result for context ${i + 1}`);
-            newContexts.push({
-              executionId: context.executionId,
-              data: nodeResults,
-              metadata: { ...context.metadata, [`${node.type}_${node.id}`]: nodeResults }
-            });
-          } else {
-            console.warn(`⚠️ Node ${node.label} returned null/undefined for context ${i + 1}, skipping`);
-          }
-        } catch (error) {
-          console.error(`❌ Error processing context ${i + 1} for node ${node.label}:`, error);
-          // Continue with other contexts even if one fails
-        }
-      }
-      
-      executionContexts = newContexts;
-      console.log(`✅ Node ${node.label} completed with ${executionContexts.length} result(s)`);
-      
-      // Exit early if no contexts remain
-      if (executionContexts.length === 0) {
-        console.warn(`⚠️ No execution contexts remaining after node ${node.label}, stopping workflow`);
-        break;
-      }
-    }
+    const runOptions: WorkflowRunOptions = {
+      ...callbacks,
+      runtime,
+      signal: cancellation.signal,
+      triggerData,
+      checkpoints: await createSupabaseCheckpointStore(supabase, execution.id, resumedFrom),
+      approvals: createSupabaseApprovalStore(supabase, execution.id, workflowId),
+      budgetUsd: await fetchWorkflowBudget(workflowId),
+      workflowId,
+      subWorkflows: createSupabaseSubWorkflowStore(supabase, execution.id),
+    };
+    const result = continuation
+      ? await continueWorkflow(nodes, continuation, runOptions)
+      : await runWorkflow(nodes, runOptions);
+    const { outputs, errors, awaitingApproval, usage } = result;
+    const status = await getFinishedRunStatus(supabase, execution.id);
 
-    // Update execution as completed
     await supabase
       .from('workflow_executions')
       .update({
-        status: 'completed',
+        status,
         completed_at: new Date().toISOString(),
+        ...getExecutionUsageFields(usage),
         result: {
-          contexts: executionContexts.length,
-          final_results: executionContexts.map(ctx => ctx.data)
+          contexts: outputs.length,
+          final_results: outputs as Json[],
+          errors: errors as unknown as Json[],
+          awaiting_approval: awaitingApproval
         }
       })
       .eq('id', execution.id);
+    if (status === 'waiting') await completeRunIfReviewed(supabase, execution.id);
 
-    console.log(`🎉 Workflow execution completed with ${executionContexts.length} result(s)`);
-    return [{ ...execution, status: 'completed' as const }];
+    console.log(`🎉 Workflow execution completed with ${outputs.length} result(s), ${errors.length} error(s) and ${awaitingApproval} item(s) awaiting approval`);
+    return {
+      execution: { ...execution, status } as unknown as WorkflowExecution,
+      outputs,
+      errors,
+      awaitingApproval,
+      usage
+    };
 
   } catch (error) {
     console.error('Workflow execution failed:', error);
-    
-    // Update execution as failed
+
     await supabase
       .from('workflow_executions')
       .update({
-        status: 'failed',
+        status: getFailedRunStatus(error),
         completed_at: new Date().toISOString(),
-        error_message: error instanceof Error ? error.message : 'Unknown error'
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+        ...getExecutionUsageFields(error?.usage)
       })
       .eq('id', execution.id);
 
-    throw error;
+    // Callers need the execution id to offer a resume of the failed run
+    const failure = error instanceof Error ? error : new Error(String(error));
+    throw Object.assign(failure, { executionId: execution.id });
+  } finally {
+    cancellation.stop();
   }
 }
 
-// Execute a single node with context
-async function executeNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any> {
-  console.log(`🔧 Executing node ${node.type} with config:`, node.config);
-  
-  switch (node.type) {
-    case 'trigger':
-      return executeTriggerNode(node, context);
-    
-    case 'news-discovery':
-      return executeNewsDiscoveryNode(node, context);
-    
-    case 'rss-aggregator':
-      return executeRssAggregatorNode(node, context);
-    
-    case 'google-scholar-search':
-      return executeGoogleScholarNode(node, context);
-    
-    case 'perplexity-research':
-      return executePerplexityResearchNode(node, context);
-    
-    case 'multi-source-synthesizer':
-      return executeMultiSourceSynthesizerNode(node, context);
-    
-    case 'ai-processor':
-      return executeAiProcessorNode(node, context);
-    
-    case 'filter':
-      return executeFilterNode(node, context);
-    
-    case 'publisher':
-      return executePublisherNode(node, context);
-    
-    default:
-      console.warn(`⚠️ Unknown node type: ${node.type}`);
-      return context.data;
+// Ask the process running an execution to stop it. Runs that already finished are left alone.
+export async function cancelWorkflowExecution(executionId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('workflow_executions')
+    .update({ cancel_requested_at: new Date().toISOString() })
+    .eq('id', executionId)
+    .in('status', ['pending', 'executing', 'running'])
+    .select('id');
+
+  if (error) throw new Error(error.message);
+  if (!data || data.length === 0) {
+    throw new Error('This run has already finished');
   }
 }
 
-// Node execution functions
-async function executeTriggerNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any> {
-  // Trigger nodes just pass through their initial data
-  return context.data;
-}
-
-async function executeNewsDiscoveryNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any[]> {
-  console.log('🔍 Executing News Discovery node');
-  
-  try {
-    // Calculate fromDate / toDate based on preset
-    let fromDate: string | undefined;
-    let toDate: string | undefined;
-    const now = new Date();
-    
-    if (node.config.timeRange === 'custom') {
-      fromDate = node.config.fromDate;
-      toDate = node.config.toDate;
-      console.log('📅 Using custom date range:', { fromDate, toDate });
-    } else {
-      switch (node.config.timeRange) {
-      case 'hour':
-        fromDate = new Date(now.getTime() - 60 * 60 * 1000).toISOString();
-        break;
-      case 'day':
-        fromDate = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
-        break;
-      case 'week':
-        fromDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-      case 'month':
-        fromDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-      default:
-        break;
-      }
-      console.log('📅 Using preset date range:', { timeRange: node.config.timeRange, fromDate });
-    }
-
-    console.log('🔧 News Discovery config:', {
-      keywords: node.config.keywords,
-      source: node.config.source,
-      timeRange: node.config.timeRange,
-      fromDate,
-      toDate
-    });
-
-    const { data, error } = await supabase.functions.invoke('news-discovery', {
-      body: {
-        keywords: node.config.keywords || ['AI', 'technology'],
-        source: node.config.source || node.config.sources || 'all',
-        maxResults: node.config.maxResults || 10,
-        timeRange: node.config.timeRange || 'day',
-        fromDate,
-        toDate,
-        saveToQueue: true
-      }
-    });
+// Execute a complete workflow
+export async function executeWorkflow(
+  workflowId: string,
+  nodes: WorkflowNode[],
+  triggerData?: WorkflowTriggerData
+): Promise<WorkflowExecution[]> {
+  console.log(`🚀 Starting workflow execution for workflow ${workflowId}`);
 
-    if (error) {
-      console.error('News discovery error:', error);
-      throw error;
-    }
+  const { execution } = await runRecordedWorkflow({
+    nodes,
+    triggerData,
+    workflowRuleId: workflowId,
+    triggerType: triggerData?.scheduled ? 'schedule' : 'manual',
+    onLog: (entry) => console.log(`📋 [${entry.nodeName}] ${entry.status}: ${entry.message}`)
+  });
 
-    const articles = data.articles || [];
-    console.log(`📰 News discovery found ${articles.length} articles`);
-    
-    if (articles.length === 0) {
-      console.warn('⚠️ No articles found by news discovery');
-      return [];
-    }
-    
-    // Return each article as a separate result - THIS FIXES THE MULTIPLE RESULTS ISSUE
-    const results = articles.map((article: any) => ({
-      ...article,
-      source_type: 'news_discovery',
-      execution_context: context.executionId
-    }));
-    
-    console.log(`🔄 News discovery returning ${results.length} separate articles for processing`);
-    return results;
-    
-  } catch (error) {
-    console.error('News discovery node execution failed:', error);
-    throw error;
-  }
+  return [execution];
 }
 
-async function executeRssAggregatorNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any[]> {
-  console.log('📡 Executing RSS Aggregator node');
-  
-  try {
-    const { data, error } = await supabase.functions.invoke('rss-aggregator', {
-      body: {
-        feeds: node.config.feeds || [],
-        maxItemsPerFeed: node.config.maxItemsPerFeed || 5
-      }
-    });
-
-    if (error) throw error;
-    
-    const items = data.items || [];
-    console.log(`📡 RSS aggregator found ${items.length} items`);
-    
-    // Return each RSS item as a separate result
-    return items.map((item: any) => ({
-      ...item,
-      source_type: 'rss',
-      execution_context: context.executionId
-    }));
-    
-  } catch (error) {
-    console.error('RSS aggregator node execution failed:', error);
-    throw error;
-  }
+// A run can be resumed if it failed, was cancelled or some of its items failed, and it was
+// recorded with its graph
+export function canResumeExecution(execution: { status: string; result?: { errors?: unknown[] } | null; nodes?: unknown }): boolean {
+  if (!execution.nodes) return false;
+  return ['failed', 'cancelled'].includes(execution.status) || (execution.result?.errors?.length || 0) > 0;
 }
 
-async function executeGoogleScholarNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any[]> {
-  console.log('🎓 Executing Google Scholar node');
-  
-  try {
-    const { data, error } = await supabase.functions.invoke('google-scholar-search', {
-      body: {
-        query: node.config.query || context.data.keywords || 'AI research',
-        maxResults: node.config.maxResults || 10,
-        yearFrom: node.config.yearFrom,
-        yearTo: node.config.yearTo,
-        sort: node.config.sort || 'relevance',
-        language: node.config.language || 'en',
-        includeAbstracts: node.config.includeAbstracts !== false,
-        includeCitations: node.config.includeCitations || false
-      }
-    });
+// Replay a run with the same graph and trigger data. Nodes that already succeeded for the
+// same input reuse their checkpointed output, so only failed or unreached work runs again.
+export async function resumeWorkflowExecution(
+  executionId: string,
+  callbacks: Pick<WorkflowRunOptions, 'onLog' | 'onNodeComplete' | 'signal'> = {}
+): Promise<RecordedRunResult> {
+  const { data: previous, error } = await supabase
+    .from('workflow_executions')
+    .select('id, workflow_id, workflow_rule_id, trigger_type, nodes, trigger_data, continuation')
+    .eq('id', executionId)
+    .single();
 
-    if (error) throw error;
-    
-    const papers = data.papers || [];
-    console.log(`🎓 Google Scholar found ${papers.length} papers`);
-    
-    if (papers.length === 0) {
-      console.warn('⚠️ No papers found by Google Scholar search');
-      return [];
-    }
-    
-    // Return each paper as a separate result - THIS FIXES THE MULTIPLE RESULTS ISSUE
-    const results = papers.map((paper: any) => ({
-      title: paper.title,
-      content: paper.abstract || '',
-      description: paper.abstract || '',
-      url: paper.url || '',
-      source_type: 'academic',
-      source_url: paper.url || '',
-      published_date: new Date().toISOString(), // Use current processing date
-      authors: Array.isArray(paper.authors) ? paper.authors : [],
-      citations: paper.citations || 0,
-      venue: paper.venue || '',
-      execution_context: context.executionId
-    }));
-    
-    console.log(`🔄 Google Scholar returning ${results.length} separate papers for processing`);
-    return results;
-    
-  } catch (error) {
-    console.error('Google Scholar node execution failed:', error);
-    throw error;
+  if (error) throw new Error(error.message);
+  if (!previous.nodes) {
+    throw new Error('This run was recorded before checkpoints existed and cannot be resumed');
   }
-}
 
-async function executePerplexityResearchNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any> {
-  console.log('🔬 Executing Perplexity Research node');
-  
-  try {
-    const { data, error } = await supabase.functions.invoke('perplexity-research', {
-      body: {
-        query: node.config.query || context.data.title || 'research query',
-        mode: node.config.mode || 'comprehensive'
-      }
-    });
-
-    if (error) throw error;
-    
-    return {
-      ...context.data,
-      research_data: data,
-      source_type: 'research',
-      execution_context: context.executionId
-    };
-    
-  } catch (error) {
-    console.error('Perplexity research node execution failed:', error);
-    throw error;
+  console.log(`🔁 Resuming workflow execution ${executionId}`);
+
+  const nodes = previous.nodes as unknown as WorkflowNode[];
+  const triggerData = previous.trigger_data as WorkflowTriggerData | null;
+  // Scheduled, webhook, event and sub-workflow runs only started from some triggers, so the replay must too
+  let triggerNodeIds: string[] | undefined;
+  if (previous.trigger_type === 'sub-workflow') {
+    triggerNodeIds = getSubWorkflowTriggerNodes(nodes).map(node => node.id);
+  } else if (triggerData?.scheduled && triggerData.scheduledFor) {
+    triggerNodeIds = getDueTriggerNodes(nodes, new Date(triggerData.scheduledFor)).map(node => node.id);
+  } else if (triggerData?.webhook) {
+    triggerNodeIds = getWebhookTriggerNodes(nodes).map(node => node.id);
+  } else if (triggerData?.event) {
+    triggerNodeIds = getEventTriggerNodes(nodes, {
+      event_type: triggerData.event.type as WorkflowEventType,
+      record: triggerData.record as Record<string, unknown>
+    }).map(node => node.id);
   }
-}
-
-async function executeMultiSourceSynthesizerNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any> {
-  console.log('🔗 Executing Multi-Source Synthesizer node');
-  
-  try {
-    const { data, error } = await supabase.functions.invoke('multi-source-synthesizer', {
-      body: {
-        sources: [context.data],
-        synthesisType: node.config.synthesisType || 'comprehensive',
-        tone: node.config.tone || 'professional'
-      }
-    });
 
-    if (error) throw error;
-    
-    return {
-      ...context.data,
-      synthesized_content: data,
-      execution_context: context.executionId
-    };
-    
-  } catch (error) {
-    console.error('Multi-source synthesizer node execution failed:', error);
-    throw error;
-  }
+  return runRecordedWorkflow({
+    ...callbacks,
+    nodes,
+    triggerData: triggerData ?? undefined,
+    triggerNodeIds,
+    // Runs that continued an approved item start from the approval node again
+    continuation: (previous.continuation as unknown as WorkflowContinuation) ?? undefined,
+    workflowId: previous.workflow_id,
+    workflowRuleId: previous.workflow_rule_id,
+    triggerType: 'resume',
+    resumedFrom: previous.id,
+  });
 }
 
-async function executeAiProcessorNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any> {
-  console.log('🤖 Executing AI Processor node');
-  
-  try {
-    const { data, error } = await supabase.functions.invoke('ai-content-generator', {
-      body: {
-        prompt: node.config.prompt || 'Generate article content',
-        content: context.data.content || context.data.description || '',
-        tone: node.config.tone || 'professional',
-        length: node.config.length || 'medium'
-      }
-    });
+// A run started by a sub-workflow node, with the name of the workflow it ran
+export type ChildWorkflowExecution = WorkflowExecution & { workflows?: { name: string } | null };
 
-    if (error) throw error;
-    
-    return {
-      ...context.data,
-      ai_content: data,
-      execution_context: context.executionId
-    };
-    
-  } catch (error) {
-    console.error('AI processor node execution failed:', error);
-    throw error;
-  }
-}
+// Runs started by the sub-workflow nodes of an execution
+export async function fetchChildExecutions(executionId: string): Promise<ChildWorkflowExecution[]> {
+  const { data, error } = await supabase
+    .from('workflow_executions')
+    .select('id, workflow_id, parent_execution_id, parent_node_id, status, started_at, completed_at, error_message, cost_usd, workflows(name)')
+    .eq('parent_execution_id', executionId)
+    .order('started_at', { ascending: true });
 
-async function executeFilterNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any> {
-  console.log('🔍 Executing Filter node');
-  
-  // Apply filters based on node configuration
-  const filters = node.config.filters || [];
-  let data = context.data;
-  
-  for (const filter of filters) {
-    switch (filter.type) {
-      case 'keyword':
-        if (!data.title?.toLowerCase().includes(filter.value.toLowerCase()) &&
-            !data.content?.toLowerCase().includes(filter.value.toLowerCase())) {
-          return null; // Filtered out
-        }
-        break;
-      case 'date':
-        const articleDate = new Date(data.publishedAt || data.published_date);
-        const filterDate = new Date(filter.value);
-        if (filter.operator === 'after' && articleDate <= filterDate) {
-          return null;
-        }
-        if (filter.operator === 'before' && articleDate >= filterDate) {
-          return null;
-        }
-        break;
-      case 'score':
-        const score = data.priority_score || 0;
-        if (filter.operator === 'gt' && score <= filter.value) {
-          return null;
-        }
-        if (filter.operator === 'lt' && score >= filter.value) {
-          return null;
-        }
-        break;
-    }
-  }
-  
-  return data;
+  if (error) throw new Error(error.message);
+  return (data || []) as unknown as ChildWorkflowExecution[];
 }
 
-async function executePublisherNode(node: WorkflowNode, context: WorkflowExecutionContext): Promise<any> {
-  console.log('📢 Executing Publisher node with context:', context);
-  console.log('📢 Publisher node config:', node.config);
-  
-  try {
-    // Prepare content for the create-article-from-ai function
-    const articleContent = context.data.ai_content?.content || context.data.content || context.data.description || '';
-    const title = context.data.title || 'Generated Article';
-    
-    console.log('Publisher node - preparing content:', {
-      title,
-      contentLength: articleContent.length,
-      hasAiContent: !!context.data.ai_content,
-      category: node.config.category,
-      reporterId: node.config.reporterId,
-      hasReporterId: !!node.config.reporterId
-    });
-
-    const fullContent = `# ${title}
-
-${context.data.summary || context.data.description || ''}
-
-${articleContent}`;
-
-    // Create article from the workflow result using the correct interface
-    const { data, error } = await supabase.functions.invoke('create-article-from-ai', {
-      body: {
-        content: fullContent,
-        category: node.config.category || 'AI Generated',
-        provider: 'AI Processor',
-        status: node.config.autoPublish ? 'published' : 'draft',
-        reporterId: node.config.reporterId || null
-      }
-    });
+export async function fetchExecutionNodeRuns(executionId: string): Promise<WorkflowNodeRun[]> {
+  const { data, error } = await supabase
+    .from('workflow_node_runs')
+    .select('*')
+    .eq('execution_id', executionId)
+    .order('started_at', { ascending: true });
 
-    if (error) {
-      console.error('Publisher node - create-article-from-ai error:', error);
-      throw error;
-    }
-
-    console.log('Publisher node - article created successfully:', data);
-    
-    return {
-      ...context.data,
-      published_article: data,
-      execution_context: context.executionId
-    };
-    
-  } catch (error) {
-    console.error('Publisher node execution failed:', error);
-    throw error;
-  }
+  if (error) throw new Error(error.message);
+  return (data || []) as unknown as WorkflowNodeRun[];
 }
-
-// Utility function to sort nodes in execution order
-function topologicalSort(nodes: WorkflowNode[]): WorkflowNode[] {
-  const sorted: WorkflowNode[] = [];
-  const visited = new Set<string>();
-  const visiting = new Set<string>();
-  
-  function visit(nodeId: string) {
-    if (visiting.has(nodeId)) {
-      throw new Error('Circular dependency detected in workflow');
-    }
-    if (visited.has(nodeId)) {
-      return;
-    }
-    
-    visiting.add(nodeId);
-    
-    const node = nodes.find(n => n.id === nodeId);
-    if (node) {
-      // Visit connected nodes first
-      for (const connectedId of node.connected) {
-        visit(connectedId);
-      }
-      
-      sorted.push(node);
-      visited.add(nodeId);
-    }
-    
-    visiting.delete(nodeId);
-  }
-  
-  // Start with trigger nodes
-  const triggerNodes = nodes.filter(n => n.type === 'trigger');
-  for (const trigger of triggerNodes) {
-    visit(trigger.id);
-  }
-  
-  // Visit any remaining nodes
-  for (const node of nodes) {
-    if (!visited.has(node.id)) {
-      visit(node.id);
-    }
-  }
-  
-  return sorted;
-}
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { WorkflowNode } from '@/types/WorkflowTypes';
+import { getWorkflowNextRun } from '@/lib/workflow/schedule';
+import { getWorkflowEventTypes } from '@/lib/workflow/events';
+
+export interface SavedWorkflow {
+  id: string;
+  name: string;
+  description: string | null;
+  owner_id: string | null;
+  nodes: WorkflowNode[];
+  current_version: number;
+  schedule_enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  webhook_secret: string;
+  // Database events the workflow's event triggers listen to
+  event_types: string[];
+  // Runs stop starting new steps once their AI calls cost more than this (USD); null for no limit
+  budget_usd: number | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface WorkflowVersion {
+  id: string;
+  workflow_id: string;
+  version: number;
+  nodes: WorkflowNode[];
+  note: string | null;
+  created_by: string | null;
+  created_at: string | null;
+}
+
+const WORKFLOW_WEBHOOK_FUNCTION_URL = 'https://nuhjsrmkkqtecfkjrcox.supabase.co/functions/v1/workflow-webhook';
+
+export const getWorkflowWebhookUrl = (workflowId: string) => `${WORKFLOW_WEBHOOK_FUNCTION_URL}?workflow=${workflowId}`;
+
+// Scheduled trigger nodes decide when the run-scheduled-workflows function picks the workflow up,
+// event trigger nodes which events process-workflow-events runs it for
+const getScheduleFields = (nodes: WorkflowNode[]) => {
+  const nextRun = getWorkflowNextRun(nodes);
+  return {
+    schedule_enabled: nextRun !== null,
+    next_run_at: nextRun ? nextRun.toISOString() : null,
+    event_types: getWorkflowEventTypes(nodes),
+  };
+};
+
+export const fetchWorkflows = async (): Promise<SavedWorkflow[]> => {
+  const { data, error } = await supabase
+    .from('workflows')
+    .select('*')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return (data || []) as unknown as SavedWorkflow[];
+};
+
+export const fetchWorkflowById = async (id: string): Promise<SavedWorkflow> => {
+  const { data, error } = await supabase.from('workflows').select('*').eq('id', id).single();
+  if (error) throw new Error(error.message);
+  return data as unknown as SavedWorkflow;
+};
+
+export const fetchWorkflowVersions = async (workflowId: string): Promise<WorkflowVersion[]> => {
+  const { data, error } = await supabase
+    .from('workflow_versions')
+    .select('*')
+    .eq('workflow_id', workflowId)
+    .order('version', { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return (data || []) as unknown as WorkflowVersion[];
+};
+
+// Create a workflow along with its first version
+export const createWorkflow = async ({ name, description, nodes, ownerId }: {
+  name: string;
+  description?: string | null;
+  nodes: WorkflowNode[];
+  ownerId?: string | null;
+}): Promise<SavedWorkflow> => {
+  const { data, error } = await supabase
+    .from('workflows')
+    .insert({
+      name,
+      description: description || null,
+      owner_id: ownerId || null,
+      nodes: nodes as unknown as Json,
+      current_version: 1,
+      ...getScheduleFields(nodes),
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  const { error: versionError } = await supabase
+    .from('workflow_versions')
+    .insert({
+      workflow_id: data.id,
+      version: 1,
+      nodes: nodes as unknown as Json,
+      note: 'Initial version',
+      created_by: ownerId || null,
+    });
+
+  if (versionError) throw new Error(versionError.message);
+  return data as unknown as SavedWorkflow;
+};
+
+// Store the graph as the next version and make it the workflow's current graph
+export const saveWorkflowVersion = async ({ id, nodes, note, userId }: {
+  id: string;
+  nodes: WorkflowNode[];
+  note?: string;
+  userId?: string | null;
+}): Promise<SavedWorkflow> => {
+  const { schedule_enabled, next_run_at, event_types } = getScheduleFields(nodes);
+
+  // The database numbers the version, so concurrent saves never take the same number
+  const { data, error } = await supabase
+    .rpc('save_workflow_version', {
+      p_workflow_id: id,
+      p_nodes: nodes as unknown as Json,
+      p_note: note || null,
+      p_created_by: userId || null,
+      p_schedule_enabled: schedule_enabled,
+      p_next_run_at: next_run_at,
+      p_event_types: event_types,
+    })
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data as unknown as SavedWorkflow;
+};
+
+// Rolling back never rewrites history: the old graph is saved again as a new version
+export const rollbackWorkflow = async ({ id, version, userId }: {
+  id: string;
+  version: number;
+  userId?: string | null;
+}): Promise<SavedWorkflow> => {
+  const { data, error } = await supabase
+    .from('workflow_versions')
+    .select('nodes')
+    .eq('workflow_id', id)
+    .eq('version', version)
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  return saveWorkflowVersion({
+    id,
+    nodes: data.nodes as unknown as WorkflowNode[],
+    note: `Rolled back to version ${version}`,
+    userId,
+  });
+};
+
+export const duplicateWorkflow = async ({ id, name, ownerId }: {
+  id: string;
+  name?: string;
+  ownerId?: string | null;
+}): Promise<SavedWorkflow> => {
+  const source = await fetchWorkflowById(id);
+  return createWorkflow({
+    name: name || `${source.name} (copy)`,
+    description: source.description,
+    nodes: source.nodes,
+    ownerId,
+  });
+};
+
+export const deleteWorkflow = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('workflows').delete().eq('id', id);
+  if (error) throw new Error(error.message);
+};
+
+// Requests signed with the old secret are rejected from now on
+export const rotateWorkflowWebhookSecret = async (id: string): Promise<string> => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const secret = [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+  const { error } = await supabase.from('workflows').update({ webhook_secret: secret }).eq('id', id);
+  if (error) throw new Error(error.message);
+  return secret;
+};
+
+export const updateWorkflowBudget = async (id: string, budgetUsd: number | null): Promise<void> => {
+  const { error } = await supabase.from('workflows').update({ budget_usd: budgetUsd }).eq('id', id);
+  if (error) throw new Error(error.message);
+};
@@ -1,7 +1,7 @@
 
 export interface WorkflowNode {
   id: string;
-  type: 'trigger' | 'scraper' | 'rss-aggregator' | 'google-scholar-search' | 'news-discovery' | 'perplexity-research' | 'ai-processor' | 'multi-source-synthesizer' | 'filter' | 'publisher' | 'social-poster' | 'email-sender' | 'image-generator' | 'seo-analyzer' | 'translator' | 'content-quality-analyzer' | 'ai-seo-optimizer' | 'engagement-forecaster' | 'content-performance-analyzer' | 'article-structure-validator';
+  type: 'trigger' | 'scraper' | 'rss-aggregator' | 'google-scholar-search' | 'news-discovery' | 'perplexity-research' | 'ai-processor' | 'multi-source-synthesizer' | 'filter' | 'dedupe' | 'router' | 'aggregate' | 'approval' | 'sub-workflow' | 'publisher' | 'social-poster' | 'email-sender' | 'image-generator' | 'seo-analyzer' | 'translator' | 'content-quality-analyzer' | 'ai-seo-optimizer' | 'engagement-forecaster' | 'content-performance-analyzer' | 'article-structure-validator';
   label: string;
   position: { x: number; y: number };
   config: Record<string, any>;
@@ -17,4 +17,32 @@ export interface ExecutionLog {
   message: string;
   timestamp: Date;
   data?: any;
+  // Set when the node is configured with retries
+  attempt?: number;
+  maxAttempts?: number;
+}
+
+export type RouteConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'greater_or_equal'
+  | 'less_than'
+  | 'less_or_equal'
+  | 'contains'
+  | 'matches'
+  | 'exists';
+
+export interface RouteCondition {
+  field: string;
+  operator: RouteConditionOperator;
+  value?: string;
+}
+
+// A labelled outgoing edge of a router node. Edges without conditions are the "otherwise" branch.
+export interface RouterRoute {
+  targetId: string;
+  label?: string;
+  match?: 'all' | 'any';
+  conditions: RouteCondition[];
 }
@@ -1,11 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { getAnthropicUsage, getGeminiUsage, getOpenAIUsage } from '../../../src/lib/workflow/usage.ts';
+import type { AiUsage } from '../../../src/lib/workflow/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface GeneratedContent {
+  text: string;
+  usage: AiUsage;
+}
+
 interface GenerateContentRequest {
   content: string;
   url?: string;
@@ -15,6 +22,10 @@ interface GenerateContentRequest {
   prompt?: string;
 }
 
+const OPENAI_MODEL = 'gpt-4o-mini';
+const CLAUDE_MODEL = 'claude-3-5-sonnet-20241022';
+const GEMINI_MODEL = 'gemini-1.5-flash-latest';
+
 async function scrapeContent(url: string): Promise<string> {
   try {
     const response = await fetch(url);
@@ -35,7 +46,7 @@ async function scrapeContent(url: string): Promise<string> {
   }
 }
 
-async function generateWithOpenAI(content: string, contentType: string, customPrompt?: string): Promise<string> {
+async function generateWithOpenAI(content: string, contentType: string, customPrompt?: string): Promise<GeneratedContent> {
   const apiKey = Deno.env.get('OPENAI_API_KEY');
   if (!apiKey) throw new Error('OpenAI API key not configured');
 
@@ -53,7 +64,7 @@ async function generateWithOpenAI(content: string, contentType: string, customPr
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      model: 'gpt-4o-mini',
+      model: OPENAI_MODEL,
       messages: [
         { role: 'system', content: systemMessage },
         { role: 'user', content: content }
@@ -68,10 +79,10 @@ async function generateWithOpenAI(content: string, contentType: string, customPr
     throw new Error(data.error?.message || 'OpenAI API request failed');
   }
 
-  return data.choices[0].message.content;
+  return { text: data.choices[0].message.content, usage: getOpenAIUsage(OPENAI_MODEL, data) };
 }
 
-async function generateWithClaude(content: string, contentType: string, customPrompt?: string): Promise<string> {
+async function generateWithClaude(content: string, contentType: string, customPrompt?: string): Promise<GeneratedContent> {
   const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
   if (!apiKey) throw new Error('Anthropic API key not configured');
 
@@ -90,7 +101,7 @@ async function generateWithClaude(content: string, contentType: string, customPr
       'anthropic-version': '2023-06-01',
     },
     body: JSON.stringify({
-      model: 'claude-3-5-sonnet-20241022',
+      model: CLAUDE_MODEL,
       max_tokens: 2000,
       system: systemMessage,
       messages: [
@@ -104,10 +115,10 @@ async function generateWithClaude(content: string, contentType: string, customPr
     throw new Error(data.error?.message || 'Claude API request failed');
   }
 
-  return data.content[0].text;
+  return { text: data.content[0].text, usage: getAnthropicUsage(CLAUDE_MODEL, data) };
 }
 
-async function generateWithGemini(content: string, contentType: string, customPrompt?: string): Promise<string> {
+async function generateWithGemini(content: string, contentType: string, customPrompt?: string): Promise<GeneratedContent> {
   const apiKey = Deno.env.get('GOOGLE_API_KEY');
   if (!apiKey) throw new Error('Google API key not configured');
 
@@ -120,7 +131,7 @@ async function generateWithGemini(content: string, contentType: string, customPr
 
   const fullPrompt = `${systemMessage}\n\nContent to process:\n${content}`;
 
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent?key=${apiKey}`, {
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${apiKey}`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -141,7 +152,7 @@ async function generateWithGemini(content: string, contentType: string, customPr
     throw new Error(data.error?.message || 'Gemini API request failed');
   }
 
-  return data.candidates[0].content.parts[0].text;
+  return { text: data.candidates[0].content.parts[0].text, usage: getGeminiUsage(GEMINI_MODEL, data) };
 }
 
 serve(async (req) => {
@@ -164,7 +175,7 @@ serve(async (req) => {
     }
 
     // Generate content based on provider
-    let generatedContent: string;
+    let generatedContent: GeneratedContent;
     
     switch (request.provider) {
       case 'openai':
@@ -180,7 +191,7 @@ serve(async (req) => {
         throw new Error('Unsupported AI provider');
     }
 
-    return new Response(JSON.stringify({ content: generatedContent }), {
+    return new Response(JSON.stringify({ content: generatedContent.text, usage: generatedContent.usage }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
@@ -0,0 +1,175 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DedupeItem {
+  url?: string;
+  title?: string;
+  content?: string;
+}
+
+interface DedupeRequest {
+  items: DedupeItem[];
+  checkQueue?: boolean;
+  checkPublished?: boolean;
+  checkSimilarity?: boolean;
+  similarityThreshold?: number;
+}
+
+interface DedupeResult {
+  duplicate: boolean;
+  reason?: string;
+  warning?: string;
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+// The same page is often stored with and without a trailing slash, tracking parameters or fragment
+function getUrlVariants(url: string): string[] {
+  const variants = new Set([url.trim()]);
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    [...parsed.searchParams.keys()]
+      .filter(key => key.startsWith('utm_'))
+      .forEach(key => parsed.searchParams.delete(key));
+    const normalized = parsed.toString().replace(/\/$/, '');
+    variants.add(normalized);
+    variants.add(`${normalized}/`);
+  } catch {
+    // Not an absolute URL; only the exact value can match
+  }
+  return [...variants];
+}
+
+// Same model and dimensions as the stored article embeddings (see generate-embeddings)
+async function getGeminiEmbedding(text: string): Promise<number[]> {
+  const googleApiKey = Deno.env.get('GOOGLE_API_KEY');
+  if (!googleApiKey) {
+    throw new Error('Google API key not configured');
+  }
+
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-embedding-001:embedContent?key=${googleApiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: 'models/gemini-embedding-001',
+      content: { parts: [{ text: text.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim().substring(0, 12000) }] },
+      outputDimensionality: 768
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(`Google API error: ${errorData.error?.message || 'Unknown error'}`);
+  }
+
+  const data = await response.json();
+  return data.embedding.values;
+}
+
+async function checkItem(supabase: SupabaseClient, item: DedupeItem, request: DedupeRequest): Promise<DedupeResult> {
+  const urls = item.url ? getUrlVariants(item.url) : [];
+
+  if (urls.length > 0 && request.checkQueue !== false) {
+    const { data, error } = await supabase
+      .from('content_queue')
+      .select('id, title, status')
+      .in('source_url', urls)
+      .limit(1);
+
+    if (error) throw new Error(`Content queue lookup failed: ${error.message}`);
+    if (data?.length > 0) {
+      return { duplicate: true, reason: `URL is already in the content queue as "${data[0].title}" (${data[0].status})` };
+    }
+  }
+
+  if (urls.length > 0 && request.checkPublished !== false) {
+    for (const url of urls) {
+      const { data, error } = await supabase
+        .from('articles')
+        .select('id, title, status')
+        .contains('source_references', JSON.stringify([{ url }]))
+        .limit(1);
+
+      if (error) throw new Error(`Article source lookup failed: ${error.message}`);
+      if (data?.length > 0) {
+        return { duplicate: true, reason: `URL is already a source of article "${data[0].title}" (${data[0].status})` };
+      }
+    }
+  }
+
+  const text = [item.title, item.content].filter(Boolean).join('\n\n');
+  if (text && request.checkSimilarity !== false) {
+    const threshold = request.similarityThreshold || DEFAULT_SIMILARITY_THRESHOLD;
+    try {
+      const embedding = await getGeminiEmbedding(text);
+      const { data, error } = await supabase.rpc('search_articles_by_similarity', {
+        query_embedding: embedding,
+        similarity_threshold: threshold,
+        match_count: 1
+      });
+
+      if (error) throw new Error(error.message);
+      if (data?.length > 0) {
+        return {
+          duplicate: true,
+          reason: `${Math.round(data[0].similarity * 100)}% similar to published article "${data[0].title}"`
+        };
+      }
+    } catch (error) {
+      // Without an embedding the item is kept; the URL checks above still apply
+      console.error('⚠️ Similarity check failed:', error.message);
+      return { duplicate: false, warning: `Similarity check skipped: ${error.message}` };
+    }
+  }
+
+  return { duplicate: false };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request: DedupeRequest = await req.json();
+    if (!Array.isArray(request.items)) {
+      throw new Error('items must be an array');
+    }
+
+    console.log(`🔍 Checking ${request.items.length} item(s) for duplicates`);
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const results: DedupeResult[] = [];
+    for (const item of request.items) {
+      results.push(await checkItem(supabase, item, request));
+    }
+
+    const duplicates = results.filter(result => result.duplicate).length;
+    console.log(`✅ Dedupe finished: ${duplicates} duplicate(s), ${results.length - duplicates} new`);
+
+    return new Response(JSON.stringify({ success: true, results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('❌ Error in content-dedupe:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
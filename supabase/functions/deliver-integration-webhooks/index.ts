@@ -0,0 +1,186 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import {
+  buildDeliveryRequest,
+  getDeliveryUpdate,
+  getIntegrationEventLabel,
+  MAX_DELIVERY_ATTEMPTS
+} from '../../../src/lib/workflow/outboundWebhooks.ts';
+import type { DeliveryAttempt, IntegrationDelivery, OutboundIntegration } from '../../../src/lib/workflow/outboundWebhooks.ts';
+import { ABANDONED_CLAIM_ERROR, claimQueueRow, getDueQueueRows } from '../../../src/lib/workflow/jobQueue.ts';
+import type { QueueRow, WorkQueue } from '../../../src/lib/workflow/jobQueue.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DeliverWebhooksRequest {
+  deliveryId?: string;
+  batchSize?: number;
+}
+
+// Receivers that take longer than this count as failed and are retried
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+type QueuedDelivery = IntegrationDelivery & QueueRow;
+
+interface IntegrationRow extends OutboundIntegration {
+  enabled: boolean;
+  success_count: number;
+  error_count: number;
+}
+
+// A delivery whose worker stopped on its last attempt is recorded as failed like any other
+const deliveryQueue: WorkQueue<QueuedDelivery> = {
+  table: 'integration_deliveries',
+  claimedStatus: 'delivering',
+  maxAttempts: MAX_DELIVERY_ATTEMPTS,
+  dueColumn: 'next_attempt_at',
+  orderColumn: 'next_attempt_at',
+  getAbandonedUpdate: (_delivery, now) =>
+    getDeliveryUpdate(MAX_DELIVERY_ATTEMPTS, { ok: false, error: ABANDONED_CLAIM_ERROR }, now),
+};
+
+async function send(integration: OutboundIntegration, delivery: IntegrationDelivery): Promise<DeliveryAttempt> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+  try {
+    const { url, headers, body } = await buildDeliveryRequest(integration, delivery);
+    const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal });
+    return {
+      ok: response.ok,
+      statusCode: response.status,
+      responseBody: await response.text().catch(() => ''),
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error.name === 'AbortError' ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s` : error.message,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function recordIntegrationOutcome(supabase: SupabaseClient, integration: IntegrationRow, succeeded: boolean) {
+  const { error } = await supabase
+    .from('external_integrations')
+    .update(succeeded
+      ? { success_count: integration.success_count + 1, last_used: new Date().toISOString() }
+      : { error_count: integration.error_count + 1 })
+    .eq('id', integration.id);
+
+  if (error) console.error(`Failed to update the counts of integration ${integration.id}:`, error);
+}
+
+// `delivery` is the claimed row, so its attempts already count this attempt
+async function processDelivery(supabase: SupabaseClient, delivery: QueuedDelivery) {
+  const attempts = delivery.attempts;
+
+  const { data, error } = await supabase
+    .from('external_integrations')
+    .select('*')
+    .eq('id', delivery.integration_id)
+    .single();
+
+  if (error) throw error;
+  const integration = data as IntegrationRow;
+
+  const attempt: DeliveryAttempt = integration.enabled
+    ? await send(integration, delivery)
+    : { ok: false, error: 'The integration is disabled' };
+
+  // A disabled integration gets no further attempts
+  const update = integration.enabled
+    ? getDeliveryUpdate(attempts, attempt)
+    : getDeliveryUpdate(MAX_DELIVERY_ATTEMPTS, attempt);
+
+  const { error: updateError } = await supabase
+    .from('integration_deliveries')
+    .update(update)
+    .eq('id', delivery.id);
+
+  if (updateError) throw updateError;
+
+  if (integration.enabled && update.status !== 'pending') {
+    await recordIntegrationOutcome(supabase, integration, update.status === 'succeeded');
+  }
+
+  const label = `${getIntegrationEventLabel(delivery.event_type)} to "${integration.name}"`;
+  if (update.status === 'succeeded') {
+    console.log(`✅ ${label} delivered (HTTP ${attempt.statusCode})`);
+  } else {
+    console.log(`⚠️ ${label} failed on attempt ${attempts}: ${update.last_error}${update.status === 'pending' ? `, retrying at ${update.next_attempt_at}` : ''}`);
+  }
+
+  return { deliveryId: delivery.id, integrationId: integration.id, status: update.status, statusCode: attempt.statusCode };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { deliveryId, batchSize = 20 }: DeliverWebhooksRequest = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const deliveries = await getDueQueueRows(supabase, deliveryQueue, { id: deliveryId, limit: batchSize });
+
+    if (deliveries.length === 0) {
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'No webhook deliveries due',
+        processed: 0
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`📤 Found ${deliveries.length} webhook delivery(ies) due`);
+
+    const results = [];
+    for (const due of deliveries) {
+      const delivery = await claimQueueRow(supabase, deliveryQueue, due);
+      if (!delivery) {
+        console.log(`⏭️ Delivery ${due.id} was already claimed by another run`);
+        continue;
+      }
+
+      try {
+        results.push(await processDelivery(supabase, delivery));
+      } catch (error) {
+        // Problems reaching the database leave the claim to go stale. It is then retried, or
+        // marked failed if this was its last attempt.
+        console.error(`❌ Failed to process delivery ${delivery.id}:`, error);
+        results.push({ deliveryId: delivery.id, error: error.message });
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: `Processed ${results.length} webhook delivery(ies)`,
+      processed: results.length,
+      results
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('❌ Error in deliver-integration-webhooks:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,6 +1,7 @@
 // supabase/functions/image-generator/index.ts
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getImageUsage } from '../../../src/lib/workflow/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -63,7 +64,8 @@ async function generateWithGoogleImagen3(prompt, size, quality) {
   if (data.predictions?.[0]?.bytesBase64Encoded) {
     return {
       imageUrl: `data:image/png;base64,${data.predictions[0].bytesBase64Encoded}`,
-      format: 'base64'
+      format: 'base64',
+      usage: getImageUsage('google', 'imagen-3.0-generate-002', quality)
     };
   }
   
@@ -107,7 +109,8 @@ async function generateWithOpenAI(prompt, size, quality, model) {
   if (data.data?.[0]?.b64_json) {
     return {
       imageUrl: `data:image/png;base64,${data.data[0].b64_json}`,
-      format: 'base64'
+      format: 'base64',
+      usage: getImageUsage('openai', model, quality)
     };
   }
   
@@ -239,7 +242,9 @@ serve(async (req) => {
       prompt: enhancedPrompt,
       wasAIGenerated: wasSuccessful,
       generatedWith: generatedWith,
-      fileName
+      fileName,
+      // Placeholder images cost nothing and report no usage
+      usage: imageResult.usage
     };
 
     console.log(`🎉 Image generation completed!`);
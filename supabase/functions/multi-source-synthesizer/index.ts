@@ -1,6 +1,7 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getAnthropicUsage, getGeminiUsage, getOpenAIUsage } from '../../../src/lib/workflow/usage.ts';
 
 const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const googleApiKey = Deno.env.get('GOOGLE_API_KEY');
@@ -43,7 +44,7 @@ const handleOpenAIRequest = async (model: string, prompt: string) => {
   }
 
   const data = await response.json();
-  return data.choices[0].message.content;
+  return { text: data.choices[0].message.content, usage: getOpenAIUsage(model, data) };
 };
 
 const handleGoogleRequest = async (model: string, prompt: string) => {
@@ -79,7 +80,7 @@ const handleGoogleRequest = async (model: string, prompt: string) => {
     throw new Error("Google AI returned no content.");
   }
 
-  return data.candidates[0].content.parts[0].text;
+  return { text: data.candidates[0].content.parts[0].text, usage: getGeminiUsage(model, data) };
 };
 
 const handleAnthropicRequest = async (model: string, prompt: string) => {
@@ -114,7 +115,7 @@ const handleAnthropicRequest = async (model: string, prompt: string) => {
     throw new Error("Anthropic AI returned no content.");
   }
 
-  return data.content[0].text;
+  return { text: data.content[0].text, usage: getAnthropicUsage(model, data) };
 };
 
 serve(async (req) => {
@@ -174,17 +175,18 @@ serve(async (req) => {
     prompt += '\nPlease create a well-structured article with proper headings, subheadings, and clear flow between sections.';
 
     const provider = getProviderForModel(aiModel);
-    let synthesizedContent;
+    let completion;
     
     console.log(`Processing with provider: ${provider}, model: ${aiModel}`);
 
     if (provider === 'Google') {
-      synthesizedContent = await handleGoogleRequest(aiModel, prompt);
+      completion = await handleGoogleRequest(aiModel, prompt);
     } else if (provider === 'Anthropic') {
-      synthesizedContent = await handleAnthropicRequest(aiModel, prompt);
+      completion = await handleAnthropicRequest(aiModel, prompt);
     } else {
-      synthesizedContent = await handleOpenAIRequest(aiModel, prompt);
+      completion = await handleOpenAIRequest(aiModel, prompt);
     }
+    const synthesizedContent = completion.text;
 
     console.log(`Successfully synthesized content (${synthesizedContent.length} characters)`);
 
@@ -193,7 +195,8 @@ serve(async (req) => {
       sourceCount: sources.length,
       style,
       targetLength,
-      model: aiModel
+      model: aiModel,
+      usage: completion.usage
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -1,8 +1,10 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getOpenAIUsage } from '../../../src/lib/workflow/usage.ts';
 
 const perplexityApiKey = Deno.env.get('PERPLEXITY_API_KEY');
+const model = 'llama-3.1-sonar-large-128k-online';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -46,7 +48,7 @@ serve(async (req) => {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: 'llama-3.1-sonar-large-128k-online',
+        model,
         messages: [
           {
             role: 'system',
@@ -96,7 +98,8 @@ serve(async (req) => {
       sources,
       relatedQuestions,
       query,
-      depth 
+      depth,
+      usage: getOpenAIUsage(model, data, 'perplexity')
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
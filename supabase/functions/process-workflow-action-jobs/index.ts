@@ -0,0 +1,151 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { executeRuleAction, getActionSkipReason, WORKFLOW_ACTION_LABELS } from '../../../src/lib/workflow/ruleActions.ts';
+import type { WorkflowAction } from '../../../src/lib/workflow/ruleActions.ts';
+import { ABANDONED_CLAIM_ERROR, claimQueueRow, getDueQueueRows } from '../../../src/lib/workflow/jobQueue.ts';
+import type { QueueRow, WorkQueue } from '../../../src/lib/workflow/jobQueue.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ProcessActionJobsRequest {
+  jobId?: string;
+  batchSize?: number;
+}
+
+const MAX_ATTEMPTS = 3;
+
+interface ActionJob extends QueueRow {
+  suggestion_id: string;
+  execution_id: string;
+  action_type: string;
+  action: WorkflowAction;
+  run_at: string;
+}
+
+// A job cancelled since it was loaded no longer matches its claim and is left alone
+const actionJobQueue: WorkQueue<ActionJob> = {
+  table: 'workflow_action_jobs',
+  claimedStatus: 'processing',
+  maxAttempts: MAX_ATTEMPTS,
+  dueColumn: 'run_at',
+  orderColumn: 'run_at',
+  getAbandonedUpdate: (_job, now) => ({
+    status: 'failed',
+    error_message: ABANDONED_CLAIM_ERROR,
+    completed_at: now.toISOString(),
+  }),
+};
+
+async function finishJob(supabase: SupabaseClient, jobId: string, updates: Record<string, unknown>) {
+  const { error } = await supabase
+    .from('workflow_action_jobs')
+    .update({ ...updates, completed_at: new Date().toISOString() })
+    .eq('id', jobId);
+
+  if (error) throw error;
+}
+
+// Run one due action, unless the suggestion was reviewed since the rule scheduled it
+async function processJob(supabase: SupabaseClient, job: ActionJob) {
+  const action = job.action as WorkflowAction;
+  const label = WORKFLOW_ACTION_LABELS[action.type] || action.type;
+
+  const { data: suggestion, error } = await supabase
+    .from('ai_suggestions')
+    .select('id, title, reasoning, status')
+    .eq('id', job.suggestion_id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const skipReason = getActionSkipReason(action, suggestion);
+  if (skipReason) {
+    console.log(`⏭️ ${label} for suggestion ${job.suggestion_id} skipped: ${skipReason}`);
+    await finishJob(supabase, job.id, { status: 'skipped', skipped_reason: skipReason, error_message: null });
+    return { jobId: job.id, action: action.type, status: 'skipped', reason: skipReason };
+  }
+
+  console.log(`🚀 ${label} for suggestion ${job.suggestion_id}`);
+  await executeRuleAction(supabase, action, suggestion, job.execution_id, new Date(job.run_at));
+  await finishJob(supabase, job.id, { status: 'completed', error_message: null });
+  return { jobId: job.id, action: action.type, status: 'completed' };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { jobId, batchSize = 25 }: ProcessActionJobsRequest = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const jobs = await getDueQueueRows(supabase, actionJobQueue, { id: jobId, limit: batchSize });
+
+    if (jobs.length === 0) {
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'No workflow actions due',
+        processed: 0
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`⏰ Found ${jobs.length} workflow action(s) due`);
+
+    const results = [];
+    for (const due of jobs) {
+      const job = await claimQueueRow(supabase, actionJobQueue, due);
+      if (!job) {
+        console.log(`⏭️ Action ${due.id} was cancelled or claimed by another run`);
+        continue;
+      }
+
+      try {
+        results.push(await processJob(supabase, job));
+      } catch (error) {
+        console.error(`❌ Failed to run action ${job.id}:`, error);
+
+        // Back to pending for the next cron pass, until it has been tried MAX_ATTEMPTS times
+        const failed = job.attempts >= MAX_ATTEMPTS;
+        await supabase
+          .from('workflow_action_jobs')
+          .update({
+            status: failed ? 'failed' : 'pending',
+            error_message: error.message,
+            ...(failed ? { completed_at: new Date().toISOString() } : {}),
+          })
+          .eq('id', job.id);
+        results.push({ jobId: job.id, action: job.action_type, status: failed ? 'failed' : 'pending', error: error.message });
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: `Processed ${results.length} workflow action(s)`,
+      processed: results.length,
+      results
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('❌ Error in process-workflow-action-jobs:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
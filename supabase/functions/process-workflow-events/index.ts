@@ -0,0 +1,233 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { runWorkflow } from '../../../src/lib/workflow/engine.ts';
+import { createSupabaseRuntime } from '../../../src/lib/workflow/runtime.ts';
+import { createSupabaseCheckpointStore } from '../../../src/lib/workflow/checkpoints.ts';
+import { completeRunIfReviewed, createSupabaseApprovalStore, getFinishedRunStatus } from '../../../src/lib/workflow/approvals.ts';
+import { createSupabaseSubWorkflowStore } from '../../../src/lib/workflow/subWorkflows.ts';
+import { getExecutionUsageFields } from '../../../src/lib/workflow/usage.ts';
+import { getFailedRunStatus, watchExecutionCancellation } from '../../../src/lib/workflow/cancellation.ts';
+import { getEventTriggerData, getEventTriggerNodes, getWorkflowEventLabel } from '../../../src/lib/workflow/events.ts';
+import type { WorkflowEvent } from '../../../src/lib/workflow/events.ts';
+import { ABANDONED_CLAIM_ERROR, claimQueueRow, getDueQueueRows } from '../../../src/lib/workflow/jobQueue.ts';
+import type { QueueRow, WorkQueue } from '../../../src/lib/workflow/jobQueue.ts';
+import type { WorkflowDefinition } from '../../../src/lib/workflow/types.ts';
+import type { WorkflowNode } from '../../../src/types/WorkflowTypes.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ProcessEventsRequest {
+  eventId?: string;
+  batchSize?: number;
+}
+
+const MAX_ATTEMPTS = 3;
+
+type QueuedEvent = WorkflowEvent & QueueRow & { runs_started: number | null };
+
+interface EventWorkflow extends WorkflowDefinition {
+  budget_usd: number | null;
+}
+
+const eventQueue: WorkQueue<QueuedEvent> = {
+  table: 'workflow_events',
+  claimedStatus: 'processing',
+  maxAttempts: MAX_ATTEMPTS,
+  orderColumn: 'created_at',
+  getAbandonedUpdate: () => ({ status: 'failed', error_message: ABANDONED_CLAIM_ERROR }),
+};
+
+async function runEventWorkflow(supabase: SupabaseClient, workflow: EventWorkflow, event: WorkflowEvent, triggerNodeIds: string[]) {
+  console.log(`🚀 ${getWorkflowEventLabel(event.event_type)}: running "${workflow.name}" (${workflow.id})`);
+
+  const triggerData = getEventTriggerData(event);
+
+  const { data: execution, error: insertError } = await supabase
+    .from('workflow_executions')
+    .insert({
+      workflow_id: workflow.id,
+      trigger_type: 'event',
+      nodes: workflow.nodes,
+      trigger_data: triggerData,
+      status: 'running',
+      started_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+
+  const cancellation = watchExecutionCancellation(supabase, execution.id);
+  try {
+    const result = await runWorkflow(workflow.nodes, {
+      runtime: createSupabaseRuntime(supabase),
+      triggerNodeIds,
+      triggerData,
+      checkpoints: await createSupabaseCheckpointStore(supabase, execution.id),
+      approvals: createSupabaseApprovalStore(supabase, execution.id, workflow.id),
+      budgetUsd: workflow.budget_usd,
+      workflowId: workflow.id,
+      subWorkflows: createSupabaseSubWorkflowStore(supabase, execution.id),
+      signal: cancellation.signal,
+      onLog: (entry) => console.log(`📋 [${entry.nodeName}] ${entry.status}: ${entry.message}`)
+    });
+    const { outputs, errors, awaitingApproval, usage } = result;
+    const status = await getFinishedRunStatus(supabase, execution.id);
+
+    await supabase
+      .from('workflow_executions')
+      .update({
+        status,
+        completed_at: new Date().toISOString(),
+        ...getExecutionUsageFields(usage),
+        result: {
+          contexts: outputs.length,
+          final_results: outputs,
+          errors,
+          awaiting_approval: awaitingApproval
+        }
+      })
+      .eq('id', execution.id);
+    if (status === 'waiting') await completeRunIfReviewed(supabase, execution.id);
+
+    console.log(`✅ "${workflow.name}" completed with ${outputs.length} result(s), ${errors.length} error(s) and ${awaitingApproval} item(s) awaiting approval`);
+    return { workflowId: workflow.id, executionId: execution.id, status };
+
+  } catch (error) {
+    console.error(`❌ Event run of "${workflow.name}" failed:`, error);
+
+    await supabase
+      .from('workflow_executions')
+      .update({
+        status: getFailedRunStatus(error),
+        completed_at: new Date().toISOString(),
+        error_message: error.message,
+        ...getExecutionUsageFields(error.usage)
+      })
+      .eq('id', execution.id);
+
+    return { workflowId: workflow.id, executionId: execution.id, status: getFailedRunStatus(error), error: error.message };
+  } finally {
+    cancellation.stop();
+  }
+}
+
+// Run every workflow the event starts. A failed run is recorded on its execution; only problems
+// reaching the database fail the event itself.
+async function processEvent(supabase: SupabaseClient, event: WorkflowEvent) {
+  const { data: workflows, error } = await supabase
+    .from('workflows')
+    .select('id, name, nodes, budget_usd')
+    .contains('event_types', [event.event_type]);
+
+  if (error) throw error;
+
+  // Runs already started for this event by a worker that stopped partway are not repeated
+  const { data: started, error: startedError } = await supabase
+    .from('workflow_executions')
+    .select('workflow_id')
+    .eq('trigger_type', 'event')
+    .eq('trigger_data->event->>id', event.id);
+
+  if (startedError) throw startedError;
+  const alreadyStarted = new Set((started || []).map((execution: { workflow_id: string }) => execution.workflow_id));
+
+  const results = [];
+  for (const workflow of workflows || []) {
+    if (alreadyStarted.has(workflow.id)) continue;
+
+    const triggers = getEventTriggerNodes(workflow.nodes as WorkflowNode[], event);
+    if (triggers.length === 0) continue;
+
+    results.push(await runEventWorkflow(supabase, workflow, event, triggers.map(node => node.id)));
+  }
+  return results;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { eventId, batchSize = 10 }: ProcessEventsRequest = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const events = await getDueQueueRows(supabase, eventQueue, { id: eventId, limit: batchSize });
+
+    if (events.length === 0) {
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'No workflow events pending',
+        processed: 0
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`⚡ Found ${events.length} workflow event(s) to process`);
+
+    const results = [];
+    for (const due of events) {
+      const event = await claimQueueRow(supabase, eventQueue, due);
+      if (!event) {
+        console.log(`⏭️ Event ${due.id} was already claimed by another run`);
+        continue;
+      }
+
+      try {
+        const runs = await processEvent(supabase, event);
+        await supabase
+          .from('workflow_events')
+          .update({
+            status: 'processed',
+            runs_started: (event.runs_started || 0) + runs.length,
+            error_message: null,
+            processed_at: new Date().toISOString(),
+          })
+          .eq('id', event.id);
+        results.push({ eventId: event.id, eventType: event.event_type, runs });
+
+      } catch (error) {
+        console.error(`❌ Failed to process event ${event.id}:`, error);
+
+        // Back to pending for the next cron pass, until it has been tried MAX_ATTEMPTS times
+        await supabase
+          .from('workflow_events')
+          .update({
+            status: event.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            error_message: error.message,
+          })
+          .eq('id', event.id);
+        results.push({ eventId: event.id, eventType: event.event_type, error: error.message });
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: `Processed ${results.length} workflow event(s)`,
+      processed: results.length,
+      results
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('❌ Error in process-workflow-events:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
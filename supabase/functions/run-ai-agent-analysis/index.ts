@@ -1,6 +1,7 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getAnthropicUsage, getGeminiUsage, getOpenAIUsage } from '../../../src/lib/workflow/usage.ts';
 
 const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const googleApiKey = Deno.env.get('GOOGLE_API_KEY');
@@ -45,7 +46,7 @@ const handleOpenAIRequest = async (model: string, prompt: string) => {
   }
 
   const data = await response.json();
-  return data.choices[0].message.content;
+  return { text: data.choices[0].message.content, usage: getOpenAIUsage(model, data) };
 };
 
 const handleGoogleRequest = async (model: string, prompt: string) => {
@@ -86,7 +87,7 @@ const handleGoogleRequest = async (model: string, prompt: string) => {
     throw new Error("Google AI returned no content.");
   }
 
-  return data.candidates[0].content.parts[0].text;
+  return { text: data.candidates[0].content.parts[0].text, usage: getGeminiUsage(model, data) };
 };
 
 const handleAnthropicRequest = async (model: string, prompt: string) => {
@@ -122,7 +123,7 @@ const handleAnthropicRequest = async (model: string, prompt: string) => {
     throw new Error("Anthropic AI returned no content.");
   }
 
-  return data.content[0].text;
+  return { text: data.content[0].text, usage: getAnthropicUsage(model, data) };
 };
 
 serve(async (req) => {
@@ -136,19 +137,19 @@ serve(async (req) => {
     const model = agentConfig?.ai_model || 'gemini-2.5-flash-preview-05-20';
     const provider = agentConfig?.provider || getProviderForModel(model);
 
-    let analysis;
+    let completion;
     
     console.log(`Processing request with provider: ${provider}, model: ${model}`);
 
     if (provider === 'Google') {
-      analysis = await handleGoogleRequest(model, prompt);
+      completion = await handleGoogleRequest(model, prompt);
     } else if (provider === 'Anthropic') {
-      analysis = await handleAnthropicRequest(model, prompt);
+      completion = await handleAnthropicRequest(model, prompt);
     } else { // Default to OpenAI
-      analysis = await handleOpenAIRequest(model, prompt);
+      completion = await handleOpenAIRequest(model, prompt);
     }
     
-    return new Response(JSON.stringify({ analysis }), {
+    return new Response(JSON.stringify({ analysis: completion.text, usage: completion.usage }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
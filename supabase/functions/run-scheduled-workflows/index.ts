@@ -0,0 +1,199 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { runWorkflow } from '../../../src/lib/workflow/engine.ts';
+import { createSupabaseRuntime } from '../../../src/lib/workflow/runtime.ts';
+import { createSupabaseCheckpointStore } from '../../../src/lib/workflow/checkpoints.ts';
+import { completeRunIfReviewed, createSupabaseApprovalStore, getFinishedRunStatus } from '../../../src/lib/workflow/approvals.ts';
+import { createSupabaseSubWorkflowStore } from '../../../src/lib/workflow/subWorkflows.ts';
+import { getExecutionUsageFields } from '../../../src/lib/workflow/usage.ts';
+import { getFailedRunStatus, watchExecutionCancellation } from '../../../src/lib/workflow/cancellation.ts';
+import { getDueTriggerNodes, getWorkflowNextRun } from '../../../src/lib/workflow/schedule.ts';
+import type { WorkflowDefinition } from '../../../src/lib/workflow/types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RunScheduledRequest {
+  batchSize?: number;
+}
+
+interface ScheduledWorkflow extends WorkflowDefinition {
+  next_run_at: string;
+  budget_usd: number | null;
+}
+
+// Advance next_run_at before running so overlapping invocations never run the same slot twice
+async function claimWorkflow(supabase: SupabaseClient, workflow: ScheduledWorkflow, now: Date): Promise<boolean> {
+  const nextRun = getWorkflowNextRun(workflow.nodes, now);
+
+  const { data, error } = await supabase
+    .from('workflows')
+    .update({
+      next_run_at: nextRun ? nextRun.toISOString() : null,
+      schedule_enabled: nextRun !== null,
+      last_run_at: now.toISOString(),
+    })
+    .eq('id', workflow.id)
+    .eq('next_run_at', workflow.next_run_at)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function runScheduledWorkflow(supabase: SupabaseClient, workflow: ScheduledWorkflow) {
+  const nodes = workflow.nodes;
+  const scheduledFor = new Date(workflow.next_run_at);
+  const dueTriggers = getDueTriggerNodes(nodes, scheduledFor);
+
+  if (dueTriggers.length === 0) {
+    console.log(`⏭️ No trigger of "${workflow.name}" is due at ${scheduledFor.toISOString()}, skipping`);
+    return { workflowId: workflow.id, status: 'skipped' };
+  }
+
+  console.log(`🚀 Running scheduled workflow "${workflow.name}" (${workflow.id})`);
+
+  const triggerData = {
+    scheduled: true,
+    scheduledFor: scheduledFor.toISOString(),
+    workflowId: workflow.id,
+  };
+
+  const { data: execution, error: insertError } = await supabase
+    .from('workflow_executions')
+    .insert({
+      workflow_id: workflow.id,
+      trigger_type: 'schedule',
+      nodes,
+      trigger_data: triggerData,
+      status: 'running',
+      started_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+
+  const cancellation = watchExecutionCancellation(supabase, execution.id);
+  try {
+    const result = await runWorkflow(nodes, {
+      runtime: createSupabaseRuntime(supabase),
+      triggerNodeIds: dueTriggers.map(node => node.id),
+      triggerData,
+      checkpoints: await createSupabaseCheckpointStore(supabase, execution.id),
+      approvals: createSupabaseApprovalStore(supabase, execution.id, workflow.id),
+      budgetUsd: workflow.budget_usd,
+      workflowId: workflow.id,
+      subWorkflows: createSupabaseSubWorkflowStore(supabase, execution.id),
+      signal: cancellation.signal,
+      onLog: (entry) => console.log(`📋 [${entry.nodeName}] ${entry.status}: ${entry.message}`)
+    });
+    const { outputs, errors, awaitingApproval, usage } = result;
+    const status = await getFinishedRunStatus(supabase, execution.id);
+
+    await supabase
+      .from('workflow_executions')
+      .update({
+        status,
+        completed_at: new Date().toISOString(),
+        ...getExecutionUsageFields(usage),
+        result: {
+          contexts: outputs.length,
+          final_results: outputs,
+          errors,
+          awaiting_approval: awaitingApproval
+        }
+      })
+      .eq('id', execution.id);
+    if (status === 'waiting') await completeRunIfReviewed(supabase, execution.id);
+
+    console.log(`✅ "${workflow.name}" completed with ${outputs.length} result(s), ${errors.length} error(s) and ${awaitingApproval} item(s) awaiting approval`);
+    return { workflowId: workflow.id, executionId: execution.id, status, errors: errors.length };
+
+  } catch (error) {
+    console.error(`❌ Scheduled workflow "${workflow.name}" failed:`, error);
+
+    await supabase
+      .from('workflow_executions')
+      .update({
+        status: getFailedRunStatus(error),
+        completed_at: new Date().toISOString(),
+        error_message: error.message,
+        ...getExecutionUsageFields(error.usage)
+      })
+      .eq('id', execution.id);
+
+    return { workflowId: workflow.id, executionId: execution.id, status: getFailedRunStatus(error), error: error.message };
+  } finally {
+    cancellation.stop();
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { batchSize = 10 }: RunScheduledRequest = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const now = new Date();
+    const { data: dueWorkflows, error } = await supabase
+      .from('workflows')
+      .select('id, name, nodes, next_run_at, budget_usd')
+      .eq('schedule_enabled', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(batchSize);
+
+    if (error) throw error;
+
+    if (!dueWorkflows || dueWorkflows.length === 0) {
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'No scheduled workflows due',
+        processed: 0
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`⏰ Found ${dueWorkflows.length} scheduled workflow(s) due`);
+
+    const results = [];
+    for (const workflow of dueWorkflows) {
+      if (!(await claimWorkflow(supabase, workflow, now))) {
+        console.log(`⏭️ "${workflow.name}" was already claimed by another run`);
+        continue;
+      }
+      results.push(await runScheduledWorkflow(supabase, workflow));
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: `Processed ${results.length} scheduled workflow(s)`,
+      processed: results.length,
+      results
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('❌ Error in run-scheduled-workflows:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,5 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getGeminiUsage, getOpenAIUsage } from '../../../src/lib/workflow/usage.ts';
+import type { AiUsage } from '../../../src/lib/workflow/usage.ts';
+import type { SEOAnalysis } from '../../../src/lib/workflow/executors/enrichment.ts';
 
 const googleApiKey = Deno.env.get('GOOGLE_API_KEY');
 const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
@@ -16,7 +19,8 @@ interface SEOAnalysisRequest {
   customInstructions?: string;
 }
 
-async function analyzeWithAI(content: string, title: string, aiModel: string, customInstructions?: string): Promise<any> {
+// Returns the analysis with the usage of the AI call that produced it
+async function analyzeWithAI(content: string, title: string, aiModel: string, customInstructions?: string): Promise<{ analysis: SEOAnalysis; usage: AiUsage }> {
   const prompt = `Analyze the following content for SEO optimization and provide recommendations.
 
 IMPORTANT: Return your response as a JSON object with this exact structure:
@@ -81,7 +85,7 @@ Return ONLY the JSON object.`;
     }
 
     const data = await response.json();
-    return JSON.parse(data.candidates[0].content.parts[0].text);
+    return { analysis: JSON.parse(data.candidates[0].content.parts[0].text), usage: getGeminiUsage(aiModel, data) };
   } else {
     // Use OpenAI
     if (!openAIApiKey) {
@@ -109,12 +113,12 @@ Return ONLY the JSON object.`;
     }
 
     const data = await response.json();
-    return JSON.parse(data.choices[0].message.content);
+    return { analysis: JSON.parse(data.choices[0].message.content), usage: getOpenAIUsage(aiModel, data) };
   }
 }
 
 // Basic SEO analysis function as fallback
-function basicSEOAnalysis(content: string, title: string): any {
+function basicSEOAnalysis(content: string, title: string): SEOAnalysis {
   const wordCount = content.split(/\s+/).length;
   const titleLength = title.length;
   const hasHeadings = content.includes('##') || content.includes('#');
@@ -180,11 +184,14 @@ serve(async (req) => {
 
     console.log(`Analyzing SEO with model: ${aiModel}`);
 
-    let analysisResult;
+    let analysisResult: SEOAnalysis;
+    let usage: AiUsage | undefined;
 
     try {
       // Try AI analysis first
-      analysisResult = await analyzeWithAI(request.content, title, aiModel, request.customInstructions);
+      const aiResult = await analyzeWithAI(request.content, title, aiModel, request.customInstructions);
+      analysisResult = aiResult.analysis;
+      usage = aiResult.usage;
     } catch (aiError) {
       console.log('AI analysis failed, using basic analysis:', aiError.message);
       // Fallback to basic analysis
@@ -196,7 +203,8 @@ serve(async (req) => {
     return new Response(JSON.stringify({
       success: true,
       analysis: analysisResult,
-      model_used: aiModel
+      model_used: aiModel,
+      usage
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -1,6 +1,8 @@
 // FINAL SOLUTION: supabase/functions/translator/index.ts
 // This focuses on the REAL problem: preserving structure while translating ALL content
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { getAnthropicUsage, getGeminiUsage, getOpenAIUsage, getTranslateUsage } from '../../../src/lib/workflow/usage.ts';
+import type { AiUsage } from '../../../src/lib/workflow/usage.ts';
 
 console.log("Enhanced translator function booting");
 
@@ -13,6 +15,15 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type"
 };
 
+interface Translation {
+  text: string;
+  usage: AiUsage;
+}
+
+const GEMINI_MODEL = 'gemini-2.5-flash-preview-05-20';
+const OPENAI_MODEL = 'gpt-4o-2024-08-06';
+const CLAUDE_MODEL = 'claude-3-5-sonnet-20241022';
+
 interface TranslateRequest {
   content: string;
   targetLanguage: string;
@@ -77,7 +88,7 @@ function ensurePerfectMarkdown(content: string): string {
 }
 
 // 🔥 GEMINI TRANSLATION with perfect structure preservation
-async function translateWithGemini(content: string, targetLanguage: string): Promise<string> {
+async function translateWithGemini(content: string, targetLanguage: string): Promise<Translation> {
   if (!googleApiKey) {
     throw new Error("Google API key not configured");
   }
@@ -124,7 +135,7 @@ Here is the markdown text to translate:
 
 ${cleanedContent}`;
 
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-05-20:generateContent?key=${googleApiKey}`, {
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${googleApiKey}`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -152,10 +163,10 @@ ${cleanedContent}`;
   translatedText = ensurePerfectMarkdown(translatedText);
   
   console.log('🌍 Gemini: Perfect markdown translation completed');
-  return translatedText;
+  return { text: translatedText, usage: getGeminiUsage(GEMINI_MODEL, data) };
 }
 
-async function translateWithOpenAI(content: string, targetLanguage: string): Promise<string> {
+async function translateWithOpenAI(content: string, targetLanguage: string): Promise<Translation> {
   if (!openaiApiKey) {
     throw new Error("OpenAI API key not configured");
   }
@@ -186,7 +197,7 @@ async function translateWithOpenAI(content: string, targetLanguage: string): Pro
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      model: 'gpt-4o-2024-08-06',
+      model: OPENAI_MODEL,
       messages: [
         {
           role: 'system',
@@ -213,10 +224,10 @@ async function translateWithOpenAI(content: string, targetLanguage: string): Pro
   // Ensure perfect markdown structure
   translatedText = ensurePerfectMarkdown(translatedText);
   
-  return translatedText;
+  return { text: translatedText, usage: getOpenAIUsage(OPENAI_MODEL, data) };
 }
 
-async function translateWithClaude(content: string, targetLanguage: string): Promise<string> {
+async function translateWithClaude(content: string, targetLanguage: string): Promise<Translation> {
   if (!anthropicApiKey) {
     throw new Error("Anthropic API key not configured");
   }
@@ -248,7 +259,7 @@ async function translateWithClaude(content: string, targetLanguage: string): Pro
       'anthropic-version': '2023-06-01',
     },
     body: JSON.stringify({
-      model: 'claude-3-5-sonnet-20241022',
+      model: CLAUDE_MODEL,
       max_tokens: 4000,
       system: `You are a professional markdown translator. Translate to ${targetLanguageName} while preserving EXACT markdown formatting. Translate ALL text including headings and content. Keep structure identical. Never add artifacts or extra text.`,
       messages: [
@@ -271,10 +282,10 @@ async function translateWithClaude(content: string, targetLanguage: string): Pro
   // Ensure perfect markdown structure
   translatedText = ensurePerfectMarkdown(translatedText);
   
-  return translatedText;
+  return { text: translatedText, usage: getAnthropicUsage(CLAUDE_MODEL, data) };
 }
 
-async function translateWithGoogle(content: string, targetLanguage: string): Promise<string> {
+async function translateWithGoogle(content: string, targetLanguage: string): Promise<Translation> {
   if (!googleApiKey) {
     throw new Error("Google API key not configured");
   }
@@ -312,7 +323,7 @@ async function translateWithGoogle(content: string, targetLanguage: string): Pro
   translatedText = ensurePerfectMarkdown(translatedText);
   
   console.log('🌍 Google Translate: Markdown processing completed');
-  return translatedText;
+  return { text: translatedText, usage: getTranslateUsage(cleanedContent.length) };
 }
 
 // Provider aliases
@@ -348,29 +359,29 @@ serve(async (req: Request) => {
     console.log(`🔥 PERFECT TRANSLATOR: Translating to ${targetLanguage} using ${normalizedProvider}...`);
     console.log(`📝 Input structure preview: ${content.substring(0, 200)}...`);
 
-    let translatedText: string;
+    let translation: Translation;
 
     switch (normalizedProvider) {
       case 'google':
-        translatedText = await translateWithGoogle(content, targetLanguage);
+        translation = await translateWithGoogle(content, targetLanguage);
         break;
       case 'openai':
-        translatedText = await translateWithOpenAI(content, targetLanguage);
+        translation = await translateWithOpenAI(content, targetLanguage);
         break;
       case 'claude':
-        translatedText = await translateWithClaude(content, targetLanguage);
+        translation = await translateWithClaude(content, targetLanguage);
         break;
       case 'gemini':
-        translatedText = await translateWithGemini(content, targetLanguage);
+        translation = await translateWithGemini(content, targetLanguage);
         break;
       default:
         throw new Error(`Unsupported translation provider: ${provider}`);
     }
 
     console.log("✅ Perfect markdown translation completed!");
-    console.log(`📝 Output structure preview: ${translatedText.substring(0, 200)}...`);
+    console.log(`📝 Output structure preview: ${translation.text.substring(0, 200)}...`);
     
-    return new Response(JSON.stringify({ content: translatedText }), {
+    return new Response(JSON.stringify({ content: translation.text, usage: translation.usage }), {
       status: 200,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
@@ -0,0 +1,191 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { runWorkflow } from '../../../src/lib/workflow/engine.ts';
+import { createSupabaseRuntime } from '../../../src/lib/workflow/runtime.ts';
+import { createSupabaseCheckpointStore } from '../../../src/lib/workflow/checkpoints.ts';
+import { completeRunIfReviewed, createSupabaseApprovalStore, getFinishedRunStatus } from '../../../src/lib/workflow/approvals.ts';
+import { createSupabaseSubWorkflowStore } from '../../../src/lib/workflow/subWorkflows.ts';
+import { getExecutionUsageFields } from '../../../src/lib/workflow/usage.ts';
+import { getFailedRunStatus, watchExecutionCancellation } from '../../../src/lib/workflow/cancellation.ts';
+import { getWebhookTriggerNodes, verifyWebhookRequest } from '../../../src/lib/workflow/webhook.ts';
+import type { WorkflowDefinition, WorkflowTriggerData } from '../../../src/lib/workflow/types.ts';
+import type { WorkflowNode } from '../../../src/types/WorkflowTypes.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-secret, x-webhook-signature, x-webhook-timestamp',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface WebhookWorkflow extends WorkflowDefinition {
+  budget_usd: number | null;
+}
+
+// Supabase's edge runtime keeps the worker alive for promises passed to waitUntil
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void } | undefined;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+async function runWebhookWorkflow(
+  supabase: SupabaseClient,
+  workflow: WebhookWorkflow,
+  execution: { id: string },
+  triggerNodeIds: string[],
+  triggerData: WorkflowTriggerData
+) {
+  const cancellation = watchExecutionCancellation(supabase, execution.id);
+  try {
+    const result = await runWorkflow(workflow.nodes, {
+      runtime: createSupabaseRuntime(supabase),
+      triggerNodeIds,
+      triggerData,
+      checkpoints: await createSupabaseCheckpointStore(supabase, execution.id),
+      approvals: createSupabaseApprovalStore(supabase, execution.id, workflow.id),
+      budgetUsd: workflow.budget_usd,
+      workflowId: workflow.id,
+      subWorkflows: createSupabaseSubWorkflowStore(supabase, execution.id),
+      signal: cancellation.signal,
+      onLog: (entry) => console.log(`📋 [${entry.nodeName}] ${entry.status}: ${entry.message}`)
+    });
+    const { outputs, errors, awaitingApproval, usage } = result;
+    const status = await getFinishedRunStatus(supabase, execution.id);
+
+    await supabase
+      .from('workflow_executions')
+      .update({
+        status,
+        completed_at: new Date().toISOString(),
+        ...getExecutionUsageFields(usage),
+        result: {
+          contexts: outputs.length,
+          final_results: outputs,
+          errors,
+          awaiting_approval: awaitingApproval
+        }
+      })
+      .eq('id', execution.id);
+    if (status === 'waiting') await completeRunIfReviewed(supabase, execution.id);
+
+    console.log(`✅ "${workflow.name}" completed with ${outputs.length} result(s), ${errors.length} error(s) and ${awaitingApproval} item(s) awaiting approval`);
+
+  } catch (error) {
+    console.error(`❌ Webhook run of "${workflow.name}" failed:`, error);
+
+    await supabase
+      .from('workflow_executions')
+      .update({
+        status: getFailedRunStatus(error),
+        completed_at: new Date().toISOString(),
+        error_message: error.message,
+        ...getExecutionUsageFields(error.usage)
+      })
+      .eq('id', execution.id);
+  } finally {
+    cancellation.stop();
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Use POST to trigger a workflow' }, 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const workflowId = url.searchParams.get('workflow');
+    if (!workflowId) {
+      return jsonResponse({ success: false, error: 'Missing workflow parameter' }, 400);
+    }
+
+    // Unknown workflows, malformed ids and bad secrets get the same answer, so ids cannot be probed
+    const rejected = () => {
+      console.log(`🚫 Rejected webhook for workflow ${workflowId}`);
+      return jsonResponse({ success: false, error: 'Invalid workflow or webhook secret' }, 401);
+    };
+
+    if (!UUID_PATTERN.test(workflowId)) {
+      return rejected();
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: workflow, error } = await supabase
+      .from('workflows')
+      .select('id, name, nodes, webhook_secret, budget_usd')
+      .eq('id', workflowId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const rawBody = await req.text();
+    if (!workflow || !(await verifyWebhookRequest(workflow.webhook_secret, rawBody, req.headers))) {
+      return rejected();
+    }
+
+    const webhookTriggers = getWebhookTriggerNodes(workflow.nodes as WorkflowNode[]);
+    if (webhookTriggers.length === 0) {
+      return jsonResponse({ success: false, error: `"${workflow.name}" has no webhook trigger` }, 409);
+    }
+
+    let payload: unknown = {};
+    if (rawBody.trim()) {
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        return jsonResponse({ success: false, error: 'Body must be JSON' }, 400);
+      }
+    }
+
+    const triggerData = {
+      webhook: true,
+      receivedAt: new Date().toISOString(),
+      workflowId: workflow.id,
+      payload,
+    };
+
+    const { data: execution, error: insertError } = await supabase
+      .from('workflow_executions')
+      .insert({
+        workflow_id: workflow.id,
+        trigger_type: 'webhook',
+        nodes: workflow.nodes,
+        trigger_data: triggerData,
+        status: 'running',
+        started_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    console.log(`🪝 Webhook started "${workflow.name}" (execution ${execution.id})`);
+
+    // Callers get an answer right away; the run continues in the background when the runtime allows it
+    const run = runWebhookWorkflow(supabase, workflow, execution, webhookTriggers.map(node => node.id), triggerData);
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(run);
+    } else {
+      await run;
+    }
+
+    return jsonResponse({ success: true, executionId: execution.id }, 202);
+
+  } catch (error) {
+    // Callers are outside systems, so database details stay in the function logs
+    console.error('❌ Error in workflow-webhook:', error);
+    return jsonResponse({ success: false, error: 'Could not start the workflow' }, 500);
+  }
+});
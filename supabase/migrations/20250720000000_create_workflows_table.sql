@@ -0,0 +1,32 @@
+-- Saved Workflow Builder graphs and their version history
+CREATE TABLE public.workflows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR NOT NULL,
+  description TEXT,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  nodes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  current_version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Every save appends a snapshot; rolling back copies an old snapshot into a new version
+CREATE TABLE public.workflow_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  nodes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (workflow_id, version)
+);
+
+CREATE INDEX idx_workflows_updated_at ON public.workflows(updated_at DESC);
+CREATE INDEX idx_workflow_versions_workflow_id ON public.workflow_versions(workflow_id, version DESC);
+
+ALTER TABLE public.workflows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workflow_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage workflows" ON public.workflows FOR ALL USING (public.is_admin());
+CREATE POLICY "Admin can manage workflow versions" ON public.workflow_versions FOR ALL USING (public.is_admin());
@@ -0,0 +1,45 @@
+-- Scheduled (cron) triggers for saved workflows
+
+-- next_run_at is computed from the workflow's trigger nodes whenever it is saved,
+-- and advanced by the run-scheduled-workflows edge function after every run
+ALTER TABLE public.workflows
+  ADD COLUMN schedule_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN next_run_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN last_run_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_workflows_next_run_at ON public.workflows(next_run_at) WHERE schedule_enabled;
+
+-- Builder workflows are not tied to a rule or a suggestion, so record them by workflow instead
+ALTER TABLE public.workflow_executions
+  ALTER COLUMN workflow_rule_id DROP NOT NULL,
+  ALTER COLUMN suggestion_id DROP NOT NULL,
+  ADD COLUMN workflow_id UUID REFERENCES public.workflows(id) ON DELETE CASCADE,
+  ADD COLUMN trigger_type VARCHAR NOT NULL DEFAULT 'manual';
+
+-- The workflow engine reports 'running' while a graph executes
+ALTER TABLE public.workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+ALTER TABLE public.workflow_executions
+  ADD CONSTRAINT workflow_executions_status_check
+  CHECK (status IN ('pending', 'executing', 'running', 'completed', 'failed'));
+
+CREATE INDEX idx_workflow_executions_workflow_id ON public.workflow_executions(workflow_id, started_at DESC);
+
+-- Call the runner every minute. Requires the `project_url` and `service_role_key`
+-- secrets to be stored in Vault (Dashboard → Project Settings → Vault).
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'run-scheduled-workflows',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-scheduled-workflows',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('time', now())
+  );
+  $$
+);
@@ -0,0 +1,26 @@
+-- Checkpoint node outputs so a failed workflow run can be resumed without redoing finished work
+
+-- The graph and trigger data a run started with, so it can be replayed exactly
+ALTER TABLE public.workflow_executions
+  ADD COLUMN nodes JSONB,
+  ADD COLUMN trigger_data JSONB,
+  ADD COLUMN resumed_from UUID REFERENCES public.workflow_executions(id) ON DELETE SET NULL;
+
+-- One row per node execution, keyed by node and a hash of the node's input
+CREATE TABLE public.workflow_checkpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  execution_id UUID NOT NULL REFERENCES public.workflow_executions(id) ON DELETE CASCADE,
+  node_id VARCHAR NOT NULL,
+  node_label VARCHAR,
+  input_key VARCHAR NOT NULL,
+  status VARCHAR NOT NULL CHECK (status IN ('completed', 'failed')),
+  output JSONB,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_workflow_checkpoints_execution ON public.workflow_checkpoints(execution_id, status);
+
+ALTER TABLE public.workflow_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage workflow checkpoints" ON public.workflow_checkpoints FOR ALL USING (public.is_admin());
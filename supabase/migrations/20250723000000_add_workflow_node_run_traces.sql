@@ -0,0 +1,23 @@
+-- Keep a full trace of every node run: what it received, what it produced and how long it took.
+-- Checkpoints already store one row per node run, so they become the node-run table.
+
+ALTER TABLE public.workflow_checkpoints RENAME TO workflow_node_runs;
+ALTER TABLE public.workflow_node_runs RENAME CONSTRAINT workflow_checkpoints_pkey TO workflow_node_runs_pkey;
+ALTER TABLE public.workflow_node_runs RENAME CONSTRAINT workflow_checkpoints_execution_id_fkey TO workflow_node_runs_execution_id_fkey;
+ALTER INDEX public.idx_workflow_checkpoints_execution RENAME TO idx_workflow_node_runs_execution;
+ALTER POLICY "Admin can manage workflow checkpoints" ON public.workflow_node_runs RENAME TO "Admin can manage workflow node runs";
+
+ALTER TABLE public.workflow_node_runs
+  ADD COLUMN node_type VARCHAR,
+  ADD COLUMN input JSONB,
+  -- Position of the item in the fan-out that produced it; branch_path covers nested fan-outs ("2.1")
+  ADD COLUMN branch_index INTEGER,
+  ADD COLUMN branch_path VARCHAR,
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1,
+  -- The output was taken from the run this one resumed
+  ADD COLUMN reused BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN finished_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN duration_ms INTEGER;
+
+CREATE INDEX idx_workflow_node_runs_timeline ON public.workflow_node_runs(execution_id, started_at);
@@ -0,0 +1,6 @@
+-- Inbound webhook triggers for saved workflows
+
+-- Every workflow gets its own secret; the workflow-webhook edge function only runs a
+-- workflow for requests that carry the secret or an HMAC-SHA256 signature made with it
+ALTER TABLE public.workflows
+  ADD COLUMN webhook_secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
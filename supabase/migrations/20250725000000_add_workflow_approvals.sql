@@ -0,0 +1,41 @@
+-- Approval gates: an approval node holds each item until an editor approves, edits or rejects it
+
+-- A run with items held at an approval node ends as 'waiting' until every held item is reviewed
+ALTER TABLE public.workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+ALTER TABLE public.workflow_executions
+  ADD CONSTRAINT workflow_executions_status_check
+  CHECK (status IN ('pending', 'executing', 'running', 'waiting', 'completed', 'failed'));
+
+-- Runs that continue an approved item start at the approval node instead of the triggers.
+-- Holds the node id, the approved item and the upstream outputs expressions can reference.
+ALTER TABLE public.workflow_executions
+  ADD COLUMN continuation JSONB;
+
+CREATE TABLE public.workflow_approvals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The run that reached the approval node
+  execution_id UUID NOT NULL REFERENCES public.workflow_executions(id) ON DELETE CASCADE,
+  workflow_id UUID REFERENCES public.workflows(id) ON DELETE CASCADE,
+  node_id VARCHAR NOT NULL,
+  node_label VARCHAR,
+  instructions TEXT,
+  item JSONB NOT NULL,
+  upstream JSONB NOT NULL DEFAULT '[]'::jsonb,
+  branch_path VARCHAR,
+  status VARCHAR NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  -- The item as approved, including the editor's changes
+  approved_item JSONB,
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  -- The run that continued the branch after approval
+  continued_execution_id UUID REFERENCES public.workflow_executions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_workflow_approvals_status ON public.workflow_approvals(status, created_at DESC);
+CREATE INDEX idx_workflow_approvals_execution ON public.workflow_approvals(execution_id);
+
+ALTER TABLE public.workflow_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage workflow approvals" ON public.workflow_approvals FOR ALL USING (public.is_admin());
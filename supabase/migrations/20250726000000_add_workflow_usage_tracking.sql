@@ -0,0 +1,18 @@
+-- Track what AI provider calls cost: per node run, per run, and against a per-workflow budget.
+-- Costs are estimates from list prices (src/lib/workflow/usage.ts), in USD.
+
+ALTER TABLE public.workflow_node_runs
+  ADD COLUMN input_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN output_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.workflow_executions
+  ADD COLUMN input_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN output_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  -- Totals by node id: { "<node id>": { nodeName, calls, inputTokens, outputTokens, costUsd } }
+  ADD COLUMN node_usage JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- A run stops starting new steps once its AI calls cost more than this; NULL means no limit
+ALTER TABLE public.workflows
+  ADD COLUMN budget_usd NUMERIC(10, 2) CHECK (budget_usd IS NULL OR budget_usd > 0);
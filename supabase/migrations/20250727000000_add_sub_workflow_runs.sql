@@ -0,0 +1,9 @@
+-- Runs started by a sub-workflow node are recorded like any other run and point back to the
+-- run and node that started them
+
+ALTER TABLE public.workflow_executions
+  ADD COLUMN parent_execution_id UUID REFERENCES public.workflow_executions(id) ON DELETE CASCADE,
+  ADD COLUMN parent_node_id VARCHAR;
+
+CREATE INDEX idx_workflow_executions_parent ON public.workflow_executions(parent_execution_id)
+  WHERE parent_execution_id IS NOT NULL;
@@ -0,0 +1,155 @@
+-- Event triggers: workflows that start when an article is published, a queue item is approved
+-- or an AI agent makes a suggestion (see src/lib/workflow/events.ts)
+
+-- The event types a workflow's trigger nodes listen to, computed whenever it is saved
+ALTER TABLE public.workflows
+  ADD COLUMN event_types TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_workflows_event_types ON public.workflows USING GIN (event_types);
+
+-- Events waiting to start workflow runs, with the row that changed. The process-workflow-events
+-- edge function claims pending events and runs every workflow listening to them.
+CREATE TABLE public.workflow_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_type VARCHAR NOT NULL,
+  table_name VARCHAR NOT NULL,
+  record_id TEXT,
+  record JSONB NOT NULL,
+  old_record JSONB,
+  status VARCHAR NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'processed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  runs_started INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_workflow_events_pending ON public.workflow_events(created_at) WHERE status IN ('pending', 'processing');
+
+ALTER TABLE public.workflow_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage workflow events" ON public.workflow_events FOR ALL USING (public.is_admin());
+
+-- Ask the worker to process events right away. Failures are ignored: the cron job below picks
+-- up anything left pending, and a row change must never fail because the worker is unreachable.
+CREATE OR REPLACE FUNCTION public.dispatch_workflow_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  BEGIN
+    PERFORM net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-workflow-events',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := jsonb_build_object('eventId', NEW.id)
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not dispatch workflow event %: %', NEW.id, SQLERRM;
+  END;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER dispatch_workflow_events
+  AFTER INSERT ON public.workflow_events
+  FOR EACH ROW EXECUTE FUNCTION public.dispatch_workflow_events();
+
+-- Record an event only when some workflow listens to it
+CREATE OR REPLACE FUNCTION public.record_workflow_event(
+  p_event_type TEXT,
+  p_table_name TEXT,
+  p_record_id TEXT,
+  p_record JSONB,
+  p_old_record JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.workflows WHERE event_types @> ARRAY[p_event_type]) THEN
+    INSERT INTO public.workflow_events (event_type, table_name, record_id, record, old_record)
+    VALUES (p_event_type, p_table_name, p_record_id, p_record, p_old_record);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_article_published_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'published' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'published') THEN
+    PERFORM public.record_workflow_event(
+      'article.published', 'articles', NEW.id::text, to_jsonb(NEW),
+      CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_article_published_event
+  AFTER INSERT OR UPDATE OF status ON public.articles
+  FOR EACH ROW EXECUTE FUNCTION public.record_article_published_event();
+
+CREATE OR REPLACE FUNCTION public.record_content_queue_approved_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    PERFORM public.record_workflow_event(
+      'content_queue.approved', 'content_queue', NEW.id::text, to_jsonb(NEW), to_jsonb(OLD)
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_content_queue_approved_event
+  AFTER UPDATE OF status ON public.content_queue
+  FOR EACH ROW EXECUTE FUNCTION public.record_content_queue_approved_event();
+
+CREATE OR REPLACE FUNCTION public.record_ai_suggestion_created_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_workflow_event('ai_suggestion.created', 'ai_suggestions', NEW.id::text, to_jsonb(NEW), NULL);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_ai_suggestion_created_event
+  AFTER INSERT ON public.ai_suggestions
+  FOR EACH ROW EXECUTE FUNCTION public.record_ai_suggestion_created_event();
+
+-- Retry events whose dispatch failed or whose worker stopped partway, every minute
+SELECT cron.schedule(
+  'process-workflow-events',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-workflow-events',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('time', now())
+  );
+  $$
+);
@@ -0,0 +1,12 @@
+-- Cancelling runs in progress (see src/lib/workflow/cancellation.ts)
+
+-- A cancelled run stopped before finishing because someone asked it to
+ALTER TABLE public.workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+ALTER TABLE public.workflow_executions
+  ADD CONSTRAINT workflow_executions_status_check
+  CHECK (status IN ('pending', 'executing', 'running', 'waiting', 'completed', 'failed', 'cancelled'));
+
+-- Set to ask the process running the execution, in the browser or an edge function, to stop it.
+-- The process records the run as 'cancelled' once it has stopped.
+ALTER TABLE public.workflow_executions
+  ADD COLUMN cancel_requested_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,43 @@
+-- Delayed and scheduled actions of automated workflow rules (see src/lib/workflow/ruleActions.ts).
+-- A rule action with a delay or a weekly time is stored here when its rule matches, and the
+-- process-workflow-action-jobs edge function runs it once run_at has passed.
+CREATE TABLE public.workflow_action_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_rule_id UUID NOT NULL REFERENCES public.workflow_rules(id) ON DELETE CASCADE,
+  execution_id UUID REFERENCES public.workflow_executions(id) ON DELETE SET NULL,
+  suggestion_id UUID NOT NULL REFERENCES public.ai_suggestions(id) ON DELETE CASCADE,
+  action_type VARCHAR NOT NULL,
+  action JSONB NOT NULL,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'skipped', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  skipped_reason TEXT,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_workflow_action_jobs_due ON public.workflow_action_jobs(run_at) WHERE status IN ('pending', 'processing');
+CREATE INDEX idx_workflow_action_jobs_suggestion ON public.workflow_action_jobs(suggestion_id);
+
+ALTER TABLE public.workflow_action_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage workflow action jobs" ON public.workflow_action_jobs FOR ALL USING (public.is_admin());
+
+-- Run due actions every minute
+SELECT cron.schedule(
+  'process-workflow-action-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-workflow-action-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('time', now())
+  );
+  $$
+);
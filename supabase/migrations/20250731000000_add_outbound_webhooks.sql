@@ -0,0 +1,161 @@
+-- Outbound webhooks: external integrations subscribe to events and receive signed deliveries
+-- (see src/lib/workflow/outboundWebhooks.ts)
+
+CREATE TABLE public.external_integrations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR NOT NULL,
+  type VARCHAR NOT NULL CHECK (type IN ('webhook', 'email', 'slack', 'zapier', 'api')),
+  config JSONB NOT NULL DEFAULT '{}',
+  -- Signs every delivery; receivers check the x-webhook-signature header with it
+  secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  success_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  last_used TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_external_integrations_event_types ON public.external_integrations USING GIN (event_types);
+
+-- One row per event sent to an integration. The deliver-integration-webhooks edge function claims
+-- pending rows once next_attempt_at has passed and records the outcome of each attempt.
+CREATE TABLE public.integration_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  integration_id UUID NOT NULL REFERENCES public.external_integrations(id) ON DELETE CASCADE,
+  event_type VARCHAR NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_status_code INTEGER,
+  last_error TEXT,
+  response_body TEXT,
+  replay_of UUID REFERENCES public.integration_deliveries(id) ON DELETE SET NULL,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_integration_deliveries_due ON public.integration_deliveries(next_attempt_at) WHERE status IN ('pending', 'delivering');
+CREATE INDEX idx_integration_deliveries_integration ON public.integration_deliveries(integration_id, created_at DESC);
+
+ALTER TABLE public.external_integrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.integration_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage external integrations" ON public.external_integrations FOR ALL USING (public.is_admin());
+CREATE POLICY "Admin can manage integration deliveries" ON public.integration_deliveries FOR ALL USING (public.is_admin());
+
+-- Send new deliveries right away. Failures are ignored: the cron job below picks up anything
+-- left pending, and queuing must never fail because the worker is unreachable.
+CREATE OR REPLACE FUNCTION public.dispatch_integration_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  BEGIN
+    PERFORM net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/deliver-integration-webhooks',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := jsonb_build_object('deliveryId', NEW.id)
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not dispatch integration delivery %: %', NEW.id, SQLERRM;
+  END;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER dispatch_integration_delivery
+  AFTER INSERT ON public.integration_deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.dispatch_integration_delivery();
+
+-- Queue a delivery of the event for every enabled integration subscribed to it
+CREATE OR REPLACE FUNCTION public.queue_integration_deliveries(p_event_type TEXT, p_payload JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.integration_deliveries (integration_id, event_type, payload)
+  SELECT id, p_event_type, p_payload
+  FROM public.external_integrations
+  WHERE enabled
+    AND type IN ('webhook', 'slack', 'zapier', 'api')
+    AND event_types @> ARRAY[p_event_type];
+END;
+$$;
+
+-- Published articles and new AI suggestions already pass through record_workflow_event (see
+-- 20250728000000_add_workflow_event_triggers.sql); it now notifies integrations as well
+CREATE OR REPLACE FUNCTION public.record_workflow_event(
+  p_event_type TEXT,
+  p_table_name TEXT,
+  p_record_id TEXT,
+  p_record JSONB,
+  p_old_record JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.workflows WHERE event_types @> ARRAY[p_event_type]) THEN
+    INSERT INTO public.workflow_events (event_type, table_name, record_id, record, old_record)
+    VALUES (p_event_type, p_table_name, p_record_id, p_record, p_old_record);
+  END IF;
+
+  PERFORM public.queue_integration_deliveries(p_event_type, p_record);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_workflow_run_failed_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'failed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'failed') THEN
+    PERFORM public.queue_integration_deliveries('workflow_run.failed', jsonb_build_object(
+      'id', NEW.id,
+      'workflow_id', NEW.workflow_id,
+      'workflow_name', (SELECT name FROM public.workflows WHERE id = NEW.workflow_id),
+      'workflow_rule_id', NEW.workflow_rule_id,
+      'trigger_type', NEW.trigger_type,
+      'error_message', NEW.error_message,
+      'started_at', NEW.started_at,
+      'completed_at', NEW.completed_at
+    ));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_workflow_run_failed_event
+  AFTER INSERT OR UPDATE OF status ON public.workflow_executions
+  FOR EACH ROW EXECUTE FUNCTION public.record_workflow_run_failed_event();
+
+-- Retry failed deliveries once their backoff has passed, every minute
+SELECT cron.schedule(
+  'deliver-integration-webhooks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/deliver-integration-webhooks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('time', now())
+  );
+  $$
+);
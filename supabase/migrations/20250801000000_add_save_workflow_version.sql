@@ -0,0 +1,39 @@
+-- Save a new version of a workflow in one statement. Bumping current_version locks the workflow
+-- row, so concurrent saves (a double click, two tabs) queue up and each gets its own number
+-- instead of both reading the same max and one failing on UNIQUE (workflow_id, version).
+CREATE OR REPLACE FUNCTION public.save_workflow_version(
+  p_workflow_id UUID,
+  p_nodes JSONB,
+  p_note TEXT,
+  p_created_by UUID,
+  p_schedule_enabled BOOLEAN,
+  p_next_run_at TIMESTAMP WITH TIME ZONE,
+  p_event_types TEXT[]
+)
+RETURNS public.workflows
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  saved public.workflows;
+BEGIN
+  UPDATE public.workflows
+  SET nodes = p_nodes,
+      current_version = current_version + 1,
+      schedule_enabled = p_schedule_enabled,
+      next_run_at = p_next_run_at,
+      event_types = p_event_types,
+      updated_at = now()
+  WHERE id = p_workflow_id
+  RETURNING * INTO saved;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workflow % not found', p_workflow_id;
+  END IF;
+
+  INSERT INTO public.workflow_versions (workflow_id, version, nodes, note, created_by)
+  VALUES (p_workflow_id, saved.current_version, p_nodes, p_note, p_created_by);
+
+  RETURN saved;
+END;
+$$;